@@ -0,0 +1,35 @@
+CREATE TABLE `automation_run_steps` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`run_id` integer NOT NULL,
+	`position` integer NOT NULL,
+	`step_type` text NOT NULL,
+	`ref_id` integer,
+	`status` text NOT NULL,
+	`entity_id` text,
+	`actual_value` text,
+	`message` text,
+	`details` text,
+	`error` text,
+	`duration_ms` integer DEFAULT 0 NOT NULL,
+	`created_at` text NOT NULL,
+	FOREIGN KEY (`run_id`) REFERENCES `automation_runs`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `automation_run_steps_run_id_idx` ON `automation_run_steps` (`run_id`);--> statement-breakpoint
+CREATE TABLE `automation_runs` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`automation_id` integer NOT NULL,
+	`trigger_type` text NOT NULL,
+	`trigger_id` integer,
+	`trigger_entity_id` text,
+	`status` text NOT NULL,
+	`conditions_passed` integer DEFAULT false NOT NULL,
+	`error` text,
+	`started_at` text NOT NULL,
+	`finished_at` text NOT NULL,
+	`duration_ms` integer DEFAULT 0 NOT NULL,
+	`created_at` text NOT NULL,
+	FOREIGN KEY (`automation_id`) REFERENCES `automations`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `automation_runs_automation_id_idx` ON `automation_runs` (`automation_id`);
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `automations` ADD `ha_automation_id` text;--> statement-breakpoint
+ALTER TABLE `automations` ADD `last_synced_at` text;--> statement-breakpoint
+ALTER TABLE `automations` ADD `ha_config_hash` text;
\ No newline at end of file
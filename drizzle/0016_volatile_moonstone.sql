@@ -0,0 +1,10 @@
+CREATE TABLE `automation_schedules` (
+	`trigger_id` integer PRIMARY KEY NOT NULL,
+	`automation_id` integer NOT NULL,
+	`next_fire_at` text,
+	`last_fired_at` text,
+	`updated_at` text NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE `automation_triggers` ADD `cron` text;--> statement-breakpoint
+ALTER TABLE `automations` ADD `missed_run_policy` text DEFAULT 'skip' NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `automations` ADD `variables` text;
\ No newline at end of file
@@ -0,0 +1,35 @@
+CREATE TABLE `tariff_versions` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`tariff_id` integer NOT NULL,
+	`version` integer NOT NULL,
+	`effective_from` text NOT NULL,
+	`effective_to` text,
+	`rates` text NOT NULL,
+	`notes` text,
+	`created_at` text NOT NULL,
+	`updated_at` text NOT NULL,
+	FOREIGN KEY (`tariff_id`) REFERENCES `tariffs`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `tariff_versions_tariff_id_version_idx` ON `tariff_versions` (`tariff_id`,`version`);--> statement-breakpoint
+CREATE TABLE `tariffs` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`utility` text,
+	`description` text,
+	`active` integer DEFAULT false NOT NULL,
+	`created_at` text NOT NULL,
+	`updated_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `tariffs_name_unique` ON `tariffs` (`name`);--> statement-breakpoint
+ALTER TABLE `energy_bills` ADD `tariff_version_id` integer REFERENCES tariff_versions(id);--> statement-breakpoint
+ALTER TABLE `energy_bills` ADD `period_start` text;--> statement-breakpoint
+ALTER TABLE `energy_bills` ADD `period_end` text;--> statement-breakpoint
+ALTER TABLE `energy_bills` ADD `energy_charge` real DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `energy_bills` ADD `rider_charges` real DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `energy_bills` ADD `tax_charges` real DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `energy_bills` ADD `line_items` text;--> statement-breakpoint
+UPDATE `energy_bills` SET `energy_charge` = `energy_charge_tier1_cost` + `energy_charge_tier2_cost`, `rider_charges` = `fuel_cost` + `franchise_fee`, `tax_charges` = `gross_receipts_tax` + `public_service_tax`;--> statement-breakpoint
+INSERT INTO `tariffs` (`name`, `utility`, `description`, `active`, `created_at`, `updated_at`) VALUES ('Standard Residential', NULL, 'Rates previously built into the bill calculator', 1, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'), strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));--> statement-breakpoint
+INSERT INTO `tariff_versions` (`tariff_id`, `version`, `effective_from`, `effective_to`, `rates`, `notes`, `created_at`, `updated_at`) SELECT `id`, 1, '2000-01-01', NULL, '{"customerCharge":17.5,"tiers":[{"name":null,"upToKwh":1000,"rate":0.06846},{"name":null,"upToKwh":null,"rate":0.08346}],"touPeriods":[],"seasons":[],"riders":[{"name":"Fuel Cost","code":"fuel","type":"percent","value":2.5,"basis":"energy"},{"name":"City Franchise Fee","code":"franchise","type":"percent","value":3.5,"basis":"energy_and_riders"}],"taxes":[{"name":"Gross Receipts Tax","code":"gross_receipts_tax","type":"percent","value":4.5,"basis":"subtotal"},{"name":"Public Service Tax","code":"public_service_tax","type":"fixed","value":2.5}]}', NULL, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'), strftime('%Y-%m-%dT%H:%M:%fZ', 'now') FROM `tariffs` WHERE `name` = 'Standard Residential';
@@ -0,0 +1,16 @@
+CREATE TABLE `energy_intervals` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`entity_id` text NOT NULL,
+	`date` text NOT NULL,
+	`interval_minutes` integer DEFAULT 15 NOT NULL,
+	`values` text NOT NULL,
+	`total_kwh` real DEFAULT 0 NOT NULL,
+	`peak_kw` real,
+	`timezone` text NOT NULL,
+	`source` text DEFAULT 'ha_history' NOT NULL,
+	`created_at` text NOT NULL,
+	`updated_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `energy_intervals_entity_id_date_idx` ON `energy_intervals` (`entity_id`,`date`);--> statement-breakpoint
+ALTER TABLE `energy_bills` ADD `demand_charge` real DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE `energy_ingestion_status` (
+	`entity_id` text PRIMARY KEY NOT NULL,
+	`last_attempt_at` text,
+	`last_success_at` text,
+	`last_reading_date` text,
+	`last_kwh_value` real,
+	`days_ingested` integer DEFAULT 0 NOT NULL,
+	`last_error` text,
+	`updated_at` text NOT NULL
+);
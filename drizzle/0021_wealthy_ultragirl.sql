@@ -0,0 +1,6 @@
+ALTER TABLE `energy_bills` ADD `import_kwh` real DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `energy_bills` ADD `export_kwh` real DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `energy_bills` ADD `export_credit` real DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `energy_bills` ADD `bank_kwh` real DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `energy_bills` ADD `bank_credit` real DEFAULT 0 NOT NULL;--> statement-breakpoint
+UPDATE `energy_bills` SET `import_kwh` = `total_kwh_used`;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE `actual_bills` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`billing_month` text NOT NULL,
+	`period_start` text,
+	`period_end` text,
+	`total_kwh` real,
+	`total_amount` real NOT NULL,
+	`line_items` text NOT NULL,
+	`source` text DEFAULT 'manual' NOT NULL,
+	`notes` text,
+	`created_at` text NOT NULL,
+	`updated_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `actual_bills_billing_month_unique` ON `actual_bills` (`billing_month`);
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE `outdoor_temperatures` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`date` text NOT NULL,
+	`entity_id` text,
+	`mean_temp` real NOT NULL,
+	`min_temp` real,
+	`max_temp` real,
+	`unit` text DEFAULT 'F' NOT NULL,
+	`samples` integer DEFAULT 0 NOT NULL,
+	`source` text DEFAULT 'ha_history' NOT NULL,
+	`created_at` text NOT NULL,
+	`updated_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `outdoor_temperatures_date_unique` ON `outdoor_temperatures` (`date`);
\ No newline at end of file
@@ -0,0 +1,36 @@
+CREATE TABLE `energy_alert_rules` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`type` text NOT NULL,
+	`entity_id` text,
+	`threshold` real NOT NULL,
+	`direction` text DEFAULT 'above' NOT NULL,
+	`baseline_weeks` integer DEFAULT 8 NOT NULL,
+	`enabled` integer DEFAULT true NOT NULL,
+	`notify` integer DEFAULT false NOT NULL,
+	`notify_service` text,
+	`created_at` text NOT NULL,
+	`updated_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `energy_alerts` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`rule_id` integer NOT NULL,
+	`type` text NOT NULL,
+	`entity_id` text,
+	`period` text NOT NULL,
+	`value` real NOT NULL,
+	`expected` real,
+	`deviation` real,
+	`severity` text DEFAULT 'warning' NOT NULL,
+	`message` text NOT NULL,
+	`status` text DEFAULT 'open' NOT NULL,
+	`notified_at` text,
+	`notify_error` text,
+	`acknowledged_at` text,
+	`created_at` text NOT NULL,
+	FOREIGN KEY (`rule_id`) REFERENCES `energy_alert_rules`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `energy_alerts_rule_id_period_idx` ON `energy_alerts` (`rule_id`,`period`);--> statement-breakpoint
+INSERT INTO `energy_alert_rules` (`name`, `type`, `entity_id`, `threshold`, `direction`, `baseline_weeks`, `enabled`, `notify`, `notify_service`, `created_at`, `updated_at`) VALUES ('Unusual daily usage', 'anomaly', NULL, 3, 'above', 8, 1, 0, NULL, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'), strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
\ No newline at end of file
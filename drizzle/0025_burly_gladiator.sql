@@ -0,0 +1,16 @@
+CREATE TABLE `camera_recording_settings` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`camera_id` integer NOT NULL,
+	`mode` text DEFAULT 'off' NOT NULL,
+	`schedule` text,
+	`pre_roll_seconds` integer DEFAULT 5 NOT NULL,
+	`post_roll_seconds` integer DEFAULT 10 NOT NULL,
+	`segment_seconds` integer DEFAULT 300 NOT NULL,
+	`storage_location_id` integer,
+	`created_at` text NOT NULL,
+	`updated_at` text NOT NULL,
+	FOREIGN KEY (`camera_id`) REFERENCES `cameras`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`storage_location_id`) REFERENCES `nvr_storage_locations`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `camera_recording_settings_camera_id_unique` ON `camera_recording_settings` (`camera_id`);
\ No newline at end of file
@@ -0,0 +1,24 @@
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_nvr_storage_locations` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`path` text NOT NULL,
+	`type` text NOT NULL,
+	`capacity_gb` integer DEFAULT 0 NOT NULL,
+	`used_gb` real DEFAULT 0 NOT NULL,
+	`free_gb` real,
+	`usage_checked_at` text,
+	`enabled` integer DEFAULT true,
+	`created_at` text NOT NULL,
+	`updated_at` text NOT NULL
+);
+--> statement-breakpoint
+INSERT INTO `__new_nvr_storage_locations`("id", "name", "path", "type", "capacity_gb", "used_gb", "enabled", "created_at", "updated_at") SELECT "id", "name", "path", "type", "capacity_gb", "used_gb", "enabled", "created_at", "updated_at" FROM `nvr_storage_locations`;--> statement-breakpoint
+DROP TABLE `nvr_storage_locations`;--> statement-breakpoint
+ALTER TABLE `__new_nvr_storage_locations` RENAME TO `nvr_storage_locations`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;--> statement-breakpoint
+CREATE UNIQUE INDEX `nvr_storage_locations_name_unique` ON `nvr_storage_locations` (`name`);--> statement-breakpoint
+CREATE UNIQUE INDEX `nvr_storage_locations_path_unique` ON `nvr_storage_locations` (`path`);--> statement-breakpoint
+ALTER TABLE `camera_recording_settings` ADD `retention_days` integer;--> statement-breakpoint
+ALTER TABLE `camera_recording_settings` ADD `retention_gb` real;--> statement-breakpoint
+ALTER TABLE `recordings` ADD `keep_forever` integer DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `recordings` ADD `poster_filename` text;--> statement-breakpoint
+ALTER TABLE `recordings` ADD `sprite_filename` text;--> statement-breakpoint
+ALTER TABLE `recordings` ADD `sprite_interval` integer;
\ No newline at end of file
@@ -0,0 +1,7 @@
+import { deprecatedAlias } from '@/lib/automation-api';
+import * as v1 from '@/app/api/v1/automations/[id]/route';
+
+// Deprecated: use /api/v1/automations/[id]
+export const GET = deprecatedAlias(v1.GET);
+export const PUT = deprecatedAlias(v1.PUT);
+export const DELETE = deprecatedAlias(v1.DELETE);
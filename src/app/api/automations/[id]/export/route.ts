@@ -0,0 +1,5 @@
+import { deprecatedAlias } from '@/lib/automation-api';
+import * as v1 from '@/app/api/v1/automations/[id]/export/route';
+
+// Deprecated: use /api/v1/automations/[id]/export
+export const GET = deprecatedAlias(v1.GET);
@@ -0,0 +1,5 @@
+import { deprecatedAlias } from '@/lib/automation-api';
+import * as v1 from '@/app/api/v1/automations/[id]/runs/[runId]/route';
+
+// Deprecated: use /api/v1/automations/[id]/runs/[runId]
+export const GET = deprecatedAlias(v1.GET);
@@ -0,0 +1,5 @@
+import { deprecatedAlias } from '@/lib/automation-api';
+import * as v1 from '@/app/api/v1/automations/[id]/sync/route';
+
+// Deprecated: use /api/v1/automations/[id]/sync
+export const POST = deprecatedAlias(v1.POST);
@@ -0,0 +1,6 @@
+import { deprecatedAlias } from '@/lib/automation-api';
+import * as v1 from '@/app/api/v1/automations/engine/route';
+
+// Deprecated: use /api/v1/automations/engine
+export const GET = deprecatedAlias(v1.GET);
+export const POST = deprecatedAlias(v1.POST);
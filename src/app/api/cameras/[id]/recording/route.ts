@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cameraErrorResponse, parseCameraId } from '@/lib/camera-service';
+import { getCameraRecorder, getRecordingSettings, saveRecordingSettings } from '@/lib/camera-recorder';
+
+// GET /api/cameras/[id]/recording
+// The camera's recording settings and what the recorder is doing for it now
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const cameraId = parseCameraId(params.id);
+    const settings = await getRecordingSettings(cameraId);
+    const [status] = getCameraRecorder().getStatus(cameraId);
+    return NextResponse.json({ settings, status: status ?? null });
+  } catch (error) {
+    return cameraErrorResponse(error, 'GET /api/cameras/[id]/recording');
+  }
+}
+
+// PUT /api/cameras/[id]/recording
+// Body: any of mode, schedule, preRollSeconds, postRollSeconds,
+// segmentSeconds, storageLocationId. Applies to the running recorder at once.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const cameraId = parseCameraId(params.id);
+    const settings = await saveRecordingSettings(cameraId, await request.json());
+
+    const recorder = getCameraRecorder();
+    await recorder.reload();
+    const [status] = recorder.getStatus(cameraId);
+    return NextResponse.json({ settings, status: status ?? null });
+  } catch (error) {
+    return cameraErrorResponse(error, 'PUT /api/cameras/[id]/recording');
+  }
+}
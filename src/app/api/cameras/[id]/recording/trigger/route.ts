@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CameraApiError, cameraErrorResponse, parseCameraId } from '@/lib/camera-service';
+import { DEFAULT_MANUAL_SECONDS, MAX_MANUAL_SECONDS, getCameraRecorder } from '@/lib/camera-recorder';
+
+// POST /api/cameras/[id]/recording/trigger
+// Body (optional): { duration } in seconds. Records the camera from its
+// pre-roll until duration plus post-roll from now; the recordings row appears
+// once the file is written.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const cameraId = parseCameraId(params.id);
+    const text = await request.text();
+    const body = text ? JSON.parse(text) : {};
+
+    const duration = body?.duration === undefined ? DEFAULT_MANUAL_SECONDS : Number(body.duration);
+    if (!Number.isInteger(duration) || duration < 1 || duration > MAX_MANUAL_SECONDS) {
+      throw new CameraApiError(`duration must be a whole number of seconds from 1 to ${MAX_MANUAL_SECONDS}`, 'INVALID_DURATION');
+    }
+
+    const status = await getCameraRecorder().trigger(cameraId, duration);
+    return NextResponse.json(status, { status: 202 });
+  } catch (error) {
+    return cameraErrorResponse(error, 'POST /api/cameras/[id]/recording/trigger');
+  }
+}
@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
-import { cameras, recordings } from '@/db/schema';
+import { cameraRecordingSettings, cameras } from '@/db/schema';
 import { eq, and } from 'drizzle-orm';
+import { getCameraStreamGateway } from '@/lib/camera-stream';
+import { getCameraRecorder } from '@/lib/camera-recorder';
+import { deleteCameraRecordings } from '@/lib/nvr-storage';
 
 export async function PUT(
   request: NextRequest,
@@ -171,6 +174,12 @@ export async function PUT(
       }, { status: 500 });
     }
 
+    // A running restream keeps the old source until restarted
+    if ([connectionType, url, username, password, format].some(value => value !== undefined)) {
+      await getCameraStreamGateway().stop(cameraId);
+    }
+    await getCameraRecorder().reload();
+
     return NextResponse.json(updatedCamera[0], { status: 200 });
 
   } catch (error) {
@@ -211,10 +220,14 @@ export async function DELETE(
       }, { status: 404 });
     }
 
-    // CASCADE DELETE: First delete all associated recordings
-    const deletedRecordings = await db.delete(recordings)
-      .where(eq(recordings.cameraId, cameraId))
-      .returning();
+    await getCameraStreamGateway().stop(cameraId);
+
+    // CASCADE DELETE: First delete all associated recordings, with their
+    // files, posters and sprite sheets
+    const deletedRecordings = await deleteCameraRecordings(cameraId);
+
+    await db.delete(cameraRecordingSettings)
+      .where(eq(cameraRecordingSettings.cameraId, cameraId));
 
     // Then delete the camera
     const deletedCamera = await db.delete(cameras)
@@ -228,6 +241,8 @@ export async function DELETE(
       }, { status: 500 });
     }
 
+    await getCameraRecorder().reload();
+
     return NextResponse.json({
       message: "Camera deleted successfully",
       deletedCamera: deletedCamera[0],
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cameraErrorResponse, parseCameraId } from '@/lib/camera-service';
+import { getSnapshot } from '@/lib/camera-thumbnails';
+
+// GET /api/cameras/[id]/snapshot
+// A JPEG grabbed from the camera, at most 5 s old. Waits up to 10 s for a
+// frame. ?download=1 saves it as a file.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const cameraId = parseCameraId(params.id);
+    const { jpeg, takenAt } = await getSnapshot(cameraId);
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'image/jpeg',
+      'Cache-Control': 'private, max-age=5',
+      'Last-Modified': new Date(takenAt).toUTCString()
+    };
+    if (new URL(request.url).searchParams.get('download')) {
+      headers['Content-Disposition'] = `attachment; filename="camera_${cameraId}_${takenAt.replace(/[-:]/g, '').slice(0, 15)}.jpg"`;
+    }
+    return new NextResponse(new Uint8Array(jpeg), { headers });
+  } catch (error) {
+    return cameraErrorResponse(error, 'GET /api/cameras/[id]/snapshot');
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cameraErrorResponse, parseCameraId } from '@/lib/camera-service';
+import { getCameraStreamGateway } from '@/lib/camera-stream';
+
+// GET /api/cameras/[id]/stream/seg_00042.ts - a segment named in the playlist
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; file: string } }
+) {
+  try {
+    const segment = await getCameraStreamGateway().segment(parseCameraId(params.id), params.file);
+    return new NextResponse(new Uint8Array(segment), {
+      headers: {
+        'Content-Type': 'video/mp2t',
+        'Cache-Control': 'max-age=60'
+      }
+    });
+  } catch (error) {
+    return cameraErrorResponse(error, 'GET /api/cameras/[id]/stream/[file]');
+  }
+}
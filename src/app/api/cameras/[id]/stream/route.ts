@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cameraErrorResponse, parseCameraId } from '@/lib/camera-service';
+import { getCameraStreamGateway } from '@/lib/camera-stream';
+
+// GET /api/cameras/[id]/stream
+// HLS playlist for an RTSP/RTMP camera, starting its ffmpeg restream on the
+// first request. Waits up to 15 s for the first segment.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const playlist = await getCameraStreamGateway().playlist(parseCameraId(params.id));
+    return new NextResponse(playlist, {
+      headers: {
+        'Content-Type': 'application/vnd.apple.mpegurl',
+        'Cache-Control': 'no-cache, no-store'
+      }
+    });
+  } catch (error) {
+    return cameraErrorResponse(error, 'GET /api/cameras/[id]/stream');
+  }
+}
+
+// Stops the restream now instead of when it goes idle
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const stopped = await getCameraStreamGateway().stop(parseCameraId(params.id));
+    return NextResponse.json({ stopped });
+  } catch (error) {
+    return cameraErrorResponse(error, 'DELETE /api/cameras/[id]/stream');
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseId, tariffErrorResponse } from '@/lib/tariff-service';
+import { deleteActualBill, getActualBill, updateActualBill } from '@/lib/energy-reconciliation';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    return NextResponse.json(await getActualBill(parseId(params.id, 'INVALID_ID', 'actual bill')));
+  } catch (error) {
+    return tariffErrorResponse(error, 'GET /api/energy/actual-bills/[id]');
+  }
+}
+
+// Fields not given keep their values; new line items without a totalAmount
+// recompute the total from them
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const bill = await updateActualBill(parseId(params.id, 'INVALID_ID', 'actual bill'), await request.json());
+    return NextResponse.json(bill);
+  } catch (error) {
+    return tariffErrorResponse(error, 'PUT /api/energy/actual-bills/[id]');
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const deleted = await deleteActualBill(parseId(params.id, 'INVALID_ID', 'actual bill'));
+    return NextResponse.json({
+      message: 'Actual bill deleted successfully',
+      deletedBill: deleted
+    });
+  } catch (error) {
+    return tariffErrorResponse(error, 'DELETE /api/energy/actual-bills/[id]');
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TariffApiError } from '@/lib/tariff';
+import { tariffErrorResponse } from '@/lib/tariff-service';
+import { parseActualBillsCsv, saveActualBill } from '@/lib/energy-reconciliation';
+
+// POST /api/energy/actual-bills/import[?replace=true]
+// Body is the CSV itself (text/csv) or { csv, replace? }. One row per bill
+// line: billing_month,category,code,name,kwh,amount[,period_start,period_end],
+// with category "total" for the bill total. Months that already have a bill
+// are skipped unless replace is set; rows that fail validation are reported
+// and the rest still imported.
+export async function POST(request: NextRequest) {
+  try {
+    let replace = new URL(request.url).searchParams.get('replace') === 'true';
+    let csv: unknown;
+
+    if ((request.headers.get('content-type') || '').includes('application/json')) {
+      const body = await request.json();
+      csv = body?.csv;
+      replace = replace || body?.replace === true;
+    } else {
+      csv = await request.text();
+    }
+
+    if (typeof csv !== 'string' || !csv.trim()) {
+      return NextResponse.json({
+        error: 'CSV content is required',
+        code: 'MISSING_CSV'
+      }, { status: 400 });
+    }
+
+    const { bills, errors } = parseActualBillsCsv(csv);
+    const imported: string[] = [];
+    const replaced: string[] = [];
+    const skipped: string[] = [];
+
+    for (const input of bills) {
+      try {
+        const result = await saveActualBill(input, replace);
+        (result.replaced ? replaced : imported).push(input.billingMonth);
+      } catch (error) {
+        if (!(error instanceof TariffApiError) || error.code !== 'ACTUAL_BILL_EXISTS') throw error;
+        skipped.push(input.billingMonth);
+      }
+    }
+
+    return NextResponse.json({ imported, replaced, skipped, errors });
+  } catch (error) {
+    return tariffErrorResponse(error, 'POST /api/energy/actual-bills/import');
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { tariffErrorResponse } from '@/lib/tariff-service';
+import { listActualBills, saveActualBill, validateActualBill } from '@/lib/energy-reconciliation';
+
+const MONTH_REGEX = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+// GET /api/energy/actual-bills?from=YYYY-MM&to=YYYY-MM - actual utility bills, oldest first
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+
+    if ((from && !MONTH_REGEX.test(from)) || (to && !MONTH_REGEX.test(to))) {
+      return NextResponse.json({
+        error: 'from and to must be in format YYYY-MM',
+        code: 'INVALID_MONTH_FORMAT'
+      }, { status: 400 });
+    }
+
+    return NextResponse.json(await listActualBills({ from, to }));
+  } catch (error) {
+    return tariffErrorResponse(error, 'GET /api/energy/actual-bills');
+  }
+}
+
+// POST /api/energy/actual-bills[?replace=true] - enter the bill for a month:
+// { billingMonth, periodStart?, periodEnd?, totalKwh?, totalAmount?,
+//   lineItems: [{ category, code?, name, kwh?, amount }], source?, notes? }
+export async function POST(request: NextRequest) {
+  try {
+    const replace = new URL(request.url).searchParams.get('replace') === 'true';
+    const { bill, replaced } = await saveActualBill(validateActualBill(await request.json()), replace);
+    return NextResponse.json({ ...bill, replaced }, { status: replaced ? 200 : 201 });
+  } catch (error) {
+    return tariffErrorResponse(error, 'POST /api/energy/actual-bills');
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteAlertRule, getAlertRule, updateAlertRule } from '@/lib/energy-alerts';
+import { parseId, tariffErrorResponse } from '@/lib/tariff-service';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    return NextResponse.json(await getAlertRule(parseId(params.id, 'INVALID_ID', 'alert rule')));
+  } catch (error) {
+    return tariffErrorResponse(error, 'GET /api/energy/alert-rules/[id]');
+  }
+}
+
+// Fields not given keep their values
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const rule = await updateAlertRule(parseId(params.id, 'INVALID_ID', 'alert rule'), await request.json());
+    return NextResponse.json(rule);
+  } catch (error) {
+    return tariffErrorResponse(error, 'PUT /api/energy/alert-rules/[id]');
+  }
+}
+
+// Deletes the rule's alerts as well
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const deleted = await deleteAlertRule(parseId(params.id, 'INVALID_ID', 'alert rule'));
+    return NextResponse.json({
+      message: 'Alert rule deleted successfully',
+      deletedRule: deleted
+    });
+  } catch (error) {
+    return tariffErrorResponse(error, 'DELETE /api/energy/alert-rules/[id]');
+  }
+}
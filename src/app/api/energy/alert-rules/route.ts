@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAlertRule, listAlertEntities, listAlertRules } from '@/lib/energy-alerts';
+import { tariffErrorResponse } from '@/lib/tariff-service';
+
+// GET /api/energy/alert-rules
+// Rules, and the device entities with readings a rule can watch
+export async function GET() {
+  try {
+    const [rules, entities] = await Promise.all([listAlertRules(), listAlertEntities()]);
+    return NextResponse.json({ rules, entities });
+  } catch (error) {
+    return tariffErrorResponse(error, 'GET /api/energy/alert-rules');
+  }
+}
+
+// POST /api/energy/alert-rules
+// { name, type: anomaly|daily_kwh|monthly_cost, threshold, entityId?,
+//   direction?, baselineWeeks?, enabled?, notify?, notifyService? }
+export async function POST(request: NextRequest) {
+  try {
+    const rule = await createAlertRule(await request.json());
+    return NextResponse.json(rule, { status: 201 });
+  } catch (error) {
+    return tariffErrorResponse(error, 'POST /api/energy/alert-rules');
+  }
+}
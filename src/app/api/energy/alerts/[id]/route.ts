@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { updateAlertStatus } from '@/lib/energy-alerts';
+import { parseId, tariffErrorResponse } from '@/lib/tariff-service';
+
+// { status: open|acknowledged }
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+    const alert = await updateAlertStatus(parseId(params.id, 'INVALID_ID', 'alert'), body?.status);
+    return NextResponse.json(alert);
+  } catch (error) {
+    return tariffErrorResponse(error, 'PUT /api/energy/alerts/[id]');
+  }
+}
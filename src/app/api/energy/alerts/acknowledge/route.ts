@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { acknowledgeAlerts } from '@/lib/energy-alerts';
+import { tariffErrorResponse } from '@/lib/tariff-service';
+
+// POST /api/energy/alerts/acknowledge
+// { ids?: number[] } - every open alert when ids is left out
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const ids = body?.ids;
+
+    if (ids !== undefined && (!Array.isArray(ids) || !ids.every(id => Number.isInteger(id) && id > 0))) {
+      return NextResponse.json({
+        error: 'ids must be an array of alert ids',
+        code: 'INVALID_IDS'
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({ acknowledged: await acknowledgeAlerts(ids) });
+  } catch (error) {
+    return tariffErrorResponse(error, 'POST /api/energy/alerts/acknowledge');
+  }
+}
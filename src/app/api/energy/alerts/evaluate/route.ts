@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { evaluateAlerts } from '@/lib/energy-alerts';
+import { tariffErrorResponse } from '@/lib/tariff-service';
+
+// POST /api/energy/alerts/evaluate
+// { date_from?, date_to? } - the last three complete days by default. The
+// collector runs this after every collection; call it directly to backfill
+// alerts for a new rule.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    return NextResponse.json(await evaluateAlerts({ from: body?.date_from ?? null, to: body?.date_to ?? null }));
+  } catch (error) {
+    return tariffErrorResponse(error, 'POST /api/energy/alerts/evaluate');
+  }
+}
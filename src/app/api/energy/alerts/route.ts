@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ALERT_STATUSES, listAlerts, type AlertStatus } from '@/lib/energy-alerts';
+import { tariffErrorResponse } from '@/lib/tariff-service';
+
+// GET /api/energy/alerts?status=open|acknowledged&limit=50
+// Newest first, with the name of the rule that raised each
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+    const limit = Number(searchParams.get('limit') || 50);
+
+    if (status !== null && !ALERT_STATUSES.includes(status as AlertStatus)) {
+      return NextResponse.json({
+        error: `status must be one of: ${ALERT_STATUSES.join(', ')}`,
+        code: 'INVALID_STATUS'
+      }, { status: 400 });
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > 500) {
+      return NextResponse.json({
+        error: 'limit must be a whole number from 1 to 500',
+        code: 'INVALID_LIMIT'
+      }, { status: 400 });
+    }
+
+    return NextResponse.json(await listAlerts({ status: status as AlertStatus | null, limit }));
+  } catch (error) {
+    return tariffErrorResponse(error, 'GET /api/energy/alerts');
+  }
+}
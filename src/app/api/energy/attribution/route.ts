@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getIntervalSettings, localToday } from '@/lib/energy-intervals';
+import { attributeMonth } from '@/lib/energy-attribution';
+import { tariffErrorResponse } from '@/lib/tariff-service';
+
+// GET /api/energy/attribution?month=YYYY-MM
+// kWh and cost per device sensor, the unmonitored remainder, always-on load
+// and ranked savings opportunities. Defaults to the current month.
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { timezone } = await getIntervalSettings();
+    const month = searchParams.get('month') || localToday(timezone).slice(0, 7);
+
+    if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) {
+      return NextResponse.json({
+        error: 'Invalid month format. Expected YYYY-MM (e.g., 2024-12)',
+        code: 'INVALID_MONTH_FORMAT'
+      }, { status: 400 });
+    }
+
+    return NextResponse.json(await attributeMonth(month));
+  } catch (error) {
+    return tariffErrorResponse(error, 'GET energy attribution');
+  }
+}
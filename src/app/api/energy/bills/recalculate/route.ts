@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { recalculateBills } from '@/lib/energy-billing';
+import { TariffApiError } from '@/lib/tariff';
+import { parseId, tariffErrorResponse } from '@/lib/tariff-service';
+
+const MONTH_REGEX = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+// POST /api/energy/bills/recalculate - recalculate saved bills with the
+// tariff versions now on file: { from?: YYYY-MM, to?: YYYY-MM, tariffId?, dryRun? }
+//
+// Bills keep their billed dates. With dryRun nothing is written and the
+// response shows what each bill would change to.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { from, to, tariffId, dryRun } = body ?? {};
+
+    for (const [key, value] of Object.entries({ from, to })) {
+      if (value !== undefined && value !== null && (typeof value !== 'string' || !MONTH_REGEX.test(value))) {
+        throw new TariffApiError(`${key} must be in format YYYY-MM`, 'INVALID_MONTH_FORMAT');
+      }
+    }
+
+    const bills = await recalculateBills({
+      from,
+      to,
+      tariffId: tariffId === undefined || tariffId === null ? null : parseId(String(tariffId)),
+      dryRun: dryRun === true
+    });
+
+    const changed = bills.filter(bill => !bill.error && bill.difference !== 0);
+    return NextResponse.json({
+      dryRun: dryRun === true,
+      summary: {
+        total: bills.length,
+        changed: changed.length,
+        failed: bills.filter(bill => bill.error).length,
+        totalDifference: Math.round(changed.reduce((sum, bill) => sum + bill.difference, 0) * 100) / 100
+      },
+      bills
+    });
+  } catch (error) {
+    return tariffErrorResponse(error, 'POST /api/energy/bills/recalculate');
+  }
+}
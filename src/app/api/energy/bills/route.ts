@@ -232,6 +232,9 @@ export async function POST(request: NextRequest) {
       grossReceiptsTax: grossReceiptsTax ?? 0,
       publicServiceTax: publicServiceTax ?? 0,
       totalBillAmount: calculatedTotalBillAmount,
+      energyCharge: calculatedTier1Cost + calculatedTier2Cost,
+      riderCharges: (fuelCost ?? 0) + (franchiseFee ?? 0),
+      taxCharges: (grossReceiptsTax ?? 0) + (publicServiceTax ?? 0),
       createdAt: now,
       updatedAt: now
     };
@@ -343,7 +346,7 @@ export async function PUT(request: NextRequest) {
     }
 
     // Prepare update data
-    const updates = {};
+    const updates: Partial<typeof energyBills.$inferInsert> = {};
     
     if (billingMonth !== undefined) updates.billingMonth = billingMonth;
     if (totalKwhUsed !== undefined) updates.totalKwhUsed = totalKwhUsed;
@@ -360,6 +363,18 @@ export async function PUT(request: NextRequest) {
     if (publicServiceTax !== undefined) updates.publicServiceTax = publicServiceTax;
     if (totalBillAmount !== undefined) updates.totalBillAmount = totalBillAmount;
 
+    // Keep the charge totals in step with any fixed columns edited here
+    const merged = { ...existingRecord[0], ...updates };
+    if (energyChargeTier1Cost !== undefined || energyChargeTier2Cost !== undefined) {
+      updates.energyCharge = merged.energyChargeTier1Cost + merged.energyChargeTier2Cost;
+    }
+    if (fuelCost !== undefined || franchiseFee !== undefined) {
+      updates.riderCharges = merged.fuelCost + merged.franchiseFee;
+    }
+    if (grossReceiptsTax !== undefined || publicServiceTax !== undefined) {
+      updates.taxCharges = merged.grossReceiptsTax + merged.publicServiceTax;
+    }
+
     updates.updatedAt = new Date().toISOString();
 
     const updated = await db.update(energyBills)
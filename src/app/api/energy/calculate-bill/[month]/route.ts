@@ -1,12 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
-import { energyReadings, energyBills } from '@/db/schema';
-import { eq, like, sum, gte, lte, and } from 'drizzle-orm';
-
-// Helper function to get actual days in a month
-function getDaysInMonth(year: number, month: number): number {
-  return new Date(year, month, 0).getDate();
-}
+import { energyBills } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import {
+  billColumns,
+  billingPeriod,
+  calendarMonthPeriod,
+  computeBill,
+  describeTariff,
+  loadPreviousBank,
+  loadUsage,
+  summarizeBill
+} from '@/lib/energy-billing';
+import { parseId, resolveBillingTariff, tariffErrorResponse } from '@/lib/tariff-service';
 
 // Helper function to check if a year is a leap year
 function isLeapYear(year: number): boolean {
@@ -63,6 +69,8 @@ export async function GET(
     const { month } = params;
     const { searchParams } = new URL(request.url);
     const shouldSave = searchParams.get('save') === 'true';
+    const shouldReplace = searchParams.get('replace') === 'true';
+    const tariffIdParam = searchParams.get('tariffId');
     
     // Custom billing period parameters
     const customPeriod = searchParams.get('customPeriod') === 'true';
@@ -81,16 +89,11 @@ export async function GET(
     }
 
     let daysBilled: number;
-    let dateRangeQuery: any;
     let dateRangeInfo: any;
 
     if (customPeriod && providedStartDate && providedEndDate) {
       // Use provided custom date range
       daysBilled = Math.ceil((new Date(providedEndDate).getTime() - new Date(providedStartDate).getTime()) / (1000 * 3600 * 24)) + 1;
-      dateRangeQuery = and(
-        gte(energyReadings.readingDate, providedStartDate),
-        lte(energyReadings.readingDate, providedEndDate)
-      );
       dateRangeInfo = {
         startDate: providedStartDate,
         endDate: providedEndDate,
@@ -101,10 +104,6 @@ export async function GET(
       // Calculate custom billing period dates
       const customDates = getCustomBillingPeriodDates(month, startDay, endDay);
       daysBilled = customDates.daysBilled;
-      dateRangeQuery = and(
-        gte(energyReadings.readingDate, customDates.startDateString),
-        lte(energyReadings.readingDate, customDates.endDateString)
-      );
       dateRangeInfo = {
         startDate: customDates.startDateString,
         endDate: customDates.endDateString,
@@ -114,23 +113,20 @@ export async function GET(
       };
     } else {
       // Use calendar month (original behavior)
-      const [yearStr, monthStr] = month.split('-');
-      const year = parseInt(yearStr);
-      const monthNum = parseInt(monthStr);
-      daysBilled = getDaysInMonth(year, monthNum);
-      dateRangeQuery = like(energyReadings.readingDate, `${month}%`);
+      const calendarPeriod = calendarMonthPeriod(month);
+      daysBilled = calendarPeriod.cycleDays;
       dateRangeInfo = {
-        startDate: `${month}-01`,
-        endDate: `${month}-${daysBilled.toString().padStart(2, '0')}`,
+        startDate: calendarPeriod.startDate,
+        endDate: calendarPeriod.endDate,
         daysBilled,
         isCustomPeriod: false
       };
     }
 
-    // Query energy readings for the specified period
-    const readings = await db.select()
-      .from(energyReadings)
-      .where(dateRangeQuery);
+    const period = billingPeriod(month, dateRangeInfo.startDate, dateRangeInfo.endDate);
+
+    // Query energy readings and any interval data for the specified period
+    const { readings, usage } = await loadUsage(period);
 
     if (readings.length === 0) {
       return NextResponse.json({
@@ -141,9 +137,7 @@ export async function GET(
     }
 
     // Calculate total kWh usage for the period
-    const totalKwh = readings.reduce((sum, reading) => {
-      return sum + (reading.monthlyKwh || reading.dailyKwh || 0);
-    }, 0);
+    const totalKwh = usage.reduce((sum, day) => sum + day.kwh, 0);
 
     if (totalKwh <= 0) {
       return NextResponse.json({
@@ -153,64 +147,17 @@ export async function GET(
       }, { status: 404 });
     }
 
-    // Rate constants
-    const BASIC_MONTHLY_CHARGE = 17.50;
-    const TIER1_RATE = 0.06846;
-    const TIER2_RATE = 0.08346;
-    const TIER1_LIMIT = 1000;
-    const FUEL_COST_RATE = 0.025;
-    const FRANCHISE_FEE_RATE = 0.035;
-    const GROSS_RECEIPTS_TAX_RATE = 0.045;
-    const PUBLIC_SERVICE_TAX = 2.50;
-
-    // Calculate bill components
-    let basicMonthlyCharge = BASIC_MONTHLY_CHARGE;
-    
-    // Pro-rate basic monthly charge if custom period doesn't align with calendar month
-    if (customPeriod && daysBilled !== getDaysInMonth(parseInt(month.split('-')[0]), parseInt(month.split('-')[1]))) {
-      const [year, monthNum] = month.split('-').map(Number);
-      const calendarDays = getDaysInMonth(year, monthNum);
-      basicMonthlyCharge = (BASIC_MONTHLY_CHARGE * daysBilled) / calendarDays;
-    }
-    
-    // Tier 1 calculation (first 1000 kWh)
-    const tier1Kwh = Math.min(totalKwh, TIER1_LIMIT);
-    const tier1Cost = tier1Kwh * TIER1_RATE;
-    
-    // Tier 2 calculation (kWh above 1000)
-    const tier2Kwh = Math.max(0, totalKwh - TIER1_LIMIT);
-    const tier2Cost = tier2Kwh * TIER2_RATE;
-    
-    // Fuel cost (2.5% of energy charges)
-    const energyCharges = tier1Cost + tier2Cost;
-    const fuelCost = energyCharges * FUEL_COST_RATE;
-    
-    // Franchise fee (3.5% of energy + fuel costs)
-    const franchiseFee = (energyCharges + fuelCost) * FRANCHISE_FEE_RATE;
-    
-    // Subtotal before taxes
-    const subtotal = basicMonthlyCharge + energyCharges + fuelCost + franchiseFee;
-    
-    // Gross receipts tax (4.5% of subtotal)
-    const grossReceiptsTax = subtotal * GROSS_RECEIPTS_TAX_RATE;
-    
-    // Public service tax (fixed amount, pro-rated for custom periods)
-    let publicServiceTax = PUBLIC_SERVICE_TAX;
-    if (customPeriod && daysBilled !== getDaysInMonth(parseInt(month.split('-')[0]), parseInt(month.split('-')[1]))) {
-      const [year, monthNum] = month.split('-').map(Number);
-      const calendarDays = getDaysInMonth(year, monthNum);
-      publicServiceTax = (PUBLIC_SERVICE_TAX * daysBilled) / calendarDays;
-    }
-    
-    // Total bill amount
-    const totalBillAmount = subtotal + grossReceiptsTax + publicServiceTax;
+    // Rates come from the active tariff (or ?tariffId= to compare plans),
+    // using whichever of its versions is in effect on each day
+    const tariff = await resolveBillingTariff(tariffIdParam ? parseId(tariffIdParam) : null);
+    // Net metering and export credits carry over from the previous saved bill
+    const result = computeBill(tariff, period, usage, await loadPreviousBank(month));
+    const totalBillAmount = result.total;
 
     // Calculate daily averages based on actual days in period
     const dailyKwhAverage = totalKwh / daysBilled;
     const dailyCostAverage = totalBillAmount / daysBilled;
 
-    // Get date range of readings
-    const readingDates = readings.map(r => r.readingDate).sort();
     const [year, monthNum] = month.split('-').map(Number);
     
     const dateRange = {
@@ -239,37 +186,18 @@ export async function GET(
         kwhPerDay: Math.round(dailyKwhAverage * 100) / 100,
         costPerDay: Math.round(dailyCostAverage * 100) / 100
       },
-      calculation: {
-        basicMonthlyCharge: Math.round(basicMonthlyCharge * 100) / 100,
-        energyCharges: {
-          tier1: {
-            kwh: Math.round(tier1Kwh * 100) / 100,
-            rate: TIER1_RATE,
-            cost: Math.round(tier1Cost * 100) / 100
-          },
-          tier2: {
-            kwh: Math.round(tier2Kwh * 100) / 100,
-            rate: TIER2_RATE,
-            cost: Math.round(tier2Cost * 100) / 100
-          },
-          totalEnergyCost: Math.round(energyCharges * 100) / 100
-        },
-        fuelCost: {
-          rate: FUEL_COST_RATE,
-          amount: Math.round(fuelCost * 100) / 100
-        },
-        franchiseFee: {
-          rate: FRANCHISE_FEE_RATE,
-          amount: Math.round(franchiseFee * 100) / 100
-        },
-        subtotal: Math.round(subtotal * 100) / 100,
-        grossReceiptsTax: {
-          rate: GROSS_RECEIPTS_TAX_RATE,
-          amount: Math.round(grossReceiptsTax * 100) / 100
-        },
-        publicServiceTax: Math.round(publicServiceTax * 100) / 100,
-        totalBillAmount: Math.round(totalBillAmount * 100) / 100
-      },
+      tariff: describeTariff(tariff, result),
+      calculation: summarizeBill(result),
+      segments: result.segments.map(segment => ({
+        tariffVersionId: segment.tariffVersionId,
+        version: segment.version,
+        season: segment.season,
+        startDate: segment.startDate,
+        endDate: segment.endDate,
+        days: segment.days,
+        kwh: Math.round(segment.kwh * 100) / 100,
+        total: Math.round(segment.total * 100) / 100
+      })),
       sourceData: {
         readingsCount: readings.length,
         dateRange: dateRange,
@@ -285,7 +213,7 @@ export async function GET(
         .where(eq(energyBills.billingMonth, month))
         .limit(1);
 
-      if (existingBill.length > 0) {
+      if (existingBill.length > 0 && !shouldReplace) {
         return NextResponse.json({
           error: `Bill for month ${month} already exists`,
           code: 'BILL_ALREADY_EXISTS',
@@ -293,41 +221,33 @@ export async function GET(
         }, { status: 409 });
       }
 
-      // Save the calculated bill
-      const newBill = await db.insert(energyBills)
-        .values({
-          billingMonth: month,
-          totalKwhUsed: Math.round(totalKwh * 100) / 100,
-          basicMonthlyCharge: Math.round(basicMonthlyCharge * 100) / 100,
-          energyChargeTier1Kwh: Math.round(tier1Kwh * 100) / 100,
-          energyChargeTier1Rate: TIER1_RATE,
-          energyChargeTier1Cost: Math.round(tier1Cost * 100) / 100,
-          energyChargeTier2Kwh: Math.round(tier2Kwh * 100) / 100,
-          energyChargeTier2Rate: TIER2_RATE,
-          energyChargeTier2Cost: Math.round(tier2Cost * 100) / 100,
-          fuelCost: Math.round(fuelCost * 100) / 100,
-          franchiseFee: Math.round(franchiseFee * 100) / 100,
-          grossReceiptsTax: Math.round(grossReceiptsTax * 100) / 100,
-          publicServiceTax: Math.round(publicServiceTax * 100) / 100,
-          totalBillAmount: Math.round(totalBillAmount * 100) / 100,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString()
-        })
-        .returning();
+      const now = new Date().toISOString();
+      const columns = billColumns(month, result);
+
+      // Save the calculated bill, replacing the stored one when asked to
+      const savedBill = existingBill.length > 0
+        ? await db.update(energyBills)
+          .set({ ...columns, updatedAt: now })
+          .where(eq(energyBills.id, existingBill[0].id))
+          .returning()
+        : await db.insert(energyBills)
+          .values({ ...columns, createdAt: now, updatedAt: now })
+          .returning();
 
       return NextResponse.json({
         ...billBreakdown,
         saved: true,
-        billRecord: newBill[0]
-      }, { status: 201 });
+        replaced: existingBill.length > 0,
+        billRecord: savedBill[0]
+      }, { status: existingBill.length > 0 ? 200 : 201 });
     }
 
     return NextResponse.json(billBreakdown);
 
   } catch (error) {
-    console.error('GET energy bill calculation error:', error);
-    return NextResponse.json({
-      error: 'Internal server error: ' + error
-    }, { status: 500 });
+    return tariffErrorResponse(error, 'GET energy bill calculation');
   }
-}
\ No newline at end of file
+}
+
+// The energy monitor saves the current bill with POST ?save=true
+export const POST = GET;
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { billingPeriod, calendarMonthPeriod } from '@/lib/energy-billing';
+import { getIntervalSettings, localToday } from '@/lib/energy-intervals';
+import { MAX_COMPARISON_YEARS, compareYears } from '@/lib/energy-comparison';
+import { tariffErrorResponse } from '@/lib/tariff-service';
+
+// GET /api/energy/comparison?month=YYYY-MM&date_from=&date_to=&years=1
+// The billing period against the same dates in each of the previous `years`
+// years: raw and weather-normalized change in daily usage, with the
+// heating/cooling degree days and the fitted model behind each year.
+// Defaults to the current calendar month.
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { timezone } = await getIntervalSettings();
+    const month = searchParams.get('month') || localToday(timezone).slice(0, 7);
+    const dateFrom = searchParams.get('date_from');
+    const dateTo = searchParams.get('date_to');
+    const years = parseInt(searchParams.get('years') || '1');
+
+    if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) {
+      return NextResponse.json({
+        error: 'Invalid month format. Expected YYYY-MM (e.g., 2024-12)',
+        code: 'INVALID_MONTH_FORMAT'
+      }, { status: 400 });
+    }
+
+    if (!!dateFrom !== !!dateTo) {
+      return NextResponse.json({
+        error: 'date_from and date_to must be given together',
+        code: 'INVALID_DATE_RANGE'
+      }, { status: 400 });
+    }
+
+    if (isNaN(years) || years < 1 || years > MAX_COMPARISON_YEARS) {
+      return NextResponse.json({
+        error: `years must be between 1 and ${MAX_COMPARISON_YEARS}`,
+        code: 'INVALID_YEARS'
+      }, { status: 400 });
+    }
+
+    const period = dateFrom && dateTo
+      ? billingPeriod(month, dateFrom, dateTo)
+      : calendarMonthPeriod(month);
+
+    const comparison = await compareYears(month, period, years);
+    if (!comparison) {
+      return NextResponse.json({
+        error: 'The period has no completed days to compare yet',
+        code: 'PERIOD_NOT_STARTED'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json(comparison);
+  } catch (error) {
+    return tariffErrorResponse(error, 'GET energy comparison');
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getIntervalSettings } from '@/lib/energy-intervals';
+import {
+  EXPORT_DATASETS,
+  EXPORT_FORMATS,
+  billsCsv,
+  exportBills,
+  exportFilename,
+  exportReadings,
+  readingsCsv,
+  validateExportRange,
+  type ExportDataset,
+  type ExportFormat
+} from '@/lib/energy-export';
+import { buildGreenButtonXml } from '@/lib/energy-green-button';
+import { tariffErrorResponse } from '@/lib/tariff-service';
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json',
+  xml: 'application/atom+xml; charset=utf-8'
+};
+
+// GET /api/energy/export?format=csv|json|xml&dataset=readings|bills|all&date_from=&date_to=&entity_id=
+// Downloads energy_readings and energy_bills. CSV holds one dataset
+// (readings unless dataset=bills); JSON and Green Button XML default to
+// both. entity_id limits the readings to one entity.
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const format = (searchParams.get('format') || 'json') as ExportFormat;
+    const range = {
+      dateFrom: searchParams.get('date_from'),
+      dateTo: searchParams.get('date_to'),
+      entityId: searchParams.get('entity_id')
+    };
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json({
+        error: `Invalid format. Must be one of: ${EXPORT_FORMATS.join(', ')}`,
+        code: 'INVALID_FORMAT'
+      }, { status: 400 });
+    }
+
+    const dataset = (searchParams.get('dataset') || (format === 'csv' ? 'readings' : 'all')) as ExportDataset;
+    if (!EXPORT_DATASETS.includes(dataset)) {
+      return NextResponse.json({
+        error: `Invalid dataset. Must be one of: ${EXPORT_DATASETS.join(', ')}`,
+        code: 'INVALID_DATASET'
+      }, { status: 400 });
+    }
+    if (format === 'csv' && dataset === 'all') {
+      return NextResponse.json({
+        error: 'CSV export holds one dataset: readings or bills',
+        code: 'INVALID_DATASET'
+      }, { status: 400 });
+    }
+
+    validateExportRange(range.dateFrom, range.dateTo);
+
+    const [readings, bills] = await Promise.all([
+      dataset === 'bills' ? [] : exportReadings(range),
+      dataset === 'readings' ? [] : exportBills(range)
+    ]);
+
+    let body: string;
+    if (format === 'csv') {
+      body = dataset === 'bills' ? billsCsv(bills) : readingsCsv(readings);
+    } else if (format === 'xml') {
+      const { timezone } = await getIntervalSettings();
+      body = buildGreenButtonXml(readings, bills, timezone);
+    } else {
+      body = JSON.stringify({
+        exportedAt: new Date().toISOString(),
+        dateFrom: range.dateFrom,
+        dateTo: range.dateTo,
+        ...(dataset !== 'bills' && { readings }),
+        ...(dataset !== 'readings' && { bills })
+      });
+    }
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${exportFilename(dataset, format, range)}"`
+      }
+    });
+  } catch (error) {
+    return tariffErrorResponse(error, 'GET energy export');
+  }
+}
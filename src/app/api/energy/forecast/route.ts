@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { billingPeriod, calendarMonthPeriod } from '@/lib/energy-billing';
+import { getIntervalSettings, localToday } from '@/lib/energy-intervals';
+import { forecastBill } from '@/lib/energy-forecast';
+import { tariffErrorResponse } from '@/lib/tariff-service';
+
+// GET /api/energy/forecast?month=YYYY-MM&date_from=&date_to=
+// Projected kWh and cost for the billing period with 80% and 95% bands, and
+// the budget status when settings.energy.monthlyBudget is set. Defaults to
+// the current calendar month; date_from and date_to select a custom period.
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { timezone } = await getIntervalSettings();
+    const month = searchParams.get('month') || localToday(timezone).slice(0, 7);
+    const dateFrom = searchParams.get('date_from');
+    const dateTo = searchParams.get('date_to');
+
+    if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) {
+      return NextResponse.json({
+        error: 'Invalid month format. Expected YYYY-MM (e.g., 2024-12)',
+        code: 'INVALID_MONTH_FORMAT'
+      }, { status: 400 });
+    }
+
+    if (!!dateFrom !== !!dateTo) {
+      return NextResponse.json({
+        error: 'date_from and date_to must be given together',
+        code: 'INVALID_DATE_RANGE'
+      }, { status: 400 });
+    }
+
+    const period = dateFrom && dateTo
+      ? billingPeriod(month, dateFrom, dateTo)
+      : calendarMonthPeriod(month);
+
+    const forecast = await forecastBill(month, period);
+    if (!forecast) {
+      return NextResponse.json({
+        error: 'Not enough energy readings to forecast this period',
+        code: 'INSUFFICIENT_HISTORY'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json(forecast);
+  } catch (error) {
+    return tariffErrorResponse(error, 'GET energy forecast');
+  }
+}
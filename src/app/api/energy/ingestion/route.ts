@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MAX_BACKFILL_DAYS, getCollectedEntities, getEnergyCollector, getIngestionStatus } from '@/lib/energy-collector';
+import { createServerHomeAssistantAPI } from '@/lib/homeassistant-server';
+import { daysBetween, isValidDate } from '@/lib/tariff';
+
+// GET /api/energy/ingestion
+// Collector state and, per entity, the last successful ingestion
+export async function GET(request: NextRequest) {
+  try {
+    return NextResponse.json({
+      collector: getEnergyCollector().getStatus(),
+      entities: await getIngestionStatus()
+    });
+  } catch (error) {
+    console.error('GET /api/energy/ingestion error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + error
+    }, { status: 500 });
+  }
+}
+
+// POST /api/energy/ingestion
+// Body: { date_from?, date_to?, entity_ids? }
+// Collect now. With date_from/date_to the range is collected again for
+// every entity (or just entity_ids); without, each entity catches up from
+// its newest reading.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { date_from, date_to, entity_ids } = body ?? {};
+
+    if ((date_from === undefined) !== (date_to === undefined)) {
+      return NextResponse.json({
+        error: 'date_from and date_to must be given together',
+        code: 'INVALID_DATE_RANGE'
+      }, { status: 400 });
+    }
+
+    if (date_from !== undefined && (!isValidDate(date_from) || !isValidDate(date_to) || date_to < date_from)) {
+      return NextResponse.json({
+        error: 'date_from and date_to must be dates in YYYY-MM-DD format, in order',
+        code: 'INVALID_DATE_RANGE'
+      }, { status: 400 });
+    }
+
+    if (date_from !== undefined && daysBetween(date_from, date_to) > MAX_BACKFILL_DAYS) {
+      return NextResponse.json({
+        error: `At most ${MAX_BACKFILL_DAYS} days can be backfilled at once`,
+        code: 'RANGE_TOO_LARGE'
+      }, { status: 400 });
+    }
+
+    const collected = (await getCollectedEntities()).map(entity => entity.entityId);
+    if (entity_ids !== undefined && (!Array.isArray(entity_ids) || entity_ids.length === 0
+      || entity_ids.some((entityId: unknown) => typeof entityId !== 'string' || !collected.includes(entityId)))) {
+      return NextResponse.json({
+        error: `entity_ids must list collected entities: ${collected.join(', ')}`,
+        code: 'INVALID_ENTITY_ID'
+      }, { status: 400 });
+    }
+
+    const collector = getEnergyCollector();
+    if (collector.isRunning()) {
+      return NextResponse.json({
+        error: 'A collection is already in progress',
+        code: 'INGESTION_IN_PROGRESS'
+      }, { status: 409 });
+    }
+
+    if (!await createServerHomeAssistantAPI()) {
+      return NextResponse.json({
+        error: 'Home Assistant connection is not configured',
+        code: 'HA_NOT_CONFIGURED'
+      }, { status: 503 });
+    }
+
+    const result = await collector.collect({ from: date_from, to: date_to, entityIds: entity_ids });
+
+    return NextResponse.json({
+      ...result,
+      summary: {
+        entities: result.entities.length,
+        days: result.entities.reduce((sum, entity) => sum + entity.days, 0),
+        failed: result.entities.filter(entity => entity.error).length
+      }
+    });
+  } catch (error) {
+    console.error('POST /api/energy/ingestion error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + error,
+      code: 'INGESTION_FAILED'
+    }, { status: 500 });
+  }
+}
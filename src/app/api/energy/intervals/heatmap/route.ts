@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { addDays } from '@/lib/tariff';
+import { getIntervalSettings, localToday, usageHeatmap } from '@/lib/energy-intervals';
+
+// GET /api/energy/intervals/heatmap?entity_id=&days=30
+// Average kWh by weekday and hour over the last `days` days of intervals
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const settings = await getIntervalSettings();
+    const entityId = searchParams.get('entity_id') || settings.entityId;
+    const days = parseInt(searchParams.get('days') || '30');
+
+    if (isNaN(days) || days < 1 || days > 366) {
+      return NextResponse.json({
+        error: 'days must be a number between 1 and 366',
+        code: 'INVALID_DAYS'
+      }, { status: 400 });
+    }
+
+    const dateTo = localToday(settings.timezone);
+    const heatmap = await usageHeatmap(entityId, addDays(dateTo, -(days - 1)), dateTo);
+
+    return NextResponse.json(heatmap);
+  } catch (error) {
+    console.error('GET /api/energy/intervals/heatmap error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + error
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerHomeAssistantAPI } from '@/lib/homeassistant-server';
+import { addDays, daysBetween, isValidDate } from '@/lib/tariff';
+import {
+  INTERVAL_MINUTES,
+  getIntervalSettings,
+  ingestIntervals,
+  isValidTimezone,
+  localToday,
+  type IntervalMinutes
+} from '@/lib/energy-intervals';
+
+const MAX_INGEST_DAYS = 93;
+
+// POST /api/energy/intervals/ingest
+// Body: { entity_id?, date_from?, date_to?, days?, interval_minutes?: 15 | 60, timezone? }
+// Builds interval readings from Home Assistant history for a cumulative kWh
+// sensor. Settings supply the defaults; date_to defaults to today and
+// date_from to `days` (default 7) days back. Safe to repeat: each day's
+// intervals are overwritten with new data.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const settings = await getIntervalSettings();
+    const entityId = body?.entity_id ?? settings.entityId;
+    const timezone = body?.timezone ?? settings.timezone;
+    const intervalMinutes = body?.interval_minutes ?? settings.intervalMinutes;
+    const dateTo = body?.date_to ?? localToday(timezone);
+    const days = body?.days ?? 7;
+
+    if (!Number.isInteger(days) || days < 1 || days > MAX_INGEST_DAYS) {
+      return NextResponse.json({
+        error: `days must be a whole number between 1 and ${MAX_INGEST_DAYS}`,
+        code: 'INVALID_DAYS'
+      }, { status: 400 });
+    }
+
+    const dateFrom = body?.date_from ?? (isValidDate(dateTo) ? addDays(dateTo, -(days - 1)) : null);
+
+    if (typeof entityId !== 'string' || !/^sensor\.[a-z0-9_]+$/.test(entityId)) {
+      return NextResponse.json({
+        error: 'entity_id must be a sensor entity id',
+        code: 'INVALID_ENTITY_ID'
+      }, { status: 400 });
+    }
+
+    if (typeof timezone !== 'string' || !isValidTimezone(timezone)) {
+      return NextResponse.json({
+        error: 'timezone must be an IANA time zone name',
+        code: 'INVALID_TIMEZONE'
+      }, { status: 400 });
+    }
+
+    if (!INTERVAL_MINUTES.includes(intervalMinutes)) {
+      return NextResponse.json({
+        error: `interval_minutes must be one of: ${INTERVAL_MINUTES.join(', ')}`,
+        code: 'INVALID_INTERVAL'
+      }, { status: 400 });
+    }
+
+    if (typeof dateFrom !== 'string' || typeof dateTo !== 'string'
+      || !isValidDate(dateFrom) || !isValidDate(dateTo) || dateTo < dateFrom) {
+      return NextResponse.json({
+        error: 'date_from and date_to must be dates in YYYY-MM-DD format, in order',
+        code: 'INVALID_DATE_RANGE'
+      }, { status: 400 });
+    }
+
+    if (daysBetween(dateFrom, dateTo) > MAX_INGEST_DAYS) {
+      return NextResponse.json({
+        error: `At most ${MAX_INGEST_DAYS} days can be ingested at once`,
+        code: 'RANGE_TOO_LARGE'
+      }, { status: 400 });
+    }
+
+    const ha = await createServerHomeAssistantAPI();
+    if (!ha) {
+      return NextResponse.json({
+        error: 'Home Assistant connection is not configured',
+        code: 'HA_NOT_CONFIGURED'
+      }, { status: 503 });
+    }
+
+    const result = await ingestIntervals(ha, {
+      entityId,
+      startDate: dateFrom,
+      endDate: dateTo,
+      intervalMinutes: intervalMinutes as IntervalMinutes,
+      timezone
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('POST /api/energy/intervals/ingest error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + error,
+      code: 'INGEST_FAILED'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { addDays, isValidDate } from '@/lib/tariff';
+import { getIntervalSettings, loadIntervals, localToday } from '@/lib/energy-intervals';
+
+// GET /api/energy/intervals?entity_id=&date_from=&date_to=
+// Stored interval readings, one row per local day with Wh per interval.
+// Defaults to the configured interval entity and the last 7 days.
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const settings = await getIntervalSettings();
+    const entityId = searchParams.get('entity_id') || settings.entityId;
+    const dateTo = searchParams.get('date_to') || localToday(settings.timezone);
+    const dateFrom = searchParams.get('date_from') || addDays(dateTo, -6);
+
+    if (!isValidDate(dateFrom) || !isValidDate(dateTo) || dateTo < dateFrom) {
+      return NextResponse.json({
+        error: 'date_from and date_to must be dates in YYYY-MM-DD format, in order',
+        code: 'INVALID_DATE_RANGE'
+      }, { status: 400 });
+    }
+
+    const rows = await loadIntervals(entityId, dateFrom, dateTo);
+
+    return NextResponse.json({
+      entityId,
+      dateFrom,
+      dateTo,
+      data: rows
+    });
+  } catch (error) {
+    console.error('GET /api/energy/intervals error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + error
+    }, { status: 500 });
+  }
+}
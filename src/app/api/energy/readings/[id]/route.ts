@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { energyReadings } from '@/db/schema';
 import { eq } from 'drizzle-orm';
+import { READING_TYPES } from '@/lib/energy-billing';
 
 export async function PUT(request: NextRequest) {
   try {
@@ -47,9 +48,9 @@ export async function PUT(request: NextRequest) {
     }
 
     // Validate reading_type
-    if (reading_type && !['main', 'device', 'manual'].includes(reading_type)) {
+    if (reading_type && !(READING_TYPES as readonly string[]).includes(reading_type)) {
       return NextResponse.json({ 
-        error: "Reading type must be one of: main, device, manual",
+        error: `Reading type must be one of: ${READING_TYPES.join(', ')}`,
         code: "INVALID_READING_TYPE" 
       }, { status: 400 });
     }
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getIntervalSettings } from '@/lib/energy-intervals';
+import { importGreenButton } from '@/lib/energy-green-button';
+import type { ReadingType } from '@/lib/energy-billing';
+import { tariffErrorResponse } from '@/lib/tariff-service';
+
+// POST /api/energy/readings/import[?replace=true&entity_id=&reading_type=]
+// Imports a Green Button (ESPI) XML file as daily readings. Body is the XML
+// itself or { xml, replace?, entity_id?, reading_type? }. Days an entity
+// already has a reading for are skipped unless replace is set.
+export async function POST(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    let replace = searchParams.get('replace') === 'true';
+    let entityId = searchParams.get('entity_id');
+    let readingType = searchParams.get('reading_type');
+    let xml: unknown;
+
+    if ((request.headers.get('content-type') || '').includes('application/json')) {
+      const body = await request.json();
+      xml = body?.xml;
+      replace = replace || body?.replace === true;
+      entityId = entityId || (typeof body?.entity_id === 'string' ? body.entity_id : null);
+      readingType = readingType || (typeof body?.reading_type === 'string' ? body.reading_type : null);
+    } else {
+      xml = await request.text();
+    }
+
+    if (typeof xml !== 'string' || !xml.trim()) {
+      return NextResponse.json({
+        error: 'Green Button XML content is required',
+        code: 'MISSING_XML'
+      }, { status: 400 });
+    }
+
+    if (entityId !== null && !/^[a-z_]+\.[a-z0-9_]+$/.test(entityId)) {
+      return NextResponse.json({
+        error: 'entity_id must be a Home Assistant entity id (e.g., sensor.utility_meter)',
+        code: 'INVALID_ENTITY_ID'
+      }, { status: 400 });
+    }
+
+    const { timezone } = await getIntervalSettings();
+    const result = await importGreenButton(xml, {
+      timezone,
+      entityId,
+      readingType: readingType as ReadingType | null,
+      replace
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    return tariffErrorResponse(error, 'POST /api/energy/readings/import');
+  }
+}
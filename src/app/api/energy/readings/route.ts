@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { energyReadings } from '@/db/schema';
 import { eq, like, and, or, desc, asc, gte, lte, sum, count } from 'drizzle-orm';
+import { READING_TYPES } from '@/lib/energy-billing';
 
 export async function GET(request: NextRequest) {
   try {
@@ -32,9 +33,9 @@ export async function GET(request: NextRequest) {
 
     // Filter by reading type
     if (readingType) {
-      if (!['main', 'device', 'manual'].includes(readingType)) {
+      if (!(READING_TYPES as readonly string[]).includes(readingType)) {
         return NextResponse.json({ 
-          error: "Invalid reading_type. Must be one of: main, device, manual",
+          error: `Invalid reading_type. Must be one of: ${READING_TYPES.join(', ')}`,
           code: "INVALID_READING_TYPE" 
         }, { status: 400 });
       }
@@ -161,9 +162,9 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate reading_type
-    if (!['main', 'device', 'manual'].includes(reading_type)) {
+    if (!(READING_TYPES as readonly string[]).includes(reading_type)) {
       return NextResponse.json({ 
-        error: "reading_type must be one of: main, device, manual",
+        error: `reading_type must be one of: ${READING_TYPES.join(', ')}`,
         code: "INVALID_READING_TYPE" 
       }, { status: 400 });
     }
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { tariffErrorResponse } from '@/lib/tariff-service';
+import { reconcileBills } from '@/lib/energy-reconciliation';
+
+const MONTH_REGEX = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+// GET /api/energy/reconciliation?from=YYYY-MM&to=YYYY-MM
+// Variance per line item between each actual bill and the calculated bill
+// saved for its month, and the discrepancies that keep recurring
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+
+    if ((from && !MONTH_REGEX.test(from)) || (to && !MONTH_REGEX.test(to))) {
+      return NextResponse.json({
+        error: 'from and to must be in format YYYY-MM',
+        code: 'INVALID_MONTH_FORMAT'
+      }, { status: 400 });
+    }
+
+    return NextResponse.json(await reconcileBills({ from, to }));
+  } catch (error) {
+    return tariffErrorResponse(error, 'GET /api/energy/reconciliation');
+  }
+}
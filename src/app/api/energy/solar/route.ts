@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isValidDate } from '@/lib/tariff';
+import { getIntervalSettings, localToday } from '@/lib/energy-intervals';
+import { summarizeSolar } from '@/lib/energy-solar';
+
+// GET /api/energy/solar?date_from=&date_to=
+// Solar production, grid import/export and battery flows with
+// self-consumption and grid-independence percentages. Defaults to the
+// current month to date.
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { timezone } = await getIntervalSettings();
+    const dateTo = searchParams.get('date_to') || localToday(timezone);
+    const dateFrom = searchParams.get('date_from') || `${dateTo.slice(0, 7)}-01`;
+
+    if (!isValidDate(dateFrom) || !isValidDate(dateTo) || dateTo < dateFrom) {
+      return NextResponse.json({
+        error: 'date_from and date_to must be dates in YYYY-MM-DD format, in order',
+        code: 'INVALID_DATE_RANGE'
+      }, { status: 400 });
+    }
+
+    return NextResponse.json(await summarizeSolar(dateFrom, dateTo));
+  } catch (error) {
+    console.error('GET /api/energy/solar error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + error
+    }, { status: 500 });
+  }
+}
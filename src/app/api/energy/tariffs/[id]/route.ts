@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteTariff, getTariff, parseId, tariffErrorResponse, updateTariff } from '@/lib/tariff-service';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    return NextResponse.json(await getTariff(parseId(params.id)));
+  } catch (error) {
+    return tariffErrorResponse(error, 'GET /api/energy/tariffs/[id]');
+  }
+}
+
+// Updates name, utility, description and active. Rates live on versions.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const tariff = await updateTariff(parseId(params.id), await request.json());
+    return NextResponse.json(tariff);
+  } catch (error) {
+    return tariffErrorResponse(error, 'PUT /api/energy/tariffs/[id]');
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const deleted = await deleteTariff(parseId(params.id));
+    return NextResponse.json({
+      message: 'Tariff deleted successfully',
+      deletedTariff: deleted
+    });
+  } catch (error) {
+    return tariffErrorResponse(error, 'DELETE /api/energy/tariffs/[id]');
+  }
+}
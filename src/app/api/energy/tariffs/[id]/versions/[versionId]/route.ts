@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  deleteTariffVersion,
+  getTariffVersion,
+  parseId,
+  tariffErrorResponse,
+  updateTariffVersion
+} from '@/lib/tariff-service';
+
+type VersionParams = { params: { id: string; versionId: string } };
+
+function parseParams(params: VersionParams['params']): [number, number] {
+  return [parseId(params.id), parseId(params.versionId, 'INVALID_VERSION_ID', 'tariff version')];
+}
+
+export async function GET(request: NextRequest, { params }: VersionParams) {
+  try {
+    return NextResponse.json(await getTariffVersion(...parseParams(params)));
+  } catch (error) {
+    return tariffErrorResponse(error, 'GET /api/energy/tariffs/[id]/versions/[versionId]');
+  }
+}
+
+// Rates of a version that saved bills used cannot change (VERSION_IN_USE);
+// dates and notes can
+export async function PUT(request: NextRequest, { params }: VersionParams) {
+  try {
+    const version = await updateTariffVersion(...parseParams(params), await request.json());
+    return NextResponse.json(version);
+  } catch (error) {
+    return tariffErrorResponse(error, 'PUT /api/energy/tariffs/[id]/versions/[versionId]');
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: VersionParams) {
+  try {
+    const deleted = await deleteTariffVersion(...parseParams(params));
+    return NextResponse.json({
+      message: 'Tariff version deleted successfully',
+      deletedVersion: deleted
+    });
+  } catch (error) {
+    return tariffErrorResponse(error, 'DELETE /api/energy/tariffs/[id]/versions/[versionId]');
+  }
+}
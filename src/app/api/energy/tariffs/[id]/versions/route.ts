@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createTariffVersion, listTariffVersions, parseId, tariffErrorResponse } from '@/lib/tariff-service';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    return NextResponse.json(await listTariffVersions(parseId(params.id)));
+  } catch (error) {
+    return tariffErrorResponse(error, 'GET /api/energy/tariffs/[id]/versions');
+  }
+}
+
+// POST /api/energy/tariffs/[id]/versions - record a rate change:
+// { effectiveFrom, effectiveTo?, rates, notes? }
+//
+// The current open-ended version is closed the day before effectiveFrom. The
+// response lists saved bills in the new version's range (staleBills), which
+// can be brought up to date with POST /api/energy/bills/recalculate.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const result = await createTariffVersion(parseId(params.id), await request.json());
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    return tariffErrorResponse(error, 'POST /api/energy/tariffs/[id]/versions');
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createTariff, listTariffs, tariffErrorResponse } from '@/lib/tariff-service';
+
+// GET /api/energy/tariffs - every tariff with its versions, active one first
+export async function GET() {
+  try {
+    return NextResponse.json(await listTariffs());
+  } catch (error) {
+    return tariffErrorResponse(error, 'GET /api/energy/tariffs');
+  }
+}
+
+// POST /api/energy/tariffs - create a tariff with its first version:
+// { name, utility?, description?, active?, effectiveFrom, effectiveTo?, rates, notes? }
+export async function POST(request: NextRequest) {
+  try {
+    const tariff = await createTariff(await request.json());
+    return NextResponse.json(tariff, { status: 201 });
+  } catch (error) {
+    return tariffErrorResponse(error, 'POST /api/energy/tariffs');
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { importTemperatures, loadTemperatures } from '@/lib/energy-weather';
+import { isValidDate } from '@/lib/tariff';
+import { tariffErrorResponse } from '@/lib/tariff-service';
+
+// GET /api/energy/temperatures?date_from=&date_to=
+// Stored daily outdoor temperatures, the last 30 days by default
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const today = new Date().toISOString().slice(0, 10);
+    const dateTo = searchParams.get('date_to') || today;
+    const dateFrom = searchParams.get('date_from')
+      || new Date(Date.parse(`${dateTo}T00:00:00Z`) - 29 * 86400000).toISOString().slice(0, 10);
+
+    if (!isValidDate(dateFrom) || !isValidDate(dateTo) || dateTo < dateFrom) {
+      return NextResponse.json({
+        error: 'date_from and date_to must be valid dates in YYYY-MM-DD format, date_from first',
+        code: 'INVALID_DATE_RANGE'
+      }, { status: 400 });
+    }
+
+    return NextResponse.json(await loadTemperatures(dateFrom, dateTo));
+  } catch (error) {
+    return tariffErrorResponse(error, 'GET energy temperatures');
+  }
+}
+
+// POST /api/energy/temperatures[?unit=F]
+// Enters days Home Assistant no longer has, e.g. last year's from a weather
+// service. Body is { unit, days: [{ date, mean, min?, max? }] } or a CSV
+// with a date,mean[,min,max] header (unit from the query). Entered days
+// replace collected ones and are not overwritten by the collector.
+export async function POST(request: NextRequest) {
+  try {
+    const unit = new URL(request.url).searchParams.get('unit');
+
+    if ((request.headers.get('content-type') || '').includes('application/json')) {
+      const body = await request.json();
+      return NextResponse.json(await importTemperatures({ unit: body?.unit ?? unit, days: body?.days }));
+    }
+
+    return NextResponse.json(await importTemperatures({ unit, csv: await request.text() }));
+  } catch (error) {
+    return tariffErrorResponse(error, 'POST energy temperatures');
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createMqttConnection } from '@/lib/mqtt';
+
+const MQTT_URL_REGEX = /^(mqtts?|wss?|memory):\/\//;
+
+// POST /api/mqtt/test-connection
+// Body: { url, username?, password?, clientId?, timeout? }
+// Opens a short-lived connection to the broker with the given settings
+export async function POST(request: NextRequest) {
+  let body: Record<string, any>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ success: false, error: 'Invalid JSON format in request body' }, { status: 400 });
+  }
+
+  if (!body.url || typeof body.url !== 'string' || !MQTT_URL_REGEX.test(body.url.trim())) {
+    return NextResponse.json({
+      success: false,
+      error: 'Broker URL must start with mqtt://, mqtts://, ws://, wss:// or memory://'
+    }, { status: 400 });
+  }
+
+  const timeout = typeof body.timeout === 'number' ? body.timeout : 5000;
+  if (timeout <= 0 || timeout > 30000) {
+    return NextResponse.json({ success: false, error: 'Timeout must be between 1 and 30000 milliseconds' }, { status: 400 });
+  }
+
+  const connection = createMqttConnection({
+    url: body.url.trim(),
+    username: body.username || undefined,
+    password: body.password || undefined,
+    // A distinct client ID so the test does not kick the engine's session
+    clientId: body.clientId ? `${body.clientId}-test` : undefined
+  }, { connectTimeout: timeout });
+
+  try {
+    await connection.connect();
+    await connection.disconnect();
+    return NextResponse.json({ success: true, message: 'Connected to MQTT broker successfully' });
+  } catch (error) {
+    console.error('MQTT connection test failed:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    }, { status: 503 });
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createReadStream } from 'fs';
+import { Readable } from 'stream';
+import { CameraApiError, cameraErrorResponse } from '@/lib/camera-service';
+import { getRecordingFile } from '@/lib/recording-playback';
+
+// GET /api/recordings/[id]/file
+// The recording's MP4. Honours Range requests so players can seek.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const id = parseInt(params.id);
+    if (isNaN(id)) {
+      throw new CameraApiError('Valid recording ID is required', 'INVALID_ID');
+    }
+    const file = await getRecordingFile(id);
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'video/mp4',
+      'Accept-Ranges': 'bytes',
+      'Cache-Control': 'private, max-age=3600',
+      'Content-Disposition': `inline; filename="${file.filename}"`
+    };
+
+    const range = /^bytes=(\d*)-(\d*)$/.exec(request.headers.get('range') ?? '');
+    if (range && (range[1] || range[2])) {
+      // bytes=-N is the last N bytes
+      const start = range[1] ? parseInt(range[1]) : Math.max(file.size - parseInt(range[2]), 0);
+      const end = range[1] && range[2] ? Math.min(parseInt(range[2]), file.size - 1) : file.size - 1;
+      if (start >= file.size || start > end) {
+        return new NextResponse(null, { status: 416, headers: { 'Content-Range': `bytes */${file.size}` } });
+      }
+      const stream = Readable.toWeb(createReadStream(file.path, { start, end })) as unknown as ReadableStream;
+      return new NextResponse(stream, {
+        status: 206,
+        headers: {
+          ...headers,
+          'Content-Range': `bytes ${start}-${end}/${file.size}`,
+          'Content-Length': String(end - start + 1)
+        }
+      });
+    }
+
+    const stream = Readable.toWeb(createReadStream(file.path)) as unknown as ReadableStream;
+    return new NextResponse(stream, { headers: { ...headers, 'Content-Length': String(file.size) } });
+  } catch (error) {
+    return cameraErrorResponse(error, 'GET /api/recordings/[id]/file');
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CameraApiError, cameraErrorResponse } from '@/lib/camera-service';
+import { getRecordingImage } from '@/lib/camera-thumbnails';
+
+// GET /api/recordings/[id]/poster
+// The recording's poster frame, made on first request for older recordings
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const id = parseInt(params.id);
+    if (isNaN(id)) {
+      throw new CameraApiError('Valid recording ID is required', 'INVALID_ID');
+    }
+    const image = await getRecordingImage(id, 'poster');
+    return new NextResponse(new Uint8Array(image), {
+      headers: {
+        'Content-Type': 'image/jpeg',
+        'Cache-Control': 'private, max-age=86400'
+      }
+    });
+  } catch (error) {
+    return cameraErrorResponse(error, 'GET /api/recordings/[id]/poster');
+  }
+}
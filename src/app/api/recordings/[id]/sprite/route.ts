@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CameraApiError, cameraErrorResponse } from '@/lib/camera-service';
+import { getRecordingImage } from '@/lib/camera-thumbnails';
+
+// GET /api/recordings/[id]/sprite
+// The recording's sprite sheet of timeline thumbnails: 10 columns of 160x90
+// tiles, one every spriteInterval seconds (see GET /api/recordings/timeline)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const id = parseInt(params.id);
+    if (isNaN(id)) {
+      throw new CameraApiError('Valid recording ID is required', 'INVALID_ID');
+    }
+    const image = await getRecordingImage(id, 'sprite');
+    return new NextResponse(new Uint8Array(image), {
+      headers: {
+        'Content-Type': 'image/jpeg',
+        'Cache-Control': 'private, max-age=86400'
+      }
+    });
+  } catch (error) {
+    return cameraErrorResponse(error, 'GET /api/recordings/[id]/sprite');
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createReadStream } from 'fs';
+import { Readable } from 'stream';
+import { cameraErrorResponse } from '@/lib/camera-service';
+import { exportClip } from '@/lib/recording-playback';
+
+// POST /api/recordings/export
+// Body: { cameraId, from, to } (ISO datetimes, at most 6 hours apart).
+// Responds with one MP4 of the camera's recordings over that range.
+export async function POST(request: NextRequest) {
+  try {
+    const clip = await exportClip(await request.json());
+
+    const file = createReadStream(clip.path);
+    // The temp file goes once it has been sent, or the client went away
+    file.once('close', () => {
+      clip.cleanup().catch(error => console.error('Failed to remove export:', error));
+    });
+
+    return new NextResponse(Readable.toWeb(file) as unknown as ReadableStream, {
+      headers: {
+        'Content-Type': 'video/mp4',
+        'Content-Length': String(clip.size),
+        'Content-Disposition': `attachment; filename="${clip.filename}"`
+      }
+    });
+  } catch (error) {
+    return cameraErrorResponse(error, 'POST /api/recordings/export');
+  }
+}
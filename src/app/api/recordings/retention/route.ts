@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cameraErrorResponse } from '@/lib/camera-service';
+import { applyRetention, getStorageManager } from '@/lib/nvr-storage';
+
+// GET /api/recordings/retention
+// Dry run: the recordings retention would prune now, and why
+export async function GET(request: NextRequest) {
+  try {
+    const report = await applyRetention({ dryRun: true });
+    return NextResponse.json({ ...report, manager: getStorageManager().getStatus() });
+  } catch (error) {
+    return cameraErrorResponse(error, 'GET /api/recordings/retention');
+  }
+}
+
+// POST /api/recordings/retention
+// Body (optional): { dryRun }. Prunes now instead of waiting for the next
+// scheduled pass.
+export async function POST(request: NextRequest) {
+  try {
+    const text = await request.text();
+    const body = text ? JSON.parse(text) : {};
+
+    const report = body?.dryRun === true
+      ? await applyRetention({ dryRun: true })
+      : await getStorageManager().run();
+    return NextResponse.json(report);
+  } catch (error) {
+    return cameraErrorResponse(error, 'POST /api/recordings/retention');
+  }
+}
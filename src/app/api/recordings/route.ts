@@ -23,6 +23,7 @@ export async function GET(request: NextRequest) {
         storageLocationId: recordings.storageLocationId,
         storageLocationName: nvrStorageLocations.name,
         storageLocationPath: nvrStorageLocations.path,
+        keepForever: recordings.keepForever,
         createdAt: recordings.createdAt,
       })
       .from(recordings)
@@ -129,10 +130,10 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate trigger
-    const validTriggers = ['motion', 'schedule', 'manual'];
+    const validTriggers = ['continuous', 'motion', 'schedule', 'manual'];
     if (!validTriggers.includes(trigger)) {
       return NextResponse.json({
-        error: "Trigger must be one of: motion, schedule, manual",
+        error: "Trigger must be one of: continuous, motion, schedule, manual",
         code: "INVALID_TRIGGER"
       }, { status: 400 });
     }
@@ -221,7 +222,8 @@ export async function PUT(request: NextRequest) {
       duration, 
       size, 
       trigger,
-      storageLocationId
+      storageLocationId,
+      keepForever
     } = requestBody;
 
     // Check if recording exists
@@ -303,13 +305,20 @@ export async function PUT(request: NextRequest) {
       }, { status: 400 });
     }
 
-    if (trigger !== undefined && !['motion', 'schedule', 'manual'].includes(trigger)) {
+    if (trigger !== undefined && !['continuous', 'motion', 'schedule', 'manual'].includes(trigger)) {
       return NextResponse.json({
-        error: "Trigger must be one of: motion, schedule, manual",
+        error: "Trigger must be one of: continuous, motion, schedule, manual",
         code: "INVALID_TRIGGER"
       }, { status: 400 });
     }
 
+    if (keepForever !== undefined && typeof keepForever !== 'boolean') {
+      return NextResponse.json({
+        error: "keepForever must be a boolean",
+        code: "INVALID_KEEP_FOREVER"
+      }, { status: 400 });
+    }
+
     // Build update object with only provided fields
     const updateData: any = {};
 
@@ -319,6 +328,7 @@ export async function PUT(request: NextRequest) {
     if (duration !== undefined) updateData.duration = duration;
     if (size !== undefined) updateData.size = size;
     if (trigger !== undefined) updateData.trigger = trigger;
+    if (keepForever !== undefined) updateData.keepForever = keepForever;
     if (storageLocationId !== undefined) {
       updateData.storageLocationId = storageLocationId ? parseInt(storageLocationId) : null;
     }
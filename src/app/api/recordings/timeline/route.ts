@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cameraErrorResponse, parseCameraId } from '@/lib/camera-service';
+import { getTimeline } from '@/lib/recording-playback';
+
+// GET /api/recordings/timeline?cameraId=1&from=ISO&to=ISO
+// Recorded spans, segments and event markers for a camera over a range
+// (the last 24 hours when from/to are omitted, at most 7 days)
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const cameraId = parseCameraId(searchParams.get('cameraId'));
+    const to = searchParams.get('to') ?? new Date().toISOString();
+    const from = searchParams.get('from') ?? new Date(new Date(to).getTime() - 24 * 60 * 60 * 1000).toISOString();
+
+    return NextResponse.json(await getTimeline(cameraId, from, to));
+  } catch (error) {
+    return cameraErrorResponse(error, 'GET /api/recordings/timeline');
+  }
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cameraErrorResponse } from '@/lib/camera-service';
+import { refreshStorageUsage } from '@/lib/nvr-storage';
+
+// GET /api/storage-locations/usage
+// Measures every storage location now: usedGb from the files under its path,
+// freeGb from its filesystem, and the headroom recordings are placed by
+export async function GET(request: NextRequest) {
+  try {
+    const locations = await refreshStorageUsage();
+    const summary = {
+      usedGb: Math.round(locations.reduce((sum, location) => sum + location.usedGb, 0) * 100) / 100,
+      capacityGb: locations.reduce((sum, location) => sum + location.capacityGb, 0),
+      freeGb: Math.round(locations.reduce((sum, location) => sum + (location.freeGb ?? 0), 0) * 100) / 100
+    };
+    return NextResponse.json({ locations, summary });
+  } catch (error) {
+    return cameraErrorResponse(error, 'GET /api/storage-locations/usage');
+  }
+}
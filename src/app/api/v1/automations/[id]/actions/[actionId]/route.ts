@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteAction, updateAction } from '@/lib/automation-service';
+import { parseId } from '@/lib/automation-validation';
+import { automationErrorResponse } from '@/lib/automation-api';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; actionId: string } }
+) {
+  try {
+    const automationId = parseId(params.id);
+    const actionId = parseId(params.actionId, 'INVALID_ACTION_ID', 'action');
+    return NextResponse.json(await updateAction(automationId, actionId, await request.json()));
+  } catch (error) {
+    return automationErrorResponse(error, 'PUT /api/v1/automations/[id]/actions/[actionId]');
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; actionId: string } }
+) {
+  try {
+    const deleted = await deleteAction(parseId(params.id), parseId(params.actionId, 'INVALID_ACTION_ID', 'action'));
+
+    return NextResponse.json({
+      message: 'Action deleted successfully',
+      deletedAction: deleted
+    });
+  } catch (error) {
+    return automationErrorResponse(error, 'DELETE /api/v1/automations/[id]/actions/[actionId]');
+  }
+}
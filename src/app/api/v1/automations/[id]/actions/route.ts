@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAction, listActions } from '@/lib/automation-service';
+import { parseId } from '@/lib/automation-validation';
+import { automationErrorResponse } from '@/lib/automation-api';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    return NextResponse.json(await listActions(parseId(params.id)));
+  } catch (error) {
+    return automationErrorResponse(error, 'GET /api/v1/automations/[id]/actions');
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const automationId = parseId(params.id);
+    return NextResponse.json(await createAction(automationId, await request.json()), { status: 201 });
+  } catch (error) {
+    return automationErrorResponse(error, 'POST /api/v1/automations/[id]/actions');
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteCondition, updateCondition } from '@/lib/automation-service';
+import { parseId } from '@/lib/automation-validation';
+import { automationErrorResponse } from '@/lib/automation-api';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; conditionId: string } }
+) {
+  try {
+    const automationId = parseId(params.id);
+    const conditionId = parseId(params.conditionId, 'INVALID_CONDITION_ID', 'condition');
+    return NextResponse.json(await updateCondition(automationId, conditionId, await request.json()));
+  } catch (error) {
+    return automationErrorResponse(error, 'PUT /api/v1/automations/[id]/conditions/[conditionId]');
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; conditionId: string } }
+) {
+  try {
+    const deleted = await deleteCondition(parseId(params.id), parseId(params.conditionId, 'INVALID_CONDITION_ID', 'condition'));
+
+    return NextResponse.json({
+      message: 'Condition deleted successfully',
+      deletedCondition: deleted
+    });
+  } catch (error) {
+    return automationErrorResponse(error, 'DELETE /api/v1/automations/[id]/conditions/[conditionId]');
+  }
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { saveAutomationDefinition } from '@/lib/automation-service';
+import { parseId } from '@/lib/automation-validation';
+import { automationErrorResponse } from '@/lib/automation-api';
+
+// PUT /api/v1/automations/[id]/definition
+// Body: the automation fields to change plus its complete `triggers`,
+// `conditions` and `actions` lists. The stored children are replaced with
+// the given ones in a single transaction and the persisted graph is returned.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const automationId = parseId(params.id);
+    return NextResponse.json(await saveAutomationDefinition(automationId, await request.json()));
+  } catch (error) {
+    return automationErrorResponse(error, 'PUT /api/v1/automations/[id]/definition');
+  }
+}
@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { duplicateAutomation } from '@/lib/automation-service';
+import { parseId } from '@/lib/automation-validation';
+import { automationErrorResponse } from '@/lib/automation-api';
+
+// Copies the automation with all triggers, conditions and actions; the copy starts disabled
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    return NextResponse.json(await duplicateAutomation(parseId(params.id)), { status: 201 });
+  } catch (error) {
+    return automationErrorResponse(error, 'POST /api/v1/automations/[id]/duplicate');
+  }
+}
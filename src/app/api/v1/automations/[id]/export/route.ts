@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadAutomationDefinition } from '@/lib/automation-engine';
+import { automationToYaml } from '@/lib/automation-yaml';
+
+const VALID_FORMATS = ['yaml', 'json'] as const;
+
+// GET /api/v1/automations/[id]/export?format=yaml|json
+// yaml (default) returns Home Assistant automation YAML; json returns the same
+// config as JSON together with the parts that could not be exported
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+
+    // Validate ID parameter
+    if (!id || isNaN(parseInt(id))) {
+      return NextResponse.json({
+        error: "Valid automation ID is required",
+        code: "INVALID_ID"
+      }, { status: 400 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const format = searchParams.get('format') || 'yaml';
+
+    if (!VALID_FORMATS.includes(format as typeof VALID_FORMATS[number])) {
+      return NextResponse.json({
+        error: "Invalid format. Must be one of: " + VALID_FORMATS.join(', '),
+        code: "INVALID_FORMAT"
+      }, { status: 400 });
+    }
+
+    const definition = await loadAutomationDefinition(parseInt(id));
+
+    if (!definition) {
+      return NextResponse.json({
+        error: 'Automation not found',
+        code: 'AUTOMATION_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    const { yaml, config, issues } = automationToYaml(definition, definition.haAutomationId);
+
+    if (format === 'json') {
+      return NextResponse.json({ config, issues }, { status: 200 });
+    }
+
+    const filename = definition.name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || `automation_${definition.id}`;
+
+    return new NextResponse(yaml, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/yaml; charset=utf-8',
+        'Content-Disposition': `inline; filename="${filename}.yaml"`
+      }
+    });
+  } catch (error) {
+    console.error('GET /api/v1/automations/[id]/export error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + error,
+      code: 'EXPORT_FAILED'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteAutomation, getAutomation, updateAutomation } from '@/lib/automation-service';
+import { parseId } from '@/lib/automation-validation';
+import { automationErrorResponse } from '@/lib/automation-api';
+
+// Automation with its triggers, conditions and actions
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    return NextResponse.json(await getAutomation(parseId(params.id)));
+  } catch (error) {
+    return automationErrorResponse(error, 'GET /api/v1/automations/[id]');
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const automationId = parseId(params.id);
+    return NextResponse.json(await updateAutomation(automationId, await request.json()));
+  } catch (error) {
+    return automationErrorResponse(error, 'PUT /api/v1/automations/[id]');
+  }
+}
+
+// Deletes the automation together with its triggers, conditions, actions and run history
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const automation = await deleteAutomation(parseId(params.id));
+
+    return NextResponse.json({
+      message: 'Automation and all related data deleted successfully',
+      automation
+    });
+  } catch (error) {
+    return automationErrorResponse(error, 'DELETE /api/v1/automations/[id]');
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAutomationRun } from '@/lib/automation-runs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; runId: string } }
+) {
+  try {
+    const { id, runId } = params;
+
+    if (!id || isNaN(parseInt(id))) {
+      return NextResponse.json({ 
+        error: "Valid automation ID is required",
+        code: "INVALID_AUTOMATION_ID" 
+      }, { status: 400 });
+    }
+
+    if (!runId || isNaN(parseInt(runId))) {
+      return NextResponse.json({ 
+        error: "Valid run ID is required",
+        code: "INVALID_RUN_ID" 
+      }, { status: 400 });
+    }
+
+    const run = await getAutomationRun(parseInt(id), parseInt(runId));
+
+    if (!run) {
+      return NextResponse.json({ 
+        error: 'Run not found',
+        code: 'RUN_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json(run);
+
+  } catch (error) {
+    console.error('GET error:', error);
+    return NextResponse.json({ 
+      error: 'Internal server error: ' + error 
+    }, { status: 500 });
+  }
+}
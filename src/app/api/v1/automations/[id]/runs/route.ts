@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { automations } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { getAutomationRuns } from '@/lib/automation-runs';
+
+const VALID_RUN_STATUSES = ['success', 'failed', 'conditions_not_met'];
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const automationId = params.id;
+
+    if (!automationId || isNaN(parseInt(automationId))) {
+      return NextResponse.json({ 
+        error: "Valid automation ID is required",
+        code: "INVALID_AUTOMATION_ID" 
+      }, { status: 400 });
+    }
+
+    const automation = await db.select()
+      .from(automations)
+      .where(eq(automations.id, parseInt(automationId)))
+      .limit(1);
+
+    if (automation.length === 0) {
+      return NextResponse.json({ 
+        error: 'Automation not found' 
+      }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20'), 100);
+    const offset = parseInt(searchParams.get('offset') || '0');
+    const status = searchParams.get('status');
+
+    if (status && !VALID_RUN_STATUSES.includes(status)) {
+      return NextResponse.json({ 
+        error: "Invalid status. Must be one of: " + VALID_RUN_STATUSES.join(', '),
+        code: "INVALID_STATUS" 
+      }, { status: 400 });
+    }
+
+    const { runs, total } = await getAutomationRuns(parseInt(automationId), {
+      limit,
+      offset,
+      status: status || undefined
+    });
+
+    return NextResponse.json({
+      data: runs,
+      pagination: { limit, offset, total, hasMore: offset + limit < total }
+    });
+
+  } catch (error) {
+    console.error('GET error:', error);
+    return NextResponse.json({ 
+      error: 'Internal server error: ' + error 
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerHomeAssistantAPI } from '@/lib/homeassistant-server';
+import { exportToHomeAssistant } from '@/lib/automation-sync';
+import { getAutomationEngine } from '@/lib/automation-engine';
+
+// POST /api/v1/automations/[id]/sync
+// Push the automation to Home Assistant. Body: { force?: boolean }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+
+    // Validate ID parameter
+    if (!id || isNaN(parseInt(id))) {
+      return NextResponse.json({
+        error: "Valid automation ID is required",
+        code: "INVALID_ID"
+      }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+
+    const ha = await createServerHomeAssistantAPI();
+
+    if (!ha) {
+      return NextResponse.json({
+        error: 'Home Assistant connection is not configured',
+        code: 'HA_NOT_CONFIGURED'
+      }, { status: 503 });
+    }
+
+    const result = await exportToHomeAssistant(ha, parseInt(id), { force: body?.force === true });
+
+    if (!result) {
+      return NextResponse.json({
+        error: 'Automation not found',
+        code: 'AUTOMATION_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    if (result.status === 'unsupported') {
+      return NextResponse.json({
+        error: 'Automation uses features Home Assistant cannot represent',
+        code: 'UNSUPPORTED_CONSTRUCTS',
+        issues: result.issues
+      }, { status: 422 });
+    }
+
+    if (result.status === 'conflict') {
+      return NextResponse.json({
+        error: 'The automation was changed in Home Assistant since the last sync',
+        code: 'SYNC_CONFLICT',
+        haAutomationId: result.haAutomationId,
+        syncStatus: result.syncStatus
+      }, { status: 409 });
+    }
+
+    // Exported automations run in HA from now on, not in the local engine
+    await getAutomationEngine().reload();
+
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error('POST /api/v1/automations/[id]/sync error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + error,
+      code: 'SYNC_EXPORT_FAILED'
+    }, { status: 500 });
+  }
+}
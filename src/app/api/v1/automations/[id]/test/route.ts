@@ -0,0 +1,251 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { HAEntity } from '@/lib/homeassistant';
+import { createServerHomeAssistantAPI } from '@/lib/homeassistant-server';
+import {
+  loadAutomationDefinition,
+  previewAutomation,
+  readEntityValue,
+  runAutomation,
+  type TriggerRecord
+} from '@/lib/automation-engine';
+import { recordAutomationRun } from '@/lib/automation-runs';
+
+const VALID_MODES = ['dry_run', 'execute'] as const;
+
+// POST /api/v1/automations/[id]/test?mode=dry_run|execute
+//
+// dry_run (default) evaluates every condition against the live entity states
+// from Home Assistant and reports the service calls the actions would make,
+// without calling them. execute really fires the actions (conditions are
+// evaluated and reported but do not block) and returns HA's responses.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+
+    // Validate ID parameter
+    if (!id || isNaN(parseInt(id))) {
+      return NextResponse.json({
+        error: "Valid automation ID is required",
+        code: "INVALID_ID"
+      }, { status: 400 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const body = await request.json().catch(() => ({}));
+    const mode = searchParams.get('mode') || body?.mode || 'dry_run';
+
+    if (!VALID_MODES.includes(mode)) {
+      return NextResponse.json({
+        error: "Invalid mode. Must be one of: " + VALID_MODES.join(', '),
+        code: "INVALID_MODE"
+      }, { status: 400 });
+    }
+
+    const definition = await loadAutomationDefinition(parseInt(id));
+
+    if (!definition) {
+      return NextResponse.json({
+        error: 'Automation not found',
+        code: 'AUTOMATION_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    const ha = await createServerHomeAssistantAPI();
+
+    if (!ha) {
+      return NextResponse.json({
+        error: 'Home Assistant connection is not configured',
+        code: 'HA_NOT_CONFIGURED'
+      }, { status: 503 });
+    }
+
+    const testExecutedAt = new Date().toISOString();
+
+    if (mode === 'execute') {
+      const result = await runAutomation(ha, definition, {
+        type: 'manual',
+        triggerId: null,
+        firedAt: testExecutedAt
+      }, { skipConditions: true });
+      const runId = await recordAutomationRun(result);
+
+      const successfulActions = result.actions.filter(a => a.success).length;
+
+      return NextResponse.json({
+        automationId: definition.id,
+        automationName: definition.name,
+        mode,
+        runId,
+        testExecutedAt,
+        status: result.status,
+        ...(result.error ? { error: result.error } : {}),
+        summary: {
+          totalConditions: definition.conditions.length,
+          passedConditions: result.conditions.filter(c => c.passed).length,
+          conditionsPassed: result.conditionsPassed,
+          totalActions: definition.actions.length,
+          successfulActions,
+          failedActions: result.actions.length - successfulActions
+        },
+        conditions: result.conditions.map(c => ({
+          id: c.conditionId,
+          type: c.type,
+          status: c.passed ? 'pass' : 'fail',
+          actualValue: c.actualValue,
+          message: c.message
+        })),
+        actions: result.actions.map(a => ({
+          id: a.actionId,
+          type: a.type,
+          status: a.success ? 'success' : 'failed',
+          call: a.call,
+          response: a.response,
+          error: a.error,
+          durationMs: a.durationMs
+        }))
+      }, { status: 200 });
+    }
+
+    // Dry run against a single snapshot of live states
+    const states = new Map<string, HAEntity>(
+      (await ha.getStates()).map(entity => [entity.entity_id, entity])
+    );
+    const preview = previewAutomation(definition, states);
+
+    const triggers = definition.triggers.map(trigger => {
+      const { isValid, message } = validateTrigger(trigger, states);
+      return {
+        id: trigger.id,
+        type: trigger.type,
+        status: isValid ? 'valid' : 'invalid',
+        currentValue: trigger.entityId ? readEntityValue(states.get(trigger.entityId), trigger.attribute) : null,
+        message
+      };
+    });
+
+    const conditions = preview.conditions.map(c => ({
+      id: c.conditionId,
+      type: c.type,
+      status: c.passed ? 'pass' : 'fail',
+      actualValue: c.actualValue,
+      message: c.message
+    }));
+
+    const actions = preview.actions.map(a => ({
+      id: a.actionId,
+      type: a.type,
+      status: a.error ? 'invalid' : preview.conditionsPassed ? 'would_call' : 'skipped',
+      call: a.call,
+      message: a.error || (a.call
+        ? `Would call ${a.call.domain}.${a.call.service}${a.call.target ? ` on ${a.call.target.entity_id}` : ''}${a.call.serviceData ? ` with data: ${JSON.stringify(a.call.serviceData)}` : ''}`
+        : '')
+    }));
+
+    const validTriggers = triggers.filter(t => t.status === 'valid').length;
+    const passedConditions = conditions.filter(c => c.status === 'pass').length;
+    const invalidActions = actions.filter(a => a.status === 'invalid').length;
+
+    let status: 'success' | 'conditions_not_met' | 'failed';
+    if (preview.error || validTriggers < triggers.length || invalidActions > 0) {
+      status = 'failed';
+    } else if (!preview.conditionsPassed) {
+      status = 'conditions_not_met';
+    } else {
+      status = 'success';
+    }
+
+    return NextResponse.json({
+      automationId: definition.id,
+      automationName: definition.name,
+      mode,
+      testExecutedAt,
+      status,
+      ...(preview.error ? { error: preview.error } : {}),
+      summary: {
+        totalTriggers: triggers.length,
+        validTriggers,
+        totalConditions: conditions.length,
+        passedConditions,
+        conditionsPassed: preview.conditionsPassed,
+        totalActions: actions.length,
+        successfulActions: actions.filter(a => a.status === 'would_call').length,
+        failedActions: invalidActions
+      },
+      triggers,
+      conditions,
+      actions
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('POST /api/v1/automations/[id]/test error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + error,
+      code: 'SIMULATION_ERROR'
+    }, { status: 500 });
+  }
+}
+
+function validateTrigger(trigger: TriggerRecord, states: Map<string, HAEntity>): { isValid: boolean; message: string } {
+  const requiredFields: Record<string, (keyof TriggerRecord)[]> = {
+    'entity_state': ['entityId'],
+    'zwave': ['entityId'],
+    'time': ['time'],
+    'cron': ['cron'],
+    'mqtt': ['topic']
+  };
+
+  for (const field of requiredFields[trigger.type] || []) {
+    if (!trigger[field]) {
+      return {
+        isValid: false,
+        message: `Missing required field: ${field}`
+      };
+    }
+  }
+
+  switch (trigger.type) {
+    case 'entity_state':
+    case 'zwave': {
+      const entity = states.get(trigger.entityId!);
+      if (!entity) {
+        return {
+          isValid: false,
+          message: `Entity ${trigger.entityId} does not exist in Home Assistant`
+        };
+      }
+      const current = readEntityValue(entity, trigger.attribute);
+      return {
+        isValid: true,
+        message: `Fires when ${trigger.entityId}${trigger.attribute ? `.${trigger.attribute}` : ''} changes${trigger.state ? ` to ${trigger.state}` : ''} (currently ${current ?? 'unset'})`
+      };
+    }
+    case 'time':
+      return {
+        isValid: true,
+        message: `Fires at ${trigger.time}${trigger.offset ? ` with ${trigger.offset}s offset` : ''}`
+      };
+    case 'cron':
+      return {
+        isValid: true,
+        message: `Fires on cron schedule ${trigger.cron}${trigger.offset ? ` with ${trigger.offset}s offset` : ''}`
+      };
+    case 'sunrise_sunset':
+      return {
+        isValid: true,
+        message: `Fires at ${trigger.state || 'sunrise/sunset'}${trigger.offset ? ` with ${trigger.offset}s offset` : ''}`
+      };
+    case 'mqtt':
+      return {
+        isValid: true,
+        message: `Fires on MQTT topic: ${trigger.topic}${trigger.payload ? ` with payload: ${trigger.payload}` : ''}`
+      };
+    default:
+      return {
+        isValid: false,
+        message: `Unknown trigger type: ${trigger.type}`
+      };
+  }
+}
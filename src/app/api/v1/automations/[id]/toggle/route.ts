@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { toggleAutomation } from '@/lib/automation-service';
+import { parseId } from '@/lib/automation-validation';
+import { automationErrorResponse } from '@/lib/automation-api';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    return NextResponse.json(await toggleAutomation(parseId(params.id)));
+  } catch (error) {
+    return automationErrorResponse(error, 'PUT /api/v1/automations/[id]/toggle');
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteTrigger, updateTrigger } from '@/lib/automation-service';
+import { parseId } from '@/lib/automation-validation';
+import { automationErrorResponse } from '@/lib/automation-api';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; triggerId: string } }
+) {
+  try {
+    const automationId = parseId(params.id);
+    const triggerId = parseId(params.triggerId, 'INVALID_TRIGGER_ID', 'trigger');
+    return NextResponse.json(await updateTrigger(automationId, triggerId, await request.json()));
+  } catch (error) {
+    return automationErrorResponse(error, 'PUT /api/v1/automations/[id]/triggers/[triggerId]');
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; triggerId: string } }
+) {
+  try {
+    const deleted = await deleteTrigger(parseId(params.id), parseId(params.triggerId, 'INVALID_TRIGGER_ID', 'trigger'));
+
+    return NextResponse.json({
+      message: 'Trigger deleted successfully',
+      deletedTrigger: deleted
+    });
+  } catch (error) {
+    return automationErrorResponse(error, 'DELETE /api/v1/automations/[id]/triggers/[triggerId]');
+  }
+}
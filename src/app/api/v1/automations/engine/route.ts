@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAutomationEngine } from '@/lib/automation-engine';
+
+export async function GET(request: NextRequest) {
+  try {
+    return NextResponse.json(getAutomationEngine().getStatus());
+  } catch (error) {
+    console.error('GET /api/v1/automations/engine error:', error);
+    return NextResponse.json({ 
+      error: 'Internal server error: ' + error 
+    }, { status: 500 });
+  }
+}
+
+// Reload automation definitions, or start the engine if it is not running
+export async function POST(request: NextRequest) {
+  try {
+    const engine = getAutomationEngine();
+
+    if (engine.getStatus().status === 'stopped') {
+      await engine.start();
+    } else {
+      await engine.reload();
+    }
+
+    return NextResponse.json(engine.getStatus());
+  } catch (error) {
+    console.error('POST /api/v1/automations/engine error:', error);
+    return NextResponse.json({ 
+      error: 'Internal server error: ' + error,
+      code: 'ENGINE_RELOAD_FAILED'
+    }, { status: 500 });
+  }
+}
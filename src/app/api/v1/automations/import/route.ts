@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { automations } from '@/db/schema';
+import { getAutomationEngine } from '@/lib/automation-engine';
+import { replaceAutomationChildren } from '@/lib/automation-service';
+import { uniqueName } from '@/lib/automation-sync';
+import { parseAutomationYaml } from '@/lib/automation-yaml';
+
+// POST /api/v1/automations/import
+// Body: { yaml: string, inputs?: Record<string, any>, dryRun?: boolean }, or
+// the YAML itself with a text/yaml or text/plain content type.
+//
+// Accepts a single HA automation, a list of them or an automation blueprint.
+// Automations with unsupported parts are still imported, but disabled, and
+// every unsupported construct is returned with its line number.
+export async function POST(request: NextRequest) {
+  try {
+    const contentType = request.headers.get('content-type') || '';
+    const body = contentType.includes('application/json')
+      ? await request.json().catch(() => null)
+      : { yaml: await request.text() };
+
+    const { yaml, inputs = {}, dryRun = false } = body || {};
+
+    if (!yaml || typeof yaml !== 'string' || !yaml.trim()) {
+      return NextResponse.json({
+        error: "YAML content is required",
+        code: "MISSING_YAML"
+      }, { status: 400 });
+    }
+
+    if (typeof inputs !== 'object' || Array.isArray(inputs)) {
+      return NextResponse.json({
+        error: "inputs must be an object of blueprint input values",
+        code: "INVALID_INPUTS"
+      }, { status: 400 });
+    }
+
+    const parsed = parseAutomationYaml(yaml, inputs);
+
+    if (parsed.automations.length === 0) {
+      return NextResponse.json({
+        error: "YAML could not be parsed as Home Assistant automations",
+        code: "INVALID_YAML",
+        errors: parsed.errors
+      }, { status: 400 });
+    }
+
+    const issues = [...parsed.errors, ...parsed.automations.flatMap(entry => entry.issues)];
+
+    if (dryRun) {
+      return NextResponse.json({
+        dryRun: true,
+        blueprint: parsed.blueprint,
+        automations: parsed.automations.map(entry => entry.automation),
+        issues
+      }, { status: 200 });
+    }
+
+    const takenNames = new Set((await db.select({ name: automations.name }).from(automations)).map(row => row.name));
+    const created = [];
+
+    for (const entry of parsed.automations) {
+      const now = new Date().toISOString();
+      const name = uniqueName(entry.automation.name, takenNames);
+      takenNames.add(name);
+
+      const automation = await db.transaction(async (tx) => {
+        const [row] = await tx.insert(automations).values({
+          name,
+          description: entry.automation.description || null,
+          variables: entry.automation.variables ?? null,
+          enabled: entry.issues.length === 0,
+          source: 'local',
+          createdAt: now,
+          updatedAt: now
+        }).returning();
+
+        await replaceAutomationChildren(row.id, entry.automation, now, tx);
+        return row;
+      });
+
+      created.push({
+        id: automation.id,
+        name,
+        enabled: automation.enabled,
+        triggers: entry.automation.triggers.length,
+        conditions: entry.automation.conditions.length,
+        actions: entry.automation.actions.length
+      });
+    }
+
+    await getAutomationEngine().reload();
+
+    return NextResponse.json({
+      blueprint: parsed.blueprint,
+      created,
+      issues
+    }, { status: 201 });
+  } catch (error) {
+    console.error('POST /api/v1/automations/import error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + error,
+      code: 'IMPORT_FAILED'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAutomation, listAutomations } from '@/lib/automation-service';
+import { automationErrorResponse } from '@/lib/automation-api';
+
+// GET /api/v1/automations?limit=&offset=&search=&enabled=&source=&sort=&order=
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const result = await listAutomations({
+      limit: searchParams.get('limit'),
+      offset: searchParams.get('offset'),
+      search: searchParams.get('search'),
+      enabled: searchParams.get('enabled'),
+      source: searchParams.get('source'),
+      sort: searchParams.get('sort'),
+      order: searchParams.get('order')
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    return automationErrorResponse(error, 'GET /api/v1/automations');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const automation = await createAutomation(await request.json());
+    return NextResponse.json(automation, { status: 201 });
+  } catch (error) {
+    return automationErrorResponse(error, 'POST /api/v1/automations');
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadAutomationDefinitions } from '@/lib/automation-engine';
+import { listScheduledTriggers } from '@/lib/automation-scheduler';
+import { AutomationApiError, parseId } from '@/lib/automation-validation';
+import { automationErrorResponse } from '@/lib/automation-api';
+
+const MAX_UPCOMING = 20;
+
+// GET /api/v1/automations/schedule?count=3&automationId=12
+// Next fire times of the time, cron and sunrise/sunset triggers of enabled
+// local automations, soonest first. `count` is how many upcoming times to
+// list per trigger. Triggers that cannot be scheduled (e.g. sun triggers
+// without a location) are listed with an error and no fire times.
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const count = parseInt(searchParams.get('count') || '1');
+    if (isNaN(count) || count < 1 || count > MAX_UPCOMING) {
+      throw new AutomationApiError(`count must be between 1 and ${MAX_UPCOMING}`, 'INVALID_COUNT');
+    }
+
+    const automationId = searchParams.get('automationId');
+    const definitions = await loadAutomationDefinitions({
+      ids: automationId !== null ? [parseId(automationId, 'INVALID_AUTOMATION_ID')] : undefined,
+      source: 'local',
+      enabledOnly: true
+    });
+
+    const schedule = await listScheduledTriggers(definitions, count);
+
+    return NextResponse.json({
+      generatedAt: new Date().toISOString(),
+      location: schedule.location,
+      data: schedule.triggers
+    });
+  } catch (error) {
+    return automationErrorResponse(error, 'GET /api/v1/automations/schedule');
+  }
+}
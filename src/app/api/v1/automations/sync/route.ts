@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerHomeAssistantAPI } from '@/lib/homeassistant-server';
+import { getSyncStatus, importFromHomeAssistant } from '@/lib/automation-sync';
+
+// GET /api/v1/automations/sync
+// Sync state of every local automation and every editor-managed HA automation
+export async function GET(request: NextRequest) {
+  try {
+    const ha = await createServerHomeAssistantAPI();
+
+    if (!ha) {
+      return NextResponse.json({
+        error: 'Home Assistant connection is not configured',
+        code: 'HA_NOT_CONFIGURED'
+      }, { status: 503 });
+    }
+
+    const entries = await getSyncStatus(ha);
+
+    return NextResponse.json({
+      data: entries,
+      summary: entries.reduce<Record<string, number>>((counts, entry) => {
+        counts[entry.status] = (counts[entry.status] || 0) + 1;
+        return counts;
+      }, {})
+    });
+  } catch (error) {
+    console.error('GET /api/v1/automations/sync error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + error,
+      code: 'SYNC_STATUS_FAILED'
+    }, { status: 500 });
+  }
+}
+
+// POST /api/v1/automations/sync
+// Import HA automations. Body: { haAutomationIds?: string[], force?: boolean }
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { haAutomationIds, force } = body || {};
+
+    if (haAutomationIds !== undefined &&
+        (!Array.isArray(haAutomationIds) || haAutomationIds.some((id: unknown) => typeof id !== 'string'))) {
+      return NextResponse.json({
+        error: 'haAutomationIds must be an array of strings',
+        code: 'INVALID_HA_AUTOMATION_IDS'
+      }, { status: 400 });
+    }
+
+    const ha = await createServerHomeAssistantAPI();
+
+    if (!ha) {
+      return NextResponse.json({
+        error: 'Home Assistant connection is not configured',
+        code: 'HA_NOT_CONFIGURED'
+      }, { status: 503 });
+    }
+
+    const result = await importFromHomeAssistant(ha, {
+      haAutomationIds,
+      force: force === true
+    });
+
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error('POST /api/v1/automations/sync error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + error,
+      code: 'SYNC_IMPORT_FAILED'
+    }, { status: 500 });
+  }
+}
@@ -6,6 +6,8 @@ import { Camera, Video, VideoOff, Cctv, MonitorPlay, SwitchCamera } from "lucide
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import type videojs from "video.js";
+import "video.js/dist/video-js.css";
 
 export interface Camera {
   id: string;
@@ -49,15 +51,17 @@ export default function CameraCard({
   onTest,
   onFullView,
 }: CameraCardProps) {
-  const videoRef = useRef<HTMLVideoElement>(null);
+  const playerRef = useRef<HTMLDivElement>(null);
   const imgRef = useRef<HTMLImageElement>(null);
   const [hasError, setHasError] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [playerKey, setPlayerKey] = useState(0);
 
-  // Use direct camera URL for HTTP/MJPEG, mock for others
+  // Use direct camera URL for HTTP/MJPEG; RTSP/RTMP go through the server's
+  // HLS restream
   const streamSrc = camera.connectionType === "http" 
     ? camera.url  // Direct MJPEG URL with auth
-    : `/api/stream/${camera.id}`; // Mock for RTSP/etc.
+    : `/api/cameras/${camera.id}/stream`;
 
   useEffect(() => {
     setHasError(false);
@@ -75,52 +79,45 @@ export default function CameraCard({
       };
       // Trigger load
       img.src = streamSrc;
-    } else {
-      const video = videoRef.current;
-      if (video) {
-        const handleError = () => {
-          setHasError(true);
-          setIsLoading(false);
-        };
+    } else if (playerRef.current) {
+      // video.js replaces the element it is given, so it gets one of its own
+      // rather than one React renders
+      const container = playerRef.current;
+      let player: ReturnType<typeof videojs> | null = null;
+      let disposed = false;
 
-        const handleLoadStart = () => {
-          setIsLoading(true);
+      import("video.js").then(({ default: videojs }) => {
+        if (disposed) return;
+        const element = document.createElement("video-js");
+        container.appendChild(element);
+        player = videojs(element, {
+          autoplay: "muted",
+          muted: true,
+          controls: false,
+          fill: true,
+          liveui: false,
+          html5: { vhs: { overrideNative: true } },
+          sources: [{ src: streamSrc, type: "application/x-mpegURL" }]
+        });
+        player.on("playing", () => {
+          setIsLoading(false);
           setHasError(false);
-        };
-
-        const handleCanPlay = () => {
+        });
+        player.on("error", () => {
+          setHasError(true);
           setIsLoading(false);
-        };
-
-        video.addEventListener('error', handleError);
-        video.addEventListener('loadstart', handleLoadStart);
-        video.addEventListener('canplay', handleCanPlay);
-
-        // For non-HTTP, simulate if no real stream
-        if (camera.status === "online") {
-          const timeout = setTimeout(() => {
-            if (video.networkState === 0 || video.readyState === 0) {
-              setHasError(true);
-              setIsLoading(false);
-            }
-          }, 3000);
-
-          return () => {
-            clearTimeout(timeout);
-            video.removeEventListener('error', handleError);
-            video.removeEventListener('loadstart', handleLoadStart);
-            video.removeEventListener('canplay', handleCanPlay);
-          };
-        }
+        });
+      }).catch(() => {
+        setHasError(true);
+        setIsLoading(false);
+      });
 
-        return () => {
-          video.removeEventListener('error', handleError);
-          video.removeEventListener('loadstart', handleLoadStart);
-          video.removeEventListener('canplay', handleCanPlay);
-        };
-      }
+      return () => {
+        disposed = true;
+        player?.dispose();
+      };
     }
-  }, [camera.connectionType, camera.url, camera.status, camera.id, streamSrc]);
+  }, [camera.connectionType, camera.url, camera.id, streamSrc, playerKey]);
 
   const handleRetry = () => {
     setHasError(false);
@@ -128,8 +125,8 @@ export default function CameraCard({
     // Re-trigger src
     if (camera.connectionType === "http" && imgRef.current) {
       imgRef.current.src = streamSrc + '?t=' + Date.now();
-    } else if (videoRef.current) {
-      videoRef.current.load();
+    } else {
+      setPlayerKey(key => key + 1);
     }
   };
 
@@ -140,7 +137,10 @@ export default function CameraCard({
   const handleDeleteClick = () => onDelete(camera);
   const handleFullViewClick = () => onFullView(camera);
 
-  const showOverlay = (camera.status !== "online" && !isLoading) || hasError;
+  // A restream that plays is its own proof of health, whatever the status
+  // was when the list loaded
+  const isPlaying = camera.connectionType !== "http" && !isLoading && !hasError;
+  const showOverlay = (camera.status !== "online" && !isLoading && !isPlaying) || hasError;
 
   return (
     <Card className="relative overflow-hidden">
@@ -169,15 +169,9 @@ export default function CameraCard({
               className={`w-full h-full object-cover rounded-md transition-opacity ${isLoading || hasError ? 'opacity-0' : 'opacity-100'}`}
             />
           ) : (
-            <video
-              ref={videoRef}
-              src={streamSrc}
-              className={`w-full h-full object-cover rounded-md transition-opacity ${isLoading || hasError ? 'opacity-0' : 'opacity-100'}`}
-              autoPlay
-              muted
-              loop
-              playsInline
-              controls={false}
+            <div
+              ref={playerRef}
+              className={`w-full h-full rounded-md overflow-hidden transition-opacity ${isLoading || hasError ? 'opacity-0' : 'opacity-100'}`}
             />
           )}
           {(isLoading || showOverlay) && (
@@ -0,0 +1,302 @@
+// src/components/RecordingTimeline.tsx
+"use client";
+
+import { useState, useEffect, useRef, useCallback } from "react";
+import { Download, Pause, Play, VideoOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { toast } from "sonner";
+
+interface TimelineSegment {
+  id: number;
+  start: string;
+  end: string;
+  duration: number;
+  trigger: string;
+  posterUrl: string;
+  sprite: { url: string; interval: number; columns: number; width: number; height: number };
+}
+
+interface Timeline {
+  segments: TimelineSegment[];
+  spans: { start: string; end: string }[];
+  markers: { time: string; trigger: string; recordingId: number }[];
+}
+
+interface RecordingTimelineProps {
+  cameraId: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const markerColors: Record<string, string> = {
+  motion: "bg-amber-500",
+  manual: "bg-blue-500"
+};
+
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+const toTimeInput = (time: number) => {
+  const date = new Date(time);
+  return `${String(date.getHours()).padStart(2, "0")}:${String(date.getMinutes()).padStart(2, "0")}`;
+};
+
+const formatClock = (time: number) =>
+  new Date(time).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+
+export default function RecordingTimeline({ cameraId }: RecordingTimelineProps) {
+  const [date, setDate] = useState(() => toDateInput(new Date()));
+  const [timeline, setTimeline] = useState<Timeline | null>(null);
+  const [segment, setSegment] = useState<TimelineSegment | null>(null);
+  const [position, setPosition] = useState<number | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [exportFrom, setExportFrom] = useState("00:00");
+  const [exportTo, setExportTo] = useState("00:05");
+  const [isExporting, setIsExporting] = useState(false);
+  const [hover, setHover] = useState<{ x: number; time: number; segment: TimelineSegment | null } | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  // Where to start in the segment once its metadata loads
+  const pendingOffset = useRef(0);
+
+  const dayStart = new Date(`${date}T00:00:00`).getTime();
+
+  useEffect(() => {
+    const from = new Date(`${date}T00:00:00`);
+    const to = new Date(from.getTime() + DAY_MS);
+    setTimeline(null);
+    setSegment(null);
+    setPosition(null);
+    fetch(`/api/recordings/timeline?cameraId=${cameraId}&from=${from.toISOString()}&to=${to.toISOString()}`)
+      .then(response => response.ok ? response.json() : Promise.reject(response))
+      .then(setTimeline)
+      .catch(() => toast.error("Failed to load recording timeline"));
+  }, [cameraId, date]);
+
+  // Plays from `time`, or from the next recording when nothing covers it
+  const seek = useCallback((time: number) => {
+    if (!timeline) return;
+    const segments = timeline.segments;
+    const covering = segments.find(s => new Date(s.start).getTime() <= time && time < new Date(s.end).getTime());
+    const next = covering ?? segments.find(s => new Date(s.start).getTime() > time);
+    if (!next) {
+      toast.info("No recordings after this point");
+      return;
+    }
+
+    const start = new Date(next.start).getTime();
+    const offset = covering ? (time - start) / 1000 : 0;
+    setPosition(start + offset * 1000);
+    if (segment?.id === next.id && videoRef.current) {
+      videoRef.current.currentTime = offset;
+      videoRef.current.play().catch(() => {});
+    } else {
+      pendingOffset.current = offset;
+      setSegment(next);
+    }
+  }, [timeline, segment]);
+
+  const handleEnded = () => {
+    if (!timeline || !segment) return;
+    // Continue into the next recording, across the segment boundary
+    const end = new Date(segment.end).getTime();
+    const next = timeline.segments.find(s => s.id !== segment.id && new Date(s.start).getTime() >= end - 1000);
+    if (next) {
+      pendingOffset.current = 0;
+      setSegment(next);
+    } else {
+      setIsPlaying(false);
+    }
+  };
+
+  const handleBarClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    seek(dayStart + ((event.clientX - rect.left) / rect.width) * DAY_MS);
+  };
+
+  const handleBarHover = (event: React.MouseEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = event.clientX - rect.left;
+    const time = dayStart + (x / rect.width) * DAY_MS;
+    const covering = timeline?.segments.find(s => new Date(s.start).getTime() <= time && time < new Date(s.end).getTime());
+    setHover({ x, time, segment: covering ?? null });
+  };
+
+  // The sprite tile for `time` in the hovered segment
+  const spriteStyle = (segment: TimelineSegment, time: number): React.CSSProperties => {
+    const { url, interval, columns, width, height } = segment.sprite;
+    const tile = Math.floor((time - new Date(segment.start).getTime()) / 1000 / interval);
+    return {
+      width,
+      height,
+      backgroundImage: `url(${url})`,
+      backgroundPosition: `-${(tile % columns) * width}px -${Math.floor(tile / columns) * height}px`
+    };
+  };
+
+  const handleExport = async () => {
+    const from = new Date(`${date}T${exportFrom}:00`);
+    const to = new Date(`${date}T${exportTo}:00`);
+    // A range like 23:50 - 00:10 ends the next day
+    if (to <= from) to.setDate(to.getDate() + 1);
+
+    setIsExporting(true);
+    try {
+      const response = await fetch('/api/recordings/export', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ cameraId: Number(cameraId), from: from.toISOString(), to: to.toISOString() })
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        toast.error(data.error || 'Export failed');
+        return;
+      }
+
+      const filename = /filename="([^"]+)"/.exec(response.headers.get('Content-Disposition') ?? '')?.[1] ?? 'export.mp4';
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast.error('Error exporting recording');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const percent = (time: number) => `${Math.min(Math.max((time - dayStart) / DAY_MS, 0), 1) * 100}%`;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-end gap-4">
+        <div>
+          <Label>Day</Label>
+          <Input type="date" value={date} onChange={(e) => e.target.value && setDate(e.target.value)} className="mt-1" />
+        </div>
+        {position !== null && (
+          <div className="text-sm text-muted-foreground pb-2">
+            {formatClock(position)}{segment ? ` • ${segment.trigger}` : ""}
+          </div>
+        )}
+      </div>
+
+      <div className="aspect-video bg-black rounded-md overflow-hidden flex items-center justify-center">
+        {segment ? (
+          <video
+            ref={videoRef}
+            key={segment.id}
+            src={`/api/recordings/${segment.id}/file`}
+            poster={segment.posterUrl}
+            className="w-full h-full"
+            controls
+            autoPlay
+            onLoadedMetadata={(e) => { e.currentTarget.currentTime = pendingOffset.current; }}
+            onTimeUpdate={(e) => setPosition(new Date(segment.start).getTime() + e.currentTarget.currentTime * 1000)}
+            onPlay={() => setIsPlaying(true)}
+            onPause={() => setIsPlaying(false)}
+            onEnded={handleEnded}
+          />
+        ) : (
+          <div className="text-center text-muted-foreground">
+            <VideoOff className="h-10 w-10 mx-auto mb-2" />
+            <p className="text-sm">
+              {timeline && timeline.segments.length === 0 ? "No recordings on this day" : "Click the timeline to play"}
+            </p>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="relative">
+          {hover && (
+            <div
+              className="absolute bottom-full mb-2 -translate-x-1/2 z-10 pointer-events-none rounded-md border bg-background p-1 shadow-md text-center"
+              style={{ left: hover.x }}
+            >
+              {hover.segment && <div className="bg-muted" style={spriteStyle(hover.segment, hover.time)} />}
+              <div className="text-xs text-muted-foreground">{formatClock(hover.time)}</div>
+            </div>
+          )}
+          <div
+            className="relative h-10 bg-muted rounded-md cursor-pointer overflow-hidden"
+            onClick={handleBarClick}
+            onMouseMove={handleBarHover}
+            onMouseLeave={() => setHover(null)}
+          >
+            {timeline?.spans.map((span) => (
+              <div
+                key={span.start}
+                className="absolute top-2 bottom-2 bg-primary/60 rounded-sm"
+                style={{ left: percent(new Date(span.start).getTime()), right: `calc(100% - ${percent(new Date(span.end).getTime())})` }}
+              />
+            ))}
+            {timeline?.markers.map((marker) => (
+              <div
+                key={marker.recordingId}
+                title={`${marker.trigger} at ${formatClock(new Date(marker.time).getTime())}`}
+                className={`absolute top-0 bottom-0 w-0.5 ${markerColors[marker.trigger] ?? "bg-muted-foreground"}`}
+                style={{ left: percent(new Date(marker.time).getTime()) }}
+              />
+            ))}
+            {position !== null && (
+              <div className="absolute top-0 bottom-0 w-0.5 bg-destructive" style={{ left: percent(position) }} />
+            )}
+          </div>
+        </div>
+        <div className="flex justify-between text-xs text-muted-foreground">
+          {[0, 3, 6, 9, 12, 15, 18, 21, 24].map((hour) => (
+            <span key={hour}>{String(hour).padStart(2, "0")}:00</span>
+          ))}
+        </div>
+        <div className="flex items-center gap-3">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!segment}
+            onClick={() => isPlaying ? videoRef.current?.pause() : videoRef.current?.play()}
+          >
+            {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+          </Button>
+          <Slider
+            min={0}
+            max={DAY_MS / 1000}
+            step={1}
+            value={[position !== null ? Math.round((position - dayStart) / 1000) : 0]}
+            onValueChange={([seconds]) => setPosition(dayStart + seconds * 1000)}
+            onValueCommit={([seconds]) => seek(dayStart + seconds * 1000)}
+            className="flex-1"
+          />
+        </div>
+      </div>
+
+      <div className="flex items-end gap-3 pt-4 border-t">
+        <div>
+          <Label>Export From</Label>
+          <Input type="time" value={exportFrom} onChange={(e) => setExportFrom(e.target.value)} className="mt-1" />
+        </div>
+        <div>
+          <Label>To</Label>
+          <Input type="time" value={exportTo} onChange={(e) => setExportTo(e.target.value)} className="mt-1" />
+        </div>
+        {position !== null && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => { setExportFrom(toTimeInput(position)); setExportTo(toTimeInput(position + 5 * 60 * 1000)); }}
+          >
+            From playhead
+          </Button>
+        )}
+        <Button onClick={handleExport} disabled={isExporting} className="ml-auto">
+          <Download className="h-4 w-4 mr-2" />
+          {isExporting ? "Exporting..." : "Export MP4"}
+        </Button>
+      </div>
+    </div>
+  );
+}
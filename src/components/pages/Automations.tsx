@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -24,7 +24,11 @@ import {
   Construction,
   Container,
   Loader2,
-  Trash
+  Trash,
+  History,
+  CheckCircle2,
+  XCircle,
+  MinusCircle
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { EntityAutocomplete } from '@/components/EntityAutocomplete';
@@ -39,11 +43,12 @@ interface Entity {
 
 interface Trigger {
   id: number;
-  type: 'entity_state' | 'time' | 'sunrise_sunset';
+  type: 'entity_state' | 'time' | 'cron' | 'sunrise_sunset' | 'mqtt';
   entityId?: string;
   attribute?: string;
   state?: string;
   time?: string;
+  cron?: string;
   offset?: number;
   topic?: string;
   payload?: string;
@@ -81,10 +86,47 @@ interface Automation {
   lastRun?: string;
   source: 'local' | 'ha';
   tags?: string[];
+  missedRunPolicy?: 'skip' | 'catch_up';
+  variables?: Record<string, any> | null;
   createdAt: string;
   updatedAt: string;
 }
 
+interface AutomationRunStep {
+  id: number;
+  position: number;
+  stepType: 'trigger' | 'condition' | 'action';
+  refId?: number;
+  status: string;
+  entityId?: string;
+  actualValue?: string;
+  message?: string;
+  error?: string;
+  durationMs: number;
+}
+
+interface AutomationRun {
+  id: number;
+  automationId: number;
+  triggerType: string;
+  triggerEntityId?: string;
+  status: 'success' | 'failed' | 'conditions_not_met';
+  conditionsPassed: boolean;
+  error?: string;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  steps?: AutomationRunStep[];
+}
+
+interface YamlIssue {
+  automationIndex: number | null;
+  path: string;
+  line: number | null;
+  column: number | null;
+  message: string;
+}
+
 interface TestRun {
   id: string;
   timestamp: string;
@@ -99,9 +141,17 @@ export default function Automations() {
   const [testRuns, setTestRuns] = useState<TestRun[]>([]);
   const [yamlPreview, setYamlPreview] = useState('');
   const [isAdvancedModalOpen, setIsAdvancedModalOpen] = useState(false);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+  const [importYamlText, setImportYamlText] = useState('');
+  const [importIssues, setImportIssues] = useState<YamlIssue[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
+  const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
+  const draftIdRef = useRef(0);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [runs, setRuns] = useState<AutomationRun[]>([]);
+  const [expandedRunId, setExpandedRunId] = useState<number | null>(null);
+  const [isLoadingRuns, setIsLoadingRuns] = useState(false);
 
   // Mock entities data
   useEffect(() => {
@@ -118,7 +168,7 @@ export default function Automations() {
   const loadAutomations = useCallback(async () => {
     try {
       setIsLoading(true);
-      const response = await fetch('/api/automations-new');
+      const response = await fetch('/api/v1/automations?limit=100');
       if (!response.ok) throw new Error('Failed to load automations');
       
       const data = await response.json();
@@ -138,11 +188,12 @@ export default function Automations() {
   // Load detailed automation data with triggers, conditions, actions
   const loadAutomationDetails = useCallback(async (automationId: number) => {
     try {
-      const response = await fetch(`/api/automations-new?id=${automationId}`);
+      const response = await fetch(`/api/v1/automations/${automationId}`);
       if (!response.ok) throw new Error('Failed to load automation details');
       
       const data = await response.json();
       setSelectedAutomation(data);
+      setHasUnsavedChanges(false);
       
       // Update the automation in the list as well
       setAutomations(prev => prev.map(a => a.id === automationId ? data : a));
@@ -157,10 +208,58 @@ export default function Automations() {
     loadAutomations();
   }, [loadAutomations]);
 
+  // Load run history for the selected automation
+  const loadRuns = useCallback(async (automationId: number) => {
+    try {
+      setIsLoadingRuns(true);
+      const response = await fetch(`/api/v1/automations/${automationId}/runs?limit=25`);
+      if (!response.ok) throw new Error('Failed to load run history');
+
+      const { data } = await response.json();
+      setRuns(data);
+    } catch (error) {
+      console.error('Error loading run history:', error);
+      setRuns([]);
+    } finally {
+      setIsLoadingRuns(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    setExpandedRunId(null);
+    if (selectedAutomation?.id) {
+      loadRuns(selectedAutomation.id);
+    } else {
+      setRuns([]);
+    }
+  }, [selectedAutomation?.id, loadRuns]);
+
+  // Expand a run and fetch its trace steps on first open
+  const toggleRunDetails = useCallback(async (run: AutomationRun) => {
+    if (expandedRunId === run.id) {
+      setExpandedRunId(null);
+      return;
+    }
+
+    setExpandedRunId(run.id);
+    if (run.steps) return;
+
+    try {
+      const response = await fetch(`/api/v1/automations/${run.automationId}/runs/${run.id}`);
+      if (!response.ok) throw new Error('Failed to load run trace');
+
+      const details: AutomationRun = await response.json();
+      setRuns(prev => prev.map(r => r.id === run.id ? { ...r, steps: details.steps } : r));
+    } catch (error) {
+      console.error('Error loading run trace:', error);
+      toast.error('Failed to load run trace');
+    }
+  }, [expandedRunId]);
+
   const createAutomation = useCallback(async () => {
     try {
       setIsSaving(true);
-      const response = await fetch('/api/automations-new', {
+      const response = await fetch('/api/v1/automations', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -175,6 +274,7 @@ export default function Automations() {
       const newAutomation = await response.json();
       setAutomations(prev => [...prev, newAutomation]);
       setSelectedAutomation({ ...newAutomation, triggers: [], conditions: [], actions: [] });
+      setHasUnsavedChanges(false);
       toast.success('Automation created successfully');
     } catch (error) {
       console.error('Error creating automation:', error);
@@ -184,100 +284,60 @@ export default function Automations() {
     }
   }, []);
 
-  const addTrigger = useCallback(async () => {
-    if (!selectedAutomation) return;
-    
-    try {
-      const response = await fetch(`/api/automations-new/${selectedAutomation.id}/triggers`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          type: 'entity_state'
-        })
-      });
-      
-      if (!response.ok) throw new Error('Failed to add trigger');
-      
-      const newTrigger = await response.json();
-      const updated = {
-        ...selectedAutomation,
-        triggers: [...(selectedAutomation.triggers || []), newTrigger]
-      };
-      
-      setSelectedAutomation(updated);
-      setAutomations(prev => prev.map(a => a.id === updated.id ? updated : a));
-      toast.success('Trigger added successfully');
-    } catch (error) {
-      console.error('Error adding trigger:', error);
-      toast.error('Failed to add trigger');
-    }
-  }, [selectedAutomation]);
+  const selectAutomation = useCallback((automationId: number) => {
+    if (automationId === selectedAutomation?.id) return;
+    if (hasUnsavedChanges && !window.confirm('Discard unsaved changes to this automation?')) return;
+    loadAutomationDetails(automationId);
+  }, [selectedAutomation, hasUnsavedChanges, loadAutomationDetails]);
 
-  const addCondition = useCallback(async () => {
-    if (!selectedAutomation) return;
-    
-    try {
-      const response = await fetch(`/api/automations-new/${selectedAutomation.id}/conditions`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          type: 'entity_state',
-          operator: 'equals',
-          value: 'on'
-        })
-      });
-      
-      if (!response.ok) throw new Error('Failed to add condition');
-      
-      const newCondition = await response.json();
-      const updated = {
-        ...selectedAutomation,
-        conditions: [...(selectedAutomation.conditions || []), newCondition]
-      };
-      
-      setSelectedAutomation(updated);
-      setAutomations(prev => prev.map(a => a.id === updated.id ? updated : a));
-      toast.success('Condition added successfully');
-    } catch (error) {
-      console.error('Error adding condition:', error);
-      toast.error('Failed to add condition');
-    }
-  }, [selectedAutomation]);
+  // Editor changes stay in the draft until saved through the definition endpoint
+  const editDraft = useCallback((update: (automation: Automation) => Automation) => {
+    setSelectedAutomation(prev => prev ? update(prev) : prev);
+    setHasUnsavedChanges(true);
+  }, []);
 
-  const addAction = useCallback(async () => {
-    if (!selectedAutomation) return;
-    
-    try {
-      const response = await fetch(`/api/automations-new/${selectedAutomation.id}/actions`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          type: 'service_call',
-          service: 'light.turn_on',
-          entityId: 'light.living_room'
-        })
-      });
-      
-      if (!response.ok) throw new Error('Failed to add action');
-      
-      const newAction = await response.json();
-      const updated = {
-        ...selectedAutomation,
-        actions: [...(selectedAutomation.actions || []), newAction]
-      };
-      
-      setSelectedAutomation(updated);
-      setAutomations(prev => prev.map(a => a.id === updated.id ? updated : a));
-      toast.success('Action added successfully');
-    } catch (error) {
-      console.error('Error adding action:', error);
-      toast.error('Failed to add action');
-    }
-  }, [selectedAutomation]);
+  // Unsaved triggers, conditions and actions get negative placeholder ids
+  const nextDraftId = useCallback(() => {
+    draftIdRef.current -= 1;
+    return draftIdRef.current;
+  }, []);
+
+  const addTrigger = useCallback(() => {
+    editDraft(automation => ({
+      ...automation,
+      triggers: [...(automation.triggers || []), { id: nextDraftId(), type: 'entity_state', entityId: entities[0]?.id }]
+    }));
+  }, [editDraft, nextDraftId, entities]);
+
+  const addCondition = useCallback(() => {
+    editDraft(automation => ({
+      ...automation,
+      conditions: [...(automation.conditions || []), {
+        id: nextDraftId(),
+        type: 'entity_state',
+        entityId: entities[0]?.id,
+        operator: 'equals',
+        value: 'on',
+        logicalOperator: 'and'
+      }]
+    }));
+  }, [editDraft, nextDraftId, entities]);
+
+  const addAction = useCallback(() => {
+    editDraft(automation => ({
+      ...automation,
+      actions: [...(automation.actions || []), {
+        id: nextDraftId(),
+        type: 'service_call',
+        service: 'light.turn_on',
+        entityId: 'light.living_room'
+      }]
+    }));
+  }, [editDraft, nextDraftId]);
 
   const toggleAutomation = useCallback(async (id: number) => {
     try {
-      const response = await fetch(`/api/automations-new/${id}/toggle`, {
+      const response = await fetch(`/api/v1/automations/${id}/toggle`, {
         method: 'PUT'
       });
       
@@ -302,7 +362,7 @@ export default function Automations() {
 
   const duplicateAutomation = useCallback(async (automation: Automation) => {
     try {
-      const response = await fetch(`/api/automations-new/${automation.id}/duplicate`, {
+      const response = await fetch(`/api/v1/automations/${automation.id}/duplicate`, {
         method: 'POST'
       });
       
@@ -320,7 +380,7 @@ export default function Automations() {
   const deleteAutomation = useCallback(async (id: number) => {
     try {
       setIsDeleting(true);
-      const response = await fetch(`/api/automations-new/${id}`, {
+      const response = await fetch(`/api/v1/automations/${id}`, {
         method: 'DELETE'
       });
       
@@ -341,267 +401,254 @@ export default function Automations() {
     }
   }, [selectedAutomation]);
 
-  const testRun = useCallback(async () => {
+  // Dry run checks conditions against live HA state; execute really fires the actions
+  const testRun = useCallback(async (mode: 'dry_run' | 'execute' = 'dry_run') => {
     if (!selectedAutomation) return;
     
     try {
-      const response = await fetch(`/api/automations-new/${selectedAutomation.id}/test`, {
+      const response = await fetch(`/api/v1/automations/${selectedAutomation.id}/test?mode=${mode}`, {
         method: 'POST'
       });
       
-      if (!response.ok) throw new Error('Failed to test automation');
-      
       const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to test automation');
       
+      const summary = result.summary || {};
+      const conditionsText = `${summary.passedConditions || 0}/${summary.totalConditions || 0} conditions pass`;
       const newTestRun: TestRun = {
         id: Date.now().toString(),
         timestamp: new Date().toLocaleString(),
         result: result.status === 'success' ? 'success' : 'error',
-        message: `${result.summary?.successfulActions || 0}/${result.summary?.totalActions || 0} actions executed successfully`
+        message: mode === 'execute'
+          ? `${conditionsText}, ${summary.successfulActions || 0}/${summary.totalActions || 0} actions executed successfully`
+          : `${conditionsText}, ${summary.successfulActions || 0}/${summary.totalActions || 0} service calls would be issued`
       };
       
       setTestRuns(prev => [newTestRun, ...prev.slice(0, 9)]);
       toast(newTestRun.result === 'success' ? 'Test successful' : 'Test completed with issues', {
         description: newTestRun.message
       });
+
+      if (mode === 'execute') {
+        loadRuns(selectedAutomation.id);
+      }
     } catch (error) {
       console.error('Error testing automation:', error);
-      toast.error('Failed to test automation');
+      toast.error(error instanceof Error ? error.message : 'Failed to test automation');
     }
+  }, [selectedAutomation, loadRuns]);
+
+  // Write the automation and its whole graph in one request. The server
+  // replaces every trigger, condition and action in a single transaction, so
+  // a failed save leaves the stored automation untouched.
+  const saveDefinition = useCallback(async (source?: 'local' | 'ha') => {
+    if (!selectedAutomation) return;
+
+    const response = await fetch(`/api/v1/automations/${selectedAutomation.id}/definition`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        name: selectedAutomation.name,
+        description: selectedAutomation.description || null,
+        tags: selectedAutomation.tags || [],
+        missedRunPolicy: selectedAutomation.missedRunPolicy || 'skip',
+        variables: selectedAutomation.variables || null,
+        ...(source ? { source } : {}),
+        triggers: selectedAutomation.triggers || [],
+        conditions: selectedAutomation.conditions || [],
+        actions: selectedAutomation.actions || []
+      })
+    });
+    const result = await response.json();
+
+    if (!response.ok) throw new Error(result.error || 'Failed to save automation');
+
+    setSelectedAutomation(result);
+    setAutomations(prev => prev.map(a => a.id === result.id ? result : a));
+    setHasUnsavedChanges(false);
   }, [selectedAutomation]);
 
   const saveAutomation = useCallback(async (destination: 'local' | 'ha') => {
-    if (!selectedAutomation) return;
-    
     try {
       setIsSaving(true);
-      const response = await fetch(`/api/automations-new/${selectedAutomation.id}?id=${selectedAutomation.id}`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          source: destination
-        })
-      });
-      
-      if (!response.ok) throw new Error('Failed to save automation');
-      
-      const updated = await response.json();
-      setSelectedAutomation(prev => prev ? { ...prev, source: updated.source } : null);
-      setAutomations(prev => prev.map(a => a.id === updated.id ? { ...a, source: updated.source } : a));
-      
+      await saveDefinition(destination);
       toast.success(`Automation saved ${destination === 'ha' ? 'to Home Assistant' : 'locally'}`);
     } catch (error) {
       console.error('Error saving automation:', error);
-      toast.error('Failed to save automation');
+      toast.error(error instanceof Error ? error.message : 'Failed to save automation');
     } finally {
       setIsSaving(false);
     }
-  }, [selectedAutomation]);
+  }, [saveDefinition]);
 
-  // Update trigger
-  const updateTrigger = useCallback(async (triggerId: number, updates: Partial<Trigger>) => {
+  // Push the automation to Home Assistant's automation editor, saving any
+  // unsaved edits first so HA receives what the editor shows
+  const pushToHomeAssistant = useCallback(async (force = false) => {
     if (!selectedAutomation) return;
-    
-    try {
-      const response = await fetch(`/api/automations-new/${selectedAutomation.id}/triggers/${triggerId}`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(updates)
-      });
-      
-      if (!response.ok) throw new Error('Failed to update trigger');
-      
-      const updatedTrigger = await response.json();
-      const updatedAutomation = {
-        ...selectedAutomation,
-        triggers: selectedAutomation.triggers?.map(t => t.id === triggerId ? updatedTrigger : t) || []
-      };
-      
-      setSelectedAutomation(updatedAutomation);
-      setAutomations(prev => prev.map(a => a.id === updatedAutomation.id ? updatedAutomation : a));
-    } catch (error) {
-      console.error('Error updating trigger:', error);
-      toast.error('Failed to update trigger');
-    }
-  }, [selectedAutomation]);
 
-  // Delete trigger
-  const deleteTrigger = useCallback(async (triggerId: number) => {
-    if (!selectedAutomation) return;
-    
     try {
-      const response = await fetch(`/api/automations-new/${selectedAutomation.id}/triggers/${triggerId}`, {
-        method: 'DELETE'
-      });
-      
-      if (!response.ok) throw new Error('Failed to delete trigger');
-      
-      const updatedAutomation = {
-        ...selectedAutomation,
-        triggers: selectedAutomation.triggers?.filter(t => t.id !== triggerId) || []
-      };
-      
-      setSelectedAutomation(updatedAutomation);
-      setAutomations(prev => prev.map(a => a.id === updatedAutomation.id ? updatedAutomation : a));
-      toast.success('Trigger deleted successfully');
-    } catch (error) {
-      console.error('Error deleting trigger:', error);
-      toast.error('Failed to delete trigger');
-    }
-  }, [selectedAutomation]);
+      setIsSaving(true);
+      if (hasUnsavedChanges) await saveDefinition();
 
-  // Update condition
-  const updateCondition = useCallback(async (conditionId: number, updates: Partial<Condition>) => {
-    if (!selectedAutomation) return;
-    
-    try {
-      const response = await fetch(`/api/automations-new/${selectedAutomation.id}/conditions/${conditionId}`, {
-        method: 'PUT',
+      const response = await fetch(`/api/v1/automations/${selectedAutomation.id}/sync`, {
+        method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(updates)
+        body: JSON.stringify({ force })
       });
-      
-      if (!response.ok) throw new Error('Failed to update condition');
-      
-      const updatedCondition = await response.json();
-      const updatedAutomation = {
-        ...selectedAutomation,
-        conditions: selectedAutomation.conditions?.map(c => c.id === conditionId ? updatedCondition : c) || []
-      };
-      
-      setSelectedAutomation(updatedAutomation);
-      setAutomations(prev => prev.map(a => a.id === updatedAutomation.id ? updatedAutomation : a));
-    } catch (error) {
-      console.error('Error updating condition:', error);
-      toast.error('Failed to update condition');
-    }
-  }, [selectedAutomation]);
+      const result = await response.json();
 
-  // Delete condition
-  const deleteCondition = useCallback(async (conditionId: number) => {
-    if (!selectedAutomation) return;
-    
-    try {
-      const response = await fetch(`/api/automations-new/${selectedAutomation.id}/conditions/${conditionId}`, {
-        method: 'DELETE'
-      });
-      
-      if (!response.ok) throw new Error('Failed to delete condition');
-      
-      const updatedAutomation = {
-        ...selectedAutomation,
-        conditions: selectedAutomation.conditions?.filter(c => c.id !== conditionId) || []
-      };
-      
-      setSelectedAutomation(updatedAutomation);
-      setAutomations(prev => prev.map(a => a.id === updatedAutomation.id ? updatedAutomation : a));
-      toast.success('Condition deleted successfully');
-    } catch (error) {
-      console.error('Error deleting condition:', error);
-      toast.error('Failed to delete condition');
-    }
-  }, [selectedAutomation]);
+      if (response.status === 409) {
+        if (window.confirm('This automation was changed in Home Assistant since the last sync. Overwrite the Home Assistant version?')) {
+          await pushToHomeAssistant(true);
+        }
+        return;
+      }
 
-  // Update action
-  const updateAction = useCallback(async (actionId: number, updates: Partial<Action>) => {
-    if (!selectedAutomation) return;
-    
-    try {
-      const response = await fetch(`/api/automations-new/${selectedAutomation.id}/actions/${actionId}`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(updates)
-      });
-      
-      if (!response.ok) throw new Error('Failed to update action');
-      
-      const updatedAction = await response.json();
-      const updatedAutomation = {
-        ...selectedAutomation,
-        actions: selectedAutomation.actions?.map(a => a.id === actionId ? updatedAction : a) || []
-      };
-      
-      setSelectedAutomation(updatedAutomation);
-      setAutomations(prev => prev.map(a => a.id === updatedAutomation.id ? updatedAutomation : a));
+      if (response.status === 422) {
+        toast.error(`Cannot push to Home Assistant: ${result.issues.map((issue: { message: string }) => issue.message).join('; ')}`);
+        return;
+      }
+
+      if (!response.ok) throw new Error(result.error || 'Failed to push automation');
+
+      setSelectedAutomation(prev => prev ? { ...prev, source: 'ha' } : null);
+      setAutomations(prev => prev.map(a => a.id === selectedAutomation.id ? { ...a, source: 'ha' } : a));
+      toast.success('Automation pushed to Home Assistant');
     } catch (error) {
-      console.error('Error updating action:', error);
-      toast.error('Failed to update action');
+      console.error('Error pushing automation:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to push automation');
+    } finally {
+      setIsSaving(false);
     }
-  }, [selectedAutomation]);
+  }, [selectedAutomation, hasUnsavedChanges, saveDefinition]);
 
-  // Delete action
-  const deleteAction = useCallback(async (actionId: number) => {
-    if (!selectedAutomation) return;
-    
+  // Import automations from Home Assistant's automation editor
+  const importFromHomeAssistant = useCallback(async () => {
     try {
-      const response = await fetch(`/api/automations-new/${selectedAutomation.id}/actions/${actionId}`, {
-        method: 'DELETE'
-      });
-      
-      if (!response.ok) throw new Error('Failed to delete action');
-      
-      const updatedAutomation = {
-        ...selectedAutomation,
-        actions: selectedAutomation.actions?.filter(a => a.id !== actionId) || []
-      };
-      
-      setSelectedAutomation(updatedAutomation);
-      setAutomations(prev => prev.map(a => a.id === updatedAutomation.id ? updatedAutomation : a));
-      toast.success('Action deleted successfully');
+      setIsSaving(true);
+      const response = await fetch('/api/v1/automations/sync', { method: 'POST' });
+      const result = await response.json();
+
+      if (!response.ok) throw new Error(result.error || 'Failed to import automations');
+
+      const conflicts = result.skipped.filter((s: { status: string }) => s.status !== 'in_sync').length;
+      toast.success(
+        `Imported ${result.imported.length}, updated ${result.updated.length}` +
+        (conflicts > 0 ? `, ${conflicts} with local changes skipped` : '') +
+        (result.issues.length > 0 ? `, ${result.issues.length} with unsupported parts` : '')
+      );
+
+      await loadAutomations();
+      if (selectedAutomation) loadAutomationDetails(selectedAutomation.id);
     } catch (error) {
-      console.error('Error deleting action:', error);
-      toast.error('Failed to delete action');
+      console.error('Error importing automations:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to import automations');
+    } finally {
+      setIsSaving(false);
     }
-  }, [selectedAutomation]);
+  }, [loadAutomations, loadAutomationDetails, selectedAutomation]);
+
+  const updateTrigger = useCallback((triggerId: number, updates: Partial<Trigger>) => {
+    editDraft(automation => ({
+      ...automation,
+      triggers: automation.triggers?.map(t => t.id === triggerId ? { ...t, ...updates } : t) || []
+    }));
+  }, [editDraft]);
+
+  const deleteTrigger = useCallback((triggerId: number) => {
+    editDraft(automation => ({
+      ...automation,
+      triggers: automation.triggers?.filter(t => t.id !== triggerId) || []
+    }));
+  }, [editDraft]);
+
+  const updateCondition = useCallback((conditionId: number, updates: Partial<Condition>) => {
+    editDraft(automation => ({
+      ...automation,
+      conditions: automation.conditions?.map(c => c.id === conditionId ? { ...c, ...updates } : c) || []
+    }));
+  }, [editDraft]);
 
-  // Generate YAML preview
+  const deleteCondition = useCallback((conditionId: number) => {
+    editDraft(automation => ({
+      ...automation,
+      conditions: automation.conditions?.filter(c => c.id !== conditionId) || []
+    }));
+  }, [editDraft]);
+
+  const updateAction = useCallback((actionId: number, updates: Partial<Action>) => {
+    editDraft(automation => ({
+      ...automation,
+      actions: automation.actions?.map(a => a.id === actionId ? { ...a, ...updates } : a) || []
+    }));
+  }, [editDraft]);
+
+  const deleteAction = useCallback((actionId: number) => {
+    editDraft(automation => ({
+      ...automation,
+      actions: automation.actions?.filter(a => a.id !== actionId) || []
+    }));
+  }, [editDraft]);
+
+  // YAML preview rendered by the export endpoint, so it matches what HA gets
   useEffect(() => {
     if (!selectedAutomation) {
       setYamlPreview('');
       return;
     }
 
-    const yaml = `alias: ${selectedAutomation.name}
-description: ${selectedAutomation.description || ''}
-trigger:${(selectedAutomation.triggers || []).map(t => `
-  - platform: ${t.type === 'entity_state' ? 'state' : t.type}${t.entityId ? `
-    entity_id: ${t.entityId}` : ''}${t.state ? `
-    to: "${t.state}"` : ''}${t.time ? `
-    at: "${t.time}"` : ''}`).join('')}
-condition:${(selectedAutomation.conditions || []).map(c => `
-  - condition: ${c.type}${c.entityId ? `
-    entity_id: ${c.entityId}` : ''}${c.operator && c.value ? `
-    ${c.operator}: ${c.value}` : ''}`).join('')}
-action:${(selectedAutomation.actions || []).map(a => `
-  - service: ${a.service || 'unknown'}${a.entityId ? `
-    target:
-      entity_id: ${a.entityId}` : ''}${a.data ? `
-    data: ${JSON.stringify(a.data)}` : ''}`).join('')}
-mode: single`;
-
-    setYamlPreview(yaml);
+    let cancelled = false;
+    fetch(`/api/v1/automations/${selectedAutomation.id}/export?format=yaml`)
+      .then(response => response.ok ? response.text() : Promise.reject(new Error('Failed to export automation')))
+      .then(yaml => { if (!cancelled) setYamlPreview(yaml); })
+      .catch(error => {
+        console.error('Error loading YAML preview:', error);
+        if (!cancelled) setYamlPreview('');
+      });
+
+    return () => { cancelled = true; };
   }, [selectedAutomation]);
 
-  const updateAutomationName = useCallback(async (name: string) => {
-    if (!selectedAutomation) return;
-    
+  // Import pasted HA automation YAML or blueprint
+  const importYaml = useCallback(async () => {
+    if (!importYamlText.trim()) return;
+
     try {
-      const response = await fetch(`/api/automations-new/${selectedAutomation.id}?id=${selectedAutomation.id}`, {
-        method: 'PUT',
+      setIsSaving(true);
+      const response = await fetch('/api/v1/automations/import', {
+        method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ name })
+        body: JSON.stringify({ yaml: importYamlText })
       });
-      
-      if (!response.ok) throw new Error('Failed to update automation name');
-      
-      const updated = await response.json();
-      setSelectedAutomation(prev => prev ? { ...prev, name: updated.name } : null);
-      setAutomations(prev => prev.map(a => a.id === updated.id ? { ...a, name: updated.name } : a));
+      const result = await response.json();
+
+      if (!response.ok) {
+        setImportIssues(result.errors || []);
+        throw new Error(result.error || 'Failed to import YAML');
+      }
+
+      setImportIssues(result.issues);
+      await loadAutomations();
+      if (result.created.length > 0) loadAutomationDetails(result.created[0].id);
+
+      if (result.issues.length > 0) {
+        toast.warning(`Imported ${result.created.length} automation(s) disabled, with ${result.issues.length} unsupported part(s)`);
+      } else {
+        toast.success(`Imported ${result.created.length} automation(s)`);
+        setIsImportModalOpen(false);
+        setImportYamlText('');
+      }
     } catch (error) {
-      console.error('Error updating automation name:', error);
-      toast.error('Failed to update automation name');
+      console.error('Error importing YAML:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to import YAML');
+    } finally {
+      setIsSaving(false);
     }
-  }, [selectedAutomation]);
+  }, [importYamlText, loadAutomations, loadAutomationDetails]);
+
+  const updateAutomationName = useCallback((name: string) => {
+    editDraft(automation => ({ ...automation, name }));
+  }, [editDraft]);
 
   if (isLoading) {
     return (
@@ -622,9 +669,52 @@ mode: single`;
               <Workflow className="h-5 w-5" />
               Automations
             </h2>
-            <Button onClick={createAutomation} size="sm" disabled={isSaving}>
-              {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : 'New'}
-            </Button>
+            <div className="flex items-center gap-2">
+              <Button onClick={importFromHomeAssistant} variant="outline" size="sm" disabled={isSaving}>
+                Import from HA
+              </Button>
+              <Dialog open={isImportModalOpen} onOpenChange={(open) => { setIsImportModalOpen(open); if (!open) setImportIssues([]); }}>
+                <DialogTrigger asChild>
+                  <Button variant="outline" size="sm" disabled={isSaving}>YAML</Button>
+                </DialogTrigger>
+                <DialogContent className="max-w-2xl">
+                  <DialogHeader>
+                    <DialogTitle>Import YAML</DialogTitle>
+                  </DialogHeader>
+                  <div className="space-y-4">
+                    <div>
+                      <Label htmlFor="import-yaml">Home Assistant automation or blueprint</Label>
+                      <Textarea
+                        id="import-yaml"
+                        value={importYamlText}
+                        onChange={(e) => setImportYamlText(e.target.value)}
+                        placeholder={'alias: Motion light\ntrigger:\n  - platform: state\n    entity_id: binary_sensor.motion\n    to: "on"\naction:\n  - service: light.turn_on\n    target:\n      entity_id: light.hall'}
+                        className="font-mono text-xs h-64"
+                      />
+                    </div>
+                    {importIssues.length > 0 && (
+                      <div className="space-y-1 max-h-40 overflow-y-auto">
+                        {importIssues.map((issue, index) => (
+                          <div key={index} className="text-xs text-destructive font-mono">
+                            {issue.line !== null ? `Line ${issue.line}: ` : ''}{issue.message}
+                            {issue.path ? <span className="text-muted-foreground"> ({issue.path})</span> : null}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    <div className="flex justify-end">
+                      <Button onClick={importYaml} size="sm" disabled={isSaving || !importYamlText.trim()}>
+                        {isSaving ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+                        Import
+                      </Button>
+                    </div>
+                  </div>
+                </DialogContent>
+              </Dialog>
+              <Button onClick={createAutomation} size="sm" disabled={isSaving}>
+                {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : 'New'}
+              </Button>
+            </div>
           </div>
         </div>
         
@@ -636,7 +726,7 @@ mode: single`;
                 className={`mb-2 cursor-pointer transition-colors ${
                   selectedAutomation?.id === automation.id ? 'ring-2 ring-primary' : ''
                 }`}
-                onClick={() => loadAutomationDetails(automation.id)}
+                onClick={() => selectAutomation(automation.id)}
               >
                 <CardContent className="p-3">
                   <div className="flex items-start justify-between mb-2">
@@ -728,10 +818,7 @@ mode: single`;
                           <Textarea
                             id="description"
                             value={selectedAutomation.description || ''}
-                            onChange={(e) => {
-                              const updated = { ...selectedAutomation, description: e.target.value };
-                              setSelectedAutomation(updated);
-                            }}
+                            onChange={(e) => editDraft(automation => ({ ...automation, description: e.target.value }))}
                             placeholder="Describe what this automation does..."
                           />
                         </div>
@@ -742,12 +829,38 @@ mode: single`;
                             value={selectedAutomation.tags?.join(', ') || ''}
                             onChange={(e) => {
                               const tags = e.target.value.split(',').map(t => t.trim()).filter(Boolean);
-                              const updated = { ...selectedAutomation, tags };
-                              setSelectedAutomation(updated);
+                              editDraft(automation => ({ ...automation, tags }));
                             }}
                             placeholder="security, lighting, morning"
                           />
                         </div>
+                        <div>
+                          <Label htmlFor="missed-run-policy">Missed scheduled runs</Label>
+                          <Select
+                            value={selectedAutomation.missedRunPolicy || 'skip'}
+                            onValueChange={(value) => editDraft(automation => ({ ...automation, missedRunPolicy: value as Automation['missedRunPolicy'] }))}
+                          >
+                            <SelectTrigger id="missed-run-policy">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="skip">Skip runs missed while the server was down</SelectItem>
+                              <SelectItem value="catch_up">Run once to catch up after a restart</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div>
+                          <Label htmlFor="variables">Variables (JSON)</Label>
+                          <JsonObjectInput
+                            id="variables"
+                            value={selectedAutomation.variables}
+                            onChange={(variables) => editDraft(automation => ({ ...automation, variables }))}
+                            placeholder={`{"target": "{{ trigger.entity_id }}", "level": "{{ states('sensor.lux') | int(0) }}"}`}
+                          />
+                          <p className="text-xs text-muted-foreground mt-1">
+                            Values can use {'{{ }}'} templates and are available to conditions and actions by name.
+                          </p>
+                        </div>
                       </div>
                     </DialogContent>
                   </Dialog>
@@ -755,7 +868,7 @@ mode: single`;
                     {isSaving ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
                     Save Local
                   </Button>
-                  <Button onClick={() => saveAutomation('ha')} size="sm" disabled={isSaving}>
+                  <Button onClick={() => pushToHomeAssistant()} size="sm" disabled={isSaving}>
                     {isSaving ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
                     Push to HA
                   </Button>
@@ -766,6 +879,9 @@ mode: single`;
                 <Badge variant={selectedAutomation.source === 'ha' ? 'default' : 'secondary'}>
                   {selectedAutomation.source === 'ha' ? 'Home Assistant' : 'Local'}
                 </Badge>
+                {hasUnsavedChanges && (
+                  <Badge variant="outline">Unsaved changes</Badge>
+                )}
                 {selectedAutomation.enabled ? (
                   <Badge variant="default" className="bg-green-100 text-green-800">Enabled</Badge>
                 ) : (
@@ -815,7 +931,9 @@ mode: single`;
                                 <SelectContent>
                                   <SelectItem value="entity_state">Entity State</SelectItem>
                                   <SelectItem value="time">Time</SelectItem>
+                                  <SelectItem value="cron">Cron Schedule</SelectItem>
                                   <SelectItem value="sunrise_sunset">Sunrise/Sunset</SelectItem>
+                                  <SelectItem value="mqtt">MQTT Message</SelectItem>
                                 </SelectContent>
                               </Select>
                             </div>
@@ -858,6 +976,76 @@ mode: single`;
                                 />
                               </div>
                             )}
+
+                            {trigger.type === 'cron' && (
+                              <div className="md:col-span-2">
+                                <Label>Cron Expression</Label>
+                                <Input
+                                  value={trigger.cron || ''}
+                                  onChange={(e) => {
+                                    updateTrigger(trigger.id, { cron: e.target.value });
+                                  }}
+                                  placeholder="minute hour day month weekday, e.g. 0 7 * * 1-5"
+                                  className="font-mono"
+                                />
+                              </div>
+                            )}
+
+                            {trigger.type === 'sunrise_sunset' && (
+                              <>
+                                <div>
+                                  <Label>Event</Label>
+                                  <Select value={trigger.state || 'sunrise'} onValueChange={(value) => {
+                                    updateTrigger(trigger.id, { state: value });
+                                  }}>
+                                    <SelectTrigger>
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      <SelectItem value="sunrise">Sunrise</SelectItem>
+                                      <SelectItem value="sunset">Sunset</SelectItem>
+                                    </SelectContent>
+                                  </Select>
+                                </div>
+                                <div>
+                                  <Label>Offset (minutes)</Label>
+                                  <Input
+                                    type="number"
+                                    value={trigger.offset ? trigger.offset / 60 : 0}
+                                    onChange={(e) => {
+                                      updateTrigger(trigger.id, { offset: Math.round(Number(e.target.value) * 60) });
+                                    }}
+                                  />
+                                </div>
+                              </>
+                            )}
+
+                            {trigger.type === 'mqtt' && (
+                              <>
+                                <div>
+                                  <Label>Topic</Label>
+                                  <Input
+                                    value={trigger.topic || ''}
+                                    onChange={(e) => {
+                                      updateTrigger(trigger.id, { topic: e.target.value });
+                                    }}
+                                    placeholder="zigbee2mqtt/+/action"
+                                    className="font-mono"
+                                  />
+                                </div>
+                                <div>
+                                  <Label>Payload (optional)</Label>
+                                  <Input
+                                    value={trigger.payload || ''}
+                                    onChange={(e) => {
+                                      updateTrigger(trigger.id, { payload: e.target.value });
+                                    }}
+                                    placeholder='exact text, or $.action == "single"'
+                                    className="font-mono"
+                                  />
+                                </div>
+                              </>
+                            )}
                           </div>
                         </CardContent>
                       </Card>
@@ -1014,6 +1202,7 @@ mode: single`;
                                 </SelectTrigger>
                                 <SelectContent>
                                   <SelectItem value="service_call">Service Call</SelectItem>
+                                  <SelectItem value="mqtt">MQTT Publish</SelectItem>
                                   <SelectItem value="scene">Run Scene</SelectItem>
                                   <SelectItem value="local_device">Local Device</SelectItem>
                                 </SelectContent>
@@ -1051,6 +1240,68 @@ mode: single`;
                                     className="w-full"
                                   />
                                 </div>
+
+                                <div className="md:col-span-3">
+                                  <Label>Service Data (JSON)</Label>
+                                  <JsonObjectInput
+                                    value={action.data}
+                                    onChange={(data) => {
+                                      updateAction(action.id, { data: data || undefined });
+                                    }}
+                                    placeholder={`{"brightness": "{{ state_attr(trigger.entity_id, 'brightness') | int(0) + 50 }}"}`}
+                                  />
+                                </div>
+                              </>
+                            )}
+
+                            {action.type === 'mqtt' && (
+                              <>
+                                <div>
+                                  <Label>Topic</Label>
+                                  <Input
+                                    value={action.topic || ''}
+                                    onChange={(e) => {
+                                      updateAction(action.id, { topic: e.target.value });
+                                    }}
+                                    placeholder="home/livingroom/lamp/set"
+                                    className="font-mono"
+                                  />
+                                </div>
+                                <div>
+                                  <Label>Payload</Label>
+                                  <Input
+                                    value={action.payload || ''}
+                                    onChange={(e) => {
+                                      updateAction(action.id, { payload: e.target.value });
+                                    }}
+                                    placeholder='ON or {"state": "ON"}'
+                                    className="font-mono"
+                                  />
+                                </div>
+                                <div>
+                                  <Label>QoS</Label>
+                                  <Select value={String(action.data?.qos ?? 0)} onValueChange={(value) => {
+                                    updateAction(action.id, { data: { ...action.data, qos: Number(value) } });
+                                  }}>
+                                    <SelectTrigger>
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      <SelectItem value="0">0 - At most once</SelectItem>
+                                      <SelectItem value="1">1 - At least once</SelectItem>
+                                      <SelectItem value="2">2 - Exactly once</SelectItem>
+                                    </SelectContent>
+                                  </Select>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                  <Switch
+                                    checked={Boolean(action.data?.retain)}
+                                    onCheckedChange={(retain) => {
+                                      updateAction(action.id, { data: { ...action.data, retain } });
+                                    }}
+                                  />
+                                  <Label>Retain</Label>
+                                </div>
                               </>
                             )}
                           </div>
@@ -1085,14 +1336,24 @@ mode: single`;
       <div className="w-80 border-l bg-card flex flex-col">
         <div className="p-4 border-b">
           <h3 className="text-sm font-semibold mb-3">Preview & Test</h3>
-          <Button 
-            onClick={testRun} 
-            disabled={!selectedAutomation}
-            className="w-full mb-3"
-          >
-            <ToggleRight className="h-4 w-4 mr-2" />
-            Test Run
-          </Button>
+          <div className="flex gap-2 mb-3">
+            <Button 
+              onClick={() => testRun('dry_run')} 
+              disabled={!selectedAutomation}
+              className="flex-1"
+            >
+              <ToggleRight className="h-4 w-4 mr-2" />
+              Dry Run
+            </Button>
+            <Button 
+              onClick={() => testRun('execute')} 
+              disabled={!selectedAutomation}
+              variant="outline"
+              className="flex-1"
+            >
+              Execute Now
+            </Button>
+          </div>
         </div>
         
         <div className="flex-1 flex flex-col">
@@ -1134,8 +1395,134 @@ mode: single`;
               </div>
             </ScrollArea>
           </div>
+
+          <div className="flex-1 border-t">
+            <div className="p-3 border-b flex items-center justify-between">
+              <h4 className="text-xs font-medium text-muted-foreground flex items-center gap-1">
+                <History className="h-3 w-3" />
+                Run History
+              </h4>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => selectedAutomation && loadRuns(selectedAutomation.id)}
+                disabled={!selectedAutomation || isLoadingRuns}
+              >
+                {isLoadingRuns ? <Loader2 className="h-3 w-3 animate-spin" /> : 'Refresh'}
+              </Button>
+            </div>
+            <ScrollArea className="h-64">
+              <div className="p-3">
+                {runs.map((run) => (
+                  <div key={run.id} className="relative pl-5 pb-3 border-l last:border-l-transparent">
+                    <span className="absolute -left-2 top-0 bg-card">
+                      {run.status === 'success' ? (
+                        <CheckCircle2 className="h-4 w-4 text-green-600" />
+                      ) : run.status === 'failed' ? (
+                        <XCircle className="h-4 w-4 text-destructive" />
+                      ) : (
+                        <MinusCircle className="h-4 w-4 text-muted-foreground" />
+                      )}
+                    </span>
+                    <button
+                      type="button"
+                      className="w-full text-left"
+                      onClick={() => toggleRunDetails(run)}
+                    >
+                      <div className="flex items-center justify-between">
+                        <span className="text-xs font-medium">
+                          {run.status === 'conditions_not_met' ? 'Conditions not met' : run.status}
+                        </span>
+                        <span className="text-xs text-muted-foreground">{run.durationMs}ms</span>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(run.startedAt).toLocaleString()}
+                        {run.triggerEntityId ? ` • ${run.triggerEntityId}` : ` • ${run.triggerType}`}
+                      </p>
+                      {run.error && <p className="text-xs text-destructive truncate">{run.error}</p>}
+                    </button>
+
+                    {expandedRunId === run.id && (
+                      <div className="mt-2 space-y-1">
+                        {!run.steps && <Loader2 className="h-3 w-3 animate-spin" />}
+                        {run.steps?.map((step) => (
+                          <div key={step.id} className="rounded border p-2">
+                            <div className="flex items-center justify-between mb-1">
+                              <Badge
+                                variant={step.status === 'fail' || step.status === 'error' ? 'destructive' : 'secondary'}
+                                className="text-xs"
+                              >
+                                {step.stepType}: {step.status}
+                              </Badge>
+                              {step.stepType === 'action' && (
+                                <span className="text-xs text-muted-foreground">{step.durationMs}ms</span>
+                              )}
+                            </div>
+                            <p className="text-xs break-words">{step.message}</p>
+                            {step.stepType === 'condition' && (
+                              <p className="text-xs text-muted-foreground">Seen: {step.actualValue ?? 'unavailable'}</p>
+                            )}
+                            {step.error && <p className="text-xs text-destructive break-words">{step.error}</p>}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))}
+
+                {runs.length === 0 && !isLoadingRuns && (
+                  <div className="text-center py-8 text-muted-foreground">
+                    <History className="h-6 w-6 mx-auto mb-2 opacity-50" />
+                    <p className="text-xs">No runs recorded yet</p>
+                  </div>
+                )}
+              </div>
+            </ScrollArea>
+          </div>
         </div>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+// Edits a JSON object as text, passing it up only once it parses
+function JsonObjectInput({ id, value, onChange, placeholder }: {
+  id?: string;
+  value?: Record<string, any> | null;
+  onChange: (value: Record<string, any> | null) => void;
+  placeholder?: string;
+}) {
+  const [text, setText] = useState(() => value ? JSON.stringify(value, null, 2) : '');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleChange = (next: string) => {
+    setText(next);
+    if (!next.trim()) {
+      setError(null);
+      onChange(null);
+      return;
+    }
+    try {
+      const parsed = JSON.parse(next);
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new Error('Must be a JSON object');
+      setError(null);
+      onChange(parsed);
+    } catch (parseError) {
+      setError(parseError instanceof Error ? parseError.message : 'Invalid JSON');
+    }
+  };
+
+  return (
+    <div>
+      <Textarea
+        id={id}
+        value={text}
+        onChange={(e) => handleChange(e.target.value)}
+        placeholder={placeholder}
+        className="font-mono text-xs"
+        rows={3}
+      />
+      {error && <p className="text-xs text-destructive mt-1">{error}</p>}
+    </div>
+  );
+}
@@ -16,6 +16,7 @@ import { toast } from "sonner";
 
 // Import the new CameraCard
 import CameraCard, { type Camera } from "@/components/CameraCard";
+import RecordingTimeline from "@/components/RecordingTimeline";
 
 interface Recording {
   id: string;
@@ -24,7 +25,25 @@ interface Recording {
   timestamp: string;
   duration: number;
   size: number;
-  trigger: "motion" | "schedule" | "manual";
+  trigger: "continuous" | "motion" | "schedule" | "manual";
+  keepForever?: boolean;
+}
+
+interface CameraRecordingSettings {
+  mode: "off" | "continuous" | "scheduled" | "triggered";
+  schedule: { days: number[]; start: string; end: string }[];
+  preRollSeconds: number;
+  postRollSeconds: number;
+  segmentSeconds: number;
+  retentionDays: number | null;
+  retentionGb: number | null;
+}
+
+interface RetentionReport {
+  cameras: { cameraId: number; cameraName: string; retentionDays: number | null; retentionGb: number | null; totalGb: number; pruneCount: number; pruneGb: number }[];
+  candidates: { recordingId: number; cameraName: string | null; filename: string; timestamp: string; sizeMb: number; reason: "age" | "size" | "capacity" }[];
+  pruneGb: number;
+  deleted: number;
 }
 
 interface RecordingRule {
@@ -113,6 +132,10 @@ export default function Cameras() {
   });
 
   const [editCamera, setEditCamera] = useState<Partial<Camera>>({});
+  const [recordingSettings, setRecordingSettings] = useState<CameraRecordingSettings | null>(null);
+  const [isRetentionOpen, setIsRetentionOpen] = useState(false);
+  const [retentionReport, setRetentionReport] = useState<RetentionReport | null>(null);
+  const [isPruning, setIsPruning] = useState(false);
 
   // Fetch cameras from API
   useEffect(() => {
@@ -151,13 +174,12 @@ export default function Cameras() {
   // Fetch storage usage
   const fetchStorageUsage = useCallback(async () => {
     try {
-      const response = await fetch('/api/storage-locations');
+      const response = await fetch('/api/storage-locations/usage');
       if (response.ok) {
-        const locations = await response.json();
-        const totalUsed = locations.reduce((sum: number, loc: any) => sum + (loc.used || 0), 0);
-        const totalCapacity = locations.reduce((sum: number, loc: any) => sum + (loc.capacity || 0), 0);
-        setStorageUsed(totalUsed);
-        setStorageTotal(totalCapacity);
+        const { summary } = await response.json();
+        setStorageUsed(summary.usedGb);
+        // Locations without a set capacity are bounded by their disks
+        setStorageTotal(summary.capacityGb || Math.round(summary.usedGb + summary.freeGb));
       }
     } catch (error) {
       console.error('Error fetching storage');
@@ -168,6 +190,37 @@ export default function Cameras() {
     fetchStorageUsage();
   }, [fetchStorageUsage]);
 
+  // Recording settings of the camera open in the full view
+  useEffect(() => {
+    if (!isFullViewOpen || !selectedCamera) return;
+    setRecordingSettings(null);
+    fetch(`/api/cameras/${selectedCamera.id}/recording`)
+      .then(response => response.ok ? response.json() : null)
+      .then(data => setRecordingSettings(data?.settings ?? null))
+      .catch(() => setRecordingSettings(null));
+  }, [isFullViewOpen, selectedCamera]);
+
+  const handleSaveRecordingSettings = async () => {
+    if (!selectedCamera || !recordingSettings) return;
+
+    try {
+      const response = await fetch(`/api/cameras/${selectedCamera.id}/recording`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(recordingSettings)
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setRecordingSettings(data.settings);
+        toast.success('Recording settings saved');
+      } else {
+        toast.error(data.error || 'Failed to save recording settings');
+      }
+    } catch (error) {
+      toast.error('Error saving recording settings');
+    }
+  };
+
   const handleEditCamera = (camera: Camera) => {
     setSelectedCamera(camera);
     setEditCamera({
@@ -290,40 +343,103 @@ export default function Cameras() {
     }, 1500);
   };
 
-  const handleSnapshot = (camera: Camera) => {
-    toast.success(`Snapshot saved for ${camera.name}`);
-    // Could call API here
-  };
+  const handleSnapshot = async (camera: Camera) => {
+    try {
+      const response = await fetch(`/api/cameras/${camera.id}/snapshot?download=1`);
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        toast.error(data.error || `Failed to take snapshot of ${camera.name}`);
+        return;
+      }
 
-  const handleRecordNow = async (camera: Camera) => {
-    if (camera.status !== "online") {
-      toast.error("Camera must be online to record");
-      return;
+      const filename = /filename="([^"]+)"/.exec(response.headers.get('Content-Disposition') ?? '')?.[1] ?? 'snapshot.jpg';
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+      toast.success(`Snapshot saved for ${camera.name}`);
+    } catch (error) {
+      toast.error('Error taking snapshot');
     }
+  };
 
+  const handleRecordNow = async (camera: Camera) => {
     try {
-      const response = await fetch('/api/recordings', {
+      const response = await fetch(`/api/cameras/${camera.id}/recording/trigger`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ 
-          cameraId: camera.id, 
-          trigger: 'manual' as const, 
-          duration: 30 // seconds
-        })
+        body: JSON.stringify({ duration: 30 })
       });
 
       if (response.ok) {
-        const newRecording = await response.json();
-        setRecordings(prev => [newRecording, ...prev]);
-        toast.success(`Recording started: ${camera.name}`);
+        toast.success(`Recording started: ${camera.name}`, {
+          description: 'It will appear under Recordings once the clip is written'
+        });
       } else {
-        toast.error('Failed to start recording');
+        const data = await response.json().catch(() => ({}));
+        toast.error(data.error || 'Failed to start recording');
       }
     } catch (error) {
       toast.error('Error starting recording');
     }
   };
 
+  const handleToggleKeep = async (recording: Recording) => {
+    try {
+      const response = await fetch(`/api/recordings?id=${recording.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ keepForever: !recording.keepForever })
+      });
+      if (response.ok) {
+        setRecordings(prev => prev.map(r => r.id === recording.id ? { ...r, keepForever: !recording.keepForever } : r));
+      } else {
+        toast.error('Failed to update recording');
+      }
+    } catch (error) {
+      toast.error('Error updating recording');
+    }
+  };
+
+  const openRetention = async () => {
+    setIsRetentionOpen(true);
+    setRetentionReport(null);
+    try {
+      const response = await fetch('/api/recordings/retention');
+      if (response.ok) {
+        setRetentionReport(await response.json());
+      } else {
+        toast.error('Failed to load retention report');
+      }
+    } catch (error) {
+      toast.error('Error loading retention report');
+    }
+  };
+
+  const handlePrune = async () => {
+    setIsPruning(true);
+    try {
+      const response = await fetch('/api/recordings/retention', { method: 'POST' });
+      const data = await response.json();
+      if (response.ok) {
+        const pruned = new Set(data.candidates.map((candidate: { recordingId: number }) => String(candidate.recordingId)));
+        setRecordings(prev => prev.filter(r => !pruned.has(String(r.id))));
+        setRetentionReport(null);
+        setIsRetentionOpen(false);
+        toast.success(`Pruned ${data.deleted} recordings (${data.pruneGb} GB)`);
+        fetchStorageUsage();
+      } else {
+        toast.error(data.error || 'Failed to prune recordings');
+      }
+    } catch (error) {
+      toast.error('Error pruning recordings');
+    } finally {
+      setIsPruning(false);
+    }
+  };
+
   const handleDeleteRecording = async (recordingId: string) => {
     try {
       const response = await fetch(`/api/recordings/${recordingId}`, { method: 'DELETE' });
@@ -524,7 +640,7 @@ export default function Cameras() {
                   <span>7 days</span>
                 </div>
               </div>
-              <Button variant="outline" size="sm" className="w-full">
+              <Button variant="outline" size="sm" className="w-full" onClick={openRetention}>
                 Manage Storage
               </Button>
             </CardContent>
@@ -600,8 +716,9 @@ export default function Cameras() {
           </DialogHeader>
 
           <Tabs defaultValue="live" className="flex-1 flex flex-col overflow-hidden">
-            <TabsList className="grid grid-cols-3">
+            <TabsList className="grid grid-cols-4">
               <TabsTrigger value="live">Live</TabsTrigger>
+              <TabsTrigger value="timeline">Timeline</TabsTrigger>
               <TabsTrigger value="recordings">Recordings</TabsTrigger>
               <TabsTrigger value="settings">Settings</TabsTrigger>
             </TabsList>
@@ -615,7 +732,7 @@ export default function Cameras() {
                       camera={selectedCamera}
                       onEdit={() => {}} // Disabled in modal
                       onDelete={() => {}}
-                      onSnapshot={() => toast.success("Snapshot taken")}
+                      onSnapshot={() => handleSnapshot(selectedCamera)}
                       onRecord={() => handleRecordNow(selectedCamera)}
                       onTest={() => handleTestStream(selectedCamera)}
                       onFullView={() => {}} // Already full
@@ -624,7 +741,7 @@ export default function Cameras() {
                 </div>
                 {/* Controls overlay */}
                 <div className="absolute bottom-4 left-4 right-4 flex gap-2">
-                  <Button variant="outline" size="sm" onClick={handleSnapshot}>
+                  <Button variant="outline" size="sm" onClick={() => handleSnapshot(selectedCamera!)}>
                     <CameraIcon className="h-4 w-4 mr-1" />
                     Snapshot
                   </Button>
@@ -649,12 +766,23 @@ export default function Cameras() {
               </div>
             </TabsContent>
 
+            <TabsContent value="timeline" className="overflow-y-auto p-4">
+              {selectedCamera && <RecordingTimeline cameraId={selectedCamera.id} />}
+            </TabsContent>
+
             <TabsContent value="recordings" className="space-y-4 overflow-y-auto p-4">
               <div className="space-y-3">
                 {recordings
                   .filter(r => r.cameraId === selectedCamera?.id)
                   .map((rec) => (
-                    <div key={rec.id} className="flex items-center justify-between p-4 border rounded-lg bg-card">
+                    <div key={rec.id} className="flex items-center justify-between gap-4 p-4 border rounded-lg bg-card">
+                      <img
+                        src={`/api/recordings/${rec.id}/poster`}
+                        alt=""
+                        loading="lazy"
+                        className="w-32 aspect-video rounded object-cover bg-muted shrink-0"
+                        onError={(e) => { e.currentTarget.style.visibility = "hidden"; }}
+                      />
                       <div className="space-y-2 flex-1">
                         <div className="font-medium">{rec.filename}</div>
                         <div className="text-sm text-muted-foreground space-x-4">
@@ -665,8 +793,20 @@ export default function Cameras() {
                       </div>
                       <div className="flex items-center gap-2">
                         <Badge variant="outline">{rec.trigger}</Badge>
-                        <Button variant="outline" size="sm">Play</Button>
-                        <Button variant="outline" size="sm">Download</Button>
+                        <Button
+                          variant={rec.keepForever ? "secondary" : "outline"}
+                          size="sm"
+                          onClick={() => handleToggleKeep(rec)}
+                          title="Recordings kept forever are never pruned by retention"
+                        >
+                          {rec.keepForever ? "Kept" : "Keep"}
+                        </Button>
+                        <Button variant="outline" size="sm" asChild>
+                          <a href={`/api/recordings/${rec.id}/file`} target="_blank" rel="noreferrer">Play</a>
+                        </Button>
+                        <Button variant="outline" size="sm" asChild>
+                          <a href={`/api/recordings/${rec.id}/file`} download={rec.filename.split("/").pop()}>Download</a>
+                        </Button>
                         <Button
                           variant="destructive"
                           size="sm"
@@ -722,6 +862,128 @@ export default function Cameras() {
                     <Input value={selectedCamera?.haEntity || "Not set"} readOnly className="mt-1" />
                   </div>
                 </div>
+                {recordingSettings && (
+                  <div className="pt-4 border-t space-y-4">
+                    <h3 className="font-medium">Recording</h3>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div className="md:col-span-2">
+                        <Label>Mode</Label>
+                        <Select
+                          value={recordingSettings.mode}
+                          onValueChange={(value) => setRecordingSettings({
+                            ...recordingSettings,
+                            mode: value as CameraRecordingSettings["mode"],
+                            schedule: value === "scheduled" && recordingSettings.schedule.length === 0
+                              ? [{ days: [0, 1, 2, 3, 4, 5, 6], start: "22:00", end: "06:00" }]
+                              : recordingSettings.schedule
+                          })}
+                        >
+                          <SelectTrigger className="mt-1">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="off">Off</SelectItem>
+                            <SelectItem value="continuous">Continuous</SelectItem>
+                            <SelectItem value="scheduled">Scheduled</SelectItem>
+                            <SelectItem value="triggered">On motion{selectedCamera?.haEntity ? "" : " (set an HA entity)"}</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      {recordingSettings.mode === "scheduled" && recordingSettings.schedule.length > 0 && (
+                        <>
+                          <div>
+                            <Label>Daily From</Label>
+                            <Input
+                              type="time"
+                              value={recordingSettings.schedule[0].start}
+                              onChange={(e) => setRecordingSettings({
+                                ...recordingSettings,
+                                schedule: [{ ...recordingSettings.schedule[0], start: e.target.value }, ...recordingSettings.schedule.slice(1)]
+                              })}
+                              className="mt-1"
+                            />
+                          </div>
+                          <div>
+                            <Label>Until</Label>
+                            <Input
+                              type="time"
+                              value={recordingSettings.schedule[0].end}
+                              onChange={(e) => setRecordingSettings({
+                                ...recordingSettings,
+                                schedule: [{ ...recordingSettings.schedule[0], end: e.target.value }, ...recordingSettings.schedule.slice(1)]
+                              })}
+                              className="mt-1"
+                            />
+                          </div>
+                        </>
+                      )}
+                      {recordingSettings.mode === "triggered" ? (
+                        <>
+                          <div>
+                            <Label>Pre-roll (seconds)</Label>
+                            <Input
+                              type="number"
+                              min={0}
+                              max={60}
+                              value={recordingSettings.preRollSeconds}
+                              onChange={(e) => setRecordingSettings({ ...recordingSettings, preRollSeconds: Number(e.target.value) })}
+                              className="mt-1"
+                            />
+                          </div>
+                          <div>
+                            <Label>Post-roll (seconds)</Label>
+                            <Input
+                              type="number"
+                              min={0}
+                              max={300}
+                              value={recordingSettings.postRollSeconds}
+                              onChange={(e) => setRecordingSettings({ ...recordingSettings, postRollSeconds: Number(e.target.value) })}
+                              className="mt-1"
+                            />
+                          </div>
+                        </>
+                      ) : recordingSettings.mode !== "off" && (
+                        <div>
+                          <Label>Segment Length (seconds)</Label>
+                          <Input
+                            type="number"
+                            min={60}
+                            max={3600}
+                            value={recordingSettings.segmentSeconds}
+                            onChange={(e) => setRecordingSettings({ ...recordingSettings, segmentSeconds: Number(e.target.value) })}
+                            className="mt-1"
+                          />
+                        </div>
+                      )}
+                      <div>
+                        <Label>Keep Recordings For (days)</Label>
+                        <Input
+                          type="number"
+                          min={1}
+                          placeholder="No limit"
+                          value={recordingSettings.retentionDays ?? ""}
+                          onChange={(e) => setRecordingSettings({ ...recordingSettings, retentionDays: e.target.value ? Number(e.target.value) : null })}
+                          className="mt-1"
+                        />
+                      </div>
+                      <div>
+                        <Label>Max Storage (GB)</Label>
+                        <Input
+                          type="number"
+                          min={0.1}
+                          step={0.1}
+                          placeholder="No limit"
+                          value={recordingSettings.retentionGb ?? ""}
+                          onChange={(e) => setRecordingSettings({ ...recordingSettings, retentionGb: e.target.value ? Number(e.target.value) : null })}
+                          className="mt-1"
+                        />
+                      </div>
+                    </div>
+                    <Button variant="outline" onClick={handleSaveRecordingSettings} className="w-full">
+                      Save Recording Settings
+                    </Button>
+                  </div>
+                )}
                 <div className="pt-4 border-t">
                   <Button onClick={handleEditCamera} className="w-full">
                     Edit Camera Settings
@@ -733,6 +995,55 @@ export default function Cameras() {
         </DialogContent>
       </Dialog>
 
+      {/* Retention Dialog */}
+      <Dialog open={isRetentionOpen} onOpenChange={setIsRetentionOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Storage Retention</DialogTitle>
+            <DialogDescription>
+              Recordings past each camera&apos;s retention, or on a location over its capacity, are pruned oldest first. Kept recordings are never pruned.
+            </DialogDescription>
+          </DialogHeader>
+          {!retentionReport ? (
+            <p className="text-center text-sm text-muted-foreground py-8">Measuring storage...</p>
+          ) : (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                {retentionReport.cameras.map((cam) => (
+                  <div key={cam.cameraId} className="flex justify-between text-sm border rounded-md p-2">
+                    <span className="font-medium">{cam.cameraName}</span>
+                    <span className="text-muted-foreground">
+                      {cam.totalGb} GB • {cam.retentionDays ? `${cam.retentionDays} days` : "no age limit"} • {cam.retentionGb ? `${cam.retentionGb} GB max` : "no size limit"}
+                    </span>
+                  </div>
+                ))}
+              </div>
+              <div className="max-h-64 overflow-y-auto space-y-1">
+                {retentionReport.candidates.map((candidate) => (
+                  <div key={candidate.recordingId} className="flex justify-between text-xs">
+                    <span className="truncate">{candidate.cameraName ?? "Unknown"} • {candidate.filename}</span>
+                    <span className="text-muted-foreground shrink-0 ml-2">
+                      {formatFileSize(candidate.sizeMb * 1024 * 1024)} • {candidate.reason}
+                    </span>
+                  </div>
+                ))}
+                {retentionReport.candidates.length === 0 && (
+                  <p className="text-center text-sm text-muted-foreground py-4">Nothing to prune</p>
+                )}
+              </div>
+              <Button
+                variant="destructive"
+                className="w-full"
+                disabled={isPruning || retentionReport.candidates.length === 0}
+                onClick={handlePrune}
+              >
+                Prune {retentionReport.candidates.length} Recordings ({retentionReport.pruneGb} GB)
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
       {/* Edit Dialog */}
       <Dialog open={isEditCameraOpen} onOpenChange={setIsEditCameraOpen}>
         <DialogContent className="max-w-md">
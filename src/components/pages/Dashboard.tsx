@@ -93,7 +93,7 @@ interface ActivityItem {
   id: string;
   title: string;
   time: string;
-  type: "motion" | "door" | "automation" | "system";
+  type: "motion" | "door" | "automation" | "system" | "energy";
   icon: React.ComponentType<any>;
 }
 
@@ -440,6 +440,43 @@ export default function Dashboard() {
     { id: "4", title: "System backup completed", time: "2 hours ago", type: "system", icon: Settings }
   ]);
 
+  // Open energy alerts (usage anomalies, limits crossed) lead the activity feed
+  useEffect(() => {
+    const formatAge = (createdAt: string) => {
+      const minutes = Math.max(0, Math.round((Date.now() - new Date(createdAt).getTime()) / 60000));
+      if (minutes < 60) return `${minutes} min ago`;
+      if (minutes < 24 * 60) return `${Math.round(minutes / 60)} hour${minutes < 90 ? "" : "s"} ago`;
+      const days = Math.round(minutes / (24 * 60));
+      return `${days} day${days === 1 ? "" : "s"} ago`;
+    };
+
+    const fetchEnergyAlerts = async () => {
+      try {
+        const token = typeof window !== "undefined" ? localStorage.getItem("bearer_token") : null;
+        const res = await fetch("/api/energy/alerts?status=open&limit=5", {
+          headers: token ? { Authorization: `Bearer ${token}` } : undefined
+        });
+        if (!res.ok) return;
+
+        const alerts: Array<{ id: number; message: string; createdAt: string }> = await res.json();
+        setRecentActivity(prev => [
+          ...alerts.map(alert => ({
+            id: `energy-${alert.id}`,
+            title: alert.message,
+            time: formatAge(alert.createdAt),
+            type: "energy" as const,
+            icon: Zap
+          })),
+          ...prev.filter(activity => activity.type !== "energy")
+        ]);
+      } catch (error) {
+        console.error("Energy alerts fetch error:", error);
+      }
+    };
+
+    fetchEnergyAlerts();
+  }, []);
+
   // Agenda data and helpers (fix ReferenceError: agenda is not defined)
   const agenda: AgendaItem[] = AGENDA_ITEMS;
 
@@ -14,6 +14,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
 import { Label } from "@/components/ui/label"
 import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
 import { toast } from "sonner"
 import { useHomeAssistant } from "@/contexts/HomeAssistantContext"
 import { 
@@ -39,7 +40,10 @@ import {
   History,
   TrendingUp,
   Calendar,
-  Settings
+  Settings,
+  Download,
+  Upload,
+  Bell
 } from "lucide-react"
 
 interface EnergyReading {
@@ -77,10 +81,27 @@ interface EnergyBill {
   grossReceiptsTax: number
   publicServiceTax: number
   totalBillAmount: number
+  tariffVersionId: number | null
+  energyCharge: number
+  demandCharge: number
+  riderCharges: number
+  taxCharges: number
+  exportKwh: number
+  exportCredit: number
+  bankKwh: number
+  bankCredit: number
   createdAt: string
   updatedAt: string
 }
 
+interface BillAdjustmentLine {
+  name: string
+  type: 'fixed' | 'per_kwh' | 'percent'
+  value: number
+  amount: number
+  tariffVersion: number
+}
+
 interface BillCalculation {
   billingMonth: string
   daysBilled: number
@@ -89,18 +110,40 @@ interface BillCalculation {
     kwhPerDay: number
     costPerDay: number
   }
+  tariff: {
+    id: number
+    name: string
+    utility: string | null
+    versions: Array<{ id: number; version: number; effectiveFrom: string; effectiveTo: string | null }>
+  }
   calculation: {
     basicMonthlyCharge: number
     energyCharges: {
-      tier1: { kwh: number; rate: number; cost: number }
-      tier2: { kwh: number; rate: number; cost: number }
+      lines: Array<{ name: string; kwh: number; rate: number; cost: number; season: string | null; tariffVersion: number }>
       totalEnergyCost: number
+      touEstimated: boolean
+    }
+    demandCharges: {
+      lines: Array<{ name: string; period: string | null; peakKw: number | null; rate: number; cost: number; season: string | null; tariffVersion: number }>
+      totalDemandCost: number
+      unavailable: boolean
     }
-    fuelCost: { rate: number; amount: number }
-    franchiseFee: { rate: number; amount: number }
+    riders: BillAdjustmentLine[]
+    riderCharges: number
     subtotal: number
-    grossReceiptsTax: { rate: number; amount: number }
-    publicServiceTax: number
+    taxes: BillAdjustmentLine[]
+    taxCharges: number
+    exports: {
+      importKwh: number
+      exportKwh: number
+      netKwh: number
+      bankKwhUsed: number
+      surplusKwh: number
+      credit: number
+      bankStart: { kwh: number; credit: number }
+      bankEnd: { kwh: number; credit: number }
+      trueUp: boolean
+    }
     totalBillAmount: number
   }
   sourceData: {
@@ -117,6 +160,232 @@ interface BillCalculation {
   }
 }
 
+interface SolarSummary {
+  solarKwh: number
+  exportKwh: number
+  importKwh: number
+  batteryChargeKwh: number
+  batteryDischargeKwh: number
+  consumptionKwh: number
+  selfConsumedKwh: number
+  selfConsumptionPct: number | null
+  gridIndependencePct: number | null
+  hasSolar: boolean
+  hasBattery: boolean
+}
+
+interface YearComparisonPeriod {
+  year: number
+  startDate: string
+  endDate: string
+  readingDays: number
+  totalKwh: number
+  avgDailyKwh: number | null
+  temperatureDays: number
+  meanTemperature: number | null
+  hdd: number
+  cdd: number
+  model: { baseKwhPerDay: number; kwhPerHdd: number; kwhPerCdd: number; r2: number | null; days: number } | null
+}
+
+interface YearComparison {
+  month: string
+  throughDate: string
+  partial: boolean
+  unit: 'F' | 'C'
+  balancePoint: number
+  periods: YearComparisonPeriod[]
+  comparisons: Array<{
+    year: number
+    rawChangePct: number | null
+    normalizedKwh: number | null
+    normalizedChangePct: number | null
+    weatherEffectPct: number | null
+    note: string | null
+  }>
+}
+
+interface EnergyAttribution {
+  month: string
+  totalKwh: number
+  totalCost: number | null
+  effectiveRate: number | null
+  devices: Array<{
+    entityId: string
+    name: string
+    kwh: number
+    cost: number | null
+    share: number
+    changePct: number | null
+  }>
+  monitoredKwh: number
+  unmonitored: { kwh: number; cost: number | null; share: number | null; overlap: boolean }
+  baseline: { entityId: string; watts: number; kwh: number; cost: number | null; share: number | null; nights: number } | null
+  opportunities: Array<{
+    id: string
+    title: string
+    detail: string
+    estimatedMonthlyKwh: number
+    estimatedMonthlySavings: number | null
+    priority: 'high' | 'medium' | 'low'
+  }>
+}
+
+interface EnergyAlertItem {
+  id: number
+  ruleId: number
+  ruleName: string | null
+  type: 'anomaly' | 'daily_kwh' | 'monthly_cost'
+  entityId: string | null
+  period: string
+  value: number
+  expected: number | null
+  severity: 'warning' | 'critical'
+  message: string
+  status: 'open' | 'acknowledged'
+  notifiedAt: string | null
+  notifyError: string | null
+  createdAt: string
+}
+
+interface EnergyAlertRule {
+  id: number
+  name: string
+  type: 'anomaly' | 'daily_kwh' | 'monthly_cost'
+  entityId: string | null
+  threshold: number
+  direction: 'above' | 'below' | 'both'
+  baselineWeeks: number
+  enabled: boolean
+  notify: boolean
+  notifyService: string | null
+}
+
+interface UsageHeatmap {
+  entityId: string
+  days: number
+  cells: Array<Array<number | null>>  // [weekday][hour] average kWh
+  max: number
+}
+
+interface ForecastBand {
+  lowKwh: number
+  highKwh: number
+  lowCost: number
+  highCost: number
+}
+
+interface EnergyForecast {
+  month: string
+  startDate: string
+  endDate: string
+  complete: boolean
+  actualDays: number
+  actualKwh: number
+  projectedDays: number
+  projectedKwh: number
+  kwh: number
+  cost: number
+  bands: { p80: ForecastBand; p95: ForecastBand }
+  days: Array<{ date: string; kwh: number; low: number; high: number; actual: boolean; temperature: number | null }>
+  model: {
+    historyDays: number
+    temperature: { entityId: string; unit: 'F' | 'C'; kwhPerDegreeDay: number } | null
+  }
+  budget: { amount: number; status: 'ok' | 'at_risk' | 'over_budget'; message: string } | null
+}
+
+const ACTUAL_LINE_CATEGORIES = ['customer_charge', 'tier', 'tou', 'demand', 'rider', 'tax', 'export_credit', 'other'] as const
+
+const ALERT_RULE_LABELS: Record<EnergyAlertRule['type'], string> = {
+  anomaly: 'Unusual usage (σ)',
+  daily_kwh: 'Daily limit (kWh)',
+  monthly_cost: 'Monthly cost ($)'
+}
+
+interface AlertRuleDraft {
+  name: string
+  type: EnergyAlertRule['type']
+  entityId: string
+  threshold: string
+  notify: boolean
+  notifyService: string
+}
+
+interface ActualLineDraft {
+  category: typeof ACTUAL_LINE_CATEGORIES[number]
+  code: string
+  name: string
+  kwh: string
+  amount: string
+}
+
+interface ActualBillDraft {
+  billingMonth: string
+  periodStart: string
+  periodEnd: string
+  totalKwh: string
+  totalAmount: string
+  lineItems: ActualLineDraft[]
+}
+
+interface VarianceLine {
+  key: string
+  category: string
+  name: string
+  calculatedKwh: number | null
+  actualKwh: number | null
+  calculatedAmount: number | null
+  actualAmount: number | null
+  variance: number
+  variancePct: number | null
+  status: 'match' | 'higher' | 'lower' | 'not_calculated' | 'not_billed'
+}
+
+interface BillReconciliation {
+  months: Array<{
+    billingMonth: string
+    actual: { totalKwh: number | null; totalAmount: number }
+    calculated: { totalKwh: number; totalAmount: number } | null
+    totalVariance: number | null
+    totalVariancePct: number | null
+    lines: VarianceLine[]
+    discrepancies: number
+  }>
+  recurring: Array<{ key: string; name: string; months: string[]; suggestion: string }>
+}
+
+const emptyAlertRule = (): AlertRuleDraft => ({
+  name: '',
+  type: 'anomaly',
+  entityId: '',
+  threshold: '3',
+  notify: false,
+  notifyService: ''
+})
+
+const emptyActualBill = (): ActualBillDraft => ({
+  billingMonth: new Date().toISOString().slice(0, 7),
+  periodStart: '',
+  periodEnd: '',
+  totalKwh: '',
+  totalAmount: '',
+  lineItems: [
+    { category: 'customer_charge', code: '', name: 'Customer Charge', kwh: '', amount: '' },
+    { category: 'tier', code: '1', name: 'Energy Tier 1', kwh: '', amount: '' }
+  ]
+})
+
+const VARIANCE_STATUS_LABELS: Record<VarianceLine['status'], string> = {
+  match: 'Match',
+  higher: 'Billed higher',
+  lower: 'Billed lower',
+  not_calculated: 'Not in tariff',
+  not_billed: 'Not on bill'
+}
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
 interface BillingPeriodSettings {
   billingDayStart: number  // Day of month billing starts (1-31)
   billingDayEnd: number    // Day of month billing ends (1-31)
@@ -163,6 +432,14 @@ export default function EnergyMonitor() {
   // Billing state
   const [billingHistory, setBillingHistory] = useState<EnergyBill[]>([])
   const [currentMonthBill, setCurrentMonthBill] = useState<BillCalculation | null>(null)
+  const [billForecast, setBillForecast] = useState<EnergyForecast | null>(null)
+  const [reconciliation, setReconciliation] = useState<BillReconciliation | null>(null)
+  const [selectedReconMonth, setSelectedReconMonth] = useState<string | null>(null)
+  const [showActualBillDialog, setShowActualBillDialog] = useState(false)
+  const [actualBillDraft, setActualBillDraft] = useState<ActualBillDraft>(emptyActualBill)
+  const [importingBills, setImportingBills] = useState(false)
+  const [exportRange, setExportRange] = useState({ from: '', to: '' })
+  const [importingGreenButton, setImportingGreenButton] = useState(false)
   const [loadingBills, setLoadingBills] = useState(false)
   const [selectedBillMonth, setSelectedBillMonth] = useState<string>("")
 
@@ -183,6 +460,19 @@ export default function EnergyMonitor() {
   const [totalConsumption, setTotalConsumption] = useState<number>(0)
   const [lastSync, setLastSync] = useState<Date | null>(null)
   const [syncingData, setSyncingData] = useState(false)
+  const [usageHeatmap, setUsageHeatmap] = useState<UsageHeatmap | null>(null)
+  const [syncingIntervals, setSyncingIntervals] = useState(false)
+  const [solarSummary, setSolarSummary] = useState<SolarSummary | null>(null)
+  const [attribution, setAttribution] = useState<EnergyAttribution | null>(null)
+  const [yearComparison, setYearComparison] = useState<YearComparison | null>(null)
+  const [comparisonMonth, setComparisonMonth] = useState(() => new Date().toISOString().slice(0, 7))
+  const [comparisonYears, setComparisonYears] = useState("1")
+  const [energyAlerts, setEnergyAlerts] = useState<EnergyAlertItem[]>([])
+  const [alertRules, setAlertRules] = useState<EnergyAlertRule[]>([])
+  const [alertEntities, setAlertEntities] = useState<Array<{ entityId: string; friendlyName: string }>>([])
+  const [showAlertRules, setShowAlertRules] = useState(false)
+  const [alertRuleDraft, setAlertRuleDraft] = useState<AlertRuleDraft>(emptyAlertRule)
+  const [checkingAlerts, setCheckingAlerts] = useState(false)
 
   // Load billing settings from localStorage
   const loadBillingSettings = useCallback(() => {
@@ -277,8 +567,32 @@ export default function EnergyMonitor() {
     }
   }, [billingSettings])
 
+  // Project the billing period to its end (kWh, cost and budget status)
+  const loadBillForecast = useCallback(async (billingPeriod: string) => {
+    try {
+      const token = typeof window !== 'undefined' ? localStorage.getItem("bearer_token") : null;
+      const periodDates = getBillingPeriodDates(billingPeriod)
+      const params = new URLSearchParams({ month: billingPeriod })
+      if (billingSettings.isCustomPeriod) {
+        params.set('date_from', periodDates.startDate.toISOString().split('T')[0])
+        params.set('date_to', periodDates.endDate.toISOString().split('T')[0])
+      }
+
+      const response = await fetch(`/api/energy/forecast?${params}`, {
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token && { Authorization: `Bearer ${token}` }),
+        },
+      })
+      setBillForecast(response.ok ? await response.json() : null)
+    } catch (error) {
+      console.error('Error loading bill forecast:', error)
+    }
+  }, [billingSettings, getBillingPeriodDates])
+
   // Calculate current month bill from readings with custom period support
   const calculateCurrentMonthBill = useCallback(async (billingPeriod: string) => {
+    loadBillForecast(billingPeriod)
     try {
       const token = typeof window !== 'undefined' ? localStorage.getItem("bearer_token") : null;
       const periodDates = getBillingPeriodDates(billingPeriod)
@@ -306,7 +620,7 @@ export default function EnergyMonitor() {
     } catch (error) {
       console.error('Error calculating current billing period:', error)
     }
-  }, [billingSettings, getBillingPeriodDates])
+  }, [billingSettings, getBillingPeriodDates, loadBillForecast])
 
   // Load billing history from API
   const loadBillingHistory = useCallback(async () => {
@@ -338,13 +652,144 @@ export default function EnergyMonitor() {
     }
   }, [getCurrentBillingPeriod, calculateCurrentMonthBill])
 
+  // Load the actual-vs-calculated variance report
+  const loadReconciliation = useCallback(async () => {
+    try {
+      const token = typeof window !== 'undefined' ? localStorage.getItem("bearer_token") : null;
+      const response = await fetch('/api/energy/reconciliation', {
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token && { Authorization: `Bearer ${token}` }),
+        },
+      })
+      if (response.ok) {
+        setReconciliation(await response.json())
+      }
+    } catch (error) {
+      console.error('Error loading bill reconciliation:', error)
+    }
+  }, [])
+
+  // Save the actual bill entered from the utility's statement
+  const saveActualBill = useCallback(async () => {
+    try {
+      const token = typeof window !== 'undefined' ? localStorage.getItem("bearer_token") : null;
+      const draft = actualBillDraft
+      const response = await fetch('/api/energy/actual-bills?replace=true', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token && { Authorization: `Bearer ${token}` }),
+        },
+        body: JSON.stringify({
+          billingMonth: draft.billingMonth,
+          periodStart: draft.periodStart || null,
+          periodEnd: draft.periodEnd || null,
+          totalKwh: draft.totalKwh || null,
+          totalAmount: draft.totalAmount || null,
+          lineItems: draft.lineItems.filter(item => item.amount !== ''),
+          source: 'pdf'
+        })
+      })
+      if (response.ok) {
+        toast.success(`Actual bill for ${draft.billingMonth} saved`)
+        setShowActualBillDialog(false)
+        setActualBillDraft(emptyActualBill())
+        setSelectedReconMonth(draft.billingMonth)
+        await loadReconciliation()
+      } else {
+        const errorData = await response.json()
+        toast.error(errorData.error || 'Failed to save actual bill')
+      }
+    } catch (error) {
+      console.error('Error saving actual bill:', error)
+      toast.error('Error saving actual bill')
+    }
+  }, [actualBillDraft, loadReconciliation])
+
+  // Import actual bills from a CSV file, one row per bill line
+  const importActualBills = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    setImportingBills(true)
+    try {
+      const token = typeof window !== 'undefined' ? localStorage.getItem("bearer_token") : null;
+      const response = await fetch('/api/energy/actual-bills/import?replace=true', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'text/csv',
+          ...(token && { Authorization: `Bearer ${token}` }),
+        },
+        body: await file.text()
+      })
+      const result = await response.json()
+      if (response.ok) {
+        const count = result.imported.length + result.replaced.length
+        toast.success(`Imported ${count} actual bill${count === 1 ? '' : 's'}`)
+        if (result.errors.length > 0) {
+          toast.error(`Line ${result.errors[0].line}: ${result.errors[0].error}`)
+        }
+        await loadReconciliation()
+      } else {
+        toast.error(result.error || 'Failed to import actual bills')
+      }
+    } catch (error) {
+      console.error('Error importing actual bills:', error)
+      toast.error('Error importing actual bills')
+    } finally {
+      setImportingBills(false)
+    }
+  }, [loadReconciliation])
+
+  // Download readings or bills; fetched rather than linked so the bearer token goes along
+  const downloadExport = useCallback(async (format: 'csv' | 'json' | 'xml', dataset: 'readings' | 'bills' | 'all') => {
+    try {
+      const params = new URLSearchParams({ format, dataset })
+      if (exportRange.from) params.append('date_from', exportRange.from)
+      if (exportRange.to) params.append('date_to', exportRange.to)
+
+      const token = typeof window !== 'undefined' ? localStorage.getItem("bearer_token") : null;
+      const response = await fetch(`/api/energy/export?${params.toString()}`, {
+        headers: {
+          ...(token && { Authorization: `Bearer ${token}` }),
+        },
+      })
+      if (!response.ok) {
+        const error = await response.json()
+        toast.error(error.error || 'Failed to export energy data')
+        return
+      }
+
+      const filename = /filename="([^"]+)"/.exec(response.headers.get('Content-Disposition') || '')?.[1] || `energy-${dataset}.${format}`
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = filename
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      console.error('Error exporting energy data:', error)
+      toast.error('Error exporting energy data')
+    }
+  }, [exportRange])
+
   // Save current month bill
   const saveCurrentMonthBill = useCallback(async () => {
     if (!currentMonthBill) return
 
     try {
       const token = typeof window !== 'undefined' ? localStorage.getItem("bearer_token") : null;
-      const response = await fetch(`/api/energy/calculate-bill/${currentMonthBill.billingMonth}?save=true`, {
+      const periodDates = getBillingPeriodDates(currentMonthBill.billingMonth)
+      const response = await fetch(`/api/energy/calculate-bill/${currentMonthBill.billingMonth}?` + new URLSearchParams({
+        save: 'true',
+        customPeriod: billingSettings.isCustomPeriod.toString(),
+        startDate: periodDates.startDate.toISOString().split('T')[0],
+        endDate: periodDates.endDate.toISOString().split('T')[0],
+        startDay: periodDates.startDay.toString(),
+        endDay: periodDates.endDay.toString()
+      }), {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -354,6 +799,7 @@ export default function EnergyMonitor() {
       if (response.ok) {
         toast.success('Monthly bill saved successfully')
         await loadBillingHistory()
+        await loadReconciliation()
       } else {
         const errorData = await response.json()
         toast.error(errorData.error || 'Failed to save bill')
@@ -362,7 +808,278 @@ export default function EnergyMonitor() {
       console.error('Error saving bill:', error)
       toast.error('Error saving bill')
     }
-  }, [currentMonthBill, loadBillingHistory])
+  }, [currentMonthBill, loadBillingHistory, loadReconciliation, billingSettings, getBillingPeriodDates])
+
+  // Load the hour-by-weekday usage heatmap from stored interval readings
+  const loadUsageHeatmap = useCallback(async () => {
+    try {
+      const token = typeof window !== 'undefined' ? localStorage.getItem("bearer_token") : null;
+      const response = await fetch('/api/energy/intervals/heatmap?days=30', {
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token && { Authorization: `Bearer ${token}` }),
+        },
+      })
+      if (response.ok) {
+        setUsageHeatmap(await response.json())
+      }
+    } catch (error) {
+      console.error('Error loading usage heatmap:', error)
+    }
+  }, [])
+
+  // Load this month's solar, export and battery totals
+  const loadSolarSummary = useCallback(async () => {
+    try {
+      const token = typeof window !== 'undefined' ? localStorage.getItem("bearer_token") : null;
+      const response = await fetch('/api/energy/solar', {
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token && { Authorization: `Bearer ${token}` }),
+        },
+      })
+      if (response.ok) {
+        setSolarSummary(await response.json())
+      }
+    } catch (error) {
+      console.error('Error loading solar summary:', error)
+    }
+  }, [])
+
+  const loadAttribution = useCallback(async () => {
+    try {
+      const token = typeof window !== 'undefined' ? localStorage.getItem("bearer_token") : null;
+      const response = await fetch('/api/energy/attribution', {
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token && { Authorization: `Bearer ${token}` }),
+        },
+      })
+      if (response.ok) {
+        setAttribution(await response.json())
+      }
+    } catch (error) {
+      console.error('Error loading energy attribution:', error)
+    }
+  }, [])
+
+  const loadAlerts = useCallback(async () => {
+    try {
+      const token = typeof window !== 'undefined' ? localStorage.getItem("bearer_token") : null;
+      const headers = {
+        'Content-Type': 'application/json',
+        ...(token && { Authorization: `Bearer ${token}` }),
+      }
+      const [alertsResponse, rulesResponse] = await Promise.all([
+        fetch('/api/energy/alerts?limit=20', { headers }),
+        fetch('/api/energy/alert-rules', { headers })
+      ])
+      if (alertsResponse.ok) {
+        setEnergyAlerts(await alertsResponse.json())
+      }
+      if (rulesResponse.ok) {
+        const result = await rulesResponse.json()
+        setAlertRules(result.rules)
+        setAlertEntities(result.entities)
+      }
+    } catch (error) {
+      console.error('Error loading energy alerts:', error)
+    }
+  }, [])
+
+  // Acknowledge one alert, or every open one without an id
+  const acknowledgeAlerts = useCallback(async (id?: number) => {
+    try {
+      const token = typeof window !== 'undefined' ? localStorage.getItem("bearer_token") : null;
+      const response = await fetch('/api/energy/alerts/acknowledge', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token && { Authorization: `Bearer ${token}` }),
+        },
+        body: JSON.stringify(id ? { ids: [id] } : {})
+      })
+      if (response.ok) {
+        await loadAlerts()
+      } else {
+        const errorData = await response.json()
+        toast.error(errorData.error || 'Failed to acknowledge alerts')
+      }
+    } catch (error) {
+      console.error('Error acknowledging alerts:', error)
+      toast.error('Error acknowledging alerts')
+    }
+  }, [loadAlerts])
+
+  // Evaluate the rules over the last complete days now instead of waiting
+  // for the next collection
+  const checkAlerts = useCallback(async () => {
+    setCheckingAlerts(true)
+    try {
+      const token = typeof window !== 'undefined' ? localStorage.getItem("bearer_token") : null;
+      const response = await fetch('/api/energy/alerts/evaluate', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token && { Authorization: `Bearer ${token}` }),
+        },
+        body: JSON.stringify({})
+      })
+      const result = await response.json()
+      if (response.ok) {
+        const count = result.created.length
+        toast.success(count > 0 ? `${count} new alert${count === 1 ? '' : 's'}` : 'No new alerts')
+        await loadAlerts()
+      } else {
+        toast.error(result.error || 'Failed to check alerts')
+      }
+    } catch (error) {
+      console.error('Error checking alerts:', error)
+      toast.error('Error checking alerts')
+    } finally {
+      setCheckingAlerts(false)
+    }
+  }, [loadAlerts])
+
+  const saveAlertRule = useCallback(async () => {
+    try {
+      const token = typeof window !== 'undefined' ? localStorage.getItem("bearer_token") : null;
+      const draft = alertRuleDraft
+      const response = await fetch('/api/energy/alert-rules', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token && { Authorization: `Bearer ${token}` }),
+        },
+        body: JSON.stringify({
+          name: draft.name,
+          type: draft.type,
+          entityId: draft.type === 'monthly_cost' ? null : draft.entityId || null,
+          threshold: Number(draft.threshold),
+          notify: draft.notify,
+          notifyService: draft.notifyService || null
+        })
+      })
+      if (response.ok) {
+        toast.success(`Alert rule "${draft.name}" added`)
+        setAlertRuleDraft(emptyAlertRule())
+        await loadAlerts()
+      } else {
+        const errorData = await response.json()
+        toast.error(errorData.error || 'Failed to save alert rule')
+      }
+    } catch (error) {
+      console.error('Error saving alert rule:', error)
+      toast.error('Error saving alert rule')
+    }
+  }, [alertRuleDraft, loadAlerts])
+
+  // PUT with changes, or DELETE without
+  const changeAlertRule = useCallback(async (id: number, changes?: Partial<EnergyAlertRule>) => {
+    try {
+      const token = typeof window !== 'undefined' ? localStorage.getItem("bearer_token") : null;
+      const response = await fetch(`/api/energy/alert-rules/${id}`, {
+        method: changes ? 'PUT' : 'DELETE',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token && { Authorization: `Bearer ${token}` }),
+        },
+        ...(changes && { body: JSON.stringify(changes) })
+      })
+      if (response.ok) {
+        await loadAlerts()
+      } else {
+        const errorData = await response.json()
+        toast.error(errorData.error || 'Failed to update alert rule')
+      }
+    } catch (error) {
+      console.error('Error updating alert rule:', error)
+      toast.error('Error updating alert rule')
+    }
+  }, [loadAlerts])
+
+  const loadYearComparison = useCallback(async () => {
+    if (!comparisonMonth) return
+    try {
+      const token = typeof window !== 'undefined' ? localStorage.getItem("bearer_token") : null;
+      const response = await fetch(`/api/energy/comparison?month=${comparisonMonth}&years=${comparisonYears}`, {
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token && { Authorization: `Bearer ${token}` }),
+        },
+      })
+      setYearComparison(response.ok ? await response.json() : null)
+    } catch (error) {
+      console.error('Error loading year-over-year comparison:', error)
+    }
+  }, [comparisonMonth, comparisonYears])
+
+  // Import daily readings from a Green Button XML file
+  const importGreenButton = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    setImportingGreenButton(true)
+    try {
+      const token = typeof window !== 'undefined' ? localStorage.getItem("bearer_token") : null;
+      const response = await fetch('/api/energy/readings/import', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/xml',
+          ...(token && { Authorization: `Bearer ${token}` }),
+        },
+        body: await file.text()
+      })
+      const result = await response.json()
+      if (response.ok) {
+        const imported = result.entities.reduce((sum: number, entity: { imported: number }) => sum + entity.imported, 0)
+        const skipped = result.entities.reduce((sum: number, entity: { skipped: number }) => sum + entity.skipped, 0)
+        toast.success(`Imported ${imported} reading${imported === 1 ? '' : 's'}${skipped > 0 ? `, ${skipped} already present` : ''}`)
+        if (result.errors.length > 0) {
+          toast.error(result.errors[0])
+        }
+        await Promise.all([loadSolarSummary(), loadAttribution()])
+      } else {
+        toast.error(result.error || 'Failed to import Green Button data')
+      }
+    } catch (error) {
+      console.error('Error importing Green Button data:', error)
+      toast.error('Error importing Green Button data')
+    } finally {
+      setImportingGreenButton(false)
+    }
+  }, [loadSolarSummary, loadAttribution])
+
+  // Pull interval readings for the last 30 days from Home Assistant history
+  const syncIntervalData = useCallback(async () => {
+    setSyncingIntervals(true)
+    try {
+      const token = typeof window !== 'undefined' ? localStorage.getItem("bearer_token") : null;
+      const response = await fetch('/api/energy/intervals/ingest', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token && { Authorization: `Bearer ${token}` }),
+        },
+        body: JSON.stringify({ days: 30 })
+      })
+      if (response.ok) {
+        const result = await response.json()
+        toast.success(`Interval data synced for ${result.days.length} days`)
+        await loadUsageHeatmap()
+        await calculateCurrentMonthBill(getCurrentBillingPeriod())
+      } else {
+        const errorData = await response.json()
+        toast.error(errorData.error || 'Failed to sync interval data')
+      }
+    } catch (error) {
+      console.error('Error syncing interval data:', error)
+      toast.error('Error syncing interval data')
+    } finally {
+      setSyncingIntervals(false)
+    }
+  }, [loadUsageHeatmap, calculateCurrentMonthBill, getCurrentBillingPeriod])
 
   // Save billing settings to localStorage - now after dependencies
   const saveBillingSettings = useCallback((settings: BillingPeriodSettings) => {
@@ -563,6 +1280,17 @@ export default function EnergyMonitor() {
   // Format currency
   const formatCurrency = (amount: number) => `$${amount.toFixed(2)}`
 
+  // Rate of a rider or tax as the tariff states it
+  const formatAdjustmentRate = (line: BillAdjustmentLine) => {
+    if (line.type === 'percent') return `${line.value}%`
+    if (line.type === 'per_kwh') return `$${line.value.toFixed(5)}/kWh`
+    return `$${line.value.toFixed(2)}/month`
+  }
+
+  // Lines are tagged with their tariff version when rates changed mid-period
+  const versionSuffix = (version: number) =>
+    currentMonthBill && currentMonthBill.tariff.versions.length > 1 ? ` [v${version}]` : ''
+
   // Format month display
   const formatMonth = (month: string) => {
     const date = new Date(month + '-01')
@@ -584,7 +1312,16 @@ export default function EnergyMonitor() {
   useEffect(() => {
     loadBillingHistory()
     loadBillingSettings()
-  }, [loadBillingHistory, loadBillingSettings])
+    loadUsageHeatmap()
+    loadSolarSummary()
+    loadReconciliation()
+    loadAttribution()
+    loadAlerts()
+  }, [loadBillingHistory, loadBillingSettings, loadUsageHeatmap, loadSolarSummary, loadReconciliation, loadAttribution, loadAlerts])
+
+  useEffect(() => {
+    loadYearComparison()
+  }, [loadYearComparison])
 
   return (
     <div className="space-y-6">
@@ -699,6 +1436,218 @@ export default function EnergyMonitor() {
             )}
           </div>
 
+          {/* Energy Alerts */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    <Bell className="h-5 w-5" />
+                    Energy Alerts
+                    {energyAlerts.some(alert => alert.status === 'open') && (
+                      <Badge variant="destructive">{energyAlerts.filter(alert => alert.status === 'open').length} open</Badge>
+                    )}
+                  </CardTitle>
+                  <CardDescription>
+                    Days that stand out from the usual for that weekday, and limits that were crossed
+                  </CardDescription>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button variant="outline" size="sm" onClick={checkAlerts} disabled={checkingAlerts}>
+                    <RefreshCw className={`h-4 w-4 mr-2 ${checkingAlerts ? 'animate-spin' : ''}`} />
+                    Check Now
+                  </Button>
+                  {energyAlerts.some(alert => alert.status === 'open') && (
+                    <Button variant="outline" size="sm" onClick={() => acknowledgeAlerts()}>
+                      <CheckCircle2 className="h-4 w-4 mr-2" />
+                      Acknowledge All
+                    </Button>
+                  )}
+                  <Dialog open={showAlertRules} onOpenChange={setShowAlertRules}>
+                    <DialogTrigger asChild>
+                      <Button size="sm">
+                        <Settings className="h-4 w-4 mr-2" />
+                        Rules
+                      </Button>
+                    </DialogTrigger>
+                    <DialogContent className="max-w-3xl">
+                      <DialogHeader>
+                        <DialogTitle>Alert Rules</DialogTitle>
+                        <DialogDescription>
+                          Unusual usage compares each day to the same weekday over the previous weeks; the threshold is in standard deviations. Leave the device empty to watch the whole house.
+                        </DialogDescription>
+                      </DialogHeader>
+                      <div className="space-y-4">
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead>Name</TableHead>
+                              <TableHead>Rule</TableHead>
+                              <TableHead>Watches</TableHead>
+                              <TableHead>Notify</TableHead>
+                              <TableHead>Enabled</TableHead>
+                              <TableHead />
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {alertRules.map(rule => (
+                              <TableRow key={rule.id}>
+                                <TableCell className="font-medium">{rule.name}</TableCell>
+                                <TableCell>
+                                  {rule.type === 'anomaly' ? `${rule.threshold}σ ${rule.direction}, ${rule.baselineWeeks} weeks`
+                                    : rule.type === 'daily_kwh' ? `Over ${rule.threshold} kWh/day`
+                                    : `Over ${formatCurrency(rule.threshold)}/month`}
+                                </TableCell>
+                                <TableCell>
+                                  {rule.entityId
+                                    ? alertEntities.find(entity => entity.entityId === rule.entityId)?.friendlyName || rule.entityId
+                                    : 'Whole house'}
+                                </TableCell>
+                                <TableCell>
+                                  <Switch checked={rule.notify} onCheckedChange={(notify) => changeAlertRule(rule.id, { notify })} />
+                                </TableCell>
+                                <TableCell>
+                                  <Switch checked={rule.enabled} onCheckedChange={(enabled) => changeAlertRule(rule.id, { enabled })} />
+                                </TableCell>
+                                <TableCell>
+                                  <Button variant="ghost" size="sm" onClick={() => changeAlertRule(rule.id)}>
+                                    <XCircle className="h-4 w-4" />
+                                  </Button>
+                                </TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                        <Separator />
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                          <div>
+                            <Label htmlFor="alert-rule-name">Name</Label>
+                            <Input
+                              id="alert-rule-name"
+                              value={alertRuleDraft.name}
+                              onChange={(e) => setAlertRuleDraft(prev => ({ ...prev, name: e.target.value }))}
+                            />
+                          </div>
+                          <div>
+                            <Label>Type</Label>
+                            <Select
+                              value={alertRuleDraft.type}
+                              onValueChange={(value) => setAlertRuleDraft(prev => ({
+                                ...prev,
+                                type: value as EnergyAlertRule['type'],
+                                threshold: value === 'anomaly' ? '3' : ''
+                              }))}
+                            >
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {Object.entries(ALERT_RULE_LABELS).map(([type, label]) => (
+                                  <SelectItem key={type} value={type}>{label}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div>
+                            <Label>Device</Label>
+                            <Select
+                              value={alertRuleDraft.entityId || 'house'}
+                              onValueChange={(value) => setAlertRuleDraft(prev => ({ ...prev, entityId: value === 'house' ? '' : value }))}
+                              disabled={alertRuleDraft.type === 'monthly_cost'}
+                            >
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="house">Whole house</SelectItem>
+                                {alertEntities.map(entity => (
+                                  <SelectItem key={entity.entityId} value={entity.entityId}>{entity.friendlyName}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div>
+                            <Label htmlFor="alert-rule-threshold">Threshold</Label>
+                            <Input
+                              id="alert-rule-threshold"
+                              type="number"
+                              step="0.1"
+                              value={alertRuleDraft.threshold}
+                              onChange={(e) => setAlertRuleDraft(prev => ({ ...prev, threshold: e.target.value }))}
+                            />
+                          </div>
+                        </div>
+                        <div className="flex flex-wrap items-end justify-between gap-3">
+                          <div className="flex items-end gap-3">
+                            <div className="flex items-center gap-2 pb-2">
+                              <Switch
+                                id="alert-rule-notify"
+                                checked={alertRuleDraft.notify}
+                                onCheckedChange={(notify) => setAlertRuleDraft(prev => ({ ...prev, notify }))}
+                              />
+                              <Label htmlFor="alert-rule-notify">Notify through Home Assistant</Label>
+                            </div>
+                            {alertRuleDraft.notify && (
+                              <div>
+                                <Label htmlFor="alert-rule-service">Notify Service</Label>
+                                <Input
+                                  id="alert-rule-service"
+                                  placeholder="notify"
+                                  value={alertRuleDraft.notifyService}
+                                  onChange={(e) => setAlertRuleDraft(prev => ({ ...prev, notifyService: e.target.value }))}
+                                />
+                              </div>
+                            )}
+                          </div>
+                          <Button onClick={saveAlertRule} disabled={!alertRuleDraft.name || !alertRuleDraft.threshold}>
+                            Add Rule
+                          </Button>
+                        </div>
+                      </div>
+                    </DialogContent>
+                  </Dialog>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {energyAlerts.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No alerts. Rules are checked after each energy collection.
+                </p>
+              ) : (
+                <ScrollArea className="max-h-72">
+                  <div className="space-y-2">
+                    {energyAlerts.map(alert => (
+                      <div
+                        key={alert.id}
+                        className={`flex items-start justify-between gap-3 rounded-lg border p-3 ${alert.status === 'acknowledged' ? 'opacity-60' : ''}`}
+                      >
+                        <div className="flex items-start gap-3">
+                          <AlertCircle className={`h-4 w-4 mt-0.5 ${alert.severity === 'critical' ? 'text-red-500' : 'text-yellow-500'}`} />
+                          <div>
+                            <div className="text-sm font-medium">{alert.message}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {alert.ruleName ?? 'Deleted rule'} · {new Date(alert.createdAt).toLocaleString()}
+                              {alert.notifiedAt && ' · notified'}
+                              {alert.notifyError && ` · notification failed: ${alert.notifyError}`}
+                            </div>
+                          </div>
+                        </div>
+                        {alert.status === 'open' ? (
+                          <Button variant="ghost" size="sm" onClick={() => acknowledgeAlerts(alert.id)}>
+                            Acknowledge
+                          </Button>
+                        ) : (
+                          <Badge variant="outline">Acknowledged</Badge>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </ScrollArea>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Chart Area - Real Energy Usage Overview */}
           <Card>
             <CardHeader>
@@ -931,6 +1880,119 @@ export default function EnergyMonitor() {
               )}
             </CardContent>
           </Card>
+
+          {/* Solar & Battery */}
+          {solarSummary && (solarSummary.hasSolar || solarSummary.hasBattery) && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <SunDim className="h-5 w-5" />
+                  Solar & Battery
+                </CardTitle>
+                <CardDescription>
+                  This month's production, grid exchange and storage
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <div className="flex justify-between text-sm">
+                      <span>Self-Consumption</span>
+                      <span className="font-medium">{solarSummary.selfConsumptionPct !== null ? `${solarSummary.selfConsumptionPct}%` : 'n/a'}</span>
+                    </div>
+                    <Progress value={solarSummary.selfConsumptionPct ?? 0} />
+                    <p className="text-xs text-muted-foreground">Share of solar production used on site</p>
+                  </div>
+                  <div className="space-y-2">
+                    <div className="flex justify-between text-sm">
+                      <span>Grid Independence</span>
+                      <span className="font-medium">{solarSummary.gridIndependencePct !== null ? `${solarSummary.gridIndependencePct}%` : 'n/a'}</span>
+                    </div>
+                    <Progress value={solarSummary.gridIndependencePct ?? 0} />
+                    <p className="text-xs text-muted-foreground">Share of consumption not drawn from the grid</p>
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 p-4 bg-muted/50 rounded-lg">
+                  <div className="text-center">
+                    <p className="text-lg font-bold">{solarSummary.solarKwh.toFixed(1)} kWh</p>
+                    <p className="text-xs text-muted-foreground">Solar Produced</p>
+                  </div>
+                  <div className="text-center">
+                    <p className="text-lg font-bold">{solarSummary.exportKwh.toFixed(1)} kWh</p>
+                    <p className="text-xs text-muted-foreground">Exported</p>
+                  </div>
+                  <div className="text-center">
+                    <p className="text-lg font-bold">{solarSummary.importKwh.toFixed(1)} kWh</p>
+                    <p className="text-xs text-muted-foreground">Imported</p>
+                  </div>
+                  <div className="text-center">
+                    <p className="text-lg font-bold">{solarSummary.consumptionKwh.toFixed(1)} kWh</p>
+                    <p className="text-xs text-muted-foreground">Consumed</p>
+                  </div>
+                </div>
+                {solarSummary.hasBattery && (
+                  <p className="text-xs text-muted-foreground">
+                    Battery: {solarSummary.batteryChargeKwh.toFixed(1)} kWh charged, {solarSummary.batteryDischargeKwh.toFixed(1)} kWh discharged
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Usage Heatmap */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    <Calendar className="h-5 w-5" />
+                    Usage by Hour
+                  </CardTitle>
+                  <CardDescription>
+                    Average kWh per hour and weekday over the last 30 days of interval data
+                  </CardDescription>
+                </div>
+                <Button variant="outline" size="sm" onClick={syncIntervalData} disabled={syncingIntervals}>
+                  <RefreshCw className={`h-4 w-4 mr-2 ${syncingIntervals ? 'animate-spin' : ''}`} />
+                  {syncingIntervals ? 'Syncing...' : 'Sync Interval Data'}
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {usageHeatmap && usageHeatmap.days > 0 ? (
+                <div className="overflow-x-auto">
+                  <div className="grid gap-px min-w-[640px]" style={{ gridTemplateColumns: '3rem repeat(24, minmax(0, 1fr))' }}>
+                    <div />
+                    {Array.from({ length: 24 }, (_, hour) => (
+                      <div key={hour} className="text-[10px] text-center text-muted-foreground">
+                        {hour % 3 === 0 ? hour : ''}
+                      </div>
+                    ))}
+                    {usageHeatmap.cells.map((hours, weekday) => [
+                      <div key={`label-${weekday}`} className="text-xs text-muted-foreground pr-2">{WEEKDAY_LABELS[weekday]}</div>,
+                      ...hours.map((kwh, hour) => (
+                        <div
+                          key={`${weekday}-${hour}`}
+                          className={`h-6 rounded-sm ${kwh === null ? 'bg-muted/30' : 'bg-orange-500'}`}
+                          style={kwh !== null && usageHeatmap.max > 0 ? { opacity: 0.15 + 0.85 * kwh / usageHeatmap.max } : undefined}
+                          title={`${WEEKDAY_LABELS[weekday]} ${hour}:00 - ${kwh === null ? 'no data' : `${kwh.toFixed(2)} kWh`}`}
+                        />
+                      ))
+                    ])}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    {usageHeatmap.days} days of data; darkest cell {usageHeatmap.max.toFixed(2)} kWh
+                  </p>
+                </div>
+              ) : (
+                <div className="h-[120px] bg-muted/20 rounded-lg flex items-center justify-center">
+                  <p className="text-sm text-muted-foreground">
+                    No interval data yet. Sync it from Home Assistant history to see when energy is used.
+                  </p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
         </TabsContent>
 
         {/* Devices Tab */}
@@ -979,6 +2041,109 @@ export default function EnergyMonitor() {
               </div>
             </CardContent>
           </Card>
+
+          {attribution && attribution.totalKwh > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <PlugZap className="h-5 w-5" />
+                  Where the Energy Went
+                </CardTitle>
+                <CardDescription>
+                  {attribution.month}: {attribution.totalKwh.toFixed(1)} kWh
+                  {attribution.totalCost !== null && ` · $${attribution.totalCost.toFixed(2)}`}
+                  {attribution.effectiveRate !== null && ` · $${attribution.effectiveRate.toFixed(4)}/kWh effective rate`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Device</TableHead>
+                      <TableHead className="text-right">kWh</TableHead>
+                      <TableHead className="text-right">Cost</TableHead>
+                      <TableHead className="text-right">Share</TableHead>
+                      <TableHead className="text-right">vs. 3-mo avg</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {attribution.devices.map((device) => (
+                      <TableRow key={device.entityId}>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            {getDeviceIcon(device.entityId)}
+                            <span className="font-medium">{device.name}</span>
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">{device.kwh.toFixed(1)}</TableCell>
+                        <TableCell className="text-right">{device.cost !== null ? `$${device.cost.toFixed(2)}` : '—'}</TableCell>
+                        <TableCell className="text-right">{(device.share * 100).toFixed(1)}%</TableCell>
+                        <TableCell className={`text-right ${device.changePct !== null && device.changePct > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                          {device.changePct !== null ? `${device.changePct > 0 ? '+' : ''}${device.changePct.toFixed(0)}%` : '—'}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                    <TableRow>
+                      <TableCell className="text-muted-foreground">Unmonitored</TableCell>
+                      <TableCell className="text-right">{attribution.unmonitored.kwh.toFixed(1)}</TableCell>
+                      <TableCell className="text-right">{attribution.unmonitored.cost !== null ? `$${attribution.unmonitored.cost.toFixed(2)}` : '—'}</TableCell>
+                      <TableCell className="text-right">{attribution.unmonitored.share !== null ? `${(attribution.unmonitored.share * 100).toFixed(1)}%` : '—'}</TableCell>
+                      <TableCell />
+                    </TableRow>
+                  </TableBody>
+                </Table>
+
+                {attribution.unmonitored.overlap && (
+                  <Alert>
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>
+                      Device sensors add up to {attribution.monitoredKwh.toFixed(1)} kWh, more than the house used. Some sensors may overlap.
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                {attribution.baseline && (
+                  <div className="p-3 border rounded-lg">
+                    <p className="text-sm text-muted-foreground">Always-on load</p>
+                    <p className="text-lg font-bold">{attribution.baseline.watts} W</p>
+                    <p className="text-sm text-muted-foreground">
+                      {attribution.baseline.kwh.toFixed(1)} kWh
+                      {attribution.baseline.cost !== null && ` · $${attribution.baseline.cost.toFixed(2)}`}
+                      {attribution.baseline.share !== null && ` · ${(attribution.baseline.share * 100).toFixed(0)}% of usage`}
+                      {` · overnight minimum over ${attribution.baseline.nights} nights`}
+                    </p>
+                  </div>
+                )}
+
+                {attribution.opportunities.length > 0 && (
+                  <div className="space-y-3">
+                    <h4 className="font-medium">Top Savings Opportunities</h4>
+                    {attribution.opportunities.map((opportunity) => (
+                      <div key={opportunity.id} className="flex items-start justify-between gap-4 p-3 border rounded-lg">
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium">{opportunity.title}</span>
+                            <Badge variant={opportunity.priority === 'high' ? 'destructive' : opportunity.priority === 'medium' ? 'default' : 'secondary'}>
+                              {opportunity.priority}
+                            </Badge>
+                          </div>
+                          <p className="text-sm text-muted-foreground">{opportunity.detail}</p>
+                        </div>
+                        <div className="text-right whitespace-nowrap">
+                          {opportunity.estimatedMonthlySavings !== null && (
+                            <div className="font-bold text-green-600">${opportunity.estimatedMonthlySavings.toFixed(2)}/mo</div>
+                          )}
+                          {opportunity.estimatedMonthlyKwh > 0 && (
+                            <div className="text-sm text-muted-foreground">{opportunity.estimatedMonthlyKwh.toFixed(0)} kWh</div>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
         </TabsContent>
 
         {/* Billing Tab */}
@@ -1127,6 +2292,89 @@ export default function EnergyMonitor() {
             </CardContent>
           </Card>
 
+          {/* Month-End Forecast */}
+          {billForecast && !billForecast.complete && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <TrendingUp className="h-5 w-5" />
+                  {formatMonth(billForecast.month)} - Month-End Forecast
+                </CardTitle>
+                <CardDescription>
+                  {billForecast.actualDays} days measured, {billForecast.projectedDays} projected from {billForecast.model.historyDays} days of history
+                  {billForecast.model.temperature && ` and ${billForecast.model.temperature.entityId} temperatures`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {billForecast.budget && billForecast.budget.status !== 'ok' && (
+                  <Alert variant={billForecast.budget.status === 'over_budget' ? 'destructive' : 'default'}>
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>{billForecast.budget.message}</AlertDescription>
+                  </Alert>
+                )}
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="p-4 bg-muted/50 rounded-lg">
+                    <p className="text-sm text-muted-foreground">Projected Usage</p>
+                    <p className="text-2xl font-bold">{billForecast.kwh.toFixed(0)} kWh</p>
+                    <p className="text-xs text-muted-foreground">
+                      80%: {billForecast.bands.p80.lowKwh.toFixed(0)} - {billForecast.bands.p80.highKwh.toFixed(0)} kWh
+                    </p>
+                  </div>
+                  <div className="p-4 bg-muted/50 rounded-lg">
+                    <p className="text-sm text-muted-foreground">Projected Bill</p>
+                    <p className="text-2xl font-bold">{formatCurrency(billForecast.cost)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      80%: {formatCurrency(billForecast.bands.p80.lowCost)} - {formatCurrency(billForecast.bands.p80.highCost)}
+                    </p>
+                  </div>
+                  <div className="p-4 bg-muted/50 rounded-lg">
+                    <p className="text-sm text-muted-foreground">{billForecast.budget ? 'Budget' : '95% Range'}</p>
+                    <p className="text-2xl font-bold">
+                      {billForecast.budget
+                        ? formatCurrency(billForecast.budget.amount)
+                        : `${formatCurrency(billForecast.bands.p95.lowCost)} - ${formatCurrency(billForecast.bands.p95.highCost)}`}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {billForecast.budget
+                        ? `95%: ${formatCurrency(billForecast.bands.p95.lowCost)} - ${formatCurrency(billForecast.bands.p95.highCost)}`
+                        : 'Set a monthly budget in Settings to get alerts'}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-end gap-px h-24">
+                  {billForecast.days.map(day => {
+                    const max = Math.max(...billForecast.days.map(entry => entry.high), 0.001)
+                    return (
+                      <div
+                        key={day.date}
+                        className="relative flex-1 h-full flex items-end"
+                        title={day.actual
+                          ? `${day.date}: ${day.kwh} kWh`
+                          : `${day.date}: ${day.kwh} kWh projected (${day.low}-${day.high})`}
+                      >
+                        {!day.actual && (
+                          <div
+                            className="absolute inset-x-0 bg-primary/10 rounded-sm"
+                            style={{ bottom: `${day.low / max * 100}%`, height: `${(day.high - day.low) / max * 100}%` }}
+                          />
+                        )}
+                        <div
+                          className={`relative w-full rounded-sm ${day.actual ? 'bg-primary' : 'bg-primary/40'}`}
+                          style={{ height: `${day.kwh / max * 100}%` }}
+                        />
+                      </div>
+                    )
+                  })}
+                </div>
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span>{billForecast.startDate}</span>
+                  <span>Measured / projected with 80% band</span>
+                  <span>{billForecast.endDate}</span>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Current Month Bill Calculation */}
           {currentMonthBill && (
             <Card>
@@ -1206,37 +2454,41 @@ export default function EnergyMonitor() {
                         <span>Basic Monthly Charge:</span>
                         <span>{formatCurrency(currentMonthBill.calculation.basicMonthlyCharge)}</span>
                       </div>
-                      <div className="flex justify-between">
-                        <span>Energy Charge Tier 1 ({currentMonthBill.calculation.energyCharges.tier1.kwh.toFixed(1)} kWh @ ${currentMonthBill.calculation.energyCharges.tier1.rate.toFixed(5)}/kWh):</span>
-                        <span>{formatCurrency(currentMonthBill.calculation.energyCharges.tier1.cost)}</span>
-                      </div>
-                      {currentMonthBill.calculation.energyCharges.tier2.kwh > 0 && (
-                        <div className="flex justify-between">
-                          <span>Energy Charge Tier 2 ({currentMonthBill.calculation.energyCharges.tier2.kwh.toFixed(1)} kWh @ ${currentMonthBill.calculation.energyCharges.tier2.rate.toFixed(5)}/kWh):</span>
-                          <span>{formatCurrency(currentMonthBill.calculation.energyCharges.tier2.cost)}</span>
+                      {currentMonthBill.calculation.energyCharges.lines.map((line, index) => (
+                        <div key={`energy-${index}`} className="flex justify-between">
+                          <span>{line.name}{line.season ? ` (${line.season})` : ''}{versionSuffix(line.tariffVersion)} ({line.kwh.toFixed(1)} kWh @ ${line.rate.toFixed(5)}/kWh):</span>
+                          <span>{formatCurrency(line.cost)}</span>
                         </div>
-                      )}
-                      <div className="flex justify-between">
-                        <span>Fuel Cost ({(currentMonthBill.calculation.fuelCost.rate * 100).toFixed(1)}%):</span>
-                        <span>{formatCurrency(currentMonthBill.calculation.fuelCost.amount)}</span>
-                      </div>
-                      <div className="flex justify-between">
-                        <span>City Franchise Fee ({(currentMonthBill.calculation.franchiseFee.rate * 100).toFixed(1)}%):</span>
-                        <span>{formatCurrency(currentMonthBill.calculation.franchiseFee.amount)}</span>
-                      </div>
+                      ))}
+                      {currentMonthBill.calculation.demandCharges.lines.map((line, index) => (
+                        <div key={`demand-${index}`} className="flex justify-between">
+                          <span>{line.name}{line.season ? ` (${line.season})` : ''}{versionSuffix(line.tariffVersion)} ({line.peakKw !== null ? `${line.peakKw.toFixed(2)} kW peak @ $${line.rate.toFixed(2)}/kW` : 'no interval data'}):</span>
+                          <span>{formatCurrency(line.cost)}</span>
+                        </div>
+                      ))}
+                      {currentMonthBill.calculation.riders.map((rider, index) => (
+                        <div key={`rider-${index}`} className="flex justify-between">
+                          <span>{rider.name}{rider.type !== 'fixed' ? ` (${formatAdjustmentRate(rider)})` : ''}{versionSuffix(rider.tariffVersion)}:</span>
+                          <span>{formatCurrency(rider.amount)}</span>
+                        </div>
+                      ))}
                       <Separator />
                       <div className="flex justify-between">
                         <span>Subtotal:</span>
                         <span>{formatCurrency(currentMonthBill.calculation.subtotal)}</span>
                       </div>
-                      <div className="flex justify-between">
-                        <span>Gross Receipts Tax ({(currentMonthBill.calculation.grossReceiptsTax.rate * 100).toFixed(1)}%):</span>
-                        <span>{formatCurrency(currentMonthBill.calculation.grossReceiptsTax.amount)}</span>
-                      </div>
-                      <div className="flex justify-between">
-                        <span>Public Service Tax:</span>
-                        <span>{formatCurrency(currentMonthBill.calculation.publicServiceTax)}</span>
-                      </div>
+                      {currentMonthBill.calculation.taxes.map((tax, index) => (
+                        <div key={`tax-${index}`} className="flex justify-between">
+                          <span>{tax.name}{tax.type !== 'fixed' ? ` (${formatAdjustmentRate(tax)})` : ''}{versionSuffix(tax.tariffVersion)}:</span>
+                          <span>{formatCurrency(tax.amount)}</span>
+                        </div>
+                      ))}
+                      {currentMonthBill.calculation.exports.credit !== 0 && (
+                        <div className="flex justify-between text-green-600">
+                          <span>{currentMonthBill.calculation.exports.trueUp ? 'Export credit (incl. true-up)' : 'Export credit'}:</span>
+                          <span>-{formatCurrency(currentMonthBill.calculation.exports.credit)}</span>
+                        </div>
+                      )}
                       <Separator />
                       <div className="flex justify-between font-bold text-lg">
                         <span>Total Bill Amount:</span>
@@ -1265,24 +2517,53 @@ export default function EnergyMonitor() {
 
                     <div className="space-y-2 text-sm">
                       <div className="p-3 bg-muted/50 rounded-lg">
-                        <div className="font-medium">Basic Monthly Charge</div>
-                        <div className="text-muted-foreground">Fixed monthly fee: ${currentMonthBill.calculation.basicMonthlyCharge.toFixed(2)}</div>
+                        <div className="font-medium">Tariff: {currentMonthBill.tariff.name}</div>
+                        <div className="text-muted-foreground">
+                          {currentMonthBill.tariff.versions.map(version => (
+                            <div key={version.id}>
+                              Version {version.version}: {version.effectiveFrom} to {version.effectiveTo ?? 'present'}
+                            </div>
+                          ))}
+                        </div>
                       </div>
                       <div className="p-3 bg-muted/50 rounded-lg">
-                        <div className="font-medium">Tier 1 Energy Rate</div>
-                        <div className="text-muted-foreground">First 1,000 kWh: ${currentMonthBill.calculation.energyCharges.tier1.rate.toFixed(5)}/kWh</div>
+                        <div className="font-medium">Basic Monthly Charge</div>
+                        <div className="text-muted-foreground">Fixed monthly fee: ${currentMonthBill.calculation.basicMonthlyCharge.toFixed(2)}</div>
                       </div>
                       <div className="p-3 bg-muted/50 rounded-lg">
-                        <div className="font-medium">Tier 2 Energy Rate</div>
-                        <div className="text-muted-foreground">Above 1,000 kWh: ${currentMonthBill.calculation.energyCharges.tier2.rate.toFixed(5)}/kWh</div>
+                        <div className="font-medium">Energy Rates</div>
+                        <div className="text-muted-foreground">
+                          {currentMonthBill.calculation.energyCharges.lines.map((line, index) => (
+                            <div key={index}>{line.name}{line.season ? ` (${line.season})` : ''}: ${line.rate.toFixed(5)}/kWh</div>
+                          ))}
+                          {currentMonthBill.calculation.energyCharges.touEstimated && (
+                            <div>Time-of-use usage estimated from daily totals</div>
+                          )}
+                          {currentMonthBill.calculation.demandCharges.unavailable && (
+                            <div>Demand charges need interval data; sync it from the Overview tab</div>
+                          )}
+                        </div>
                       </div>
+                      {currentMonthBill.calculation.exports.exportKwh > 0 && (
+                        <div className="p-3 bg-muted/50 rounded-lg">
+                          <div className="font-medium">Grid Export</div>
+                          <div className="text-muted-foreground">
+                            <div>Imported {currentMonthBill.calculation.exports.importKwh.toFixed(1)} kWh, exported {currentMonthBill.calculation.exports.exportKwh.toFixed(1)} kWh</div>
+                            <div>Billed {currentMonthBill.calculation.exports.netKwh.toFixed(1)} kWh{currentMonthBill.calculation.exports.bankKwhUsed > 0 ? ` after ${currentMonthBill.calculation.exports.bankKwhUsed.toFixed(1)} banked kWh` : ''}</div>
+                            {(currentMonthBill.calculation.exports.bankEnd.kwh > 0 || currentMonthBill.calculation.exports.bankEnd.credit > 0) && (
+                              <div>
+                                Carried to next bill: {currentMonthBill.calculation.exports.bankEnd.kwh > 0 ? `${currentMonthBill.calculation.exports.bankEnd.kwh.toFixed(1)} kWh` : formatCurrency(currentMonthBill.calculation.exports.bankEnd.credit)}
+                              </div>
+                            )}
+                          </div>
+                        </div>
+                      )}
                       <div className="p-3 bg-muted/50 rounded-lg">
                         <div className="font-medium">Additional Fees</div>
                         <div className="text-muted-foreground">
-                          Fuel Cost: {(currentMonthBill.calculation.fuelCost.rate * 100).toFixed(1)}%<br/>
-                          Franchise Fee: {(currentMonthBill.calculation.franchiseFee.rate * 100).toFixed(1)}%<br/>
-                          Gross Receipts Tax: {(currentMonthBill.calculation.grossReceiptsTax.rate * 100).toFixed(1)}%<br/>
-                          Public Service Tax: ${currentMonthBill.calculation.publicServiceTax.toFixed(2)}
+                          {[...currentMonthBill.calculation.riders, ...currentMonthBill.calculation.taxes].map((line, index) => (
+                            <div key={index}>{line.name}: {formatAdjustmentRate(line)}</div>
+                          ))}
                         </div>
                       </div>
                     </div>
@@ -1331,11 +2612,23 @@ export default function EnergyMonitor() {
                             </div>
                             <div className="flex justify-between">
                               <span>Energy Charges:</span>
-                              <span>{formatCurrency(bill.energyChargeTier1Cost + bill.energyChargeTier2Cost)}</span>
+                              <span>{formatCurrency(bill.energyCharge)}</span>
                             </div>
+                            {bill.exportCredit !== 0 && (
+                              <div className="flex justify-between text-green-600">
+                                <span>Export Credit:</span>
+                                <span>-{formatCurrency(bill.exportCredit)}</span>
+                              </div>
+                            )}
+                            {bill.demandCharge > 0 && (
+                              <div className="flex justify-between">
+                                <span>Demand Charges:</span>
+                                <span>{formatCurrency(bill.demandCharge)}</span>
+                              </div>
+                            )}
                             <div className="flex justify-between">
                               <span>Fees & Taxes:</span>
-                              <span>{formatCurrency(bill.fuelCost + bill.franchiseFee + bill.grossReceiptsTax + bill.publicServiceTax)}</span>
+                              <span>{formatCurrency(bill.riderCharges + bill.taxCharges)}</span>
                             </div>
                             <Separator />
                             <div className="flex justify-between font-bold">
@@ -1389,10 +2682,429 @@ export default function EnergyMonitor() {
               )}
             </CardContent>
           </Card>
+
+          {/* Bill Reconciliation */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    <FileChartLine className="h-5 w-5" />
+                    Bill Reconciliation
+                  </CardTitle>
+                  <CardDescription>
+                    Actual utility bills compared line by line with the calculated ones
+                  </CardDescription>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" asChild disabled={importingBills}>
+                    <label className="cursor-pointer">
+                      <FileChartLine className="h-4 w-4 mr-2" />
+                      {importingBills ? 'Importing...' : 'Import CSV'}
+                      <input type="file" accept=".csv,text/csv" className="hidden" onChange={importActualBills} />
+                    </label>
+                  </Button>
+                  <Dialog open={showActualBillDialog} onOpenChange={setShowActualBillDialog}>
+                    <DialogTrigger asChild>
+                      <Button size="sm">
+                        <Receipt className="h-4 w-4 mr-2" />
+                        Enter Actual Bill
+                      </Button>
+                    </DialogTrigger>
+                    <DialogContent className="max-w-3xl">
+                      <DialogHeader>
+                        <DialogTitle>Enter Actual Bill</DialogTitle>
+                        <DialogDescription>
+                          Copy the line items from your utility bill. Use the tariff's rider and tax codes (e.g. fuel) so lines match; credits are negative.
+                        </DialogDescription>
+                      </DialogHeader>
+                      <div className="space-y-4">
+                        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                          <div>
+                            <Label htmlFor="actual-month">Billing Month</Label>
+                            <Input
+                              id="actual-month"
+                              type="month"
+                              value={actualBillDraft.billingMonth}
+                              onChange={(e) => setActualBillDraft(prev => ({ ...prev, billingMonth: e.target.value }))}
+                            />
+                          </div>
+                          <div>
+                            <Label htmlFor="actual-start">Period Start</Label>
+                            <Input
+                              id="actual-start"
+                              type="date"
+                              value={actualBillDraft.periodStart}
+                              onChange={(e) => setActualBillDraft(prev => ({ ...prev, periodStart: e.target.value }))}
+                            />
+                          </div>
+                          <div>
+                            <Label htmlFor="actual-end">Period End</Label>
+                            <Input
+                              id="actual-end"
+                              type="date"
+                              value={actualBillDraft.periodEnd}
+                              onChange={(e) => setActualBillDraft(prev => ({ ...prev, periodEnd: e.target.value }))}
+                            />
+                          </div>
+                          <div>
+                            <Label htmlFor="actual-kwh">Total kWh</Label>
+                            <Input
+                              id="actual-kwh"
+                              type="number"
+                              value={actualBillDraft.totalKwh}
+                              onChange={(e) => setActualBillDraft(prev => ({ ...prev, totalKwh: e.target.value }))}
+                            />
+                          </div>
+                          <div>
+                            <Label htmlFor="actual-total">Total ($)</Label>
+                            <Input
+                              id="actual-total"
+                              type="number"
+                              step="0.01"
+                              placeholder="Sum of lines"
+                              value={actualBillDraft.totalAmount}
+                              onChange={(e) => setActualBillDraft(prev => ({ ...prev, totalAmount: e.target.value }))}
+                            />
+                          </div>
+                        </div>
+                        <ScrollArea className="max-h-72">
+                          <div className="space-y-2">
+                            {actualBillDraft.lineItems.map((item, index) => {
+                              const updateLine = (changes: Partial<ActualLineDraft>) => setActualBillDraft(prev => ({
+                                ...prev,
+                                lineItems: prev.lineItems.map((line, lineIndex) => lineIndex === index ? { ...line, ...changes } : line)
+                              }))
+                              return (
+                                <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                                  <div className="col-span-3">
+                                    <Select value={item.category} onValueChange={(value) => updateLine({ category: value as ActualLineDraft['category'] })}>
+                                      <SelectTrigger>
+                                        <SelectValue />
+                                      </SelectTrigger>
+                                      <SelectContent>
+                                        {ACTUAL_LINE_CATEGORIES.map(category => (
+                                          <SelectItem key={category} value={category}>{category.replace('_', ' ')}</SelectItem>
+                                        ))}
+                                      </SelectContent>
+                                    </Select>
+                                  </div>
+                                  <Input className="col-span-2" placeholder="Code" value={item.code} onChange={(e) => updateLine({ code: e.target.value })} />
+                                  <Input className="col-span-3" placeholder="Name" value={item.name} onChange={(e) => updateLine({ name: e.target.value })} />
+                                  <Input className="col-span-1" type="number" placeholder="kWh" value={item.kwh} onChange={(e) => updateLine({ kwh: e.target.value })} />
+                                  <Input className="col-span-2" type="number" step="0.01" placeholder="Amount" value={item.amount} onChange={(e) => updateLine({ amount: e.target.value })} />
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="col-span-1"
+                                    onClick={() => setActualBillDraft(prev => ({ ...prev, lineItems: prev.lineItems.filter((_, lineIndex) => lineIndex !== index) }))}
+                                  >
+                                    <XCircle className="h-4 w-4" />
+                                  </Button>
+                                </div>
+                              )
+                            })}
+                          </div>
+                        </ScrollArea>
+                        <div className="flex justify-between">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setActualBillDraft(prev => ({
+                              ...prev,
+                              lineItems: [...prev.lineItems, { category: 'rider', code: '', name: '', kwh: '', amount: '' }]
+                            }))}
+                          >
+                            Add Line
+                          </Button>
+                          <Button onClick={saveActualBill} disabled={!actualBillDraft.billingMonth}>
+                            Save Actual Bill
+                          </Button>
+                        </div>
+                      </div>
+                    </DialogContent>
+                  </Dialog>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {reconciliation && reconciliation.recurring.length > 0 && (
+                <div className="space-y-2">
+                  {reconciliation.recurring.map(flag => (
+                    <Alert key={flag.key}>
+                      <AlertCircle className="h-4 w-4" />
+                      <AlertDescription>
+                        <strong>{flag.name}</strong> ({flag.months.length} recent bills): {flag.suggestion}
+                      </AlertDescription>
+                    </Alert>
+                  ))}
+                </div>
+              )}
+              {reconciliation && reconciliation.months.length > 0 ? (
+                <>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Month</TableHead>
+                        <TableHead>Calculated</TableHead>
+                        <TableHead>Actual</TableHead>
+                        <TableHead>Variance</TableHead>
+                        <TableHead>Lines Off</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {[...reconciliation.months].reverse().map(month => (
+                        <TableRow
+                          key={month.billingMonth}
+                          className={`cursor-pointer ${selectedReconMonth === month.billingMonth ? 'bg-muted/50' : ''}`}
+                          onClick={() => setSelectedReconMonth(selectedReconMonth === month.billingMonth ? null : month.billingMonth)}
+                        >
+                          <TableCell>{formatMonth(month.billingMonth)}</TableCell>
+                          <TableCell>{month.calculated ? formatCurrency(month.calculated.totalAmount) : 'Not saved'}</TableCell>
+                          <TableCell>{formatCurrency(month.actual.totalAmount)}</TableCell>
+                          <TableCell className={month.totalVariance && Math.abs(month.totalVariance) >= 0.5 ? 'text-orange-600' : ''}>
+                            {month.totalVariance === null
+                              ? '-'
+                              : `${month.totalVariance >= 0 ? '+' : '-'}${formatCurrency(Math.abs(month.totalVariance))}${month.totalVariancePct !== null ? ` (${month.totalVariancePct}%)` : ''}`}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={month.discrepancies > 0 ? 'destructive' : 'secondary'}>{month.discrepancies}</Badge>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                  {(() => {
+                    const month = reconciliation.months.find(entry => entry.billingMonth === selectedReconMonth)
+                    if (!month) return null
+                    if (!month.calculated) {
+                      return (
+                        <p className="text-sm text-muted-foreground">
+                          Save the calculated bill for {formatMonth(month.billingMonth)} to compare line items.
+                        </p>
+                      )
+                    }
+                    return (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Line</TableHead>
+                            <TableHead>kWh (calc / actual)</TableHead>
+                            <TableHead>Calculated</TableHead>
+                            <TableHead>Actual</TableHead>
+                            <TableHead>Variance</TableHead>
+                            <TableHead>Status</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {month.lines.map(line => (
+                            <TableRow key={line.key}>
+                              <TableCell>{line.name}</TableCell>
+                              <TableCell>
+                                {line.calculatedKwh !== null || line.actualKwh !== null
+                                  ? `${line.calculatedKwh ?? '-'} / ${line.actualKwh ?? '-'}`
+                                  : ''}
+                              </TableCell>
+                              <TableCell>{line.calculatedAmount !== null ? formatCurrency(line.calculatedAmount) : '-'}</TableCell>
+                              <TableCell>{line.actualAmount !== null ? formatCurrency(line.actualAmount) : '-'}</TableCell>
+                              <TableCell>{line.variance >= 0 ? '+' : '-'}{formatCurrency(Math.abs(line.variance))}</TableCell>
+                              <TableCell>
+                                <Badge variant={line.status === 'match' ? 'secondary' : 'destructive'}>
+                                  {VARIANCE_STATUS_LABELS[line.status]}
+                                </Badge>
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )
+                  })()}
+                </>
+              ) : (
+                <div className="text-center py-8 text-muted-foreground">
+                  <FileChartLine className="h-12 w-12 mx-auto mb-2" />
+                  <p>No actual bills entered yet</p>
+                  <p className="text-sm">Enter or import your utility bills to check the calculator against them</p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    <Download className="h-5 w-5" />
+                    Export &amp; Import
+                  </CardTitle>
+                  <CardDescription>
+                    Readings and bills as CSV, JSON or Green Button XML for utility portals
+                  </CardDescription>
+                </div>
+                <Button variant="outline" size="sm" asChild disabled={importingGreenButton}>
+                  <label className="cursor-pointer">
+                    <Upload className="h-4 w-4 mr-2" />
+                    {importingGreenButton ? 'Importing...' : 'Import Green Button'}
+                    <input type="file" accept=".xml,application/xml,application/atom+xml" className="hidden" onChange={importGreenButton} />
+                  </label>
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="export-from">From</Label>
+                  <Input
+                    id="export-from"
+                    type="date"
+                    value={exportRange.from}
+                    onChange={(e) => setExportRange(prev => ({ ...prev, from: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="export-to">To</Label>
+                  <Input
+                    id="export-to"
+                    type="date"
+                    value={exportRange.to}
+                    onChange={(e) => setExportRange(prev => ({ ...prev, to: e.target.value }))}
+                  />
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" size="sm" onClick={() => downloadExport('csv', 'readings')}>
+                  Readings CSV
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => downloadExport('csv', 'bills')}>
+                  Bills CSV
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => downloadExport('json', 'all')}>
+                  JSON
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => downloadExport('xml', 'all')}>
+                  Green Button XML
+                </Button>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Leave the dates empty to export everything. Imported days that already have a reading are skipped.
+              </p>
+            </CardContent>
+          </Card>
         </TabsContent>
 
         {/* Comparison Tab */}
         <TabsContent value="comparison" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    <TrendingUp className="h-5 w-5" />
+                    Year-over-Year
+                  </CardTitle>
+                  <CardDescription>
+                    The same dates in earlier years, normalized for heating and cooling degree days
+                  </CardDescription>
+                </div>
+                <div className="flex gap-2">
+                  <Input
+                    type="month"
+                    className="w-40"
+                    value={comparisonMonth}
+                    onChange={(e) => setComparisonMonth(e.target.value)}
+                  />
+                  <Select value={comparisonYears} onValueChange={setComparisonYears}>
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="1">1 year back</SelectItem>
+                      <SelectItem value="2">2 years back</SelectItem>
+                      <SelectItem value="3">3 years back</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {yearComparison ? (
+                <>
+                  {yearComparison.partial && (
+                    <p className="text-sm text-muted-foreground">
+                      Month in progress: every year is compared through {yearComparison.throughDate.slice(5)}.
+                    </p>
+                  )}
+
+                  <div className="grid gap-4 md:grid-cols-3">
+                    {yearComparison.comparisons.map((comparison) => (
+                      <div key={comparison.year} className="p-3 border rounded-lg">
+                        <p className="text-sm text-muted-foreground">vs. {comparison.year}</p>
+                        {comparison.normalizedChangePct !== null ? (
+                          <>
+                            <p className={`text-2xl font-bold ${comparison.normalizedChangePct > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                              {comparison.normalizedChangePct > 0 ? '+' : ''}{comparison.normalizedChangePct.toFixed(1)}%
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              weather-normalized · raw {comparison.rawChangePct !== null ? `${comparison.rawChangePct > 0 ? '+' : ''}${comparison.rawChangePct.toFixed(1)}%` : 'n/a'}
+                              {comparison.weatherEffectPct !== null && ` · weather ${comparison.weatherEffectPct > 0 ? '+' : ''}${comparison.weatherEffectPct.toFixed(1)}%`}
+                            </p>
+                          </>
+                        ) : (
+                          <>
+                            <p className="text-2xl font-bold">
+                              {comparison.rawChangePct !== null ? `${comparison.rawChangePct > 0 ? '+' : ''}${comparison.rawChangePct.toFixed(1)}%` : 'n/a'}
+                            </p>
+                            <p className="text-xs text-muted-foreground">raw · {comparison.note}</p>
+                          </>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Year</TableHead>
+                        <TableHead className="text-right">kWh</TableHead>
+                        <TableHead className="text-right">kWh/day</TableHead>
+                        <TableHead className="text-right">Mean temp</TableHead>
+                        <TableHead className="text-right">HDD</TableHead>
+                        <TableHead className="text-right">CDD</TableHead>
+                        <TableHead className="text-right">kWh per HDD / CDD</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {yearComparison.periods.map((period) => (
+                        <TableRow key={period.year}>
+                          <TableCell className="font-medium">{period.year}</TableCell>
+                          <TableCell className="text-right">{period.totalKwh.toFixed(0)}</TableCell>
+                          <TableCell className="text-right">{period.avgDailyKwh !== null ? period.avgDailyKwh.toFixed(1) : '—'}</TableCell>
+                          <TableCell className="text-right">
+                            {period.meanTemperature !== null ? `${period.meanTemperature.toFixed(1)}°${yearComparison.unit}` : '—'}
+                          </TableCell>
+                          <TableCell className="text-right">{period.temperatureDays > 0 ? period.hdd.toFixed(0) : '—'}</TableCell>
+                          <TableCell className="text-right">{period.temperatureDays > 0 ? period.cdd.toFixed(0) : '—'}</TableCell>
+                          <TableCell className="text-right">
+                            {period.model ? `${period.model.kwhPerHdd.toFixed(2)} / ${period.model.kwhPerCdd.toFixed(2)}` : '—'}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                  <p className="text-xs text-muted-foreground">
+                    Degree days are measured from {yearComparison.balancePoint}°{yearComparison.unit}. The normalized change compares this period with what the earlier year's home would have used in this period's weather.
+                  </p>
+                </>
+              ) : (
+                <div className="text-center py-8 text-muted-foreground">
+                  <TrendingUp className="h-12 w-12 mx-auto mb-2" />
+                  <p>No comparison available for this month</p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
           <Card>
             <CardHeader>
               <CardTitle>Energy Data Table</CardTitle>
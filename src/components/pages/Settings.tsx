@@ -37,6 +37,7 @@ import {
   Key,
   ExternalLink,
   Calendar,
+  Radio,
 } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { useHomeAssistant } from "@/hooks/useHomeAssistant";
@@ -93,6 +94,30 @@ interface WeatherApiKeyState {
   weatherApiComKey: string;
 }
 
+interface MqttSettings {
+  enabled: boolean;
+  url: string;
+  username: string;
+  password: string;
+  clientId: string;
+}
+
+// Home Assistant sensors (cumulative kWh) the energy collector reads as
+// solar, export and battery readings; empty when there is no such sensor
+interface SolarEntities {
+  production: string;
+  export: string;
+  batteryCharge: string;
+  batteryDischarge: string;
+}
+
+const defaultSolarEntities: SolarEntities = {
+  production: "",
+  export: "",
+  batteryCharge: "",
+  batteryDischarge: "",
+};
+
 interface BillingRateStructure {
   tiers: Array<{
     min: number;
@@ -115,6 +140,14 @@ const defaultBillingRates = {
   taxes: [{ name: "State Tax", rate: 6.25 }, { name: "Municipal Tax", rate: 2.50 }],
 };
 
+const defaultMqttSettings: MqttSettings = {
+  enabled: false,
+  url: "",
+  username: "",
+  password: "",
+  clientId: "",
+};
+
 export default function SettingsPage() {
   const [activeTab, setActiveTab] = useState("connections");
   const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>({
@@ -143,6 +176,9 @@ export default function SettingsPage() {
   const [utilityApiKey, setUtilityApiKey] = useState("");
   const [senseEmail, setSenseEmail] = useState("");
   const [sensePassword, setSensePassword] = useState("");
+  const [solarEntities, setSolarEntities] = useState<SolarEntities>(defaultSolarEntities);
+  const [monthlyBudget, setMonthlyBudget] = useState(0);
+  const [forecastWeatherEntity, setForecastWeatherEntity] = useState("");
   const [appearance, setAppearance] = useState<AppearanceSettings>({
     theme: "auto",
     backgroundColor: "#f3f4f6",
@@ -156,6 +192,8 @@ export default function SettingsPage() {
     dbSize: "12.5 MB",
   });
   const [billingRates, setBillingRates] = useState<BillingRateStructure>(defaultBillingRates);
+  const [mqtt, setMqtt] = useState<MqttSettings>(defaultMqttSettings);
+  const [mqttStatus, setMqttStatus] = useState<"untested" | "testing" | "connected" | "failed">("untested");
   const [googleClientId, setGoogleClientId] = useState("");
   const [googleClientSecret, setGoogleClientSecret] = useState("");
   const [openaiApiKey, setOpenaiApiKey] = useState("");
@@ -223,6 +261,7 @@ export default function SettingsPage() {
           appearance: settings.appearance || { theme: "auto", backgroundColor: "#f3f4f6", textSize: 16, textWeight: "normal", textColor: "#111827", displayMode: "desktop" },
           apiKeys: settings.apiKeys || { googleClientId: "", googleClientSecret: "", openaiApiKey: "", openWeatherKey: "", weatherApiComKey: "" },
           other: settings.other || { detailedLogs: false },
+          mqtt: settings.mqtt || defaultMqttSettings,
           ...settings // Override with actual data
         };
 
@@ -248,6 +287,11 @@ export default function SettingsPage() {
         setSenseEmail(fullSettings.energy.senseEmail);
         setSensePassword(fullSettings.energy.sensePassword);
         setBillingRates(fullSettings.energy.billingRates || defaultBillingRates);
+        setSolarEntities({ ...defaultSolarEntities, ...fullSettings.energy.solar });
+        setMonthlyBudget(fullSettings.energy.monthlyBudget || 0);
+        setForecastWeatherEntity(fullSettings.energy.weatherEntity || "");
+
+        setMqtt({ ...defaultMqttSettings, ...fullSettings.mqtt });
 
         setAppearance(fullSettings.appearance);
         setDetailedLogs(fullSettings.other.detailedLogs || false);
@@ -306,6 +350,10 @@ export default function SettingsPage() {
     senseEmail,
     sensePassword,
     billingRates,
+    solarEntities,
+    monthlyBudget,
+    forecastWeatherEntity,
+    mqtt,
     appearance,
     googleClientId,
     googleClientSecret,
@@ -345,8 +393,12 @@ export default function SettingsPage() {
           senseEmail: senseEmail,
           sensePassword: sensePassword,
           billingRates,
+          solar: solarEntities,
+          monthlyBudget,
+          weatherEntity: forecastWeatherEntity,
           isConfigured: connectionStatus.energy === "configured",
         },
+        mqtt,
         appearance,
         apiKeys: {
           googleClientId,
@@ -396,6 +448,10 @@ export default function SettingsPage() {
     senseEmail,
     sensePassword,
     billingRates,
+    solarEntities,
+    monthlyBudget,
+    forecastWeatherEntity,
+    mqtt,
     appearance,
     googleClientId,
     googleClientSecret,
@@ -450,7 +506,8 @@ export default function SettingsPage() {
       const allSettings = {
         ha: { url: haUrl, token: haToken, connectionTimeout: haTimeout },
         weather: { provider: weatherProvider, apiKey: weatherApiKey, location: weatherLocation, units: weatherUnits },
-        energy: { provider: energyProvider, costPerKwh, timezone: energyTimezone, utilityApiKey, senseEmail: "****", sensePassword: "****", billingRates },
+        energy: { provider: energyProvider, costPerKwh, timezone: energyTimezone, utilityApiKey, senseEmail: "****", sensePassword: "****", billingRates, solar: solarEntities, monthlyBudget, weatherEntity: forecastWeatherEntity },
+        mqtt: { ...mqtt, password: "****" },
         appearance,
         localServices,
         apiKeys: { googleClientId, googleClientSecret: "****", openaiApiKey: "****", openWeatherKey, weatherApiComKey: "****" },
@@ -480,7 +537,7 @@ export default function SettingsPage() {
       setIsBackingUp(false);
       setBackupProgress(0);
     }
-  }, [haUrl, haToken, haTimeout, weatherProvider, weatherApiKey, weatherLocation, weatherUnits, energyProvider, costPerKwh, energyTimezone, utilityApiKey, senseEmail, sensePassword, billingRates, appearance, localServices, googleClientId, googleClientSecret, openaiApiKey, openWeatherKey, weatherApiComKey, detailedLogs]);
+  }, [haUrl, haToken, haTimeout, weatherProvider, weatherApiKey, weatherLocation, weatherUnits, energyProvider, costPerKwh, energyTimezone, utilityApiKey, senseEmail, sensePassword, billingRates, solarEntities, monthlyBudget, forecastWeatherEntity, mqtt, appearance, localServices, googleClientId, googleClientSecret, openaiApiKey, openWeatherKey, weatherApiComKey, detailedLogs]);
 
   const handleImportBackup = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -511,7 +568,11 @@ export default function SettingsPage() {
           setSenseEmail(backupData.settings.energy.senseEmail || "");
           setSensePassword(backupData.settings.energy.sensePassword || "");
           setBillingRates(backupData.settings.energy.billingRates || defaultBillingRates);
+          setSolarEntities({ ...defaultSolarEntities, ...backupData.settings.energy.solar });
+          setMonthlyBudget(backupData.settings.energy.monthlyBudget || 0);
+          setForecastWeatherEntity(backupData.settings.energy.weatherEntity || "");
         }
+        if (backupData.settings.mqtt) setMqtt({ ...defaultMqttSettings, ...backupData.settings.mqtt });
         if (backupData.settings.appearance) setAppearance(backupData.settings.appearance);
         if (backupData.settings.billingRates) setBillingRates(backupData.settings.billingRates || defaultBillingRates);
         if (backupData.settings.apiKeys) {
@@ -561,6 +622,8 @@ export default function SettingsPage() {
       dbSize: "12.5 MB",
     });
     setBillingRates(defaultBillingRates);
+    setMqtt(defaultMqttSettings);
+    setMqttStatus("untested");
     setGoogleClientId("");
     setGoogleClientSecret("");
     setOpenaiApiKey("");
@@ -806,6 +869,30 @@ export default function SettingsPage() {
     }
   }, [haUrl, haToken, haTimeout]);
 
+  const testMqttConnection = useCallback(async () => {
+    setMqttStatus('testing');
+
+    try {
+      const response = await fetch('/api/mqtt/test-connection', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...mqtt, url: mqtt.url.trim() }),
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (response.ok && data.success) {
+        setMqttStatus('connected');
+        toast.success('Connected to MQTT broker');
+      } else {
+        setMqttStatus('failed');
+        toast.error(`MQTT connection failed: ${data.error || `HTTP ${response.status}`}`);
+      }
+    } catch (error) {
+      setMqttStatus('failed');
+      toast.error(`MQTT connection error: ${error instanceof Error ? error.message : 'Network error'}`);
+    }
+  }, [mqtt]);
+
   const fetchHaStatusStates = useCallback(async () => {
     if (connectionStatus.ha !== 'connected') {
       toast.error('Connect to Home Assistant first');
@@ -1517,6 +1604,88 @@ export default function SettingsPage() {
               </Card>
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader className='border-b pb-3'>
+              <div className='flex items-center justify-between'>
+                <div>
+                  <CardTitle className='flex items-center gap-2'>
+                    <Radio className='h-5 w-5' />
+                    MQTT Broker
+                  </CardTitle>
+                  <CardDescription>
+                    Used by automations for MQTT triggers and to publish messages directly
+                  </CardDescription>
+                </div>
+                <Switch
+                  checked={mqtt.enabled}
+                  onCheckedChange={(enabled) => setMqtt(prev => ({ ...prev, enabled }))}
+                />
+              </div>
+            </CardHeader>
+            <CardContent className='space-y-4'>
+              <div className='grid grid-cols-1 md:grid-cols-2 gap-4'>
+                <div>
+                  <Label htmlFor='mqtt-url'>Broker URL</Label>
+                  <Input
+                    id='mqtt-url'
+                    placeholder='e.g., mqtt://192.168.1.10:1883'
+                    value={mqtt.url}
+                    onChange={(e) => setMqtt(prev => ({ ...prev, url: e.target.value }))}
+                  />
+                  <p className='text-xs text-muted-foreground mt-1'>
+                    mqtt://, mqtts://, ws:// or wss://. Use memory://test for a broker inside this server.
+                  </p>
+                </div>
+
+                <div>
+                  <Label htmlFor='mqtt-client-id'>Client ID (optional)</Label>
+                  <Input
+                    id='mqtt-client-id'
+                    placeholder='Generated when empty'
+                    value={mqtt.clientId}
+                    onChange={(e) => setMqtt(prev => ({ ...prev, clientId: e.target.value }))}
+                  />
+                </div>
+              </div>
+
+              <div className='grid grid-cols-1 md:grid-cols-2 gap-4'>
+                <div>
+                  <Label htmlFor='mqtt-username'>Username</Label>
+                  <Input
+                    id='mqtt-username'
+                    value={mqtt.username}
+                    onChange={(e) => setMqtt(prev => ({ ...prev, username: e.target.value }))}
+                    autoComplete='off'
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor='mqtt-password'>Password</Label>
+                  <Input
+                    id='mqtt-password'
+                    type='password'
+                    value={mqtt.password}
+                    onChange={(e) => setMqtt(prev => ({ ...prev, password: e.target.value }))}
+                    autoComplete='off'
+                  />
+                </div>
+              </div>
+
+              <div className='flex items-center gap-3'>
+                <Button
+                  onClick={testMqttConnection}
+                  disabled={mqttStatus === 'testing' || !mqtt.url.trim()}
+                  className='flex-1'
+                >
+                  <Wifi className={`h-4 w-4 mr-2 ${mqttStatus === 'testing' ? 'animate-spin' : ''}`} />
+                  {mqttStatus === 'testing' ? 'Testing Connection...' : 'Test Connection'}
+                </Button>
+                {mqttStatus === 'connected' && <CheckCircle className='h-5 w-5 text-green-600' />}
+                {mqttStatus === 'failed' && <XCircle className='h-5 w-5 text-red-600' />}
+              </div>
+            </CardContent>
+          </Card>
         </TabsContent>
 
         {/* Weather Tab */}
@@ -1935,6 +2104,63 @@ export default function SettingsPage() {
                 </div>
               </div>
 
+              <div className='space-y-3'>
+                <div>
+                  <Label className='text-base font-medium'>Solar & Battery Sensors</Label>
+                  <p className='text-sm text-muted-foreground'>
+                    Cumulative kWh sensors collected as solar, export and battery readings. Leave empty if you have none.
+                  </p>
+                </div>
+                <div className='grid grid-cols-1 md:grid-cols-2 gap-4'>
+                  {([
+                    ['production', 'Solar Production'],
+                    ['export', 'Grid Export'],
+                    ['batteryCharge', 'Battery Charge'],
+                    ['batteryDischarge', 'Battery Discharge'],
+                  ] as const).map(([key, label]) => (
+                    <div key={key}>
+                      <Label htmlFor={`solar-${key}`}>{label}</Label>
+                      <Input
+                        id={`solar-${key}`}
+                        placeholder='sensor.example_energy'
+                        value={solarEntities[key]}
+                        onChange={(e) => setSolarEntities(prev => ({ ...prev, [key]: e.target.value.trim() }))}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className='grid grid-cols-1 md:grid-cols-2 gap-4'>
+                <div>
+                  <Label htmlFor='monthly-budget'>Monthly Budget ($)</Label>
+                  <Input
+                    id='monthly-budget'
+                    type='number'
+                    step='1'
+                    min='0'
+                    value={monthlyBudget}
+                    onChange={(e) => setMonthlyBudget(Math.max(0, parseFloat(e.target.value) || 0))}
+                  />
+                  <p className='text-xs text-muted-foreground mt-1'>
+                    Alert when the projected bill goes over this amount. 0 turns the alert off.
+                  </p>
+                </div>
+
+                <div>
+                  <Label htmlFor='forecast-weather'>Outdoor Temperature Entity</Label>
+                  <Input
+                    id='forecast-weather'
+                    placeholder='weather.home'
+                    value={forecastWeatherEntity}
+                    onChange={(e) => setForecastWeatherEntity(e.target.value.trim())}
+                  />
+                  <p className='text-xs text-muted-foreground mt-1'>
+                    Optional. A weather entity or outdoor temperature sensor. Its temperature improves the usage forecast and is recorded daily for weather-normalized year-over-year comparisons.
+                  </p>
+                </div>
+              </div>
+
               {energyProvider !== 'manual' && (
                 <Button 
                   onClick={testEnergyConnection}
@@ -9,4 +9,7 @@ const client = createClient({
 
 export const db = drizzle(client, { schema });
 
-export type Database = typeof db;
\ No newline at end of file
+export type Database = typeof db;
+
+// The handle passed to db.transaction() callbacks
+export type Transaction = Parameters<Parameters<Database['transaction']>[0]>[0];
@@ -1,4 +1,4 @@
-import { sqliteTable, integer, text, real, index } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, integer, text, real, index, uniqueIndex } from 'drizzle-orm/sqlite-core';
 
 export const energyBills = sqliteTable('energy_bills', {
   id: integer('id').primaryKey({ autoIncrement: true }),
@@ -16,10 +16,69 @@ export const energyBills = sqliteTable('energy_bills', {
   grossReceiptsTax: real('gross_receipts_tax').notNull().default(0),
   publicServiceTax: real('public_service_tax').notNull().default(0),
   totalBillAmount: real('total_bill_amount').notNull(),
+  // Bills calculated from a tariff: the version in effect at the end of the
+  // period, the billed dates and the per-segment breakdown (see lib/tariff)
+  tariffVersionId: integer('tariff_version_id').references(() => tariffVersions.id),
+  periodStart: text('period_start'),
+  periodEnd: text('period_end'),
+  energyCharge: real('energy_charge').notNull().default(0),
+  demandCharge: real('demand_charge').notNull().default(0),
+  riderCharges: real('rider_charges').notNull().default(0),
+  taxCharges: real('tax_charges').notNull().default(0),
+  // Grid exports and what they earned; the bank is what carries to the next bill
+  importKwh: real('import_kwh').notNull().default(0),
+  exportKwh: real('export_kwh').notNull().default(0),
+  exportCredit: real('export_credit').notNull().default(0),
+  bankKwh: real('bank_kwh').notNull().default(0),
+  bankCredit: real('bank_credit').notNull().default(0),
+  lineItems: text('line_items', { mode: 'json' }),
   createdAt: text('created_at').notNull(),
   updatedAt: text('updated_at').notNull(),
 });
 
+// Bills as the utility issued them, entered from the paper/PDF bill or
+// imported from CSV, reconciled against the energy_bills row of the same month
+export const actualBills = sqliteTable('actual_bills', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  billingMonth: text('billing_month').notNull().unique(),
+  periodStart: text('period_start'),
+  periodEnd: text('period_end'),
+  totalKwh: real('total_kwh'),
+  totalAmount: real('total_amount').notNull(),
+  // [{ category, code, name, kwh, amount }], see lib/energy-reconciliation
+  lineItems: text('line_items', { mode: 'json' }).notNull(),
+  source: text('source').notNull().default('manual'),
+  notes: text('notes'),
+  createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull(),
+});
+
+export const tariffs = sqliteTable('tariffs', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  name: text('name').notNull().unique(),
+  utility: text('utility'),
+  description: text('description'),
+  // The tariff bills are calculated with; at most one is active
+  active: integer('active', { mode: 'boolean' }).notNull().default(false),
+  createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull(),
+});
+
+export const tariffVersions = sqliteTable('tariff_versions', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  tariffId: integer('tariff_id').references(() => tariffs.id, { onDelete: 'cascade' }).notNull(),
+  version: integer('version').notNull(),
+  effectiveFrom: text('effective_from').notNull(),
+  // Inclusive; null while the version is current
+  effectiveTo: text('effective_to'),
+  rates: text('rates', { mode: 'json' }).notNull(),
+  notes: text('notes'),
+  createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull(),
+}, (table) => ({
+  tariffVersionIdx: uniqueIndex('tariff_versions_tariff_id_version_idx').on(table.tariffId, table.version),
+}));
+
 export const energyReadings = sqliteTable('energy_readings', {
   id: integer('id').primaryKey({ autoIncrement: true }),
   entityId: text('entity_id').notNull(),
@@ -33,6 +92,95 @@ export const energyReadings = sqliteTable('energy_readings', {
   createdAt: text('created_at').notNull(),
 });
 
+// Interval usage of an energy sensor, one row per entity and local day.
+// `values` holds Wh per interval from local midnight (null where there was no
+// data); on DST days the repeated hour is folded into the same slots.
+export const energyIntervals = sqliteTable('energy_intervals', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  entityId: text('entity_id').notNull(),
+  date: text('date').notNull(),
+  intervalMinutes: integer('interval_minutes').notNull().default(15),
+  values: text('values', { mode: 'json' }).notNull(),
+  totalKwh: real('total_kwh').notNull().default(0),
+  peakKw: real('peak_kw'),
+  timezone: text('timezone').notNull(),
+  source: text('source').notNull().default('ha_history'),
+  createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull(),
+}, (table) => ({
+  entityDateIdx: uniqueIndex('energy_intervals_entity_id_date_idx').on(table.entityId, table.date),
+}));
+
+// Daily outdoor temperature for degree days, one row per local day. The
+// collector records it from the weather entity in settings.energy; days
+// entered by hand (source 'manual') are never overwritten by it.
+export const outdoorTemperatures = sqliteTable('outdoor_temperatures', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  date: text('date').notNull().unique(),
+  entityId: text('entity_id'),
+  meanTemp: real('mean_temp').notNull(),
+  minTemp: real('min_temp'),
+  maxTemp: real('max_temp'),
+  unit: text('unit').notNull().default('F'),
+  samples: integer('samples').notNull().default(0),
+  source: text('source').notNull().default('ha_history'),
+  createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull(),
+});
+
+// Reading collector bookkeeping, one row per entity. lastReadingDate is the
+// newest day written to energy_readings; failures keep the previous success.
+export const energyIngestionStatus = sqliteTable('energy_ingestion_status', {
+  entityId: text('entity_id').primaryKey(),
+  lastAttemptAt: text('last_attempt_at'),
+  lastSuccessAt: text('last_success_at'),
+  lastReadingDate: text('last_reading_date'),
+  lastKwhValue: real('last_kwh_value'),
+  daysIngested: integer('days_ingested').notNull().default(0),
+  lastError: text('last_error'),
+  updatedAt: text('updated_at').notNull(),
+});
+
+// Energy alert rules (see lib/energy-alerts). `threshold` is standard
+// deviations for anomaly rules, kWh for daily_kwh and dollars for
+// monthly_cost; a null entity_id means the whole house.
+export const energyAlertRules = sqliteTable('energy_alert_rules', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  name: text('name').notNull(),
+  type: text('type').notNull(),
+  entityId: text('entity_id'),
+  threshold: real('threshold').notNull(),
+  direction: text('direction').notNull().default('above'),
+  baselineWeeks: integer('baseline_weeks').notNull().default(8),
+  enabled: integer('enabled', { mode: 'boolean' }).notNull().default(true),
+  notify: integer('notify', { mode: 'boolean' }).notNull().default(false),
+  notifyService: text('notify_service'),
+  createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull(),
+});
+
+// One alert per rule and period (a date, or a month for monthly_cost), so
+// evaluating the same days again never repeats one
+export const energyAlerts = sqliteTable('energy_alerts', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  ruleId: integer('rule_id').references(() => energyAlertRules.id, { onDelete: 'cascade' }).notNull(),
+  type: text('type').notNull(),
+  entityId: text('entity_id'),
+  period: text('period').notNull(),
+  value: real('value').notNull(),
+  expected: real('expected'),
+  deviation: real('deviation'),
+  severity: text('severity').notNull().default('warning'),
+  message: text('message').notNull(),
+  status: text('status').notNull().default('open'),
+  notifiedAt: text('notified_at'),
+  notifyError: text('notify_error'),
+  acknowledgedAt: text('acknowledged_at'),
+  createdAt: text('created_at').notNull(),
+}, (table) => ({
+  rulePeriodIdx: uniqueIndex('energy_alerts_rule_id_period_idx').on(table.ruleId, table.period),
+}));
+
 export const automations = sqliteTable('automations', {
   id: integer('id').primaryKey({ autoIncrement: true }),
   name: text('name').notNull(),
@@ -41,6 +189,12 @@ export const automations = sqliteTable('automations', {
   lastRun: text('last_run'),
   source: text('source').notNull().default('local'),
   tags: text('tags', { mode: 'json' }),
+  haAutomationId: text('ha_automation_id'),
+  lastSyncedAt: text('last_synced_at'),
+  haConfigHash: text('ha_config_hash'),
+  missedRunPolicy: text('missed_run_policy').notNull().default('skip'),
+  // Named values (templates allowed) rendered before conditions and actions
+  variables: text('variables', { mode: 'json' }),
   createdAt: text('created_at').notNull(),
   updatedAt: text('updated_at').notNull(),
 });
@@ -53,6 +207,7 @@ export const automationTriggers = sqliteTable('automation_triggers', {
   attribute: text('attribute'),
   state: text('state'),
   time: text('time'),
+  cron: text('cron'),
   offset: integer('offset'),
   topic: text('topic'),
   payload: text('payload'),
@@ -87,6 +242,52 @@ export const automationActions = sqliteTable('automation_actions', {
   updatedAt: text('updated_at').notNull(),
 });
 
+// Scheduler bookkeeping for time, cron and sun triggers. Rows are keyed by
+// trigger id without a foreign key: they are pruned by the scheduler once the
+// trigger is gone, so saving an automation never has to clean them up.
+export const automationSchedules = sqliteTable('automation_schedules', {
+  triggerId: integer('trigger_id').primaryKey(),
+  automationId: integer('automation_id').notNull(),
+  nextFireAt: text('next_fire_at'),
+  lastFiredAt: text('last_fired_at'),
+  updatedAt: text('updated_at').notNull(),
+});
+
+export const automationRuns = sqliteTable('automation_runs', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  automationId: integer('automation_id').references(() => automations.id, { onDelete: 'cascade' }).notNull(),
+  triggerType: text('trigger_type').notNull(),
+  triggerId: integer('trigger_id'),
+  triggerEntityId: text('trigger_entity_id'),
+  status: text('status').notNull(),
+  conditionsPassed: integer('conditions_passed', { mode: 'boolean' }).notNull().default(false),
+  error: text('error'),
+  startedAt: text('started_at').notNull(),
+  finishedAt: text('finished_at').notNull(),
+  durationMs: integer('duration_ms').notNull().default(0),
+  createdAt: text('created_at').notNull(),
+}, (table) => ({
+  automationIdIdx: index('automation_runs_automation_id_idx').on(table.automationId),
+}));
+
+export const automationRunSteps = sqliteTable('automation_run_steps', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  runId: integer('run_id').references(() => automationRuns.id, { onDelete: 'cascade' }).notNull(),
+  position: integer('position').notNull(),
+  stepType: text('step_type').notNull(), // 'trigger', 'condition' or 'action'
+  refId: integer('ref_id'),
+  status: text('status').notNull(),
+  entityId: text('entity_id'),
+  actualValue: text('actual_value'),
+  message: text('message'),
+  details: text('details', { mode: 'json' }),
+  error: text('error'),
+  durationMs: integer('duration_ms').notNull().default(0),
+  createdAt: text('created_at').notNull(),
+}, (table) => ({
+  runIdIdx: index('automation_run_steps_run_id_idx').on(table.runId),
+}));
+
 export const cameras = sqliteTable('cameras', {
   id: integer('id').primaryKey({ autoIncrement: true }),
   name: text('name').notNull(),
@@ -108,7 +309,11 @@ export const nvrStorageLocations = sqliteTable('nvr_storage_locations', {
   path: text('path').notNull().unique(),
   type: text('type').notNull(),
   capacityGb: integer('capacity_gb').notNull().default(0),
-  usedGb: integer('used_gb').notNull().default(0),
+  // Measured by the storage manager (lib/nvr-storage): recordings under
+  // `path` and the free space of the filesystem holding it
+  usedGb: real('used_gb').notNull().default(0),
+  freeGb: real('free_gb'),
+  usageCheckedAt: text('usage_checked_at'),
   enabled: integer('enabled', { mode: 'boolean' }).default(true),
   createdAt: text('created_at').notNull(),
   updatedAt: text('updated_at').notNull(),
@@ -123,7 +328,36 @@ export const recordings = sqliteTable('recordings', {
   size: real('size').default(0.00),
   trigger: text('trigger').notNull(),
   storageLocationId: integer('storage_location_id').references(() => nvrStorageLocations.id),
+  // Exempt from retention pruning
+  keepForever: integer('keep_forever', { mode: 'boolean' }).notNull().default(false),
+  // Images written beside the file (lib/camera-thumbnails), relative to the
+  // storage location like filename. The sprite sheet holds one thumbnail
+  // every spriteInterval seconds.
+  posterFilename: text('poster_filename'),
+  spriteFilename: text('sprite_filename'),
+  spriteInterval: integer('sprite_interval'),
+  createdAt: text('created_at').notNull(),
+});
+
+// How the recorder (lib/camera-recorder) captures each camera. `schedule`
+// holds the windows for scheduled mode: [{ days: [0-6], start: 'HH:MM',
+// end: 'HH:MM' }] in server local time. A null storage location lets the
+// storage manager place recordings on the location with the most headroom.
+// Retention (lib/nvr-storage) prunes the camera's oldest recordings beyond
+// retentionDays or retentionGb; null means no limit.
+export const cameraRecordingSettings = sqliteTable('camera_recording_settings', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  cameraId: integer('camera_id').references(() => cameras.id, { onDelete: 'cascade' }).notNull().unique(),
+  mode: text('mode').notNull().default('off'),
+  schedule: text('schedule', { mode: 'json' }),
+  preRollSeconds: integer('pre_roll_seconds').notNull().default(5),
+  postRollSeconds: integer('post_roll_seconds').notNull().default(10),
+  segmentSeconds: integer('segment_seconds').notNull().default(300),
+  storageLocationId: integer('storage_location_id').references(() => nvrStorageLocations.id),
+  retentionDays: integer('retention_days'),
+  retentionGb: real('retention_gb'),
   createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull(),
 });
 
 export const userBackgroundSettings = sqliteTable('user_background_settings', {
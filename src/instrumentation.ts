@@ -0,0 +1,23 @@
+// File path: src/instrumentation.ts
+
+// Next.js calls register() once per server instance. Background services
+// only run in the Node.js runtime, never in the edge runtime.
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const { getAutomationEngine } = await import('@/lib/automation-engine');
+  getAutomationEngine().start().catch(error => {
+    console.error('Failed to start automation engine:', error);
+  });
+
+  const { getEnergyCollector } = await import('@/lib/energy-collector');
+  getEnergyCollector().start();
+
+  const { getCameraRecorder } = await import('@/lib/camera-recorder');
+  getCameraRecorder().start().catch(error => {
+    console.error('Failed to start camera recorder:', error);
+  });
+
+  const { getStorageManager } = await import('@/lib/nvr-storage');
+  getStorageManager().start();
+}
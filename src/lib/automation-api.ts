@@ -0,0 +1,68 @@
+// File path: src/lib/automation-api.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AutomationApiError } from '@/lib/automation-validation';
+
+// Route helpers for the versioned automation API (/api/v1/automations)
+
+export const AUTOMATION_API_BASE = '/api/v1/automations';
+
+// The paths that existed before the API was versioned
+const LEGACY_PREFIXES = ['/api/automations-new', '/api/automations'];
+
+// Map a service error to the JSON error shape used across the API
+export function automationErrorResponse(error: unknown, context: string): NextResponse {
+  if (error instanceof AutomationApiError) {
+    return NextResponse.json({
+      error: error.message,
+      code: error.code
+    }, { status: error.status });
+  }
+
+  if (error instanceof SyntaxError) {
+    return NextResponse.json({
+      error: 'Request body must be valid JSON',
+      code: 'INVALID_JSON'
+    }, { status: 400 });
+  }
+
+  console.error(`${context} error:`, error);
+  return NextResponse.json({
+    error: 'Internal server error: ' + error
+  }, { status: 500 });
+}
+
+export function successorPath(pathname: string): string {
+  const prefix = LEGACY_PREFIXES.find(legacy => pathname === legacy || pathname.startsWith(`${legacy}/`));
+  return prefix ? AUTOMATION_API_BASE + pathname.slice(prefix.length) : pathname;
+}
+
+// Wrap a v1 handler so it can be served from a legacy path. Responses carry
+// a Deprecation header and a Link to the v1 path that replaces it.
+export function deprecatedAlias<Context>(
+  handler: (request: NextRequest, context: Context) => Promise<Response>
+): (request: NextRequest, context: Context) => Promise<Response> {
+  return async (request, context) => {
+    const response = await handler(request, context);
+    const successor = successorPath(new URL(request.url).pathname);
+
+    response.headers.set('Deprecation', 'true');
+    response.headers.set('Link', `<${successor}>; rel="successor-version"`);
+    return response;
+  };
+}
+
+// The legacy collection routes read single-automation requests from ?id=
+// instead of the path. Route those to the v1 item handler.
+export function legacyQueryIdHandler(
+  collectionHandler: ((request: NextRequest) => Promise<Response>) | null,
+  itemHandler: (request: NextRequest, context: { params: { id: string } }) => Promise<Response>
+): (request: NextRequest) => Promise<Response> {
+  return async (request) => {
+    const id = new URL(request.url).searchParams.get('id');
+    if (id !== null || !collectionHandler) {
+      return itemHandler(request, { params: { id: id ?? '' } });
+    }
+    return collectionHandler(request);
+  };
+}
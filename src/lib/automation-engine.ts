@@ -0,0 +1,800 @@
+// File path: src/lib/automation-engine.ts
+
+import { db } from '@/db';
+import { automations, automationTriggers, automationConditions, automationActions } from '@/db/schema';
+import { eq, and, inArray } from 'drizzle-orm';
+import type { HomeAssistantAPI, HAEntity } from '@/lib/homeassistant';
+import { createServerHomeAssistantAPI } from '@/lib/homeassistant-server';
+import { recordAutomationRun } from '@/lib/automation-runs';
+import { AutomationScheduler, type ScheduledFire } from '@/lib/automation-scheduler';
+import { getMqttConfig, getMqttService, type MqttMessage, type MqttQos } from '@/lib/mqtt';
+import { matchesPayload, topicMatches } from '@/lib/mqtt-matching';
+import {
+  isTemplate,
+  referencedEntityIds,
+  renderTemplate,
+  renderTemplates,
+  stringifyTemplateValue,
+  type TemplateContext
+} from '@/lib/template';
+
+export type AutomationRecord = typeof automations.$inferSelect;
+export type TriggerRecord = typeof automationTriggers.$inferSelect;
+export type ConditionRecord = typeof automationConditions.$inferSelect;
+export type ActionRecord = typeof automationActions.$inferSelect;
+
+export interface AutomationDefinition extends AutomationRecord {
+  triggers: TriggerRecord[];
+  conditions: ConditionRecord[];
+  actions: ActionRecord[];
+}
+
+export interface TriggerEvent {
+  type: 'state_changed' | 'manual' | 'schedule' | 'mqtt';
+  triggerId: number | null;
+  entityId?: string;
+  oldState?: HAEntity | null;
+  newState?: HAEntity | null;
+  // Set for schedule events: the planned time, and whether it was a missed
+  // run being caught up
+  scheduledFor?: string;
+  missed?: boolean;
+  // Set for MQTT events
+  topic?: string;
+  payload?: string;
+  firedAt: string;
+}
+
+export interface ConditionResult {
+  conditionId: number;
+  type: string;
+  entityId: string | null;
+  passed: boolean;
+  actualValue: string | null;
+  message: string;
+}
+
+export interface ActionResult {
+  actionId: number;
+  type: string;
+  success: boolean;
+  call?: ServiceCall;
+  response?: any;
+  error?: string;
+  durationMs: number;
+}
+
+export interface AutomationRunResult {
+  automationId: number;
+  automationName: string;
+  trigger: TriggerEvent;
+  status: 'success' | 'failed' | 'conditions_not_met';
+  conditionsPassed: boolean;
+  conditions: ConditionResult[];
+  actions: ActionResult[];
+  // Set when the run failed before reaching its actions (e.g. a variable
+  // template error)
+  error?: string;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+}
+
+export interface AutomationPreview {
+  error?: string;
+  conditionsPassed: boolean;
+  conditions: ConditionResult[];
+  actions: Array<{ actionId: number; type: string; call?: ServiceCall; error?: string }>;
+}
+
+export interface ServiceCall {
+  domain: string;
+  service: string;
+  serviceData?: Record<string, any>;
+  target?: { entity_id: string };
+}
+
+export type EngineStatus = 'stopped' | 'starting' | 'running' | 'unconfigured' | 'error';
+
+const RELOAD_INTERVAL_MS = 60000;
+
+// Trigger types driven by Home Assistant state_changed events
+const STATE_TRIGGER_TYPES = ['entity_state', 'zwave'];
+
+// Load automations together with their triggers, conditions and actions
+export async function loadAutomationDefinitions(options: {
+  ids?: number[];
+  source?: 'local' | 'ha';
+  enabledOnly?: boolean;
+} = {}): Promise<AutomationDefinition[]> {
+  const filters = [];
+  if (options.ids) {
+    if (options.ids.length === 0) return [];
+    filters.push(inArray(automations.id, options.ids));
+  }
+  if (options.source) filters.push(eq(automations.source, options.source));
+  if (options.enabledOnly) filters.push(eq(automations.enabled, true));
+
+  const rows = filters.length > 0
+    ? await db.select().from(automations).where(and(...filters))
+    : await db.select().from(automations);
+
+  if (rows.length === 0) return [];
+
+  const automationIds = rows.map(row => row.id);
+  const [triggers, conditions, actions] = await Promise.all([
+    db.select().from(automationTriggers).where(inArray(automationTriggers.automationId, automationIds)),
+    db.select().from(automationConditions).where(inArray(automationConditions.automationId, automationIds)),
+    db.select().from(automationActions).where(inArray(automationActions.automationId, automationIds))
+  ]);
+
+  // Children keep insertion order, which is the order the editor shows them in
+  const byId = <T extends { id: number; automationId: number | null }>(items: T[], automationId: number) =>
+    items.filter(item => item.automationId === automationId).sort((a, b) => a.id - b.id);
+
+  return rows.map(row => ({
+    ...row,
+    triggers: byId(triggers, row.id),
+    conditions: byId(conditions, row.id),
+    actions: byId(actions, row.id)
+  }));
+}
+
+export async function loadAutomationDefinition(id: number): Promise<AutomationDefinition | null> {
+  const [definition] = await loadAutomationDefinitions({ ids: [id] });
+  return definition || null;
+}
+
+// Read the entity's state, or one of its attributes, as a string
+export function readEntityValue(entity: HAEntity | null | undefined, attribute?: string | null): string | null {
+  if (!entity) return null;
+  if (!attribute) return entity.state;
+
+  const value = entity.attributes?.[attribute];
+  if (value === undefined || value === null) return null;
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+export function matchesStateTrigger(trigger: TriggerRecord, event: TriggerEvent): boolean {
+  if (event.type !== 'state_changed' || !STATE_TRIGGER_TYPES.includes(trigger.type)) return false;
+  if (!trigger.entityId || trigger.entityId !== event.entityId) return false;
+
+  const newValue = readEntityValue(event.newState, trigger.attribute);
+  const oldValue = readEntityValue(event.oldState, trigger.attribute);
+
+  // Like HA state triggers, ignore events where the watched value did not change
+  if (newValue === oldValue) return false;
+  if (trigger.state && newValue !== trigger.state) return false;
+
+  return true;
+}
+
+// Retained messages replayed on subscribe describe the past, so they never
+// trigger; HA's MQTT trigger behaves the same way
+export function matchesMqttTrigger(trigger: TriggerRecord, message: MqttMessage): boolean {
+  if (trigger.type !== 'mqtt' || !trigger.topic || message.retain) return false;
+  return topicMatches(trigger.topic, message.topic) && matchesPayload(trigger.payload, message.payload);
+}
+
+// Compare using the operators accepted by the conditions routes. Numeric
+// values are compared as numbers, anything else as strings (so "HH:MM"
+// times order correctly).
+export function compareValues(actual: string | null, operator: string, expected: string, numeric = false): boolean {
+  if (actual === null) return false;
+
+  const actualNumber = parseFloat(actual);
+  const expectedNumber = parseFloat(expected);
+  const useNumbers = numeric || (!isNaN(actualNumber) && !isNaN(expectedNumber) && isFinite(Number(actual)) && isFinite(Number(expected)));
+
+  if (numeric && (isNaN(actualNumber) || isNaN(expectedNumber))) return false;
+
+  const order = useNumbers
+    ? actualNumber - expectedNumber
+    : actual.localeCompare(expected);
+
+  switch (operator) {
+    case 'equals':
+      return useNumbers ? order === 0 : actual === expected;
+    case 'not_equals':
+      return useNumbers ? order !== 0 : actual !== expected;
+    case 'greater':
+      return order > 0;
+    case 'less':
+      return order < 0;
+    case 'greater_equal':
+      return order >= 0;
+    case 'less_equal':
+      return order <= 0;
+    default:
+      return false;
+  }
+}
+
+function formatLocalTime(date: Date): string {
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+// The `trigger` variable templates see, shaped like Home Assistant's
+export function triggerVariables(event: TriggerEvent): Record<string, unknown> {
+  const platform = { state_changed: 'state', schedule: 'time', mqtt: 'mqtt', manual: 'manual' }[event.type];
+  let payloadJson: unknown = null;
+  if (event.payload !== undefined) {
+    try {
+      payloadJson = JSON.parse(event.payload);
+    } catch {
+      // Not JSON
+    }
+  }
+
+  return {
+    platform,
+    id: event.triggerId,
+    entity_id: event.entityId ?? null,
+    from_state: event.oldState ?? null,
+    to_state: event.newState ?? null,
+    topic: event.topic ?? null,
+    payload: event.payload ?? null,
+    payload_json: payloadJson,
+    scheduled_for: event.scheduledFor ?? null,
+    missed: event.missed ?? false,
+    fired_at: event.firedAt
+  };
+}
+
+// Variables are rendered in order, so each one can use the ones before it
+export function buildTemplateContext(
+  definition: AutomationDefinition,
+  trigger: TriggerEvent,
+  getState: (entityId: string) => HAEntity | null,
+  now: Date = new Date()
+): TemplateContext {
+  const context: TemplateContext = { variables: { trigger: triggerVariables(trigger) }, getState, now };
+  const variables = (definition.variables || {}) as Record<string, unknown>;
+
+  for (const [name, value] of Object.entries(variables)) {
+    try {
+      context.variables[name] = renderTemplates(value, context);
+    } catch (error) {
+      throw new Error(`Variable ${name}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  return context;
+}
+
+export function evaluateCondition(
+  condition: ConditionRecord,
+  entity: HAEntity | null | undefined,
+  now: Date = new Date(),
+  context?: TemplateContext
+): ConditionResult {
+  const base = { conditionId: condition.id, type: condition.type, entityId: condition.entityId };
+
+  if (isTemplate(condition.value)) {
+    try {
+      if (!context) throw new Error('no template context');
+      condition = { ...condition, value: stringifyTemplateValue(renderTemplate(condition.value, context)) };
+    } catch (error) {
+      return { ...base, passed: false, actualValue: null, message: `Template error in value: ${error instanceof Error ? error.message : error}` };
+    }
+  }
+
+  if (condition.type === 'time') {
+    const currentTime = formatLocalTime(now);
+    const passed = compareValues(currentTime, condition.operator, condition.value);
+    return {
+      ...base,
+      passed,
+      actualValue: currentTime,
+      message: `Time ${currentTime} ${condition.operator} ${condition.value}: ${passed ? 'pass' : 'fail'}`
+    };
+  }
+
+  if (!condition.entityId) {
+    return { ...base, passed: false, actualValue: null, message: 'Condition has no entity' };
+  }
+
+  const target = `${condition.entityId}${condition.attribute ? `.${condition.attribute}` : ''}`;
+  if (!entity) {
+    return { ...base, passed: false, actualValue: null, message: `Entity ${condition.entityId} not found` };
+  }
+
+  const actualValue = readEntityValue(entity, condition.attribute);
+  const passed = compareValues(actualValue, condition.operator, condition.value, condition.type === 'numeric');
+
+  return {
+    ...base,
+    passed,
+    actualValue,
+    message: `${target} is ${actualValue ?? 'unset'} (${condition.operator} ${condition.value}): ${passed ? 'pass' : 'fail'}`
+  };
+}
+
+// Fold condition results left to right. Each condition's logicalOperator
+// joins it to the result so far; the first condition's operator is ignored.
+// No conditions means the automation always runs.
+export function combineConditionResults(conditions: ConditionRecord[], results: ConditionResult[]): boolean {
+  if (results.length === 0) return true;
+
+  return results.slice(1).reduce((combined, result, index) => {
+    const logicalOperator = conditions[index + 1]?.logicalOperator || 'and';
+    return logicalOperator === 'or' ? combined || result.passed : combined && result.passed;
+  }, results[0].passed);
+}
+
+function renderTextField(value: string | null, context: TemplateContext): string | null {
+  if (!isTemplate(value)) return value;
+  const rendered = stringifyTemplateValue(renderTemplate(value, context));
+  return rendered === '' ? null : rendered;
+}
+
+// Fill in the templates in an action's fields. Payloads keep an empty
+// string, the other fields treat it as unset.
+export function renderAction(action: ActionRecord, context: TemplateContext): ActionRecord {
+  return {
+    ...action,
+    entityId: renderTextField(action.entityId, context),
+    topic: renderTextField(action.topic, context),
+    payload: isTemplate(action.payload) ? stringifyTemplateValue(renderTemplate(action.payload, context)) : action.payload,
+    sceneId: renderTextField(action.sceneId, context),
+    data: renderTemplates(action.data, context)
+  };
+}
+
+// Translate an action row into the Home Assistant service it maps to,
+// rendering its templates first when a context is given
+export function resolveServiceCall(action: ActionRecord, context?: TemplateContext): ServiceCall {
+  if (context) action = renderAction(action, context);
+
+  const data = (action.data && typeof action.data === 'object' ? action.data : undefined) as Record<string, any> | undefined;
+
+  switch (action.type) {
+    case 'service_call': {
+      const [domain, service] = (action.service || '').split('.');
+      if (!domain || !service) {
+        throw new Error(`Invalid service "${action.service || ''}", expected domain.service`);
+      }
+      return {
+        domain,
+        service,
+        serviceData: data,
+        target: action.entityId ? { entity_id: action.entityId } : undefined
+      };
+    }
+
+    case 'scene':
+      if (!action.sceneId) {
+        throw new Error('Scene action missing scene ID');
+      }
+      return {
+        domain: 'scene',
+        service: 'turn_on',
+        target: { entity_id: action.sceneId.startsWith('scene.') ? action.sceneId : `scene.${action.sceneId}` }
+      };
+
+    case 'mqtt':
+      if (!action.topic) {
+        throw new Error('MQTT action missing topic');
+      }
+      return {
+        domain: 'mqtt',
+        service: 'publish',
+        serviceData: { topic: action.topic, payload: action.payload ?? '', ...data }
+      };
+
+    // Commands the entity directly through its own domain: `service` (or
+    // data.action) names the service, toggle by default, and the rest of
+    // `data` is passed along
+    case 'local_device': {
+      if (!action.entityId) {
+        throw new Error('Local device action missing entity ID');
+      }
+      const { action: command, ...serviceData } = data || {};
+      const domain = action.entityId.split('.')[0];
+      const service = String(action.service || command || 'toggle').split('.').pop()!;
+      return {
+        domain,
+        service,
+        serviceData: Object.keys(serviceData).length > 0 ? serviceData : undefined,
+        target: { entity_id: action.entityId }
+      };
+    }
+
+    default:
+      throw new Error(`Action type ${action.type} is not supported by the automation engine`);
+  }
+}
+
+// MQTT actions go straight to the broker when one is connected, otherwise
+// through Home Assistant's mqtt.publish service
+async function publishMqttAction(call: ServiceCall): Promise<boolean> {
+  const mqttService = getMqttService();
+  if (!mqttService.isConnected()) return false;
+
+  const { topic, payload, qos, retain } = call.serviceData || {};
+  await mqttService.publish(String(topic), typeof payload === 'string' ? payload : JSON.stringify(payload), {
+    qos: (qos ?? 0) as MqttQos,
+    retain: Boolean(retain)
+  });
+  return true;
+}
+
+export async function executeAction(ha: HomeAssistantAPI, action: ActionRecord, context?: TemplateContext): Promise<ActionResult> {
+  const started = Date.now();
+  let call: ServiceCall | undefined;
+
+  try {
+    call = resolveServiceCall(action, context);
+    if (action.type === 'mqtt' && await publishMqttAction(call)) {
+      return { actionId: action.id, type: action.type, success: true, call, response: { published: true }, durationMs: Date.now() - started };
+    }
+    const response = await ha.callService(call.domain, call.service, call.serviceData, call.target);
+    return { actionId: action.id, type: action.type, success: true, call, response, durationMs: Date.now() - started };
+  } catch (error) {
+    return {
+      actionId: action.id,
+      type: action.type,
+      success: false,
+      call,
+      error: error instanceof Error ? error.message : String(error),
+      durationMs: Date.now() - started
+    };
+  }
+}
+
+// Prefer the websocket state cache, falling back to REST for entities the
+// instance has not seen change yet
+async function fetchEntity(ha: HomeAssistantAPI, entityId: string): Promise<HAEntity | null> {
+  return ha.getEntityState(entityId) || await ha.getState(entityId);
+}
+
+// Evaluate conditions against a snapshot of entity states and resolve the
+// service calls the actions would make, without calling anything
+export function previewAutomation(
+  definition: AutomationDefinition,
+  states: Map<string, HAEntity>,
+  now: Date = new Date(),
+  trigger: TriggerEvent = { type: 'manual', triggerId: null, firedAt: now.toISOString() }
+): AutomationPreview {
+  let context: TemplateContext | undefined;
+  let contextError: string | undefined;
+  try {
+    context = buildTemplateContext(definition, trigger, entityId => states.get(entityId) ?? null, now);
+  } catch (error) {
+    contextError = error instanceof Error ? error.message : String(error);
+  }
+
+  const conditions = definition.conditions.map(condition =>
+    evaluateCondition(condition, condition.entityId ? states.get(condition.entityId) : null, now, context)
+  );
+
+  const actions = definition.actions.map(action => {
+    try {
+      if (!context) throw new Error(contextError);
+      return { actionId: action.id, type: action.type, call: resolveServiceCall(action, context) };
+    } catch (error) {
+      return { actionId: action.id, type: action.type, error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+
+  return {
+    ...(contextError ? { error: contextError } : {}),
+    conditionsPassed: combineConditionResults(definition.conditions, conditions),
+    conditions,
+    actions
+  };
+}
+
+// Fetch what the templates read by literal entity ID up front, so rendering
+// can stay synchronous; other IDs come from the websocket state cache
+async function createRunContext(
+  ha: HomeAssistantAPI,
+  definition: AutomationDefinition,
+  trigger: TriggerEvent,
+  now: Date
+): Promise<TemplateContext> {
+  const entityIds = referencedEntityIds([
+    definition.variables,
+    definition.conditions.map(condition => condition.value),
+    definition.actions
+  ]);
+
+  const states = new Map<string, HAEntity>();
+  await Promise.all(entityIds.map(async entityId => {
+    const entity = await fetchEntity(ha, entityId).catch(() => null);
+    if (entity) states.set(entityId, entity);
+  }));
+
+  return buildTemplateContext(definition, trigger, entityId => states.get(entityId) ?? ha.getEntityState(entityId) ?? null, now);
+}
+
+export async function runAutomation(
+  ha: HomeAssistantAPI,
+  definition: AutomationDefinition,
+  trigger: TriggerEvent,
+  options: { skipConditions?: boolean } = {}
+): Promise<AutomationRunResult> {
+  const startedAt = new Date();
+
+  let context: TemplateContext;
+  try {
+    context = await createRunContext(ha, definition, trigger, startedAt);
+  } catch (error) {
+    const finishedAt = new Date();
+    return {
+      automationId: definition.id,
+      automationName: definition.name,
+      trigger,
+      status: 'failed',
+      conditionsPassed: false,
+      conditions: [],
+      actions: [],
+      error: error instanceof Error ? error.message : String(error),
+      startedAt: startedAt.toISOString(),
+      finishedAt: finishedAt.toISOString(),
+      durationMs: finishedAt.getTime() - startedAt.getTime()
+    };
+  }
+
+  const conditionResults: ConditionResult[] = [];
+  for (const condition of definition.conditions) {
+    try {
+      const entity = condition.type !== 'time' && condition.entityId
+        ? await fetchEntity(ha, condition.entityId)
+        : null;
+      conditionResults.push(evaluateCondition(condition, entity, startedAt, context));
+    } catch (error) {
+      conditionResults.push({
+        conditionId: condition.id,
+        type: condition.type,
+        entityId: condition.entityId,
+        passed: false,
+        actualValue: null,
+        message: `Failed to read ${condition.entityId}: ${error instanceof Error ? error.message : error}`
+      });
+    }
+  }
+
+  const conditionsPassed = combineConditionResults(definition.conditions, conditionResults);
+
+  // Skipped conditions are still evaluated and traced, like HA's "Run actions"
+  const shouldRun = conditionsPassed || Boolean(options.skipConditions);
+
+  // Actions run in order and stop at the first failure, as in Home Assistant
+  const actionResults: ActionResult[] = [];
+  if (shouldRun) {
+    for (const action of definition.actions) {
+      const result = await executeAction(ha, action, context);
+      actionResults.push(result);
+      if (!result.success) break;
+    }
+  }
+
+  const finishedAt = new Date();
+  const status = !shouldRun
+    ? 'conditions_not_met'
+    : actionResults.every(result => result.success) ? 'success' : 'failed';
+
+  if (shouldRun) {
+    await db.update(automations)
+      .set({ lastRun: finishedAt.toISOString() })
+      .where(eq(automations.id, definition.id));
+  }
+
+  return {
+    automationId: definition.id,
+    automationName: definition.name,
+    trigger,
+    status,
+    conditionsPassed,
+    conditions: conditionResults,
+    actions: actionResults,
+    startedAt: startedAt.toISOString(),
+    finishedAt: finishedAt.toISOString(),
+    durationMs: finishedAt.getTime() - startedAt.getTime()
+  };
+}
+
+// Long-running engine that executes enabled local automations in response
+// to Home Assistant state changes, MQTT messages and their time, cron and
+// sun schedules
+export class AutomationEngine {
+  private ha: HomeAssistantAPI | null = null;
+  private definitions: AutomationDefinition[] = [];
+  private scheduler = new AutomationScheduler(fire => this.handleScheduledFire(fire));
+  private mqttUnsubscribe: (() => void) | null = null;
+  private running = new Set<number>();
+  private reloadTimer: NodeJS.Timeout | null = null;
+  private status: EngineStatus = 'stopped';
+  private lastError: string | null = null;
+  private lastReload: string | null = null;
+  private runCount = 0;
+
+  async start(): Promise<void> {
+    if (this.status === 'running' || this.status === 'starting') return;
+
+    this.status = 'starting';
+    await this.reload();
+    this.scheduler.start();
+
+    if (!this.reloadTimer) {
+      this.reloadTimer = setInterval(() => {
+        this.reload().catch(error => console.error('Automation engine reload failed:', error));
+      }, RELOAD_INTERVAL_MS);
+    }
+
+    await this.connect();
+  }
+
+  stop(): void {
+    this.scheduler.stop();
+
+    if (this.mqttUnsubscribe) {
+      this.mqttUnsubscribe();
+      this.mqttUnsubscribe = null;
+      getMqttService().disconnect().catch(error => console.error('Failed to stop MQTT:', error));
+    }
+
+    if (this.reloadTimer) {
+      clearInterval(this.reloadTimer);
+      this.reloadTimer = null;
+    }
+
+    if (this.ha) {
+      this.ha.off('state_changed', this.handleStateChanged);
+      this.ha.disconnect();
+      this.ha = null;
+    }
+
+    this.status = 'stopped';
+  }
+
+  async reload(): Promise<void> {
+    try {
+      this.definitions = await loadAutomationDefinitions({ source: 'local', enabledOnly: true });
+      await this.scheduler.update(this.definitions);
+      if (this.status !== 'stopped') {
+        await this.syncMqtt();
+      }
+      this.lastReload = new Date().toISOString();
+
+      // Settings may have been filled in since the last attempt, and the
+      // client gives up reconnecting after maxReconnectAttempts
+      const connection = this.ha?.getConnectionStatus();
+      const lostConnection = this.status === 'running' && connection !== 'connected' && connection !== 'connecting';
+      if (this.status === 'unconfigured' || this.status === 'error' || lostConnection) {
+        await this.connect();
+      }
+    } catch (error) {
+      console.error('Failed to load automations:', error);
+      this.lastError = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  getStatus() {
+    return {
+      status: this.status,
+      connection: this.ha?.getConnectionStatus() || 'disconnected',
+      automations: this.definitions.length,
+      running: Array.from(this.running),
+      runCount: this.runCount,
+      schedule: this.scheduler.getStatus(),
+      mqtt: getMqttService().getStatus(),
+      lastReload: this.lastReload,
+      lastError: this.lastError
+    };
+  }
+
+  getHomeAssistant(): HomeAssistantAPI | null {
+    return this.ha;
+  }
+
+  private async connect(): Promise<void> {
+    try {
+      if (!this.ha) {
+        this.ha = await createServerHomeAssistantAPI();
+        if (!this.ha) {
+          this.status = 'unconfigured';
+          return;
+        }
+        this.ha.on('state_changed', this.handleStateChanged);
+      }
+
+      await this.ha.connect();
+      this.status = 'running';
+      this.lastError = null;
+    } catch (error) {
+      console.error('Automation engine failed to connect to Home Assistant:', error);
+      this.status = 'error';
+      this.lastError = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  private handleStateChanged = (data: { entity_id: string; new_state: HAEntity | null; old_state: HAEntity | null }) => {
+    const event: TriggerEvent = {
+      type: 'state_changed',
+      triggerId: null,
+      entityId: data.entity_id,
+      oldState: data.old_state,
+      newState: data.new_state,
+      firedAt: new Date().toISOString()
+    };
+
+    for (const definition of this.definitions) {
+      const trigger = definition.triggers.find(t => matchesStateTrigger(t, event));
+      if (trigger) {
+        this.dispatch(definition, { ...event, triggerId: trigger.id });
+      }
+    }
+  };
+
+  // Reconnect if the broker settings changed and subscribe to exactly the
+  // topics the enabled MQTT triggers listen on
+  private async syncMqtt(): Promise<void> {
+    const mqttService = getMqttService();
+    if (!this.mqttUnsubscribe) {
+      this.mqttUnsubscribe = mqttService.onMessage(this.handleMqttMessage);
+    }
+
+    const topics = new Set(this.definitions.flatMap(definition =>
+      definition.triggers.filter(trigger => trigger.type === 'mqtt' && trigger.topic).map(trigger => trigger.topic as string)
+    ));
+
+    await mqttService.configure(await getMqttConfig());
+    await mqttService.setSubscriptions(Array.from(topics));
+  }
+
+  private handleMqttMessage = (message: MqttMessage) => {
+    for (const definition of this.definitions) {
+      const trigger = definition.triggers.find(t => matchesMqttTrigger(t, message));
+      if (trigger) {
+        this.dispatch(definition, {
+          type: 'mqtt',
+          triggerId: trigger.id,
+          topic: message.topic,
+          payload: message.payload,
+          firedAt: message.receivedAt
+        });
+      }
+    }
+  };
+
+  private handleScheduledFire({ definition, trigger, scheduledFor, missed }: ScheduledFire): void {
+    this.dispatch(definition, {
+      type: 'schedule',
+      triggerId: trigger.id,
+      scheduledFor: scheduledFor.toISOString(),
+      missed,
+      firedAt: new Date().toISOString()
+    });
+  }
+
+  // Single mode: a trigger that fires while the automation is still running is dropped
+  private dispatch(definition: AutomationDefinition, trigger: TriggerEvent): void {
+    if (!this.ha || this.running.has(definition.id)) return;
+
+    this.running.add(definition.id);
+    this.runCount++;
+
+    runAutomation(this.ha, definition, trigger)
+      .then(async result => {
+        if (result.status === 'failed') {
+          const failed = result.actions.find(action => !action.success);
+          console.error(`Automation "${definition.name}" failed:`, result.error || failed?.error);
+        }
+        await recordAutomationRun(result);
+      })
+      .catch(error => console.error(`Automation "${definition.name}" crashed:`, error))
+      .finally(() => this.running.delete(definition.id));
+  }
+}
+
+// Export singleton instance. It lives on globalThis because Next.js bundles
+// instrumentation.ts apart from the route handlers, each with its own copy of
+// this module; both must reach the engine that register() started.
+const globalForEngine = globalThis as typeof globalThis & { __automationEngine?: AutomationEngine };
+
+export function getAutomationEngine(): AutomationEngine {
+  globalForEngine.__automationEngine ??= new AutomationEngine();
+  return globalForEngine.__automationEngine;
+}
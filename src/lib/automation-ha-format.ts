@@ -0,0 +1,674 @@
+// File path: src/lib/automation-ha-format.ts
+
+import { automationTriggers, automationConditions, automationActions } from '@/db/schema';
+import { parsePayloadMatcher } from '@/lib/mqtt-matching';
+import { findTemplates, isTemplate, validateTemplate } from '@/lib/template';
+
+// Translation between our relational trigger/condition/action rows and Home
+// Assistant's automation config schema. Both the classic keys (trigger,
+// condition, action, platform, service) and the plural keys used by newer
+// HA releases (triggers, conditions, actions, trigger, action) are read;
+// the classic keys are written.
+
+export interface HAAutomationConfig {
+  id?: string;
+  alias?: string;
+  description?: string;
+  trigger?: any[];
+  condition?: any[];
+  action?: any[];
+  mode?: string;
+  [key: string]: any;
+}
+
+export type TriggerInput = Omit<typeof automationTriggers.$inferInsert, 'id' | 'automationId' | 'createdAt' | 'updatedAt'>;
+export type ConditionInput = Omit<typeof automationConditions.$inferInsert, 'id' | 'automationId' | 'createdAt' | 'updatedAt'>;
+export type ActionInput = Omit<typeof automationActions.$inferInsert, 'id' | 'automationId' | 'createdAt' | 'updatedAt'>;
+
+export interface AutomationGraphInput {
+  name: string;
+  description?: string | null;
+  // Name -> value mapping, as stored in the JSON column
+  variables?: unknown;
+  triggers: TriggerInput[];
+  conditions: ConditionInput[];
+  actions: ActionInput[];
+}
+
+// A construct that could not be translated. `path` points into the HA
+// config, e.g. ['action', 2, 'target', 'device_id'].
+export interface TranslationIssue {
+  path: (string | number)[];
+  message: string;
+}
+
+export function formatIssuePath(path: (string | number)[]): string {
+  return path.reduce<string>((formatted, key) =>
+    typeof key === 'number' ? `${formatted}[${key}]` : formatted ? `${formatted}.${key}` : key, '');
+}
+
+const TIME_REGEX = /^([0-1]?[0-9]|2[0-3]):([0-5][0-9])(:[0-5][0-9])?$/;
+const NUMERIC_TEMPLATE_REGEX = /^\{\{\s*(?:states\('([^']+)'\)|state_attr\('([^']+)',\s*'([^']+)'\))\s*\|\s*float\s*(>=|<=|==|!=)\s*(-?[\d.]+)\s*\}\}$/;
+
+const VALUE_JSON_TEMPLATE_REGEX = /^\{\{\s*value_json((?:\.[A-Za-z_][A-Za-z0-9_]*|\[\d+\]|\['[^']*'\])+)\s*\}\}$/;
+
+const TEMPLATE_OPERATORS: Record<string, string> = {
+  greater: '>',
+  less: '<',
+  greater_equal: '>=',
+  less_equal: '<=',
+  equals: '==',
+  not_equals: '!='
+};
+
+const CONFIG_KEYS = ['id', 'alias', 'description', 'variables', 'trigger', 'triggers', 'condition', 'conditions', 'action', 'actions', 'mode'];
+
+function asList<T = any>(value: T | T[] | undefined | null): T[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function secondsToOffset(seconds: number): string {
+  const sign = seconds < 0 ? '-' : '+';
+  const abs = Math.abs(seconds);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${sign}${pad(Math.floor(abs / 3600))}:${pad(Math.floor((abs % 3600) / 60))}:${pad(abs % 60)}`;
+}
+
+// Accepts "-00:30:00", "+01:00", "-1800" or a number of seconds
+function offsetToSeconds(offset: unknown): number | null {
+  if (typeof offset === 'number') return Math.round(offset);
+  if (typeof offset !== 'string') return null;
+
+  const trimmed = offset.trim();
+  if (/^[+-]?\d+$/.test(trimmed)) return parseInt(trimmed, 10);
+
+  const match = trimmed.match(/^([+-])?(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+  if (!match) return null;
+
+  const seconds = parseInt(match[2]) * 3600 + parseInt(match[3]) * 60 + parseInt(match[4] || '0');
+  return match[1] === '-' ? -seconds : seconds;
+}
+
+// HA time_pattern triggers can express daily cron schedules whose minute and
+// hour fields are each "*", "*/N" or a single value
+function cronToTimePattern(expression: string): { hours: string | number; minutes: string | number } | null {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5 || parts.slice(2).some(part => part !== '*')) return null;
+
+  const convert = (part: string) => part === '*' ? '*'
+    : /^\*\/\d+$/.test(part) ? part.slice(1)
+    : /^\d+$/.test(part) ? Number(part)
+    : null;
+
+  const minutes = convert(parts[0]);
+  const hours = convert(parts[1]);
+  return minutes === null || hours === null ? null : { hours, minutes };
+}
+
+// Unset units follow HA: smaller units than the largest one given default to 0
+function timePatternToCron(raw: any): string | null {
+  const field = (value: unknown, fallback: string) => {
+    if (value === undefined || value === null) return fallback;
+    const text = String(value).trim();
+    if (text === '*') return '*';
+    if (/^\/\d+$/.test(text)) return `*${text}`;
+    if (/^\d+$/.test(text)) return String(Number(text));
+    return null;
+  };
+
+  const hours = field(raw.hours, '*');
+  const minutes = field(raw.minutes, raw.hours !== undefined ? '0' : '*');
+  return hours && minutes ? `${minutes} ${hours} * * *` : null;
+}
+
+// HA matches MQTT payloads by equality only, optionally after rendering a
+// value_template, so a JSON path match translates when it is an equality on
+// a fixed path
+function payloadMatchToHA(expression: string): { value_template?: string; payload: string } | null {
+  if (!expression.startsWith('$')) return { payload: expression };
+
+  let matcher;
+  try {
+    matcher = parsePayloadMatcher(expression);
+  } catch {
+    return null;
+  }
+
+  if (matcher.kind !== 'json_path' || matcher.operator !== '==' || matcher.path.length === 0) return null;
+  if (typeof matcher.expected !== 'string' && typeof matcher.expected !== 'number') return null;
+  if (matcher.path.some(segment => segment === '*' || (typeof segment === 'string' && segment.includes("'")))) return null;
+
+  const accessor = matcher.path.map(segment => typeof segment === 'number' ? `[${segment}]`
+    : /^[A-Za-z_][A-Za-z0-9_]*$/.test(segment) ? `.${segment}`
+    : `['${segment}']`).join('');
+  return { value_template: `{{ value_json${accessor} }}`, payload: String(matcher.expected) };
+}
+
+function payloadMatchFromHA(valueTemplate: unknown, payload: unknown): string | null {
+  const match = String(valueTemplate).trim().match(VALUE_JSON_TEMPLATE_REGEX);
+  return match ? `$${match[1]} == ${JSON.stringify(String(payload))}` : null;
+}
+
+function shiftTime(time: string, offsetSeconds: number): string {
+  const [hours, minutes] = time.split(':').map(Number);
+  const total = ((hours * 60 + minutes + Math.round(offsetSeconds / 60)) % 1440 + 1440) % 1440;
+  return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}:00`;
+}
+
+// ---------------------------------------------------------------------------
+// Local rows -> Home Assistant config
+// ---------------------------------------------------------------------------
+
+function triggerToHA(trigger: TriggerInput, index: number, issues: TranslationIssue[]): any | null {
+  switch (trigger.type) {
+    case 'entity_state':
+    case 'zwave':
+      return {
+        platform: 'state',
+        entity_id: trigger.entityId,
+        ...(trigger.attribute ? { attribute: trigger.attribute } : {}),
+        ...(trigger.state ? { to: trigger.state } : {})
+      };
+    case 'time':
+      return {
+        platform: 'time',
+        at: trigger.offset ? shiftTime(trigger.time || '00:00', trigger.offset) : `${trigger.time}:00`
+      };
+    case 'cron': {
+      const pattern = trigger.offset ? null : cronToTimePattern(trigger.cron || '');
+      if (!pattern) {
+        issues.push({ path: ['trigger', index], message: `Cron schedule "${trigger.cron}" cannot be expressed as a Home Assistant time pattern` });
+        return null;
+      }
+      return { platform: 'time_pattern', ...pattern, seconds: 0 };
+    }
+    case 'sunrise_sunset':
+      return {
+        platform: 'sun',
+        event: trigger.state === 'sunset' ? 'sunset' : 'sunrise',
+        ...(trigger.offset ? { offset: secondsToOffset(trigger.offset) } : {})
+      };
+    case 'mqtt': {
+      const payloadMatch = trigger.payload ? payloadMatchToHA(trigger.payload) : {};
+      if (!payloadMatch) {
+        issues.push({ path: ['trigger', index], message: `Payload match "${trigger.payload}" cannot be expressed as a Home Assistant MQTT trigger` });
+        return null;
+      }
+      return { platform: 'mqtt', topic: trigger.topic, ...payloadMatch };
+    }
+    default:
+      issues.push({ path: ['trigger', index], message: `Trigger type ${trigger.type} has no Home Assistant equivalent` });
+      return null;
+  }
+}
+
+function valueTemplate(condition: ConditionInput, expected: string = condition.value, numeric = true): string {
+  const source = condition.attribute
+    ? `state_attr('${condition.entityId}', '${condition.attribute}')`
+    : `states('${condition.entityId}')`;
+  return `{{ ${source}${numeric ? ' | float' : ''} ${TEMPLATE_OPERATORS[condition.operator]} ${expected} }}`;
+}
+
+function conditionToHA(condition: ConditionInput, index: number, issues: TranslationIssue[]): any | null {
+  const attribute = condition.attribute ? { attribute: condition.attribute } : {};
+
+  // A value that is one {{ expression }} can be inlined into a template
+  // condition; HA has no other place for templated comparison values
+  if (isTemplate(condition.value)) {
+    const expression = condition.value.match(/^\{\{([\s\S]*)\}\}$/)?.[1];
+    if (condition.type === 'time' || !expression || expression.includes('{{')) {
+      issues.push({ path: ['condition', index], message: `Templated value "${condition.value}" cannot be expressed as a Home Assistant ${condition.type} condition` });
+      return null;
+    }
+    return {
+      condition: 'template',
+      value_template: valueTemplate(condition, `(${expression.trim()})`, condition.type === 'numeric')
+    };
+  }
+
+  if (condition.type === 'time') {
+    switch (condition.operator) {
+      case 'greater':
+      case 'greater_equal':
+        return { condition: 'time', after: `${condition.value}:00` };
+      case 'less':
+      case 'less_equal':
+        return { condition: 'time', before: `${condition.value}:00` };
+      default:
+        issues.push({ path: ['condition', index], message: `Time conditions cannot use the ${condition.operator} operator in Home Assistant` });
+        return null;
+    }
+  }
+
+  if (condition.type === 'entity_state' && condition.operator === 'equals') {
+    return { condition: 'state', entity_id: condition.entityId, ...attribute, state: condition.value };
+  }
+
+  if (condition.type === 'entity_state' && condition.operator === 'not_equals') {
+    return {
+      condition: 'not',
+      conditions: [{ condition: 'state', entity_id: condition.entityId, ...attribute, state: condition.value }]
+    };
+  }
+
+  // numeric_state only knows strict above/below; the rest become templates
+  switch (condition.operator) {
+    case 'greater':
+      return { condition: 'numeric_state', entity_id: condition.entityId, ...attribute, above: Number(condition.value) };
+    case 'less':
+      return { condition: 'numeric_state', entity_id: condition.entityId, ...attribute, below: Number(condition.value) };
+    default:
+      return { condition: 'template', value_template: valueTemplate(condition) };
+  }
+}
+
+// HA condition lists are ANDed. When any condition joins with "or", rebuild
+// our left-to-right fold as nested and/or conditions.
+function combineConditionsForHA(conditions: ConditionInput[], translated: any[]): any[] {
+  if (!conditions.some((condition, index) => index > 0 && condition.logicalOperator === 'or')) {
+    return translated;
+  }
+
+  const combined = translated.slice(1).reduce((left, right, index) => {
+    const logicalOperator = conditions[index + 1].logicalOperator === 'or' ? 'or' : 'and';
+    if (left.condition === logicalOperator && left.__folded) {
+      return { ...left, conditions: [...left.conditions, right] };
+    }
+    return { condition: logicalOperator, conditions: [left, right], __folded: true };
+  }, translated[0]);
+
+  return [JSON.parse(JSON.stringify(combined, (key, value) => key === '__folded' ? undefined : value))];
+}
+
+function actionToHA(action: ActionInput, index: number, issues: TranslationIssue[]): any | null {
+  const data = action.data && typeof action.data === 'object' ? action.data as Record<string, any> : null;
+
+  switch (action.type) {
+    case 'service_call':
+      return {
+        service: action.service,
+        ...(action.entityId ? { target: { entity_id: action.entityId } } : {}),
+        ...(data && Object.keys(data).length > 0 ? { data } : {})
+      };
+    case 'scene':
+      return { scene: action.sceneId?.startsWith('scene.') ? action.sceneId : `scene.${action.sceneId}` };
+    case 'mqtt':
+      return {
+        service: 'mqtt.publish',
+        data: { topic: action.topic, payload: action.payload ?? '', ...(data || {}) }
+      };
+    default:
+      issues.push({ path: ['action', index], message: `Action type ${action.type} has no Home Assistant equivalent` });
+      return null;
+  }
+}
+
+export function toHomeAssistantConfig(
+  automation: AutomationGraphInput,
+  id?: string | null
+): { config: HAAutomationConfig; issues: TranslationIssue[] } {
+  const issues: TranslationIssue[] = [];
+
+  const triggers = automation.triggers
+    .map((trigger, index) => triggerToHA(trigger, index, issues))
+    .filter(Boolean);
+
+  const translatedConditions = automation.conditions.map((condition, index) => conditionToHA(condition, index, issues));
+  const keptConditions = automation.conditions.filter((_, index) => translatedConditions[index] !== null);
+  const conditions = combineConditionsForHA(keptConditions, translatedConditions.filter(Boolean));
+
+  const actions = automation.actions
+    .map((action, index) => actionToHA(action, index, issues))
+    .filter(Boolean);
+
+  const config: HAAutomationConfig = {
+    ...(id ? { id } : {}),
+    alias: automation.name,
+    description: automation.description || '',
+    ...(automation.variables && typeof automation.variables === 'object' && Object.keys(automation.variables).length > 0
+      ? { variables: automation.variables }
+      : {}),
+    trigger: triggers,
+    condition: conditions,
+    action: actions,
+    mode: 'single'
+  };
+
+  return { config, issues };
+}
+
+// ---------------------------------------------------------------------------
+// Home Assistant config -> local rows
+// ---------------------------------------------------------------------------
+
+function triggerFromHA(raw: any, path: (string | number)[], issues: TranslationIssue[]): TriggerInput[] {
+  if (!raw || typeof raw !== 'object') {
+    issues.push({ path, message: 'Trigger must be a mapping' });
+    return [];
+  }
+
+  const platform = raw.platform ?? raw.trigger;
+  const ignored = (keys: string[]) => keys
+    .filter(key => raw[key] !== undefined)
+    .forEach(key => issues.push({ path: [...path, key], message: `"${key}" is not supported on ${platform} triggers and was ignored` }));
+
+  switch (platform) {
+    case 'state': {
+      const entityIds = asList<string>(raw.entity_id);
+      if (entityIds.length === 0) {
+        issues.push({ path: [...path, 'entity_id'], message: 'State trigger has no entity_id' });
+        return [];
+      }
+      if (Array.isArray(raw.to)) {
+        issues.push({ path: [...path, 'to'], message: 'State triggers with a list of "to" states are not supported' });
+        return [];
+      }
+      ignored(['from', 'for', 'not_from', 'not_to']);
+      return entityIds.map(entityId => ({
+        type: 'entity_state',
+        entityId,
+        attribute: raw.attribute ?? null,
+        state: raw.to !== undefined && raw.to !== null ? String(raw.to) : null
+      }));
+    }
+
+    case 'time':
+      return asList(raw.at).flatMap((at, index) => {
+        if (typeof at !== 'string' || !TIME_REGEX.test(at)) {
+          issues.push({ path: Array.isArray(raw.at) ? [...path, 'at', index] : [...path, 'at'], message: `Time trigger "at" must be HH:MM or HH:MM:SS, got ${JSON.stringify(at)}` });
+          return [];
+        }
+        const [hours, minutes] = at.split(':');
+        return [{ type: 'time', time: `${hours.padStart(2, '0')}:${minutes}`, offset: null }];
+      });
+
+    case 'time_pattern': {
+      const cron = raw.seconds === undefined || String(raw.seconds).trim() === '0' ? timePatternToCron(raw) : null;
+      if (!cron) {
+        issues.push({ path, message: 'Only time patterns on whole minutes with "*", "/N" or fixed hours and minutes are supported' });
+        return [];
+      }
+      return [{ type: 'cron', cron, offset: null }];
+    }
+
+    case 'sun': {
+      const offset = raw.offset === undefined ? 0 : offsetToSeconds(raw.offset);
+      if (offset === null) {
+        issues.push({ path: [...path, 'offset'], message: `Unsupported sun offset ${JSON.stringify(raw.offset)}` });
+        return [];
+      }
+      return [{ type: 'sunrise_sunset', state: raw.event === 'sunset' ? 'sunset' : 'sunrise', offset }];
+    }
+
+    case 'mqtt':
+      if (!raw.topic) {
+        issues.push({ path: [...path, 'topic'], message: 'MQTT trigger has no topic' });
+        return [];
+      }
+      // Without a payload a value_template only shapes trigger.payload
+      ignored(raw.payload === undefined ? ['value_template', 'qos', 'encoding'] : ['qos', 'encoding']);
+      if (raw.value_template !== undefined && raw.payload !== undefined) {
+        const payload = payloadMatchFromHA(raw.value_template, raw.payload);
+        if (!payload) {
+          issues.push({ path: [...path, 'value_template'], message: 'Only "{{ value_json.<path> }}" value templates are supported on MQTT triggers' });
+          return [];
+        }
+        return [{ type: 'mqtt', topic: String(raw.topic), payload }];
+      }
+      return [{ type: 'mqtt', topic: String(raw.topic), payload: raw.payload !== undefined ? String(raw.payload) : null }];
+
+    default:
+      issues.push({ path, message: `Unsupported trigger platform: ${platform ?? 'missing'}` });
+      return [];
+  }
+}
+
+// Translate one (non and/or) HA condition into one or more local conditions
+function simpleConditionFromHA(raw: any, path: (string | number)[], issues: TranslationIssue[]): ConditionInput[] | null {
+  if (!raw || typeof raw !== 'object') {
+    issues.push({ path, message: 'Condition must be a mapping' });
+    return null;
+  }
+
+  switch (raw.condition) {
+    case 'state': {
+      const entityIds = asList<string>(raw.entity_id);
+      if (entityIds.length !== 1 || Array.isArray(raw.state)) {
+        issues.push({ path, message: 'State conditions must have exactly one entity_id and one state' });
+        return null;
+      }
+      if (raw.for !== undefined) {
+        issues.push({ path: [...path, 'for'], message: '"for" is not supported on state conditions and was ignored' });
+      }
+      return [{ type: 'entity_state', entityId: entityIds[0], attribute: raw.attribute ?? null, operator: 'equals', value: String(raw.state) }];
+    }
+
+    case 'numeric_state': {
+      const entityIds = asList<string>(raw.entity_id);
+      if (entityIds.length !== 1 || raw.value_template !== undefined) {
+        issues.push({ path, message: 'Numeric state conditions must have exactly one entity_id and no value_template' });
+        return null;
+      }
+      const base = { type: 'numeric', entityId: entityIds[0], attribute: raw.attribute ?? null };
+      const result: ConditionInput[] = [];
+      if (raw.above !== undefined) result.push({ ...base, operator: 'greater', value: String(raw.above) });
+      if (raw.below !== undefined) result.push({ ...base, operator: 'less', value: String(raw.below) });
+      if (result.length === 0) {
+        issues.push({ path, message: 'Numeric state condition needs above or below' });
+        return null;
+      }
+      return result;
+    }
+
+    case 'time': {
+      if (raw.weekday !== undefined) {
+        issues.push({ path: [...path, 'weekday'], message: '"weekday" is not supported on time conditions' });
+        return null;
+      }
+      const result: ConditionInput[] = [];
+      for (const [key, operator] of [['after', 'greater_equal'], ['before', 'less']] as const) {
+        if (raw[key] === undefined) continue;
+        if (typeof raw[key] !== 'string' || !TIME_REGEX.test(raw[key])) {
+          issues.push({ path: [...path, key], message: `Time condition "${key}" must be HH:MM or HH:MM:SS` });
+          return null;
+        }
+        const [hours, minutes] = raw[key].split(':');
+        result.push({ type: 'time', operator, value: `${hours.padStart(2, '0')}:${minutes}` });
+      }
+      return result.length > 0 ? result : null;
+    }
+
+    case 'not': {
+      const inner = asList(raw.conditions);
+      if (inner.length === 1 && inner[0]?.condition === 'state') {
+        const translated = simpleConditionFromHA(inner[0], [...path, 'conditions', 0], issues);
+        return translated ? translated.map(condition => ({ ...condition, operator: 'not_equals' })) : null;
+      }
+      issues.push({ path, message: 'Only "not" around a single state condition is supported' });
+      return null;
+    }
+
+    case 'template': {
+      const match = typeof raw.value_template === 'string' ? raw.value_template.trim().match(NUMERIC_TEMPLATE_REGEX) : null;
+      if (match) {
+        const operator = Object.keys(TEMPLATE_OPERATORS).find(key => TEMPLATE_OPERATORS[key] === match[4])!;
+        return [{ type: 'numeric', entityId: match[1] || match[2], attribute: match[3] || null, operator, value: match[5] }];
+      }
+      issues.push({ path: [...path, 'value_template'], message: 'Template conditions are not supported' });
+      return null;
+    }
+
+    default:
+      issues.push({ path, message: `Unsupported condition type: ${raw.condition ?? 'missing'}` });
+      return null;
+  }
+}
+
+// Flatten nested and/or conditions into our left-to-right fold. Only shapes
+// where every nested group is the left-most operand can be represented.
+function conditionTreeFromHA(raw: any, path: (string | number)[], issues: TranslationIssue[]): ConditionInput[] | null {
+  if (raw?.condition !== 'and' && raw?.condition !== 'or') {
+    return simpleConditionFromHA(raw, path, issues);
+  }
+
+  const operands = asList(raw.conditions);
+  const result: ConditionInput[] = [];
+
+  for (const [index, operand] of operands.entries()) {
+    const operandPath = [...path, 'conditions', index];
+    const nested = operand?.condition === 'and' || operand?.condition === 'or';
+    if (nested && index > 0) {
+      issues.push({ path: operandPath, message: 'Nested and/or groups are only supported as the first operand' });
+      return null;
+    }
+
+    const translated = conditionTreeFromHA(operand, operandPath, issues);
+    if (!translated) return null;
+
+    // A multi-row translation (e.g. above + below) is an AND of its rows
+    if (index > 0 && raw.condition === 'or' && translated.length > 1) {
+      issues.push({ path: operandPath, message: 'Conditions that expand to several checks cannot be ORed' });
+      return null;
+    }
+
+    translated.forEach((condition, position) => {
+      result.push({
+        ...condition,
+        logicalOperator: index > 0 && position === 0 ? raw.condition : condition.logicalOperator ?? 'and'
+      });
+    });
+  }
+
+  return result;
+}
+
+// Templates use a subset of Jinja; flag the ones we cannot evaluate
+function checkTemplatesFromHA(value: unknown, path: (string | number)[], issues: TranslationIssue[]): void {
+  for (const { path: templatePath, template } of findTemplates(value)) {
+    try {
+      validateTemplate(template);
+    } catch (error) {
+      issues.push({
+        path: templatePath ? [...path, templatePath] : path,
+        message: `Unsupported template: ${error instanceof Error ? error.message : error}`
+      });
+    }
+  }
+}
+
+function actionFromHA(raw: any, path: (string | number)[], issues: TranslationIssue[]): ActionInput[] {
+  if (!raw || typeof raw !== 'object') {
+    issues.push({ path, message: 'Action must be a mapping' });
+    return [];
+  }
+
+  checkTemplatesFromHA(raw, path, issues);
+
+  if (raw.scene !== undefined) {
+    return [{ type: 'scene', sceneId: String(raw.scene) }];
+  }
+
+  const service = raw.service ?? raw.action;
+  if (typeof service !== 'string') {
+    const kind = Object.keys(raw).find(key => !['alias', 'enabled', 'continue_on_error'].includes(key));
+    issues.push({ path, message: `Unsupported action: ${kind ?? 'empty'}` });
+    return [];
+  }
+
+  const data = { ...(raw.data || raw.service_data || {}) };
+  const target = raw.target || {};
+
+  for (const key of ['device_id', 'area_id', 'floor_id', 'label_id']) {
+    if (target[key] !== undefined) {
+      issues.push({ path: [...path, 'target', key], message: `Targeting by ${key} is not supported` });
+    }
+  }
+
+  const entityIds = asList<string>(target.entity_id ?? raw.entity_id ?? data.entity_id);
+  delete data.entity_id;
+  const hasData = Object.keys(data).length > 0;
+
+  if (service === 'scene.turn_on' && entityIds.length > 0) {
+    return entityIds.map(sceneId => ({ type: 'scene', sceneId }));
+  }
+
+  if (service === 'mqtt.publish' && data.topic) {
+    const { topic, payload, ...rest } = data;
+    return [{
+      type: 'mqtt',
+      topic: String(topic),
+      payload: payload !== undefined ? (typeof payload === 'string' ? payload : JSON.stringify(payload)) : null,
+      data: Object.keys(rest).length > 0 ? rest : null
+    }];
+  }
+
+  // Our rows target one entity, so one action per targeted entity
+  const targets = entityIds.length > 0 ? entityIds : [null];
+  return targets.map(entityId => ({
+    type: 'service_call',
+    service,
+    entityId,
+    data: hasData ? data : null
+  }));
+}
+
+export function fromHomeAssistantConfig(config: HAAutomationConfig): {
+  automation: AutomationGraphInput;
+  issues: TranslationIssue[];
+} {
+  const issues: TranslationIssue[] = [];
+
+  const triggerKey = config.trigger !== undefined ? 'trigger' : 'triggers';
+  const conditionKey = config.condition !== undefined ? 'condition' : 'conditions';
+  const actionKey = config.action !== undefined ? 'action' : 'actions';
+
+  const triggers = asList(config[triggerKey]).flatMap((raw, index) => triggerFromHA(raw, [triggerKey, index], issues));
+
+  const conditions: ConditionInput[] = [];
+  asList(config[conditionKey]).forEach((raw, index) => {
+    const translated = conditionTreeFromHA(raw, [conditionKey, index], issues);
+    if (!translated) return;
+
+    // Top-level list entries are ANDed together
+    translated.forEach((condition, position) => {
+      conditions.push({ ...condition, logicalOperator: position === 0 ? 'and' : condition.logicalOperator ?? 'and' });
+    });
+  });
+
+  const actions = asList(config[actionKey]).flatMap((raw, index) => actionFromHA(raw, [actionKey, index], issues));
+
+  let variables: Record<string, unknown> | null = null;
+  if (config.variables !== undefined) {
+    if (config.variables && typeof config.variables === 'object' && !Array.isArray(config.variables)) {
+      variables = config.variables;
+      checkTemplatesFromHA(variables, ['variables'], issues);
+    } else {
+      issues.push({ path: ['variables'], message: 'Variables must be a mapping and were ignored' });
+    }
+  }
+
+  if (config.use_blueprint !== undefined) {
+    issues.push({ path: ['use_blueprint'], message: 'Automations created from a blueprint must be imported from the blueprint itself' });
+  }
+
+  Object.keys(config)
+    .filter(key => !CONFIG_KEYS.includes(key) && key !== 'use_blueprint')
+    .forEach(key => issues.push({ path: [key], message: `"${key}" is not supported and was ignored` }));
+
+  if (config.mode !== undefined && config.mode !== 'single') {
+    issues.push({ path: ['mode'], message: `Mode ${config.mode} is not supported; the automation will run in single mode` });
+  }
+
+  return {
+    automation: {
+      name: String(config.alias || config.id || 'Imported automation'),
+      description: config.description || null,
+      variables,
+      triggers,
+      conditions,
+      actions
+    },
+    issues
+  };
+}
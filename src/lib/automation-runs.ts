@@ -0,0 +1,189 @@
+// File path: src/lib/automation-runs.ts
+
+import { db, type Database, type Transaction } from '@/db';
+import { automationRuns, automationRunSteps } from '@/db/schema';
+import { eq, and, desc, asc, inArray, lte, sql } from 'drizzle-orm';
+import type { AutomationRunResult, TriggerEvent } from '@/lib/automation-engine';
+
+export type AutomationRunRecord = typeof automationRuns.$inferSelect;
+export type AutomationRunStepRecord = typeof automationRunSteps.$inferSelect;
+
+export interface AutomationRunWithSteps extends AutomationRunRecord {
+  steps: AutomationRunStepRecord[];
+}
+
+// Runs kept per automation; older runs are pruned after each new one
+const MAX_RUNS_PER_AUTOMATION = 200;
+
+function describeTrigger(trigger: TriggerEvent): string {
+  switch (trigger.type) {
+    case 'manual':
+      return 'Started manually';
+    case 'schedule':
+      return trigger.missed
+        ? `Catching up on missed run scheduled for ${trigger.scheduledFor}`
+        : `Scheduled for ${trigger.scheduledFor}`;
+    case 'mqtt':
+      return `Message on ${trigger.topic}: ${trigger.payload}`;
+    default:
+      return `${trigger.entityId} changed from ${trigger.oldState?.state ?? 'unknown'} to ${trigger.newState?.state ?? 'unknown'}`;
+  }
+}
+
+// Persist a run and its trace: the trigger that fired, every condition with
+// the value that was seen, then every action with its response or error. The
+// run, its steps and the prune are one transaction, so a failed write leaves
+// no half-recorded run.
+export async function recordAutomationRun(result: AutomationRunResult): Promise<number> {
+  return db.transaction(tx => writeAutomationRun(tx, result));
+}
+
+async function writeAutomationRun(tx: Transaction, result: AutomationRunResult): Promise<number> {
+  const now = new Date().toISOString();
+  const failedAction = result.actions.find(action => !action.success);
+
+  const [run] = await tx.insert(automationRuns).values({
+    automationId: result.automationId,
+    triggerType: result.trigger.type,
+    triggerId: result.trigger.triggerId,
+    triggerEntityId: result.trigger.entityId || null,
+    status: result.status,
+    conditionsPassed: result.conditionsPassed,
+    error: result.error || failedAction?.error || null,
+    startedAt: result.startedAt,
+    finishedAt: result.finishedAt,
+    durationMs: result.durationMs,
+    createdAt: now
+  }).returning();
+
+  const steps: (typeof automationRunSteps.$inferInsert)[] = [{
+    runId: run.id,
+    position: 0,
+    stepType: 'trigger',
+    refId: result.trigger.triggerId,
+    status: 'fired',
+    entityId: result.trigger.entityId || null,
+    actualValue: result.trigger.type === 'mqtt' ? result.trigger.payload ?? null : result.trigger.newState?.state ?? null,
+    message: describeTrigger(result.trigger),
+    details: {
+      type: result.trigger.type,
+      firedAt: result.trigger.firedAt,
+      scheduledFor: result.trigger.scheduledFor ?? null,
+      missed: result.trigger.missed ?? false,
+      topic: result.trigger.topic ?? null,
+      oldState: result.trigger.oldState?.state ?? null,
+      newState: result.trigger.newState?.state ?? null
+    },
+    durationMs: 0,
+    createdAt: now
+  }];
+
+  for (const condition of result.conditions) {
+    steps.push({
+      runId: run.id,
+      position: steps.length,
+      stepType: 'condition',
+      refId: condition.conditionId,
+      status: condition.passed ? 'pass' : 'fail',
+      entityId: condition.entityId || null,
+      actualValue: condition.actualValue,
+      message: condition.message,
+      details: { type: condition.type },
+      durationMs: 0,
+      createdAt: now
+    });
+  }
+
+  for (const action of result.actions) {
+    steps.push({
+      runId: run.id,
+      position: steps.length,
+      stepType: 'action',
+      refId: action.actionId,
+      status: action.success ? 'success' : 'error',
+      entityId: action.call?.target?.entity_id || null,
+      message: action.call ? `${action.call.domain}.${action.call.service}` : action.type,
+      details: { type: action.type, call: action.call || null, response: action.response ?? null },
+      error: action.error || null,
+      durationMs: action.durationMs,
+      createdAt: now
+    });
+  }
+
+  await tx.insert(automationRunSteps).values(steps);
+  await pruneAutomationRuns(result.automationId, tx);
+
+  return run.id;
+}
+
+async function pruneAutomationRuns(automationId: number, executor: Database | Transaction = db): Promise<void> {
+  const cutoff = await executor.select({ id: automationRuns.id })
+    .from(automationRuns)
+    .where(eq(automationRuns.automationId, automationId))
+    .orderBy(desc(automationRuns.id))
+    .limit(1)
+    .offset(MAX_RUNS_PER_AUTOMATION);
+
+  if (cutoff.length === 0) return;
+
+  const stale = await executor.select({ id: automationRuns.id })
+    .from(automationRuns)
+    .where(and(eq(automationRuns.automationId, automationId), lte(automationRuns.id, cutoff[0].id)));
+
+  await deleteRuns(stale.map(run => run.id), executor);
+}
+
+async function deleteRuns(runIds: number[], executor: Database | Transaction = db): Promise<void> {
+  if (runIds.length === 0) return;
+  await executor.delete(automationRunSteps).where(inArray(automationRunSteps.runId, runIds));
+  await executor.delete(automationRuns).where(inArray(automationRuns.id, runIds));
+}
+
+// Remove all history for an automation (called before deleting it). Pass a
+// transaction to delete it together with the automation.
+export async function deleteAutomationRuns(automationId: number, executor: Database | Transaction = db): Promise<void> {
+  const runs = await executor.select({ id: automationRuns.id })
+    .from(automationRuns)
+    .where(eq(automationRuns.automationId, automationId));
+
+  await deleteRuns(runs.map(run => run.id), executor);
+}
+
+export async function getAutomationRuns(automationId: number, options: {
+  limit?: number;
+  offset?: number;
+  status?: string;
+} = {}): Promise<{ runs: AutomationRunRecord[]; total: number }> {
+  const filters = [eq(automationRuns.automationId, automationId)];
+  if (options.status) filters.push(eq(automationRuns.status, options.status));
+
+  const [runs, [{ count }]] = await Promise.all([
+    db.select()
+      .from(automationRuns)
+      .where(and(...filters))
+      .orderBy(desc(automationRuns.startedAt), desc(automationRuns.id))
+      .limit(options.limit ?? 20)
+      .offset(options.offset ?? 0),
+    db.select({ count: sql<number>`count(*)` })
+      .from(automationRuns)
+      .where(and(...filters))
+  ]);
+
+  return { runs, total: Number(count) };
+}
+
+export async function getAutomationRun(automationId: number, runId: number): Promise<AutomationRunWithSteps | null> {
+  const [run] = await db.select()
+    .from(automationRuns)
+    .where(and(eq(automationRuns.id, runId), eq(automationRuns.automationId, automationId)))
+    .limit(1);
+
+  if (!run) return null;
+
+  const steps = await db.select()
+    .from(automationRunSteps)
+    .where(eq(automationRunSteps.runId, runId))
+    .orderBy(asc(automationRunSteps.position));
+
+  return { ...run, steps };
+}
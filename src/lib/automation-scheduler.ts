@@ -0,0 +1,367 @@
+// File path: src/lib/automation-scheduler.ts
+
+import { db } from '@/db';
+import { automationSchedules, globalSettings } from '@/db/schema';
+import { eq, inArray, notInArray } from 'drizzle-orm';
+import type { AutomationDefinition, TriggerRecord } from '@/lib/automation-engine';
+import { parseCron, nextCronTime } from '@/lib/cron';
+import { getSunTimes } from '@/lib/sun';
+
+// Fires time, cron and sunrise/sunset triggers of local automations. The next
+// fire time of every trigger is stored in automation_schedules, so after a
+// restart the scheduler knows which runs were missed while it was down. Each
+// automation's missedRunPolicy decides what happens to those:
+//   - skip:     the missed run is dropped and the trigger waits for its next time
+//   - catch_up: the trigger fires once as soon as possible, however many
+//               occurrences were missed, then resumes its normal schedule
+// All times are in the server's local time zone, like time conditions.
+
+export type MissedRunPolicy = 'skip' | 'catch_up';
+
+export const SCHEDULED_TRIGGER_TYPES = ['time', 'cron', 'sunrise_sunset'];
+
+export interface SchedulerLocation {
+  latitude: number;
+  longitude: number;
+}
+
+export interface ScheduledFire {
+  definition: AutomationDefinition;
+  trigger: TriggerRecord;
+  scheduledFor: Date;
+  missed: boolean;
+}
+
+export interface ScheduleListing {
+  automationId: number;
+  automationName: string;
+  missedRunPolicy: string;
+  triggerId: number;
+  type: string;
+  time: string | null;
+  cron: string | null;
+  event: string | null;
+  offset: number | null;
+  nextFireAt: string | null;
+  upcoming: string[];
+  lastFiredAt: string | null;
+  error: string | null;
+}
+
+interface ScheduleEntry {
+  definition: AutomationDefinition;
+  trigger: TriggerRecord;
+  nextFireAt: Date | null;
+  lastFiredAt: string | null;
+  error: string | null;
+}
+
+// A timer that goes off this much after the planned time still counts as on time
+const MISSED_GRACE_MS = 60000;
+
+// Timers are capped so clock changes and suspended hosts are noticed quickly
+const MAX_TIMER_MS = 60000;
+
+// Sun events can be absent for months near the poles
+const SUN_SEARCH_DAYS = 366;
+
+export function isScheduledTrigger(trigger: Pick<TriggerRecord, 'type'>): boolean {
+  return SCHEDULED_TRIGGER_TYPES.includes(trigger.type);
+}
+
+// Latitude/longitude come from the weather location in global settings;
+// 0/0 is what Settings stores until a location is entered
+export async function getSchedulerLocation(): Promise<SchedulerLocation | null> {
+  const [record] = await db.select()
+    .from(globalSettings)
+    .where(eq(globalSettings.id, 1))
+    .limit(1);
+
+  const location = (record?.settings as Record<string, any> | undefined)?.weather?.location;
+  const latitude = Number(location?.lat);
+  const longitude = Number(location?.lon);
+
+  if (!isFinite(latitude) || !isFinite(longitude) || (latitude === 0 && longitude === 0)) {
+    return null;
+  }
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+    return null;
+  }
+  return { latitude, longitude };
+}
+
+// Candidate times for `day` shifted by the trigger offset. Days are scanned
+// from the day before `after` because a large offset can move an event
+// across midnight.
+function firstAfter(after: Date, days: number, eventOn: (day: Date) => Date | null, offsetSeconds: number): Date | null {
+  for (let index = -1; index <= days; index++) {
+    const day = new Date(after);
+    day.setDate(day.getDate() + index);
+    day.setHours(12, 0, 0, 0);
+
+    const event = eventOn(day);
+    if (!event) continue;
+
+    const fireAt = new Date(event.getTime() + offsetSeconds * 1000);
+    if (fireAt > after) return fireAt;
+  }
+  return null;
+}
+
+// Next time the trigger should fire strictly after `after`. Throws when the
+// trigger cannot be scheduled (bad expression, no location for sun triggers).
+export function nextFireTime(trigger: TriggerRecord, after: Date, location: SchedulerLocation | null): Date | null {
+  const offset = trigger.offset || 0;
+
+  switch (trigger.type) {
+    case 'time': {
+      const [hours, minutes] = (trigger.time || '').split(':').map(Number);
+      if (isNaN(hours) || isNaN(minutes)) {
+        throw new Error(`Invalid time "${trigger.time ?? ''}"`);
+      }
+      return firstAfter(after, 2, day => {
+        const at = new Date(day);
+        at.setHours(hours, minutes, 0, 0);
+        return at;
+      }, offset);
+    }
+
+    case 'cron': {
+      const next = nextCronTime(parseCron(trigger.cron || ''), new Date(after.getTime() - offset * 1000));
+      return next && new Date(next.getTime() + offset * 1000);
+    }
+
+    case 'sunrise_sunset': {
+      if (!location) {
+        throw new Error('Set a location in Settings to schedule sunrise/sunset triggers');
+      }
+      const event = trigger.state === 'sunset' ? 'sunset' : 'sunrise';
+      return firstAfter(after, SUN_SEARCH_DAYS, day => getSunTimes(day, location.latitude, location.longitude)[event], offset);
+    }
+
+    default:
+      return null;
+  }
+}
+
+function planEntry(entry: ScheduleEntry, after: Date, location: SchedulerLocation | null): void {
+  try {
+    entry.nextFireAt = nextFireTime(entry.trigger, after, location);
+    entry.error = null;
+  } catch (error) {
+    entry.nextFireAt = null;
+    entry.error = error instanceof Error ? error.message : String(error);
+  }
+}
+
+function scheduledTriggers(definitions: AutomationDefinition[]) {
+  return definitions.flatMap(definition => definition.triggers
+    .filter(isScheduledTrigger)
+    .map(trigger => ({ definition, trigger })));
+}
+
+// Next fire times of every scheduled trigger, soonest first. Computed from
+// the definitions rather than the running scheduler, so it also works
+// while the engine is stopped.
+export async function listScheduledTriggers(definitions: AutomationDefinition[], count = 1): Promise<{
+  location: SchedulerLocation | null;
+  triggers: ScheduleListing[];
+}> {
+  const location = await getSchedulerLocation();
+  const triggers = scheduledTriggers(definitions);
+  const stored = triggers.length > 0
+    ? await db.select().from(automationSchedules).where(inArray(automationSchedules.triggerId, triggers.map(({ trigger }) => trigger.id)))
+    : [];
+  const lastFired = new Map(stored.map(row => [row.triggerId, row.lastFiredAt]));
+
+  const now = new Date();
+  const listings = triggers.map(({ definition, trigger }) => {
+    const upcoming: string[] = [];
+    let error: string | null = null;
+
+    try {
+      let after = now;
+      while (upcoming.length < count) {
+        const next = nextFireTime(trigger, after, location);
+        if (!next) break;
+        upcoming.push(next.toISOString());
+        after = next;
+      }
+    } catch (scheduleError) {
+      error = scheduleError instanceof Error ? scheduleError.message : String(scheduleError);
+    }
+
+    return {
+      automationId: definition.id,
+      automationName: definition.name,
+      missedRunPolicy: definition.missedRunPolicy,
+      triggerId: trigger.id,
+      type: trigger.type,
+      time: trigger.time,
+      cron: trigger.cron,
+      event: trigger.type === 'sunrise_sunset' ? trigger.state || 'sunrise' : null,
+      offset: trigger.offset,
+      nextFireAt: upcoming[0] ?? null,
+      upcoming,
+      lastFiredAt: lastFired.get(trigger.id) ?? null,
+      error
+    };
+  });
+
+  listings.sort((a, b) => (a.nextFireAt ?? '\uffff').localeCompare(b.nextFireAt ?? '\uffff'));
+  return { location, triggers: listings };
+}
+
+// Owned by the automation engine, which hands it the loaded definitions on
+// every reload and receives the fires through the callback
+export class AutomationScheduler {
+  private entries = new Map<number, ScheduleEntry>();
+  private location: SchedulerLocation | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private active = false;
+  private ticking = false;
+
+  constructor(private readonly onFire: (fire: ScheduledFire) => void) {}
+
+  start(): void {
+    this.active = true;
+    this.arm();
+  }
+
+  stop(): void {
+    this.active = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Replace the scheduled triggers with those of `definitions`. Triggers the
+  // scheduler has not seen since starting resume from their stored fire time,
+  // so a run that fell due while the server was down is handled by the
+  // automation's missed run policy on the next tick.
+  async update(definitions: AutomationDefinition[]): Promise<void> {
+    const location = await getSchedulerLocation();
+    const locationChanged = location?.latitude !== this.location?.latitude || location?.longitude !== this.location?.longitude;
+    this.location = location;
+
+    const triggers = scheduledTriggers(definitions);
+    const ids = triggers.map(({ trigger }) => trigger.id);
+
+    // Forget triggers that were removed or whose automation was disabled, so
+    // enabling it again does not replay runs from before it was disabled
+    await db.delete(automationSchedules)
+      .where(ids.length > 0 ? notInArray(automationSchedules.triggerId, ids) : undefined);
+
+    const stored = ids.length > 0
+      ? await db.select().from(automationSchedules).where(inArray(automationSchedules.triggerId, ids))
+      : [];
+    const storedById = new Map(stored.map(row => [row.triggerId, row]));
+
+    const now = new Date();
+    const entries = new Map<number, ScheduleEntry>();
+    const changed: ScheduleEntry[] = [];
+
+    for (const { definition, trigger } of triggers) {
+      const previous = this.entries.get(trigger.id);
+      const row = storedById.get(trigger.id);
+
+      if (previous && previous.trigger.updatedAt === trigger.updatedAt && !(locationChanged && trigger.type === 'sunrise_sunset')) {
+        // Same object, so a tick in progress still advances this entry
+        previous.definition = definition;
+        previous.trigger = trigger;
+        entries.set(trigger.id, previous);
+        continue;
+      }
+
+      const entry: ScheduleEntry = { definition, trigger, nextFireAt: null, lastFiredAt: row?.lastFiredAt ?? null, error: null };
+
+      // A stored time is only trusted if the trigger has not been edited since
+      if (!previous && row?.nextFireAt && row.updatedAt >= trigger.updatedAt) {
+        entry.nextFireAt = new Date(row.nextFireAt);
+      } else {
+        planEntry(entry, now, location);
+        changed.push(entry);
+      }
+      entries.set(trigger.id, entry);
+    }
+
+    this.entries = entries;
+    await Promise.all(changed.map(entry => this.save(entry)));
+    this.arm();
+  }
+
+  getStatus() {
+    const pending = Array.from(this.entries.values()).filter(entry => entry.nextFireAt);
+    const next = pending.reduce<ScheduleEntry | null>((soonest, entry) =>
+      !soonest || entry.nextFireAt! < soonest.nextFireAt! ? entry : soonest, null);
+
+    return {
+      triggers: this.entries.size,
+      errors: Array.from(this.entries.values()).filter(entry => entry.error).length,
+      nextFireAt: next?.nextFireAt?.toISOString() ?? null,
+      location: this.location
+    };
+  }
+
+  private arm(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (!this.active) return;
+
+    const now = Date.now();
+    const soonest = Math.min(...Array.from(this.entries.values())
+      .filter(entry => entry.nextFireAt)
+      .map(entry => entry.nextFireAt!.getTime()));
+    const delay = Math.min(Math.max(soonest - now, 0), MAX_TIMER_MS);
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.tick().catch(error => console.error('Automation scheduler tick failed:', error));
+    }, delay);
+  }
+
+  private async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const now = new Date();
+      for (const entry of Array.from(this.entries.values())) {
+        if (!entry.nextFireAt || entry.nextFireAt > now) continue;
+
+        const scheduledFor = entry.nextFireAt;
+        const missed = now.getTime() - scheduledFor.getTime() > MISSED_GRACE_MS;
+
+        // Under the skip policy a missed run is dropped and only replanned
+        if (!missed || entry.definition.missedRunPolicy === 'catch_up') {
+          entry.lastFiredAt = now.toISOString();
+          this.onFire({ definition: entry.definition, trigger: entry.trigger, scheduledFor, missed });
+        }
+
+        // Planning from now rather than from scheduledFor is what collapses
+        // any number of missed occurrences into at most one run
+        planEntry(entry, now, this.location);
+        await this.save(entry);
+      }
+    } finally {
+      this.ticking = false;
+      this.arm();
+    }
+  }
+
+  private async save(entry: ScheduleEntry): Promise<void> {
+    const values = {
+      automationId: entry.definition.id,
+      nextFireAt: entry.nextFireAt?.toISOString() ?? null,
+      lastFiredAt: entry.lastFiredAt,
+      updatedAt: new Date().toISOString()
+    };
+
+    await db.insert(automationSchedules)
+      .values({ triggerId: entry.trigger.id, ...values })
+      .onConflictDoUpdate({ target: automationSchedules.triggerId, set: values });
+  }
+}
@@ -0,0 +1,501 @@
+// File path: src/lib/automation-service.ts
+
+import { db, type Database, type Transaction } from '@/db';
+import { automations, automationTriggers, automationConditions, automationActions } from '@/db/schema';
+import { eq, and, or, like, asc, desc, inArray, sql } from 'drizzle-orm';
+import { getAutomationEngine, loadAutomationDefinition, type AutomationDefinition, type AutomationRecord } from '@/lib/automation-engine';
+import { deleteAutomationRuns } from '@/lib/automation-runs';
+import type { AutomationGraphInput } from '@/lib/automation-ha-format';
+import {
+  AutomationApiError,
+  AUTOMATION_SOURCES,
+  normalizeTags,
+  validateAutomation,
+  validateTrigger,
+  validateCondition,
+  validateAction,
+  validateDefinition
+} from '@/lib/automation-validation';
+
+// Data access for the automation API. Route handlers parse the request, call
+// one of these and serialize the result; everything else (existence checks,
+// validation, cascading deletes, response shapes) lives here so every route
+// that touches automations behaves the same way. Every write reloads the
+// automation engine, so it never runs an edited, disabled or deleted
+// automation on its old definition.
+
+export type AutomationWithTags = Omit<AutomationRecord, 'tags'> & { tags: string[] };
+export type AutomationDetails = Omit<AutomationDefinition, 'tags'> & { tags: string[] };
+
+const SORT_COLUMNS = {
+  name: automations.name,
+  enabled: automations.enabled,
+  source: automations.source,
+  createdAt: automations.createdAt,
+  updatedAt: automations.updatedAt
+} as const;
+
+function withTags<T extends { tags: unknown }>(row: T): Omit<T, 'tags'> & { tags: string[] } {
+  return { ...row, tags: normalizeTags(row.tags) };
+}
+
+// Reloading can mean reconnecting to Home Assistant, so writes start it
+// without waiting: a save that succeeded never fails or stalls on it
+function reloadEngine(): void {
+  getAutomationEngine().reload().catch(error => console.error('Automation engine reload failed:', error));
+}
+
+async function requireAutomation(automationId: number): Promise<AutomationRecord> {
+  const [automation] = await db.select()
+    .from(automations)
+    .where(eq(automations.id, automationId))
+    .limit(1);
+
+  if (!automation) {
+    throw new AutomationApiError('Automation not found', 'AUTOMATION_NOT_FOUND', 404);
+  }
+  return automation;
+}
+
+async function requireUniqueName(name: string, excludeId?: number): Promise<void> {
+  const [existing] = await db.select({ id: automations.id })
+    .from(automations)
+    .where(eq(automations.name, name))
+    .limit(1);
+
+  if (existing && existing.id !== excludeId) {
+    throw new AutomationApiError('Automation name already exists', 'DUPLICATE_NAME', 409);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Automations
+// ---------------------------------------------------------------------------
+
+export async function listAutomations(query: {
+  limit?: string | null;
+  offset?: string | null;
+  search?: string | null;
+  enabled?: string | null;
+  source?: string | null;
+  sort?: string | null;
+  order?: string | null;
+}) {
+  const limit = Math.min(Math.max(parseInt(query.limit || '10') || 10, 1), 100);
+  const offset = Math.max(parseInt(query.offset || '0') || 0, 0);
+
+  const filters = [];
+  if (query.search) {
+    filters.push(or(like(automations.name, `%${query.search}%`), like(automations.description, `%${query.search}%`)));
+  }
+  if (query.enabled === 'true' || query.enabled === 'false') {
+    filters.push(eq(automations.enabled, query.enabled === 'true'));
+  }
+  if (query.source) {
+    if (!AUTOMATION_SOURCES.includes(query.source as typeof AUTOMATION_SOURCES[number])) {
+      throw new AutomationApiError("Source must be 'local' or 'ha'", 'INVALID_SOURCE');
+    }
+    filters.push(eq(automations.source, query.source));
+  }
+
+  const where = filters.length > 0 ? and(...filters) : undefined;
+  const sortColumn = SORT_COLUMNS[query.sort as keyof typeof SORT_COLUMNS] || automations.createdAt;
+
+  const [rows, [{ total }]] = await Promise.all([
+    db.select()
+      .from(automations)
+      .where(where)
+      .orderBy(query.order === 'asc' ? asc(sortColumn) : desc(sortColumn))
+      .limit(limit)
+      .offset(offset),
+    db.select({ total: sql<number>`count(*)` }).from(automations).where(where)
+  ]);
+
+  const ids = rows.map(row => row.id);
+  const countBy = async (table: typeof automationTriggers | typeof automationConditions | typeof automationActions) => {
+    if (ids.length === 0) return new Map<number, number>();
+    const counts = await db.select({ automationId: table.automationId, count: sql<number>`count(*)` })
+      .from(table)
+      .where(inArray(table.automationId, ids))
+      .groupBy(table.automationId);
+    return new Map(counts.map(row => [row.automationId!, Number(row.count)]));
+  };
+
+  const [triggerCounts, conditionCounts, actionCounts] = await Promise.all([
+    countBy(automationTriggers),
+    countBy(automationConditions),
+    countBy(automationActions)
+  ]);
+
+  return {
+    data: rows.map(row => ({
+      ...withTags(row),
+      triggerCount: triggerCounts.get(row.id) || 0,
+      conditionCount: conditionCounts.get(row.id) || 0,
+      actionCount: actionCounts.get(row.id) || 0
+    })),
+    pagination: { limit, offset, total: Number(total), hasMore: offset + limit < Number(total) }
+  };
+}
+
+export async function getAutomation(automationId: number): Promise<AutomationDetails> {
+  const definition = await loadAutomationDefinition(automationId);
+  if (!definition) {
+    throw new AutomationApiError('Automation not found', 'AUTOMATION_NOT_FOUND', 404);
+  }
+  return withTags(definition);
+}
+
+export async function createAutomation(body: Record<string, any>): Promise<AutomationDetails> {
+  const values = validateAutomation(body);
+  await requireUniqueName(values.name!);
+
+  const now = new Date().toISOString();
+  const [created] = await db.insert(automations).values({
+    ...values,
+    name: values.name!,
+    createdAt: now,
+    updatedAt: now
+  }).returning();
+
+  reloadEngine();
+  return { ...withTags(created), triggers: [], conditions: [], actions: [] };
+}
+
+export async function updateAutomation(automationId: number, body: Record<string, any>): Promise<AutomationWithTags> {
+  await requireAutomation(automationId);
+
+  const values = validateAutomation(body, { partial: true });
+  if (values.name) await requireUniqueName(values.name, automationId);
+
+  const [updated] = await db.update(automations)
+    .set({ ...values, updatedAt: new Date().toISOString() })
+    .where(eq(automations.id, automationId))
+    .returning();
+
+  reloadEngine();
+  return withTags(updated);
+}
+
+export async function deleteAutomation(automationId: number): Promise<AutomationWithTags> {
+  await requireAutomation(automationId);
+
+  const deleted = await db.transaction(async (tx) => {
+    await deleteAutomationRuns(automationId, tx);
+    await tx.delete(automationTriggers).where(eq(automationTriggers.automationId, automationId));
+    await tx.delete(automationConditions).where(eq(automationConditions.automationId, automationId));
+    await tx.delete(automationActions).where(eq(automationActions.automationId, automationId));
+
+    const [row] = await tx.delete(automations)
+      .where(eq(automations.id, automationId))
+      .returning();
+    return row;
+  });
+
+  reloadEngine();
+  return withTags(deleted);
+}
+
+// Delete and re-insert an automation's triggers, conditions and actions. Pass
+// a transaction to make the replacement part of a larger atomic write.
+export async function replaceAutomationChildren(
+  automationId: number,
+  graph: Pick<AutomationGraphInput, 'triggers' | 'conditions' | 'actions'>,
+  now: string,
+  executor: Database | Transaction = db
+): Promise<void> {
+  await executor.delete(automationTriggers).where(eq(automationTriggers.automationId, automationId));
+  await executor.delete(automationConditions).where(eq(automationConditions.automationId, automationId));
+  await executor.delete(automationActions).where(eq(automationActions.automationId, automationId));
+
+  const stamp = { automationId, createdAt: now, updatedAt: now };
+  if (graph.triggers.length > 0) {
+    await executor.insert(automationTriggers).values(graph.triggers.map(trigger => ({ ...trigger, ...stamp })));
+  }
+  if (graph.conditions.length > 0) {
+    await executor.insert(automationConditions).values(graph.conditions.map(condition => ({ ...condition, ...stamp })));
+  }
+  if (graph.actions.length > 0) {
+    await executor.insert(automationActions).values(graph.actions.map(action => ({ ...action, ...stamp })));
+  }
+}
+
+// Save an automation together with its full set of triggers, conditions and
+// actions. Everything is written in one transaction: a failure part way
+// through rolls back to the previously stored graph.
+export async function saveAutomationDefinition(automationId: number, body: unknown): Promise<AutomationDetails> {
+  await requireAutomation(automationId);
+
+  const definition = validateDefinition(body);
+  if (definition.automation.name) await requireUniqueName(definition.automation.name, automationId);
+
+  const now = new Date().toISOString();
+  await db.transaction(async (tx) => {
+    await tx.update(automations)
+      .set({ ...definition.automation, updatedAt: now })
+      .where(eq(automations.id, automationId));
+    await replaceAutomationChildren(automationId, definition, now, tx);
+  });
+
+  reloadEngine();
+  return getAutomation(automationId);
+}
+
+export async function toggleAutomation(automationId: number) {
+  const automation = await requireAutomation(automationId);
+  const previousEnabled = automation.enabled ?? false;
+
+  await db.update(automations)
+    .set({ enabled: !previousEnabled, updatedAt: new Date().toISOString() })
+    .where(eq(automations.id, automationId));
+  reloadEngine();
+
+  return {
+    message: `Automation ${previousEnabled ? 'disabled' : 'enabled'} successfully`,
+    previousEnabled,
+    newEnabled: !previousEnabled,
+    automation: await getAutomation(automationId)
+  };
+}
+
+// Copies are created disabled and local: they are not linked to anything in
+// Home Assistant until pushed there
+export async function duplicateAutomation(automationId: number): Promise<AutomationDetails> {
+  const source = await getAutomation(automationId);
+
+  const existingNames = new Set((await db.select({ name: automations.name })
+    .from(automations)
+    .where(like(automations.name, `${source.name} (Copy%`))).map(row => row.name));
+
+  let name = `${source.name} (Copy)`;
+  for (let copy = 2; existingNames.has(name); copy++) {
+    name = `${source.name} (Copy ${copy})`;
+  }
+
+  const strip = <T extends { id: number; automationId: number | null; createdAt: string; updatedAt: string }>(
+    { id, automationId, createdAt, updatedAt, ...rest }: T
+  ) => rest;
+
+  const now = new Date().toISOString();
+  const created = await db.transaction(async (tx) => {
+    const [row] = await tx.insert(automations).values({
+      name,
+      description: source.description,
+      enabled: false,
+      source: 'local',
+      tags: source.tags.length > 0 ? source.tags : null,
+      variables: source.variables,
+      missedRunPolicy: source.missedRunPolicy,
+      lastRun: null,
+      createdAt: now,
+      updatedAt: now
+    }).returning();
+
+    await replaceAutomationChildren(row.id, {
+      triggers: source.triggers.map(strip),
+      conditions: source.conditions.map(strip),
+      actions: source.actions.map(strip)
+    }, now, tx);
+    return row;
+  });
+
+  reloadEngine();
+  return getAutomation(created.id);
+}
+
+// ---------------------------------------------------------------------------
+// Triggers
+// ---------------------------------------------------------------------------
+
+export async function listTriggers(automationId: number) {
+  await requireAutomation(automationId);
+  return db.select()
+    .from(automationTriggers)
+    .where(eq(automationTriggers.automationId, automationId))
+    .orderBy(asc(automationTriggers.id));
+}
+
+export async function createTrigger(automationId: number, body: Record<string, any>) {
+  await requireAutomation(automationId);
+  const values = validateTrigger(body);
+
+  const now = new Date().toISOString();
+  const [created] = await db.insert(automationTriggers).values({
+    ...values,
+    type: values.type!,
+    automationId,
+    createdAt: now,
+    updatedAt: now
+  }).returning();
+
+  reloadEngine();
+  return created;
+}
+
+async function requireTrigger(automationId: number, triggerId: number) {
+  await requireAutomation(automationId);
+  const [trigger] = await db.select()
+    .from(automationTriggers)
+    .where(and(eq(automationTriggers.id, triggerId), eq(automationTriggers.automationId, automationId)))
+    .limit(1);
+
+  if (!trigger) {
+    throw new AutomationApiError('Trigger not found or does not belong to automation', 'TRIGGER_NOT_FOUND', 404);
+  }
+  return trigger;
+}
+
+export async function updateTrigger(automationId: number, triggerId: number, body: Record<string, any>) {
+  const existing = await requireTrigger(automationId, triggerId);
+  const values = validateTrigger(body, existing);
+
+  const [updated] = await db.update(automationTriggers)
+    .set({ ...values, updatedAt: new Date().toISOString() })
+    .where(eq(automationTriggers.id, triggerId))
+    .returning();
+
+  reloadEngine();
+  return updated;
+}
+
+export async function deleteTrigger(automationId: number, triggerId: number) {
+  await requireTrigger(automationId, triggerId);
+  const [deleted] = await db.delete(automationTriggers)
+    .where(eq(automationTriggers.id, triggerId))
+    .returning();
+
+  reloadEngine();
+  return deleted;
+}
+
+// ---------------------------------------------------------------------------
+// Conditions
+// ---------------------------------------------------------------------------
+
+export async function listConditions(automationId: number) {
+  await requireAutomation(automationId);
+  return db.select()
+    .from(automationConditions)
+    .where(eq(automationConditions.automationId, automationId))
+    .orderBy(asc(automationConditions.id));
+}
+
+export async function createCondition(automationId: number, body: Record<string, any>) {
+  await requireAutomation(automationId);
+  const values = validateCondition(body);
+
+  const now = new Date().toISOString();
+  const [created] = await db.insert(automationConditions).values({
+    ...values,
+    type: values.type!,
+    operator: values.operator!,
+    value: values.value!,
+    automationId,
+    createdAt: now,
+    updatedAt: now
+  }).returning();
+
+  reloadEngine();
+  return created;
+}
+
+async function requireCondition(automationId: number, conditionId: number) {
+  await requireAutomation(automationId);
+  const [condition] = await db.select()
+    .from(automationConditions)
+    .where(and(eq(automationConditions.id, conditionId), eq(automationConditions.automationId, automationId)))
+    .limit(1);
+
+  if (!condition) {
+    throw new AutomationApiError('Condition not found or does not belong to automation', 'CONDITION_NOT_FOUND', 404);
+  }
+  return condition;
+}
+
+export async function updateCondition(automationId: number, conditionId: number, body: Record<string, any>) {
+  const existing = await requireCondition(automationId, conditionId);
+  const values = validateCondition(body, existing);
+
+  const [updated] = await db.update(automationConditions)
+    .set({ ...values, updatedAt: new Date().toISOString() })
+    .where(eq(automationConditions.id, conditionId))
+    .returning();
+
+  reloadEngine();
+  return updated;
+}
+
+export async function deleteCondition(automationId: number, conditionId: number) {
+  await requireCondition(automationId, conditionId);
+  const [deleted] = await db.delete(automationConditions)
+    .where(eq(automationConditions.id, conditionId))
+    .returning();
+
+  reloadEngine();
+  return deleted;
+}
+
+// ---------------------------------------------------------------------------
+// Actions
+// ---------------------------------------------------------------------------
+
+export async function listActions(automationId: number) {
+  await requireAutomation(automationId);
+  return db.select()
+    .from(automationActions)
+    .where(eq(automationActions.automationId, automationId))
+    .orderBy(asc(automationActions.id));
+}
+
+export async function createAction(automationId: number, body: Record<string, any>) {
+  await requireAutomation(automationId);
+  const values = validateAction(body);
+
+  const now = new Date().toISOString();
+  const [created] = await db.insert(automationActions).values({
+    ...values,
+    type: values.type!,
+    automationId,
+    createdAt: now,
+    updatedAt: now
+  }).returning();
+
+  reloadEngine();
+  return created;
+}
+
+async function requireAction(automationId: number, actionId: number) {
+  await requireAutomation(automationId);
+  const [action] = await db.select()
+    .from(automationActions)
+    .where(and(eq(automationActions.id, actionId), eq(automationActions.automationId, automationId)))
+    .limit(1);
+
+  if (!action) {
+    throw new AutomationApiError('Action not found or does not belong to automation', 'ACTION_NOT_FOUND', 404);
+  }
+  return action;
+}
+
+export async function updateAction(automationId: number, actionId: number, body: Record<string, any>) {
+  const existing = await requireAction(automationId, actionId);
+  const values = validateAction(body, existing);
+
+  const [updated] = await db.update(automationActions)
+    .set({ ...values, updatedAt: new Date().toISOString() })
+    .where(eq(automationActions.id, actionId))
+    .returning();
+
+  reloadEngine();
+  return updated;
+}
+
+export async function deleteAction(automationId: number, actionId: number) {
+  await requireAction(automationId, actionId);
+  const [deleted] = await db.delete(automationActions)
+    .where(eq(automationActions.id, actionId))
+    .returning();
+
+  reloadEngine();
+  return deleted;
+}
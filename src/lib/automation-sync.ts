@@ -0,0 +1,300 @@
+// File path: src/lib/automation-sync.ts
+
+import { createHash } from 'crypto';
+import { db } from '@/db';
+import { automations } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import type { HomeAssistantAPI } from '@/lib/homeassistant';
+import { loadAutomationDefinitions, type AutomationDefinition } from '@/lib/automation-engine';
+import { replaceAutomationChildren } from '@/lib/automation-service';
+import {
+  fromHomeAssistantConfig,
+  toHomeAssistantConfig,
+  type AutomationGraphInput,
+  type HAAutomationConfig,
+  type TranslationIssue
+} from '@/lib/automation-ha-format';
+
+// Two-way sync between our automation tables and the automations managed by
+// Home Assistant's automation editor. A synced automation remembers the HA id,
+// when it was last synced and a hash of the HA config at that moment:
+//   - local changed:  any row of the automation was updated after lastSyncedAt
+//   - remote changed: the hash of HA's current config differs from haConfigHash
+// When both changed the automation is in conflict and nothing is overwritten
+// unless the caller forces it. Synced automations are marked source 'ha', so
+// HA runs them and the local engine leaves them alone.
+
+export type SyncStatus = 'in_sync' | 'local_changed' | 'remote_changed' | 'conflict' | 'ha_only' | 'local_only';
+
+export interface RemoteAutomation {
+  haAutomationId: string;
+  entityId: string;
+  alias: string;
+  config: HAAutomationConfig;
+}
+
+export interface SyncStatusEntry {
+  automationId: number | null;
+  haAutomationId: string | null;
+  entityId: string | null;
+  name: string;
+  status: SyncStatus;
+  lastSyncedAt: string | null;
+  localUpdatedAt: string | null;
+}
+
+export interface ImportResult {
+  imported: { automationId: number; haAutomationId: string; name: string }[];
+  updated: { automationId: number; haAutomationId: string; name: string }[];
+  skipped: { automationId: number; haAutomationId: string; name: string; status: SyncStatus }[];
+  issues: { haAutomationId: string; issues: TranslationIssue[] }[];
+}
+
+export type ExportResult =
+  | { status: 'exported'; haAutomationId: string; syncedAt: string }
+  | { status: 'conflict'; haAutomationId: string; syncStatus: SyncStatus }
+  | { status: 'unsupported'; issues: TranslationIssue[] };
+
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort()
+      .filter(key => value[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// Hash the config after a round trip through our format, so cosmetic
+// differences (plural keys, entity lists, key order) don't count as changes
+export function hashAutomationConfig(config: HAAutomationConfig): string {
+  const { automation } = fromHomeAssistantConfig(config);
+  const { config: normalized } = toHomeAssistantConfig(automation);
+  return createHash('sha256').update(stableStringify(normalized)).digest('hex');
+}
+
+function toGraph(definition: AutomationDefinition): AutomationGraphInput {
+  return {
+    name: definition.name,
+    description: definition.description,
+    variables: definition.variables,
+    triggers: definition.triggers,
+    conditions: definition.conditions,
+    actions: definition.actions
+  };
+}
+
+// Latest change to the automation or any of its triggers/conditions/actions
+function localUpdatedAt(definition: AutomationDefinition): string {
+  return [definition, ...definition.triggers, ...definition.conditions, ...definition.actions]
+    .map(row => row.updatedAt)
+    .reduce((latest, updatedAt) => (updatedAt > latest ? updatedAt : latest), definition.updatedAt);
+}
+
+function computeStatus(definition: AutomationDefinition, remote: RemoteAutomation | undefined): SyncStatus {
+  if (!remote) return 'local_only';
+  if (!definition.lastSyncedAt) return 'conflict';
+
+  const localChanged = localUpdatedAt(definition) > definition.lastSyncedAt;
+  const remoteChanged = hashAutomationConfig(remote.config) !== definition.haConfigHash;
+
+  if (localChanged && remoteChanged) return 'conflict';
+  if (localChanged) return 'local_changed';
+  if (remoteChanged) return 'remote_changed';
+  return 'in_sync';
+}
+
+// Editor-managed HA automations expose their config id as the `id` attribute
+// of the automation.* entity; YAML-only automations have no id and are skipped.
+export async function listHomeAssistantAutomations(ha: HomeAssistantAPI): Promise<RemoteAutomation[]> {
+  const states = await ha.getStates();
+  const entities = states.filter(entity =>
+    entity.entity_id.startsWith('automation.') && entity.attributes?.id !== undefined);
+
+  const remotes: RemoteAutomation[] = [];
+  for (const entity of entities) {
+    const haAutomationId = String(entity.attributes.id);
+    const config = await ha.getAutomationConfig(haAutomationId);
+    if (!config) continue;
+
+    remotes.push({
+      haAutomationId,
+      entityId: entity.entity_id,
+      alias: config.alias || entity.attributes.friendly_name || haAutomationId,
+      config
+    });
+  }
+
+  return remotes;
+}
+
+export async function getSyncStatus(ha: HomeAssistantAPI): Promise<SyncStatusEntry[]> {
+  const [remotes, definitions] = await Promise.all([
+    listHomeAssistantAutomations(ha),
+    loadAutomationDefinitions()
+  ]);
+
+  const remoteById = new Map(remotes.map(remote => [remote.haAutomationId, remote]));
+  const linked = new Set<string>();
+
+  const entries: SyncStatusEntry[] = definitions.map(definition => {
+    const remote = definition.haAutomationId ? remoteById.get(definition.haAutomationId) : undefined;
+    if (remote) linked.add(remote.haAutomationId);
+
+    return {
+      automationId: definition.id,
+      haAutomationId: definition.haAutomationId,
+      entityId: remote?.entityId ?? null,
+      name: definition.name,
+      status: computeStatus(definition, remote),
+      lastSyncedAt: definition.lastSyncedAt,
+      localUpdatedAt: localUpdatedAt(definition)
+    };
+  });
+
+  for (const remote of remotes) {
+    if (linked.has(remote.haAutomationId)) continue;
+    entries.push({
+      automationId: null,
+      haAutomationId: remote.haAutomationId,
+      entityId: remote.entityId,
+      name: remote.alias,
+      status: 'ha_only',
+      lastSyncedAt: null,
+      localUpdatedAt: null
+    });
+  }
+
+  return entries;
+}
+
+export function uniqueName(name: string, taken: Set<string>): string {
+  if (!taken.has(name)) return name;
+  let suffix = 2;
+  while (taken.has(`${name} (${suffix})`)) suffix++;
+  return `${name} (${suffix})`;
+}
+
+// Pull HA automations into local tables. New ones are created, linked ones are
+// replaced when only HA changed; local edits and conflicts are left alone
+// unless `force` is set.
+export async function importFromHomeAssistant(ha: HomeAssistantAPI, options: {
+  haAutomationIds?: string[];
+  force?: boolean;
+} = {}): Promise<ImportResult> {
+  const [remotes, definitions] = await Promise.all([
+    listHomeAssistantAutomations(ha),
+    loadAutomationDefinitions()
+  ]);
+
+  const byHaId = new Map(definitions
+    .filter(definition => definition.haAutomationId)
+    .map(definition => [definition.haAutomationId!, definition]));
+  const takenNames = new Set(definitions.map(definition => definition.name));
+
+  const result: ImportResult = { imported: [], updated: [], skipped: [], issues: [] };
+  const selected = options.haAutomationIds
+    ? remotes.filter(remote => options.haAutomationIds!.includes(remote.haAutomationId))
+    : remotes;
+
+  for (const remote of selected) {
+    const { automation: graph, issues } = fromHomeAssistantConfig(remote.config);
+    if (issues.length > 0) {
+      result.issues.push({ haAutomationId: remote.haAutomationId, issues });
+    }
+
+    const now = new Date().toISOString();
+    const syncFields = {
+      source: 'ha',
+      haAutomationId: remote.haAutomationId,
+      lastSyncedAt: now,
+      haConfigHash: hashAutomationConfig(remote.config),
+      updatedAt: now
+    };
+
+    const existing = byHaId.get(remote.haAutomationId);
+    if (!existing) {
+      const name = uniqueName(graph.name, takenNames);
+      takenNames.add(name);
+
+      const created = await db.transaction(async (tx) => {
+        const [row] = await tx.insert(automations).values({
+          name,
+          description: graph.description,
+          variables: graph.variables ?? null,
+          enabled: true,
+          ...syncFields,
+          createdAt: now
+        }).returning();
+
+        await replaceAutomationChildren(row.id, graph, now, tx);
+        return row;
+      });
+      result.imported.push({ automationId: created.id, haAutomationId: remote.haAutomationId, name });
+      continue;
+    }
+
+    const status = computeStatus(existing, remote);
+    if (status === 'in_sync' || (!options.force && status !== 'remote_changed')) {
+      result.skipped.push({ automationId: existing.id, haAutomationId: remote.haAutomationId, name: existing.name, status });
+      continue;
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.update(automations)
+        .set({ name: graph.name, description: graph.description, variables: graph.variables ?? null, ...syncFields })
+        .where(eq(automations.id, existing.id));
+      await replaceAutomationChildren(existing.id, graph, now, tx);
+    });
+    result.updated.push({ automationId: existing.id, haAutomationId: remote.haAutomationId, name: graph.name });
+  }
+
+  return result;
+}
+
+// Push a local automation to HA, creating it there on first export. Refuses
+// when HA's copy changed since the last sync (unless forced) or when the
+// automation uses something HA cannot express.
+export async function exportToHomeAssistant(ha: HomeAssistantAPI, automationId: number, options: {
+  force?: boolean;
+} = {}): Promise<ExportResult | null> {
+  const [definition] = await loadAutomationDefinitions({ ids: [automationId] });
+  if (!definition) return null;
+
+  const haAutomationId = definition.haAutomationId || String(Date.now());
+  const { config, issues } = toHomeAssistantConfig(toGraph(definition), haAutomationId);
+  if (issues.length > 0) {
+    return { status: 'unsupported', issues };
+  }
+
+  if (definition.haAutomationId && !options.force) {
+    const remoteConfig = await ha.getAutomationConfig(definition.haAutomationId);
+    if (remoteConfig) {
+      const syncStatus = computeStatus(definition, {
+        haAutomationId: definition.haAutomationId,
+        entityId: '',
+        alias: remoteConfig.alias || '',
+        config: remoteConfig
+      });
+      if (syncStatus === 'conflict' || syncStatus === 'remote_changed') {
+        return { status: 'conflict', haAutomationId: definition.haAutomationId, syncStatus };
+      }
+    }
+  }
+
+  await ha.saveAutomationConfig(haAutomationId, config);
+
+  const syncedAt = new Date().toISOString();
+  await db.update(automations)
+    .set({
+      source: 'ha',
+      haAutomationId,
+      lastSyncedAt: syncedAt,
+      haConfigHash: hashAutomationConfig(config),
+      updatedAt: syncedAt
+    })
+    .where(eq(automations.id, automationId));
+
+  return { status: 'exported', haAutomationId, syncedAt };
+}
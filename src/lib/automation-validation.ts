@@ -0,0 +1,433 @@
+// File path: src/lib/automation-validation.ts
+
+import { automations, automationTriggers, automationConditions, automationActions } from '@/db/schema';
+import type { ActionInput, ConditionInput, TriggerInput } from '@/lib/automation-ha-format';
+import { parseCron, CronParseError } from '@/lib/cron';
+import { isValidTopicFilter, isValidTopicName, parsePayloadMatcher, PayloadMatchError } from '@/lib/mqtt-matching';
+import { findTemplates, isTemplate, validateTemplate, TemplateSyntaxError } from '@/lib/template';
+
+// Request validation shared by every automation route. Validators take the
+// raw request body (plus the stored row when updating) and return the column
+// values to write, or throw an AutomationApiError carrying the HTTP status and
+// the error code the route should respond with.
+
+export const AUTOMATION_SOURCES = ['local', 'ha'] as const;
+export const TRIGGER_TYPES = ['entity_state', 'time', 'cron', 'sunrise_sunset', 'mqtt', 'zwave'] as const;
+export const CONDITION_TYPES = ['entity_state', 'numeric', 'time'] as const;
+export const CONDITION_OPERATORS = ['equals', 'not_equals', 'greater', 'less', 'greater_equal', 'less_equal'] as const;
+export const LOGICAL_OPERATORS = ['and', 'or'] as const;
+export const ACTION_TYPES = ['service_call', 'mqtt', 'scene', 'local_device'] as const;
+export const MISSED_RUN_POLICIES = ['skip', 'catch_up'] as const;
+export const MQTT_QOS_LEVELS = [0, 1, 2] as const;
+
+export const TIME_FORMAT_REGEX = /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/;
+const SERVICE_FORMAT_REGEX = /^[a-z0-9_]+\.[a-z0-9_]+$/;
+
+// Sun offsets are stored in seconds, so a full day either way
+const MAX_OFFSET_SECONDS = 86400;
+
+const VARIABLE_NAME_REGEX = /^[A-Za-z_][A-Za-z0-9_]*$/;
+// Names the engine provides to every template
+const RESERVED_VARIABLES = ['trigger'];
+
+export class AutomationApiError extends Error {
+  constructor(message: string, public readonly code: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'AutomationApiError';
+  }
+}
+
+type AutomationValues = Partial<typeof automations.$inferInsert>;
+type TriggerValues = Partial<typeof automationTriggers.$inferInsert>;
+type ConditionValues = Partial<typeof automationConditions.$inferInsert>;
+type ActionValues = Partial<typeof automationActions.$inferInsert>;
+
+export function parseId(value: string | null | undefined, code = 'INVALID_ID', label = 'automation'): number {
+  const id = value ? parseInt(value) : NaN;
+  if (isNaN(id) || id <= 0) {
+    throw new AutomationApiError(`Valid ${label} ID is required`, code);
+  }
+  return id;
+}
+
+// Accepts null/undefined as "not set"; anything else must be a string
+function optionalString(body: Record<string, any>, key: string, maxLength = 255): string | null | undefined {
+  if (!(key in body)) return undefined;
+  const value = body[key];
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    throw new AutomationApiError(`${key} must be a string`, `INVALID_${toCode(key)}`);
+  }
+  const trimmed = String(value).trim();
+  if (trimmed.length > maxLength) {
+    throw new AutomationApiError(`${key} must be ${maxLength} characters or less`, `INVALID_${toCode(key)}`);
+  }
+  return trimmed || null;
+}
+
+function toCode(key: string): string {
+  return key.replace(/([a-z])([A-Z])/g, '$1_$2').toUpperCase();
+}
+
+function oneOf<T extends readonly string[]>(value: unknown, allowed: T, label: string, code: string): T[number] {
+  if (typeof value !== 'string' || !allowed.includes(value)) {
+    throw new AutomationApiError(`Invalid ${label}. Must be one of: ${allowed.join(', ')}`, code);
+  }
+  return value;
+}
+
+function requireField(value: unknown, message: string, code: string): void {
+  if (value === null || value === undefined || value === '') {
+    throw new AutomationApiError(message, code);
+  }
+}
+
+// Check the syntax of every template inside `value`; `label` names the field
+function checkTemplates(value: unknown, label: string): void {
+  for (const { path, template } of findTemplates(value)) {
+    try {
+      validateTemplate(template);
+    } catch (error) {
+      if (error instanceof TemplateSyntaxError) {
+        throw new AutomationApiError(`Invalid template in ${path ? `${label}.${path}` : label}: ${error.message}`, 'INVALID_TEMPLATE');
+      }
+      throw error;
+    }
+  }
+}
+
+// Tags were stored double-encoded by one of the old route trees
+export function normalizeTags(tags: unknown): string[] {
+  if (typeof tags === 'string') {
+    try {
+      return normalizeTags(JSON.parse(tags));
+    } catch {
+      return [];
+    }
+  }
+  return Array.isArray(tags) ? tags.filter(tag => typeof tag === 'string') : [];
+}
+
+export function validateAutomation(body: Record<string, any>, options: { partial?: boolean } = {}): AutomationValues {
+  const values: AutomationValues = {};
+
+  if (!options.partial || 'name' in body) {
+    if (typeof body.name !== 'string' || body.name.trim().length === 0) {
+      throw new AutomationApiError('Name is required and must be a non-empty string', 'MISSING_NAME');
+    }
+    if (body.name.trim().length > 255) {
+      throw new AutomationApiError('Name must be 255 characters or less', 'NAME_TOO_LONG');
+    }
+    values.name = body.name.trim();
+  }
+
+  const description = optionalString(body, 'description', 1000);
+  if (description !== undefined) values.description = description;
+
+  if ('enabled' in body) {
+    if (typeof body.enabled !== 'boolean') {
+      throw new AutomationApiError('Enabled must be a boolean', 'INVALID_ENABLED');
+    }
+    values.enabled = body.enabled;
+  } else if (!options.partial) {
+    values.enabled = true;
+  }
+
+  if ('source' in body) {
+    values.source = oneOf(body.source, AUTOMATION_SOURCES, 'source', 'INVALID_SOURCE');
+  } else if (!options.partial) {
+    values.source = 'local';
+  }
+
+  if ('missedRunPolicy' in body) {
+    values.missedRunPolicy = oneOf(body.missedRunPolicy, MISSED_RUN_POLICIES, 'missed run policy', 'INVALID_MISSED_RUN_POLICY');
+  }
+
+  if ('variables' in body) {
+    const variables = body.variables;
+    if (variables !== null && (typeof variables !== 'object' || Array.isArray(variables))) {
+      throw new AutomationApiError('Variables must be an object of names to values', 'INVALID_VARIABLES');
+    }
+    for (const name of Object.keys(variables || {})) {
+      if (!VARIABLE_NAME_REGEX.test(name) || RESERVED_VARIABLES.includes(name)) {
+        throw new AutomationApiError(`Invalid variable name "${name}"`, 'INVALID_VARIABLES');
+      }
+    }
+    checkTemplates(variables, 'variables');
+    values.variables = variables && Object.keys(variables).length > 0 ? variables : null;
+  }
+
+  if ('tags' in body) {
+    if (body.tags !== null && (!Array.isArray(body.tags) || !body.tags.every((tag: unknown) => typeof tag === 'string'))) {
+      throw new AutomationApiError('Tags must be an array of strings', 'INVALID_TAGS');
+    }
+    values.tags = body.tags && body.tags.length > 0 ? body.tags : null;
+  }
+
+  if ('lastRun' in body) {
+    if (body.lastRun !== null && (typeof body.lastRun !== 'string' || isNaN(Date.parse(body.lastRun)))) {
+      throw new AutomationApiError('Last run must be a valid ISO timestamp string', 'INVALID_LAST_RUN');
+    }
+    values.lastRun = body.lastRun;
+  }
+
+  return values;
+}
+
+// Validate a trigger body. When updating, pass the stored trigger: only the
+// fields in the body are returned, but the merged result must still be valid.
+export function validateTrigger(body: Record<string, any>, existing?: typeof automationTriggers.$inferSelect): TriggerValues {
+  const values: TriggerValues = {};
+
+  if ('type' in body || !existing) {
+    requireField(body.type, 'Trigger type is required', 'MISSING_TYPE');
+    values.type = oneOf(body.type, TRIGGER_TYPES, 'trigger type', 'INVALID_TRIGGER_TYPE');
+  }
+
+  for (const key of ['entityId', 'attribute', 'state', 'time', 'cron', 'topic'] as const) {
+    const value = optionalString(body, key);
+    if (value !== undefined) values[key] = value;
+  }
+
+  const payload = optionalString(body, 'payload', 10000);
+  if (payload !== undefined) values.payload = payload;
+
+  if ('offset' in body) {
+    if (body.offset === null || body.offset === '') {
+      values.offset = null;
+    } else {
+      const offset = Number(body.offset);
+      if (!Number.isInteger(offset) || Math.abs(offset) > MAX_OFFSET_SECONDS) {
+        throw new AutomationApiError(`Offset must be a whole number of seconds between -${MAX_OFFSET_SECONDS} and ${MAX_OFFSET_SECONDS}`, 'INVALID_OFFSET');
+      }
+      values.offset = offset;
+    }
+  }
+
+  const merged = { ...existing, ...values };
+
+  switch (merged.type) {
+    case 'entity_state':
+    case 'zwave':
+      requireField(merged.entityId, `Entity ID is required for ${merged.type} triggers`, 'MISSING_ENTITY_ID');
+      break;
+    case 'time':
+      requireField(merged.time, 'Time is required for time triggers', 'MISSING_TIME');
+      if (!TIME_FORMAT_REGEX.test(merged.time!)) {
+        throw new AutomationApiError('Time must be in HH:MM format (24-hour)', 'INVALID_TIME_FORMAT');
+      }
+      break;
+    case 'cron':
+      requireField(merged.cron, 'Cron expression is required for cron triggers', 'MISSING_CRON');
+      try {
+        parseCron(merged.cron!);
+      } catch (error) {
+        if (error instanceof CronParseError) {
+          throw new AutomationApiError(`Invalid cron expression: ${error.message}`, 'INVALID_CRON');
+        }
+        throw error;
+      }
+      break;
+    case 'sunrise_sunset':
+      if (merged.state && merged.state !== 'sunrise' && merged.state !== 'sunset') {
+        throw new AutomationApiError("State must be 'sunrise' or 'sunset' for sunrise_sunset triggers", 'INVALID_SUN_EVENT');
+      }
+      if (!existing && values.offset === undefined) values.offset = 0;
+      break;
+    case 'mqtt':
+      requireField(merged.topic, 'Topic is required for MQTT triggers', 'MISSING_TOPIC');
+      if (!isValidTopicFilter(merged.topic!)) {
+        throw new AutomationApiError('Topic must be a valid MQTT topic filter ("+" and "#" only as whole levels, "#" last)', 'INVALID_TOPIC');
+      }
+      if (merged.payload?.startsWith('$')) {
+        try {
+          parsePayloadMatcher(merged.payload);
+        } catch (error) {
+          if (error instanceof PayloadMatchError) {
+            throw new AutomationApiError(`Invalid payload match: ${error.message}`, 'INVALID_PAYLOAD_MATCH');
+          }
+          throw error;
+        }
+      }
+      break;
+  }
+
+  return values;
+}
+
+export function validateCondition(body: Record<string, any>, existing?: typeof automationConditions.$inferSelect): ConditionValues {
+  const values: ConditionValues = {};
+
+  if ('type' in body || !existing) {
+    requireField(body.type, 'Condition type is required', 'MISSING_TYPE');
+    values.type = oneOf(body.type, CONDITION_TYPES, 'condition type', 'INVALID_TYPE');
+  }
+
+  if ('operator' in body || !existing) {
+    requireField(body.operator, 'Operator is required', 'MISSING_OPERATOR');
+    values.operator = oneOf(body.operator, CONDITION_OPERATORS, 'operator', 'INVALID_OPERATOR');
+  }
+
+  if ('value' in body || !existing) {
+    requireField(body.value, 'Value is required', 'MISSING_VALUE');
+    values.value = String(body.value).trim();
+  }
+
+  if ('logicalOperator' in body && body.logicalOperator !== null && body.logicalOperator !== undefined) {
+    values.logicalOperator = oneOf(body.logicalOperator, LOGICAL_OPERATORS, 'logical operator', 'INVALID_LOGICAL_OPERATOR');
+  } else if (!existing) {
+    values.logicalOperator = 'and';
+  }
+
+  for (const key of ['entityId', 'attribute'] as const) {
+    const value = optionalString(body, key);
+    if (value !== undefined) values[key] = value;
+  }
+
+  const merged = { ...existing, ...values };
+
+  if ((merged.type === 'entity_state' || merged.type === 'numeric') && !merged.entityId) {
+    throw new AutomationApiError('Entity ID is required for entity_state and numeric conditions', 'MISSING_ENTITY_ID');
+  }
+
+  // A templated value is checked for syntax here and for type when it renders
+  if (isTemplate(merged.value)) {
+    checkTemplates(merged.value, 'value');
+    return values;
+  }
+
+  if (merged.type === 'numeric' && isNaN(Number(merged.value))) {
+    throw new AutomationApiError('Value must be a number for numeric conditions', 'INVALID_VALUE');
+  }
+
+  if (merged.type === 'time' && !TIME_FORMAT_REGEX.test(merged.value!)) {
+    throw new AutomationApiError('Value must be in HH:MM format (24-hour) for time conditions', 'INVALID_TIME_FORMAT');
+  }
+
+  return values;
+}
+
+export function validateAction(body: Record<string, any>, existing?: typeof automationActions.$inferSelect): ActionValues {
+  const values: ActionValues = {};
+
+  if ('type' in body || !existing) {
+    requireField(body.type, 'Action type is required', 'MISSING_TYPE');
+    values.type = oneOf(body.type, ACTION_TYPES, 'action type', 'INVALID_ACTION_TYPE');
+  }
+
+  for (const key of ['service', 'entityId', 'topic', 'sceneId'] as const) {
+    const value = optionalString(body, key);
+    if (value !== undefined) values[key] = value;
+  }
+
+  const payload = optionalString(body, 'payload', 10000);
+  if (payload !== undefined) values.payload = payload;
+
+  if ('data' in body) {
+    let data = body.data;
+    if (typeof data === 'string') {
+      try {
+        data = data.trim() ? JSON.parse(data) : null;
+      } catch {
+        throw new AutomationApiError('Invalid JSON format in data field', 'INVALID_JSON_DATA');
+      }
+    }
+    if (data !== null && data !== undefined && (typeof data !== 'object' || Array.isArray(data))) {
+      throw new AutomationApiError('Data must be a JSON object', 'INVALID_JSON_DATA');
+    }
+    values.data = data ?? null;
+  }
+
+  const merged = { ...existing, ...values };
+
+  for (const key of ['entityId', 'topic', 'payload', 'sceneId', 'data'] as const) {
+    checkTemplates(merged[key], key);
+  }
+
+  switch (merged.type) {
+    case 'service_call':
+      // Targets are optional: services such as notify.* take no entity
+      requireField(merged.service, 'Service is required for service_call actions', 'MISSING_SERVICE');
+      if (!SERVICE_FORMAT_REGEX.test(merged.service!)) {
+        throw new AutomationApiError('Service must be in domain.service format', 'INVALID_SERVICE');
+      }
+      break;
+    case 'mqtt':
+      requireField(merged.topic, 'Topic is required for MQTT actions', 'MISSING_TOPIC');
+      if (!isTemplate(merged.topic) && !isValidTopicName(merged.topic!)) {
+        throw new AutomationApiError('Topic cannot contain the wildcards "+" or "#" when publishing', 'INVALID_TOPIC');
+      }
+      const publishOptions = (merged.data || {}) as Record<string, any>;
+      if (publishOptions.qos !== undefined && !MQTT_QOS_LEVELS.includes(publishOptions.qos)) {
+        throw new AutomationApiError('QoS must be 0, 1 or 2', 'INVALID_QOS');
+      }
+      if (publishOptions.retain !== undefined && typeof publishOptions.retain !== 'boolean') {
+        throw new AutomationApiError('Retain must be true or false', 'INVALID_RETAIN');
+      }
+      break;
+    case 'scene':
+      requireField(merged.sceneId, 'Scene ID is required for scene actions', 'MISSING_SCENE_ID');
+      break;
+    case 'local_device':
+      requireField(merged.entityId, 'Entity ID is required for local_device actions', 'MISSING_ENTITY_ID');
+      break;
+  }
+
+  return values;
+}
+
+export interface DefinitionValues {
+  automation: AutomationValues;
+  triggers: TriggerInput[];
+  conditions: ConditionInput[];
+  actions: ActionInput[];
+}
+
+// Run a child validator over every entry of body[key], prefixing errors with
+// the entry's position so the editor can tell which one is wrong
+function validateEach<T>(body: Record<string, any>, key: string, validate: (item: Record<string, any>) => T): T[] {
+  const items = body[key];
+  if (!Array.isArray(items)) {
+    throw new AutomationApiError(`${key} must be an array`, `INVALID_${toCode(key)}`);
+  }
+
+  return items.map((item, index) => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      throw new AutomationApiError(`${key}[${index}] must be an object`, `INVALID_${toCode(key)}`);
+    }
+    try {
+      return validate(item);
+    } catch (error) {
+      if (error instanceof AutomationApiError) {
+        throw new AutomationApiError(`${key}[${index}]: ${error.message}`, error.code, error.status);
+      }
+      throw error;
+    }
+  });
+}
+
+// Validate a whole automation graph as saved by the editor. Automation fields
+// are optional (omitted ones keep their stored value); the three child lists
+// are required and replace the stored ones, so ids in them are ignored.
+export function validateDefinition(body: unknown): DefinitionValues {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new AutomationApiError('Definition must be a JSON object', 'INVALID_DEFINITION');
+  }
+  const definition = body as Record<string, any>;
+
+  return {
+    automation: validateAutomation(definition, { partial: true }),
+    triggers: validateEach(definition, 'triggers', item => {
+      const values = validateTrigger(item);
+      return { ...values, type: values.type! };
+    }),
+    conditions: validateEach(definition, 'conditions', item => {
+      const values = validateCondition(item);
+      return { ...values, type: values.type!, operator: values.operator!, value: values.value! };
+    }),
+    actions: validateEach(definition, 'actions', item => {
+      const values = validateAction(item);
+      return { ...values, type: values.type! };
+    })
+  };
+}
@@ -0,0 +1,194 @@
+// File path: src/lib/automation-yaml.ts
+
+import { parseDocument, stringify, LineCounter, type Document, type ScalarTag } from 'yaml';
+import {
+  fromHomeAssistantConfig,
+  toHomeAssistantConfig,
+  formatIssuePath,
+  type AutomationGraphInput,
+  type HAAutomationConfig
+} from '@/lib/automation-ha-format';
+
+// YAML front end for automation-ha-format. Accepts what people paste from
+// Home Assistant: a single automation, a list of them (automations.yaml) or a
+// blueprint, whose `!input` references are filled from the supplied inputs or
+// the blueprint's defaults. Every construct that can't be translated is
+// reported with the line it came from.
+
+export interface YamlIssue {
+  automationIndex: number | null;
+  path: string;
+  line: number | null;
+  column: number | null;
+  message: string;
+}
+
+export interface ParsedYamlAutomation {
+  automation: AutomationGraphInput;
+  issues: YamlIssue[];
+}
+
+export interface ParsedAutomationYaml {
+  automations: ParsedYamlAutomation[];
+  errors: YamlIssue[];
+  blueprint: { name: string; inputs: string[] } | null;
+}
+
+// Marker for HA-specific tags so they survive toJS() and can be reported
+class TaggedValue {
+  constructor(public readonly tag: string, public readonly value: string) {}
+}
+
+const HA_TAGS = ['!input', '!secret', '!include', '!env_var', '!include_dir_list', '!include_dir_merge_list'];
+
+const customTags: ScalarTag[] = HA_TAGS.map(tag => ({
+  tag,
+  resolve: (value: string) => new TaggedValue(tag, value)
+}));
+
+function locate(doc: Document, lineCounter: LineCounter, path: (string | number)[]): { line: number; column: number } | null {
+  // Fall back to the closest ancestor that exists in the source
+  for (let length = path.length; length >= 0; length--) {
+    const node = doc.getIn(path.slice(0, length), true) as { range?: [number, number, number] } | undefined;
+    if (node?.range) {
+      const { line, col } = lineCounter.linePos(node.range[0]);
+      return { line, column: col };
+    }
+  }
+  return null;
+}
+
+// Blueprint inputs may be grouped into sections, each with its own `input` map
+function collectBlueprintDefaults(inputs: Record<string, any> | undefined, defaults: Record<string, any> = {}): Record<string, any> {
+  for (const [name, definition] of Object.entries(inputs || {})) {
+    if (definition && typeof definition === 'object' && definition.input && typeof definition.input === 'object') {
+      collectBlueprintDefaults(definition.input, defaults);
+    } else {
+      defaults[name] = definition && typeof definition === 'object' ? definition.default : undefined;
+    }
+  }
+  return defaults;
+}
+
+// Replace !input references and report every other HA tag
+function resolveTags(
+  value: any,
+  path: (string | number)[],
+  inputs: Record<string, any>,
+  report: (path: (string | number)[], message: string) => void
+): any {
+  if (value instanceof TaggedValue) {
+    if (value.tag === '!input') {
+      if (inputs[value.value] === undefined) {
+        report(path, `Blueprint input "${value.value}" has no value and no default`);
+        return null;
+      }
+      return inputs[value.value];
+    }
+    report(path, `${value.tag} ${value.value} is not supported`);
+    return null;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => resolveTags(item, [...path, index], inputs, report));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value)
+      .map(([key, item]) => [key, resolveTags(item, [...path, key], inputs, report)]));
+  }
+  return value;
+}
+
+export function parseAutomationYaml(text: string, inputs: Record<string, any> = {}): ParsedAutomationYaml {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(text, { lineCounter, customTags, prettyErrors: true });
+
+  const toIssue = (automationIndex: number | null, path: (string | number)[], message: string): YamlIssue => {
+    const position = locate(doc, lineCounter, path);
+    return {
+      automationIndex,
+      path: formatIssuePath(path),
+      line: position?.line ?? null,
+      column: position?.column ?? null,
+      message
+    };
+  };
+
+  const errors: YamlIssue[] = [...doc.errors, ...doc.warnings].map(error => ({
+    automationIndex: null,
+    path: '',
+    line: error.linePos?.[0].line ?? null,
+    column: error.linePos?.[0].col ?? null,
+    message: error.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, '')
+  }));
+
+  if (doc.errors.length > 0) {
+    return { automations: [], errors, blueprint: null };
+  }
+
+  const root = doc.toJS();
+  if (!root || typeof root !== 'object') {
+    errors.push({ automationIndex: null, path: '', line: 1, column: 1, message: 'Expected an automation mapping or a list of automations' });
+    return { automations: [], errors, blueprint: null };
+  }
+
+  let blueprint: ParsedAutomationYaml['blueprint'] = null;
+  let resolvedInputs: Record<string, any> = {};
+  let entries: { config: any; path: (string | number)[] }[];
+
+  if (Array.isArray(root)) {
+    entries = root.map((config, index) => ({ config, path: [index] }));
+  } else if (root.blueprint) {
+    const defaults = collectBlueprintDefaults(root.blueprint.input);
+    blueprint = { name: String(root.blueprint.name || 'Blueprint'), inputs: Object.keys(defaults) };
+    resolvedInputs = { ...defaults, ...inputs };
+
+    const { blueprint: metadata, ...config } = root;
+    if (metadata.domain && metadata.domain !== 'automation') {
+      errors.push(toIssue(null, ['blueprint', 'domain'], `Only automation blueprints can be imported, got ${metadata.domain}`));
+      return { automations: [], errors, blueprint };
+    }
+    entries = [{ config: { alias: blueprint.name, description: metadata.description, ...config }, path: [] }];
+  } else {
+    entries = [{ config: root, path: [] }];
+  }
+
+  const automations = entries.map(({ config, path }, automationIndex) => {
+    const issues: YamlIssue[] = [];
+
+    if (!config || typeof config !== 'object' || Array.isArray(config)) {
+      issues.push(toIssue(automationIndex, path, 'Automation must be a mapping'));
+      return { automation: { name: `Automation ${automationIndex + 1}`, triggers: [], conditions: [], actions: [] }, issues };
+    }
+
+    const resolved = resolveTags(config, [], resolvedInputs, (issuePath, message) =>
+      issues.push(toIssue(automationIndex, [...path, ...issuePath], message)));
+    const { automation, issues: translationIssues } = fromHomeAssistantConfig(resolved as HAAutomationConfig);
+
+    issues.push(...translationIssues.map(issue => toIssue(automationIndex, [...path, ...issue.path], issue.message)));
+    return { automation, issues };
+  });
+
+  return { automations, errors, blueprint };
+}
+
+// Render an automation as HA YAML. Strings are quoted the way YAML 1.1 (which
+// HA uses) needs, so values such as "on" or "07:30:00" stay strings. Anything
+// that could not be exported is listed in a comment at the top.
+export function automationToYaml(automation: AutomationGraphInput, id?: string | null): {
+  yaml: string;
+  config: HAAutomationConfig;
+  issues: { path: string; message: string }[];
+} {
+  const { config, issues } = toHomeAssistantConfig(automation, id);
+  const formattedIssues = issues.map(issue => ({ path: formatIssuePath(issue.path), message: issue.message }));
+
+  const header = formattedIssues.length > 0
+    ? ['# Not exported:', ...formattedIssues.map(issue => `#   ${issue.path}: ${issue.message}`), ''].join('\n')
+    : '';
+
+  return {
+    yaml: header + stringify(config, { version: '1.1' }),
+    config,
+    issues: formattedIssues
+  };
+}
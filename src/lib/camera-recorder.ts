@@ -0,0 +1,835 @@
+// File path: src/lib/camera-recorder.ts
+
+import { spawn, type ChildProcess } from 'child_process';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { db } from '@/db';
+import { cameraRecordingSettings, cameras, nvrStorageLocations, recordings } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import type { HAEntity, HomeAssistantAPI } from '@/lib/homeassistant';
+import { createServerHomeAssistantAPI } from '@/lib/homeassistant-server';
+import {
+  CameraApiError,
+  FFMPEG_PATH,
+  cameraSourceUrl,
+  getCamera,
+  redactCredentials,
+  setCameraStatus,
+  type CameraRecord
+} from '@/lib/camera-service';
+import { generateRecordingThumbnails } from '@/lib/camera-thumbnails';
+import {
+  addStorageUsage,
+  locationHeadroomGb,
+  pickStorageLocation,
+  type StorageLocationRecord
+} from '@/lib/nvr-storage';
+
+// NVR recorder: captures cameras with ffmpeg into segmented MP4 files under
+// an enabled nvr_storage_locations path (camera_<id>/ inside it) and adds a
+// recordings row, with the real duration and size, for every file.
+//
+//   continuous  one file per segmentSeconds, around the clock
+//   scheduled   the same, inside the camera's schedule windows
+//   triggered   a file per event: the camera's motion entity (cameras.haEntity)
+//               turning on, or POST /api/cameras/[id]/recording/trigger
+//
+// Triggered cameras are captured all the time into a short ring buffer of
+// 2 s MPEG-TS segments in a temp directory, which is what makes pre-roll
+// possible: an event's file is the buffered segments from preRollSeconds
+// before the trigger to postRollSeconds after motion stops, joined without
+// re-encoding. Motion that returns during post-roll extends the event.
+// Manual triggers work for any camera not already recording continuously;
+// without a running buffer they get no pre-roll.
+//
+// Every file gets a poster and sprite sheet (lib/camera-thumbnails). Files go
+// to the camera's pinned storage location, else to the one with the most
+// headroom (lib/nvr-storage); a continuous capture moves when its location
+// fills up or is disabled. Files split on keyframes, so lengths are
+// approximate. A capture that dies marks the camera offline and is retried
+// after RESTART_DELAY_MS. Settings are re-read every RELOAD_INTERVAL_MS, or
+// at once through reload().
+
+export const RECORDING_MODES = ['off', 'continuous', 'scheduled', 'triggered'] as const;
+export type RecordingMode = typeof RECORDING_MODES[number];
+
+export type RecordingTrigger = 'continuous' | 'schedule' | 'motion' | 'manual';
+
+export interface ScheduleWindow {
+  // 0 = Sunday
+  days: number[];
+  start: string;
+  end: string;
+}
+
+export interface RecordingSettings {
+  cameraId: number;
+  mode: RecordingMode;
+  schedule: ScheduleWindow[];
+  preRollSeconds: number;
+  postRollSeconds: number;
+  segmentSeconds: number;
+  storageLocationId: number | null;
+  retentionDays: number | null;
+  retentionGb: number | null;
+  updatedAt: string | null;
+}
+
+export interface CameraRecorderStatus {
+  cameraId: number;
+  mode: RecordingMode;
+  capturing: 'continuous' | 'buffer' | null;
+  capturingSince: string | null;
+  bufferedSeconds: number;
+  events: Array<{ trigger: RecordingTrigger; startedAt: string; endsAt: string | null }>;
+  lastRecordingAt: string | null;
+  error: string | null;
+}
+
+const TICK_INTERVAL_MS = 2 * 1000;
+const RELOAD_INTERVAL_MS = 30 * 1000;
+const RESTART_DELAY_MS = 30 * 1000;
+const STOP_GRACE_MS = 10 * 1000;
+const BUFFER_SEGMENT_SECONDS = 2;
+const MAX_EVENT_SECONDS = 30 * 60;
+export const DEFAULT_MANUAL_SECONDS = 30;
+export const MAX_MANUAL_SECONDS = 60 * 60;
+const STDERR_TAIL_CHARS = 2000;
+
+const BUFFER_ROOT = process.env.CAMERA_BUFFER_DIR || join(tmpdir(), 'camera-buffers');
+const TIME_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+// Segment names carry their local start time (ffmpeg strftime)
+const SEGMENT_TIME_REGEX = /(\d{4})(\d{2})(\d{2})-(\d{2})(\d{2})(\d{2})\.(mp4|ts)$/;
+// Motion entity states that mean motion (binary_sensor on, or detected)
+const MOTION_STATES = ['on', 'detected', 'motion'];
+const SOURCE_FIELDS = ['connectionType', 'url', 'username', 'password'] as const;
+const CAPTURE_SETTINGS = ['mode', 'schedule', 'segmentSeconds', 'storageLocationId'] as const;
+
+const DEFAULT_SETTINGS = {
+  mode: 'off' as RecordingMode,
+  schedule: [] as ScheduleWindow[],
+  preRollSeconds: 5,
+  postRollSeconds: 10,
+  segmentSeconds: 300,
+  storageLocationId: null as number | null,
+  retentionDays: null as number | null,
+  retentionGb: null as number | null
+};
+
+// ---------------------------------------------------------------------------
+// Settings
+// ---------------------------------------------------------------------------
+
+function wholeNumber(value: unknown, label: string, min: number, max: number): number {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min || number > max) {
+    throw new CameraApiError(`${label} must be a whole number from ${min} to ${max}`, 'INVALID_RECORDING_SETTINGS');
+  }
+  return number;
+}
+
+function validateSchedule(value: unknown): ScheduleWindow[] {
+  if (!Array.isArray(value)) {
+    throw new CameraApiError('schedule must be an array of { days, start, end } windows', 'INVALID_SCHEDULE');
+  }
+  return value.map((window, index) => {
+    const days = window?.days;
+    if (!Array.isArray(days) || days.length === 0 || !days.every(day => Number.isInteger(day) && day >= 0 && day <= 6)) {
+      throw new CameraApiError(`schedule[${index}].days must list weekdays from 0 (Sunday) to 6`, 'INVALID_SCHEDULE');
+    }
+    if (!TIME_REGEX.test(window?.start) || !TIME_REGEX.test(window?.end) || window.start === window.end) {
+      throw new CameraApiError(`schedule[${index}] needs different start and end times in HH:MM format`, 'INVALID_SCHEDULE');
+    }
+    return { days: Array.from(new Set<number>(days)).sort(), start: window.start, end: window.end };
+  });
+}
+
+// Normalize settings from a request body over the current ones
+export function validateRecordingSettings(value: unknown, current: RecordingSettings): RecordingSettings {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new CameraApiError('Request body must be a JSON object', 'INVALID_BODY');
+  }
+  const body = { ...current, ...(value as Record<string, unknown>) };
+
+  if (!RECORDING_MODES.includes(body.mode as RecordingMode)) {
+    throw new CameraApiError(`mode must be one of: ${RECORDING_MODES.join(', ')}`, 'INVALID_MODE');
+  }
+  const schedule = validateSchedule(body.schedule ?? []);
+  if (body.mode === 'scheduled' && schedule.length === 0) {
+    throw new CameraApiError('Scheduled recording needs at least one schedule window', 'INVALID_SCHEDULE');
+  }
+
+  const storageLocationId = body.storageLocationId === null || body.storageLocationId === undefined
+    ? null
+    : wholeNumber(body.storageLocationId, 'storageLocationId', 1, Number.MAX_SAFE_INTEGER);
+  const retentionDays = body.retentionDays === null || body.retentionDays === undefined
+    ? null
+    : wholeNumber(body.retentionDays, 'retentionDays', 1, 3650);
+  const retentionGb = body.retentionGb === null || body.retentionGb === undefined ? null : Number(body.retentionGb);
+  if (retentionGb !== null && !(retentionGb > 0 && retentionGb <= 100000)) {
+    throw new CameraApiError('retentionGb must be a number of gigabytes above 0', 'INVALID_RECORDING_SETTINGS');
+  }
+
+  return {
+    cameraId: current.cameraId,
+    mode: body.mode as RecordingMode,
+    schedule,
+    preRollSeconds: wholeNumber(body.preRollSeconds, 'preRollSeconds', 0, 60),
+    postRollSeconds: wholeNumber(body.postRollSeconds, 'postRollSeconds', 0, 300),
+    segmentSeconds: wholeNumber(body.segmentSeconds, 'segmentSeconds', 60, 3600),
+    storageLocationId,
+    retentionDays,
+    retentionGb,
+    updatedAt: current.updatedAt
+  };
+}
+
+function toSettings(cameraId: number, row: typeof cameraRecordingSettings.$inferSelect | undefined): RecordingSettings {
+  if (!row) return { cameraId, ...DEFAULT_SETTINGS, updatedAt: null };
+  return {
+    cameraId,
+    mode: RECORDING_MODES.includes(row.mode as RecordingMode) ? row.mode as RecordingMode : 'off',
+    schedule: (row.schedule as ScheduleWindow[] | null) ?? [],
+    preRollSeconds: row.preRollSeconds,
+    postRollSeconds: row.postRollSeconds,
+    segmentSeconds: row.segmentSeconds,
+    storageLocationId: row.storageLocationId,
+    retentionDays: row.retentionDays,
+    retentionGb: row.retentionGb,
+    updatedAt: row.updatedAt
+  };
+}
+
+// Defaults (mode off) for cameras never configured
+export async function getRecordingSettings(cameraId: number): Promise<RecordingSettings> {
+  await getCamera(cameraId);
+  const [row] = await db.select()
+    .from(cameraRecordingSettings)
+    .where(eq(cameraRecordingSettings.cameraId, cameraId))
+    .limit(1);
+  return toSettings(cameraId, row);
+}
+
+export async function saveRecordingSettings(cameraId: number, body: unknown): Promise<RecordingSettings> {
+  const settings = validateRecordingSettings(body, await getRecordingSettings(cameraId));
+
+  if (settings.storageLocationId !== null) {
+    const [location] = await db.select()
+      .from(nvrStorageLocations)
+      .where(eq(nvrStorageLocations.id, settings.storageLocationId))
+      .limit(1);
+    if (!location) {
+      throw new CameraApiError('Storage location not found', 'STORAGE_LOCATION_NOT_FOUND', 404);
+    }
+    if (!location.enabled) {
+      throw new CameraApiError('Storage location is disabled', 'STORAGE_LOCATION_DISABLED');
+    }
+  }
+
+  const now = new Date().toISOString();
+  const values = {
+    mode: settings.mode,
+    schedule: settings.schedule,
+    preRollSeconds: settings.preRollSeconds,
+    postRollSeconds: settings.postRollSeconds,
+    segmentSeconds: settings.segmentSeconds,
+    storageLocationId: settings.storageLocationId,
+    retentionDays: settings.retentionDays,
+    retentionGb: settings.retentionGb,
+    updatedAt: now
+  };
+  const [row] = await db.insert(cameraRecordingSettings)
+    .values({ cameraId, ...values, createdAt: now })
+    .onConflictDoUpdate({ target: cameraRecordingSettings.cameraId, set: values })
+    .returning();
+  return toSettings(cameraId, row);
+}
+
+// Whether `date` (server local time) falls in one of the windows. A window
+// ending before it starts runs past midnight into the next day.
+export function inSchedule(schedule: ScheduleWindow[], date: Date): boolean {
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  const day = date.getDay();
+  const toMinutes = (time: string) => Number(time.slice(0, 2)) * 60 + Number(time.slice(3));
+
+  return schedule.some(window => {
+    const start = toMinutes(window.start);
+    const end = toMinutes(window.end);
+    if (start < end) return window.days.includes(day) && minutes >= start && minutes < end;
+    return (window.days.includes(day) && minutes >= start) || (window.days.includes((day + 6) % 7) && minutes < end);
+  });
+}
+
+// ---------------------------------------------------------------------------
+// ffmpeg
+// ---------------------------------------------------------------------------
+
+function segmentStart(file: string): number | null {
+  const match = SEGMENT_TIME_REGEX.exec(file);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second] = match.map(Number);
+  return new Date(year, month - 1, day, hour, minute, second).getTime();
+}
+
+// ffmpeg's CSV segment list: filename,start,end per finished segment
+export function parseSegmentList(text: string): Array<{ file: string; durationSeconds: number }> {
+  return text.split('\n').map(line => line.trim()).filter(Boolean).flatMap(line => {
+    const [file, start, end] = line.split(',');
+    const durationSeconds = parseFloat(end) - parseFloat(start);
+    return file && isFinite(durationSeconds) ? [{ file, durationSeconds }] : [];
+  });
+}
+
+function captureArguments(camera: CameraRecord, kind: 'continuous' | 'buffer', dir: string, segmentSeconds: number): string[] {
+  const source = cameraSourceUrl(camera);
+  const output = kind === 'continuous'
+    ? ['-segment_time', String(segmentSeconds), '-segment_atclocktime', '1', '-segment_format', 'mp4',
+       '-segment_format_options', 'movflags=+faststart', join(dir, `cam${camera.id}_%Y%m%d-%H%M%S.mp4`)]
+    : ['-segment_time', String(BUFFER_SEGMENT_SECONDS), '-segment_format', 'mpegts', join(dir, 'seg_%Y%m%d-%H%M%S.ts')];
+  return [
+    '-hide_banner',
+    '-loglevel', 'error',
+    ...(source.startsWith('rtsp') ? ['-rtsp_transport', 'tcp'] : []),
+    '-i', source,
+    '-map', '0:v:0',
+    '-map', '0:a:0?',
+    '-c:v', 'copy',
+    '-c:a', 'aac',
+    '-b:a', '64k',
+    '-f', 'segment',
+    '-reset_timestamps', '1',
+    '-strftime', '1',
+    '-segment_list', join(dir, kind === 'continuous' ? `.cam${camera.id}_segments.csv` : 'segments.csv'),
+    '-segment_list_type', 'csv',
+    '-segment_list_size', '20',
+    ...output
+  ];
+}
+
+function runFfmpeg(args: string[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let stderr = '';
+    const child = spawn(FFMPEG_PATH, args, { stdio: ['ignore', 'ignore', 'pipe'] });
+    child.stderr?.on('data', (chunk: Buffer) => {
+      stderr = (stderr + chunk.toString()).slice(-STDERR_TAIL_CHARS);
+    });
+    child.once('error', reject);
+    child.once('exit', code => code === 0
+      ? resolve()
+      : reject(new Error(redactCredentials(stderr.trim().split('\n').pop() || `ffmpeg exited with code ${code}`))));
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Recorder
+// ---------------------------------------------------------------------------
+
+interface Capture {
+  kind: 'continuous' | 'buffer';
+  trigger: RecordingTrigger;
+  process: ChildProcess;
+  dir: string;
+  listFile: string;
+  location: StorageLocationRecord | null;
+  seen: Set<string>;
+  startedAt: number;
+  stderr: string;
+  stopping: boolean;
+  exited: Promise<void>;
+}
+
+interface BufferSegment {
+  path: string;
+  startMs: number;
+  durationSeconds: number;
+}
+
+interface RecordingEvent {
+  trigger: 'motion' | 'manual';
+  startMs: number;
+  // Null while motion is on
+  activeUntil: number | null;
+  postRollMs: number;
+  finalizing: boolean;
+}
+
+interface CameraState {
+  camera: CameraRecord;
+  settings: RecordingSettings;
+  capture: Capture | null;
+  buffer: BufferSegment[];
+  events: RecordingEvent[];
+  motion: boolean;
+  online: boolean;
+  failedAt: number | null;
+  error: string | null;
+  lastRecordingAt: number | null;
+}
+
+function eventEnd(event: RecordingEvent): number {
+  return event.activeUntil === null ? Infinity : event.activeUntil + event.postRollMs;
+}
+
+export class CameraRecorder {
+  private states = new Map<number, CameraState>();
+  private ha: HomeAssistantAPI | null = null;
+  private tickTimer: NodeJS.Timeout | null = null;
+  private reloadTimer: NodeJS.Timeout | null = null;
+  private ticking = false;
+  private running = false;
+
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    await this.reload();
+    await this.connect();
+
+    this.tickTimer = setInterval(() => {
+      this.tick().catch(error => console.error('Camera recorder tick failed:', error));
+    }, TICK_INTERVAL_MS);
+    this.reloadTimer = setInterval(() => {
+      this.reload().catch(error => console.error('Camera recorder reload failed:', error));
+      if (!this.ha) this.connect().catch(() => {});
+    }, RELOAD_INTERVAL_MS);
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.tickTimer) clearInterval(this.tickTimer);
+    if (this.reloadTimer) clearInterval(this.reloadTimer);
+    this.tickTimer = this.reloadTimer = null;
+
+    if (this.ha) {
+      this.ha.off('state_changed', this.handleStateChanged);
+      this.ha.disconnect();
+      this.ha = null;
+    }
+    await Promise.all(Array.from(this.states.values()).map(state => this.stopCapture(state)));
+    this.states.clear();
+  }
+
+  // Synchronous, for process exit: ffmpeg finishes its current file on SIGINT
+  stopAll(): void {
+    for (const state of this.states.values()) {
+      if (state.capture) {
+        state.capture.stopping = true;
+        state.capture.process.kill('SIGINT');
+      }
+    }
+  }
+
+  // Picks up camera and settings changes
+  async reload(): Promise<void> {
+    const [cameraRows, settingsRows] = await Promise.all([
+      db.select().from(cameras),
+      db.select().from(cameraRecordingSettings)
+    ]);
+    const settingsById = new Map(settingsRows.map(row => [row.cameraId, row]));
+
+    for (const [cameraId, state] of Array.from(this.states)) {
+      if (!cameraRows.some(camera => camera.id === cameraId)) {
+        this.states.delete(cameraId);
+        await this.stopCapture(state, false);
+      }
+    }
+
+    for (const camera of cameraRows) {
+      const settings = toSettings(camera.id, settingsById.get(camera.id));
+      const state = this.states.get(camera.id);
+      if (!state) {
+        if (settings.mode !== 'off') this.states.set(camera.id, this.newState(camera, settings));
+        continue;
+      }
+
+      // A new source or new capture settings take a fresh capture. updated_at
+      // is not compared since status changes and retention edits also bump it.
+      const changed = SOURCE_FIELDS.some(field => state.camera[field] !== camera[field])
+        || CAPTURE_SETTINGS.some(field => JSON.stringify(state.settings[field]) !== JSON.stringify(settings[field]));
+      if (changed) {
+        await this.stopCapture(state);
+        state.failedAt = null;
+        state.error = null;
+      }
+      state.camera = camera;
+      state.settings = settings;
+    }
+
+    await this.checkPlacement();
+  }
+
+  // Continuous captures leave a location that was disabled or filled up; the
+  // restart picks the one with the most headroom
+  private async checkPlacement(): Promise<void> {
+    for (const state of Array.from(this.states.values())) {
+      const location = state.capture?.location;
+      if (!location) continue;
+
+      const [current] = await db.select()
+        .from(nvrStorageLocations)
+        .where(eq(nvrStorageLocations.id, location.id))
+        .limit(1);
+      const headroomGb = current?.enabled ? await locationHeadroomGb(current) : null;
+      if (headroomGb === null || (headroomGb <= 0 && state.settings.storageLocationId !== location.id)) {
+        await this.stopCapture(state);
+      }
+    }
+  }
+
+  // Starts an event now, recording for `seconds` plus post-roll
+  async trigger(cameraId: number, seconds = DEFAULT_MANUAL_SECONDS): Promise<CameraRecorderStatus> {
+    // Nothing would tick the event to its end
+    if (!this.running) {
+      throw new CameraApiError('The camera recorder is not running', 'RECORDER_NOT_RUNNING', 409);
+    }
+    let state = this.states.get(cameraId);
+    if (!state) {
+      const camera = await getCamera(cameraId);
+      state = this.newState(camera, await getRecordingSettings(cameraId));
+      this.states.set(cameraId, state);
+    }
+    cameraSourceUrl(state.camera);
+    if (state.capture?.kind === 'continuous') {
+      throw new CameraApiError('Camera is already recording continuously', 'ALREADY_RECORDING', 409);
+    }
+    await pickStorageLocation(state.settings.storageLocationId);
+
+    const now = Date.now();
+    state.events.push({
+      trigger: 'manual',
+      startMs: now - state.settings.preRollSeconds * 1000,
+      activeUntil: now + seconds * 1000,
+      postRollMs: state.settings.postRollSeconds * 1000,
+      finalizing: false
+    });
+    await this.reconcile(state, now);
+    return this.describe(state);
+  }
+
+  getStatus(cameraId?: number): CameraRecorderStatus[] {
+    return Array.from(this.states.values())
+      .filter(state => cameraId === undefined || state.camera.id === cameraId)
+      .map(state => this.describe(state));
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  private newState(camera: CameraRecord, settings: RecordingSettings): CameraState {
+    return {
+      camera,
+      settings,
+      capture: null,
+      buffer: [],
+      events: [],
+      motion: false,
+      online: false,
+      failedAt: null,
+      error: null,
+      lastRecordingAt: null
+    };
+  }
+
+  private describe(state: CameraState): CameraRecorderStatus {
+    return {
+      cameraId: state.camera.id,
+      mode: state.settings.mode,
+      capturing: state.capture?.kind ?? null,
+      capturingSince: state.capture ? new Date(state.capture.startedAt).toISOString() : null,
+      bufferedSeconds: Math.round(state.buffer.reduce((sum, segment) => sum + segment.durationSeconds, 0)),
+      events: state.events.map(event => ({
+        trigger: event.trigger,
+        startedAt: new Date(event.startMs).toISOString(),
+        endsAt: event.activeUntil === null ? null : new Date(eventEnd(event)).toISOString()
+      })),
+      lastRecordingAt: state.lastRecordingAt ? new Date(state.lastRecordingAt).toISOString() : null,
+      error: state.error
+    };
+  }
+
+  private async connect(): Promise<void> {
+    try {
+      if (!this.ha) {
+        this.ha = await createServerHomeAssistantAPI();
+        if (!this.ha) return;
+        this.ha.on('state_changed', this.handleStateChanged);
+      }
+      await this.ha.connect();
+    } catch (error) {
+      console.error('Camera recorder failed to connect to Home Assistant:', error);
+    }
+  }
+
+  private handleStateChanged = (data: { entity_id: string; new_state: HAEntity | null }) => {
+    const motion = MOTION_STATES.includes(String(data.new_state?.state ?? '').toLowerCase());
+    const now = Date.now();
+
+    for (const state of this.states.values()) {
+      if (state.settings.mode !== 'triggered' || state.camera.haEntity !== data.entity_id || state.motion === motion) continue;
+      state.motion = motion;
+
+      const open = state.events.find(event => event.trigger === 'motion' && !event.finalizing && now < eventEnd(event));
+      if (motion && open) {
+        open.activeUntil = null;
+      } else if (motion) {
+        state.events.push({
+          trigger: 'motion',
+          startMs: now - state.settings.preRollSeconds * 1000,
+          activeUntil: null,
+          postRollMs: state.settings.postRollSeconds * 1000,
+          finalizing: false
+        });
+      } else if (open && open.activeUntil === null) {
+        open.activeUntil = now;
+      }
+    }
+  };
+
+  private async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+    try {
+      const now = Date.now();
+      for (const state of Array.from(this.states.values())) {
+        await this.reconcile(state, now);
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private desiredCapture(state: CameraState, now: number): 'continuous' | 'buffer' | null {
+    const { mode, schedule } = state.settings;
+    if (mode === 'continuous' || (mode === 'scheduled' && inSchedule(schedule, new Date(now)))) return 'continuous';
+    if (mode === 'triggered' || state.events.length > 0) return 'buffer';
+    return null;
+  }
+
+  private async reconcile(state: CameraState, now: number): Promise<void> {
+    const desired = this.desiredCapture(state, now);
+    if (state.capture && state.capture.kind !== desired) {
+      await this.stopCapture(state);
+    }
+    if (!state.capture && desired && !(state.failedAt && now - state.failedAt < RESTART_DELAY_MS)) {
+      await this.startCapture(state, desired, now);
+    }
+    if (state.capture) await this.collectSegments(state);
+    await this.finishEvents(state, now);
+    await this.pruneBuffer(state, now);
+  }
+
+  private async startCapture(state: CameraState, kind: 'continuous' | 'buffer', now: number): Promise<void> {
+    try {
+      const location = kind === 'continuous' ? await pickStorageLocation(state.settings.storageLocationId) : null;
+      const dir = location
+        ? join(location.path, `camera_${state.camera.id}`)
+        : join(BUFFER_ROOT, String(state.camera.id));
+      const args = captureArguments(state.camera, kind, dir, state.settings.segmentSeconds);
+      const listFile = args[args.indexOf('-segment_list') + 1];
+
+      // Leftovers from an earlier run, unless a pending event still needs them
+      if (kind === 'buffer' && state.buffer.length === 0) await fs.rm(dir, { recursive: true, force: true });
+      await fs.mkdir(dir, { recursive: true });
+      await fs.rm(listFile, { force: true });
+
+      const child = spawn(FFMPEG_PATH, args, { stdio: ['ignore', 'ignore', 'pipe'] });
+      const capture: Capture = {
+        kind,
+        trigger: kind === 'buffer' ? 'motion' : state.settings.mode === 'scheduled' ? 'schedule' : 'continuous',
+        process: child,
+        dir,
+        listFile,
+        location,
+        seen: new Set(),
+        startedAt: now,
+        stderr: '',
+        stopping: false,
+        exited: new Promise(resolve => child.once('close', () => resolve()))
+      };
+      child.stderr?.on('data', (chunk: Buffer) => {
+        capture.stderr = (capture.stderr + chunk.toString()).slice(-STDERR_TAIL_CHARS);
+      });
+      child.once('error', error => { capture.stderr = `ffmpeg could not be started (${error.message})`; });
+      child.once('close', code => {
+        if (capture.stopping || state.capture !== capture) return;
+        this.captureFailed(state, capture.stderr.trim().split('\n').pop() || `ffmpeg exited with code ${code}`);
+        this.collectSegments(state, capture).catch(error =>
+          console.error(`Failed to collect segments for camera ${state.camera.id}:`, error));
+      });
+
+      state.capture = capture;
+      state.error = null;
+    } catch (error) {
+      this.captureFailed(state, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private captureFailed(state: CameraState, message: string): void {
+    state.capture = null;
+    state.failedAt = Date.now();
+    state.error = redactCredentials(message);
+    state.online = false;
+    console.error(`Camera ${state.camera.id} recording failed: ${state.error}`);
+    setCameraStatus(state.camera.id, 'offline').catch(error =>
+      console.error(`Failed to update status of camera ${state.camera.id}:`, error));
+  }
+
+  // `keep` false drops the last file, for cameras that were deleted
+  private async stopCapture(state: CameraState, keep = true): Promise<void> {
+    const capture = state.capture;
+    if (!capture) return;
+    state.capture = null;
+    capture.stopping = true;
+
+    if (capture.process.exitCode === null && capture.process.signalCode === null) {
+      const kill = setTimeout(() => capture.process.kill('SIGKILL'), STOP_GRACE_MS);
+      capture.process.kill('SIGINT');
+      await capture.exited;
+      clearTimeout(kill);
+    }
+    // The file ffmpeg closed on the way out
+    if (keep) await this.collectSegments(state, capture);
+  }
+
+  // New entries in the capture's segment list: files for continuous
+  // captures, buffer segments otherwise
+  private async collectSegments(state: CameraState, capture: Capture | null = state.capture): Promise<void> {
+    if (!capture) return;
+    let text: string;
+    try {
+      text = await fs.readFile(capture.listFile, 'utf8');
+    } catch {
+      return;
+    }
+
+    for (const entry of parseSegmentList(text)) {
+      if (capture.seen.has(entry.file)) continue;
+      capture.seen.add(entry.file);
+      const startMs = segmentStart(entry.file);
+      if (startMs === null) continue;
+
+      if (!state.online) {
+        state.online = true;
+        setCameraStatus(state.camera.id, 'online').catch(error =>
+          console.error(`Failed to update status of camera ${state.camera.id}:`, error));
+      }
+
+      const path = join(capture.dir, entry.file);
+      if (capture.kind === 'buffer') {
+        state.buffer.push({ path, startMs, durationSeconds: entry.durationSeconds });
+      } else if (capture.location) {
+        await this.addRecording(state, capture.location, path, startMs, entry.durationSeconds, capture.trigger);
+      }
+    }
+    // The list holds the last 20 segments
+    if (capture.seen.size > 100) {
+      capture.seen = new Set(parseSegmentList(text).map(entry => entry.file));
+    }
+  }
+
+  private async addRecording(
+    state: CameraState,
+    location: StorageLocationRecord,
+    path: string,
+    startMs: number,
+    durationSeconds: number,
+    trigger: RecordingTrigger
+  ): Promise<void> {
+    const { size } = await fs.stat(path);
+    const [recording] = await db.insert(recordings).values({
+      cameraId: state.camera.id,
+      filename: path.slice(location.path.replace(/\/+$/, '').length + 1),
+      timestamp: new Date(startMs).toISOString(),
+      duration: Math.round(durationSeconds),
+      size: Math.round(size / 1024 / 1024 * 100) / 100,
+      trigger,
+      storageLocationId: location.id,
+      createdAt: new Date().toISOString()
+    }).returning({ id: recordings.id });
+    await addStorageUsage(location.id, size);
+    generateRecordingThumbnails(recording.id).catch(error =>
+      console.error(`Failed to make thumbnails for recording ${recording.id}:`, error));
+    state.lastRecordingAt = Date.now();
+  }
+
+  private async finishEvents(state: CameraState, now: number): Promise<void> {
+    const capturing = state.capture?.kind === 'buffer';
+    const bufferedUntil = state.buffer.reduce((latest, segment) =>
+      Math.max(latest, segment.startMs + segment.durationSeconds * 1000), 0);
+
+    for (const event of [...state.events]) {
+      if (event.finalizing) continue;
+
+      // Long events are cut into MAX_EVENT_SECONDS files
+      const cutAt = event.startMs + MAX_EVENT_SECONDS * 1000;
+      const endMs = Math.min(eventEnd(event), cutAt);
+      if (now < endMs || (capturing && bufferedUntil < endMs)) continue;
+
+      if (endMs === cutAt && eventEnd(event) > cutAt) {
+        state.events.push({ ...event, startMs: cutAt });
+      }
+      event.finalizing = true;
+      try {
+        await this.writeEvent(state, event, endMs);
+      } catch (error) {
+        console.error(`Failed to write ${event.trigger} recording for camera ${state.camera.id}:`, error);
+        state.error = redactCredentials(error instanceof Error ? error.message : String(error));
+      }
+      state.events = state.events.filter(candidate => candidate !== event);
+    }
+  }
+
+  // Joins the buffer segments covering the event into one MP4
+  private async writeEvent(state: CameraState, event: RecordingEvent, endMs: number): Promise<void> {
+    const pieces = state.buffer.filter(segment =>
+      segment.startMs + segment.durationSeconds * 1000 > event.startMs && segment.startMs < endMs);
+    if (pieces.length === 0) {
+      throw new Error('no video was buffered for the event');
+    }
+
+    const location = await pickStorageLocation(state.settings.storageLocationId);
+    const dir = join(location.path, `camera_${state.camera.id}`);
+    await fs.mkdir(dir, { recursive: true });
+
+    const stamp = (/(\d{8}-\d{6})/.exec(pieces[0].path) ?? [])[1];
+    const output = join(dir, `cam${state.camera.id}_${stamp}_${event.trigger}.mp4`);
+    const listFile = join(BUFFER_ROOT, String(state.camera.id), `event_${Date.now()}.txt`);
+    await fs.writeFile(listFile, pieces.map(piece => `file '${piece.path.replace(/'/g, `'\\''`)}'`).join('\n'));
+    try {
+      await runFfmpeg(['-hide_banner', '-loglevel', 'error', '-y', '-f', 'concat', '-safe', '0', '-i', listFile,
+        '-c', 'copy', '-movflags', '+faststart', output]);
+    } finally {
+      await fs.rm(listFile, { force: true });
+    }
+
+    const duration = pieces.reduce((sum, piece) => sum + piece.durationSeconds, 0);
+    await this.addRecording(state, location, output, pieces[0].startMs, duration, event.trigger);
+  }
+
+  // Keeps pre-roll's worth of buffer, plus whatever open events still need
+  private async pruneBuffer(state: CameraState, now: number): Promise<void> {
+    const keepFrom = Math.min(
+      now - (state.settings.preRollSeconds + BUFFER_SEGMENT_SECONDS * 2) * 1000,
+      ...state.events.map(event => event.startMs)
+    );
+    const expired = state.buffer.filter(segment => segment.startMs + segment.durationSeconds * 1000 < keepFrom);
+    if (expired.length === 0) return;
+
+    state.buffer = state.buffer.filter(segment => !expired.includes(segment));
+    await Promise.all(expired.map(segment => fs.rm(segment.path, { force: true })));
+  }
+}
+
+// Export singleton instance, on globalThis like the automation engine's so
+// routes reach the recorder instrumentation.ts started
+const globalForRecorder = globalThis as typeof globalThis & { __cameraRecorder?: CameraRecorder };
+
+export function getCameraRecorder(): CameraRecorder {
+  if (!globalForRecorder.__cameraRecorder) {
+    const recorder = new CameraRecorder();
+    globalForRecorder.__cameraRecorder = recorder;
+    process.once('exit', () => recorder.stopAll());
+  }
+  return globalForRecorder.__cameraRecorder;
+}
@@ -0,0 +1,122 @@
+// File path: src/lib/camera-service.ts
+
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { cameras } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+
+// Shared pieces for the server-side camera features (stream gateway,
+// recorder): camera lookup, the error type their routes map to JSON, and the
+// ffmpeg source URL for a camera.
+
+export type CameraRecord = typeof cameras.$inferSelect;
+export type CameraStatus = 'online' | 'offline' | 'connecting';
+
+// ffmpeg on the PATH unless FFMPEG_PATH names another binary
+export const FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg';
+
+const STREAM_PROTOCOLS = ['rtsp:', 'rtsps:', 'rtmp:', 'rtmps:'];
+const HTTP_PROTOCOLS = ['http:', 'https:'];
+
+export class CameraApiError extends Error {
+  constructor(message: string, public readonly code: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'CameraApiError';
+  }
+}
+
+// Map a camera service error to the JSON error shape used across the API
+export function cameraErrorResponse(error: unknown, context: string): NextResponse {
+  if (error instanceof CameraApiError) {
+    return NextResponse.json({
+      error: error.message,
+      code: error.code
+    }, { status: error.status });
+  }
+
+  if (error instanceof SyntaxError) {
+    return NextResponse.json({
+      error: 'Request body must be valid JSON',
+      code: 'INVALID_JSON'
+    }, { status: 400 });
+  }
+
+  console.error(`${context} error:`, error);
+  return NextResponse.json({
+    error: 'Internal server error: ' + error
+  }, { status: 500 });
+}
+
+export function parseCameraId(value: string | null | undefined): number {
+  const id = value ? parseInt(value) : NaN;
+  if (isNaN(id) || id <= 0) {
+    throw new CameraApiError('Valid camera ID is required', 'INVALID_ID');
+  }
+  return id;
+}
+
+export async function getCamera(id: number): Promise<CameraRecord> {
+  const [camera] = await db.select()
+    .from(cameras)
+    .where(eq(cameras.id, id))
+    .limit(1);
+
+  if (!camera) {
+    throw new CameraApiError('Camera not found', 'CAMERA_NOT_FOUND', 404);
+  }
+  return camera;
+}
+
+// Only writes when the status changes, so health checks do not churn
+// updated_at
+export async function setCameraStatus(id: number, status: CameraStatus): Promise<void> {
+  const [camera] = await db.select({ status: cameras.status })
+    .from(cameras)
+    .where(eq(cameras.id, id))
+    .limit(1);
+  if (!camera || camera.status === status) return;
+
+  await db.update(cameras)
+    .set({ status, updatedAt: new Date().toISOString() })
+    .where(eq(cameras.id, id));
+}
+
+// The RTSP/RTMP URL ffmpeg pulls from, with the camera's username and
+// password filled in when the URL carries none. ONVIF cameras qualify when
+// their URL is the RTSP stream rather than the device service. With
+// allowHttp, HTTP/MJPEG cameras qualify too (for single frames).
+export function cameraSourceUrl(camera: CameraRecord, options: { allowHttp?: boolean } = {}): string {
+  if (camera.connectionType === 'http' && !options.allowHttp) {
+    throw new CameraApiError('HTTP/MJPEG cameras are viewed directly and are not restreamed', 'STREAM_NOT_SUPPORTED');
+  }
+
+  let url: URL;
+  try {
+    url = new URL(camera.url);
+  } catch {
+    throw new CameraApiError('Camera URL is not a valid URL', 'INVALID_URL');
+  }
+  if (camera.connectionType === 'http') {
+    if (!HTTP_PROTOCOLS.includes(url.protocol)) {
+      throw new CameraApiError('HTTP camera URL must start with http:// or https://', 'INVALID_URL');
+    }
+  } else if (!STREAM_PROTOCOLS.includes(url.protocol)) {
+    throw new CameraApiError(
+      camera.connectionType === 'onvif'
+        ? 'ONVIF cameras are restreamed from their RTSP URL; set the camera URL to rtsp://...'
+        : `Camera URL must start with ${STREAM_PROTOCOLS.map(protocol => `${protocol}//`).join(', ')}`,
+      'STREAM_NOT_SUPPORTED'
+    );
+  }
+
+  if (camera.username && !url.username) {
+    url.username = camera.username;
+    url.password = camera.password ?? '';
+  }
+  return url.toString();
+}
+
+// Credentials out of URLs in ffmpeg output before it is logged or returned
+export function redactCredentials(text: string): string {
+  return text.replace(/(\b[a-z]+:\/\/)[^/\s:@]+(:[^/\s@]*)?@/gi, '$1***@');
+}
@@ -0,0 +1,324 @@
+// File path: src/lib/camera-stream.ts
+
+import { spawn, type ChildProcess } from 'child_process';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  CameraApiError,
+  FFMPEG_PATH,
+  cameraSourceUrl,
+  getCamera,
+  redactCredentials,
+  setCameraStatus,
+  type CameraRecord
+} from '@/lib/camera-service';
+
+// Server-side restreaming gateway: RTSP/RTMP cameras, which browsers cannot
+// play, are pulled by ffmpeg and served as HLS at /api/cameras/[id]/stream.
+//
+// A camera's ffmpeg starts when the first viewer asks for its playlist and
+// is stopped once nobody has fetched the playlist or a segment for
+// IDLE_TIMEOUT_MS. Video is copied as-is (H.265 is transcoded to H.264,
+// which browsers cannot otherwise play), so segments follow the camera's
+// keyframe interval; a 1-2 s GOP on the camera gives the lowest latency.
+// Audio becomes AAC.
+//
+// cameras.status follows the stream: connecting while ffmpeg starts, online
+// once it writes a playlist, offline when it fails. After a failure the
+// camera is not retried for RETRY_DELAY_MS, so a dead camera is not hammered
+// by every player retry. An idle stop leaves the status alone.
+//
+// WebRTC needs a media server (ICE, DTLS-SRTP) that a Next.js route cannot
+// provide, so this gateway serves HLS only.
+
+const STREAM_ROOT = process.env.CAMERA_STREAM_DIR || join(tmpdir(), 'camera-streams');
+const PLAYLIST = 'index.m3u8';
+const SEGMENT_REGEX = /^seg_\d+\.ts$/;
+
+const STARTUP_TIMEOUT_MS = 15 * 1000;
+const IDLE_TIMEOUT_MS = 30 * 1000;
+const REAP_INTERVAL_MS = 5 * 1000;
+const RETRY_DELAY_MS = 10 * 1000;
+const STOP_GRACE_MS = 5 * 1000;
+// ffmpeg output kept for error messages
+const STDERR_TAIL_CHARS = 2000;
+
+type SessionState = 'starting' | 'running' | 'failed';
+
+interface StreamSession {
+  cameraId: number;
+  dir: string;
+  process: ChildProcess | null;
+  state: SessionState;
+  startedAt: number;
+  lastAccess: number;
+  ready: Promise<void>;
+  stderr: string;
+  error: string | null;
+  failedAt: number | null;
+  stopping: boolean;
+}
+
+export interface StreamStatus {
+  cameraId: number;
+  state: SessionState;
+  startedAt: string;
+  lastAccess: string;
+  error: string | null;
+}
+
+// ffmpeg arguments for one camera, writing HLS into `dir`. Segment URIs in
+// the playlist are relative to /api/cameras/[id]/stream.
+export function hlsArguments(camera: CameraRecord, dir: string): string[] {
+  const source = cameraSourceUrl(camera);
+  const transcode = /265|hevc/i.test(camera.format ?? '');
+  return [
+    '-hide_banner',
+    '-loglevel', 'error',
+    ...(source.startsWith('rtsp') ? ['-rtsp_transport', 'tcp'] : []),
+    '-fflags', 'nobuffer',
+    '-i', source,
+    '-map', '0:v:0',
+    '-map', '0:a:0?',
+    ...(transcode
+      ? ['-c:v', 'libx264', '-preset', 'veryfast', '-tune', 'zerolatency', '-g', '30']
+      : ['-c:v', 'copy']),
+    '-c:a', 'aac',
+    '-b:a', '64k',
+    '-f', 'hls',
+    '-hls_time', '1',
+    '-hls_list_size', '6',
+    '-hls_flags', 'delete_segments+independent_segments+omit_endlist',
+    '-hls_segment_filename', join(dir, 'seg_%05d.ts'),
+    '-hls_base_url', 'stream/',
+    join(dir, PLAYLIST)
+  ];
+}
+
+export class CameraStreamGateway {
+  private sessions = new Map<number, StreamSession>();
+  // Starts in progress, so concurrent first viewers share one ffmpeg
+  private starting = new Map<number, Promise<StreamSession>>();
+  private reaper: NodeJS.Timeout | null = null;
+
+  // The camera's current playlist, starting its stream if needed
+  async playlist(cameraId: number): Promise<string> {
+    const session = await this.open(cameraId);
+    await session.ready;
+    return fs.readFile(join(session.dir, PLAYLIST), 'utf8');
+  }
+
+  async segment(cameraId: number, name: string): Promise<Buffer> {
+    const session = this.sessions.get(cameraId);
+    if (!SEGMENT_REGEX.test(name) || !session || session.state !== 'running') {
+      throw new CameraApiError('Stream segment not found', 'SEGMENT_NOT_FOUND', 404);
+    }
+    session.lastAccess = Date.now();
+    try {
+      return await fs.readFile(join(session.dir, name));
+    } catch {
+      // Rotated out of the playlist already
+      throw new CameraApiError('Stream segment not found', 'SEGMENT_NOT_FOUND', 404);
+    }
+  }
+
+  async stop(cameraId: number): Promise<boolean> {
+    const session = this.sessions.get(cameraId);
+    if (!session) return false;
+    this.sessions.delete(cameraId);
+    await this.terminate(session);
+    if (this.sessions.size === 0) this.stopReaper();
+    return true;
+  }
+
+  // Synchronous, for process exit
+  stopAll(): void {
+    for (const session of this.sessions.values()) {
+      session.stopping = true;
+      session.process?.kill('SIGKILL');
+    }
+    this.sessions.clear();
+    this.stopReaper();
+  }
+
+  getStatus(): StreamStatus[] {
+    return Array.from(this.sessions.values()).map(session => ({
+      cameraId: session.cameraId,
+      state: session.state,
+      startedAt: new Date(session.startedAt).toISOString(),
+      lastAccess: new Date(session.lastAccess).toISOString(),
+      error: session.error
+    }));
+  }
+
+  private async open(cameraId: number): Promise<StreamSession> {
+    const existing = this.sessions.get(cameraId);
+    if (existing?.state === 'failed' && existing.failedAt && Date.now() - existing.failedAt < RETRY_DELAY_MS) {
+      throw new CameraApiError(`Camera stream failed: ${existing.error}`, 'STREAM_FAILED', 502);
+    }
+    if (existing && existing.state !== 'failed') {
+      existing.lastAccess = Date.now();
+      return existing;
+    }
+    if (existing) this.sessions.delete(cameraId);
+
+    let start = this.starting.get(cameraId);
+    if (!start) {
+      start = this.start(cameraId).finally(() => this.starting.delete(cameraId));
+      this.starting.set(cameraId, start);
+    }
+    return start;
+  }
+
+  private async start(cameraId: number): Promise<StreamSession> {
+    // Validates the camera before anything is spawned
+    const camera = await getCamera(cameraId);
+    const dir = join(STREAM_ROOT, String(cameraId));
+    const args = hlsArguments(camera, dir);
+
+    await fs.rm(dir, { recursive: true, force: true });
+    await fs.mkdir(dir, { recursive: true });
+
+    const now = Date.now();
+    const session: StreamSession = {
+      cameraId,
+      dir,
+      process: null,
+      state: 'starting',
+      startedAt: now,
+      lastAccess: now,
+      ready: Promise.resolve(),
+      stderr: '',
+      error: null,
+      failedAt: null,
+      stopping: false
+    };
+    await setCameraStatus(cameraId, 'connecting');
+    this.sessions.set(cameraId, session);
+    this.startReaper();
+
+    session.process = spawn(FFMPEG_PATH, args, { stdio: ['ignore', 'ignore', 'pipe'] });
+    session.process.stderr?.on('data', (chunk: Buffer) => {
+      session.stderr = (session.stderr + chunk.toString()).slice(-STDERR_TAIL_CHARS);
+    });
+    session.ready = this.waitForPlaylist(session);
+    // Failures are reported to whoever awaits ready; this keeps an unawaited
+    // rejection from being unhandled
+    session.ready.catch(() => {});
+    return session;
+  }
+
+  private waitForPlaylist(session: StreamSession): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const deadline = Date.now() + STARTUP_TIMEOUT_MS;
+      let settled = false;
+
+      const fail = (message: string, code: string, status: number) => {
+        if (settled) return;
+        settled = true;
+        clearInterval(poll);
+        this.markFailed(session, message);
+        reject(new CameraApiError(`Camera stream failed: ${session.error}`, code, status));
+      };
+
+      session.process?.once('error', error => fail(`ffmpeg could not be started (${error.message})`, 'FFMPEG_UNAVAILABLE', 500));
+      session.process?.once('exit', (code, signal) => {
+        if (session.stopping) {
+          if (!settled) {
+            settled = true;
+            clearInterval(poll);
+            reject(new CameraApiError('Camera stream was stopped', 'STREAM_STOPPED', 409));
+          }
+          return;
+        }
+        const detail = session.stderr.trim().split('\n').pop() || `ffmpeg exited with ${signal ?? `code ${code}`}`;
+        if (settled) {
+          if (session.state !== 'failed') this.markFailed(session, detail);
+        } else {
+          fail(detail, 'STREAM_FAILED', 502);
+        }
+      });
+
+      const poll = setInterval(async () => {
+        if (settled) return;
+        try {
+          await fs.access(join(session.dir, PLAYLIST));
+          settled = true;
+          clearInterval(poll);
+          session.state = 'running';
+          setCameraStatus(session.cameraId, 'online').catch(error =>
+            console.error(`Failed to update status of camera ${session.cameraId}:`, error));
+          resolve();
+        } catch {
+          if (Date.now() > deadline) {
+            session.process?.kill('SIGKILL');
+            fail(`no video within ${STARTUP_TIMEOUT_MS / 1000} s`, 'STREAM_TIMEOUT', 504);
+          }
+        }
+      }, 250);
+    });
+  }
+
+  private markFailed(session: StreamSession, message: string): void {
+    session.state = 'failed';
+    session.failedAt = Date.now();
+    session.error = redactCredentials(message);
+    session.process = null;
+    console.error(`Camera ${session.cameraId} stream failed: ${session.error}`);
+    setCameraStatus(session.cameraId, 'offline').catch(error =>
+      console.error(`Failed to update status of camera ${session.cameraId}:`, error));
+  }
+
+  private async terminate(session: StreamSession): Promise<void> {
+    session.stopping = true;
+    const child = session.process;
+    if (child && child.exitCode === null && child.signalCode === null) {
+      await new Promise<void>(resolve => {
+        const kill = setTimeout(() => child.kill('SIGKILL'), STOP_GRACE_MS);
+        child.once('exit', () => {
+          clearTimeout(kill);
+          resolve();
+        });
+        child.kill('SIGTERM');
+      });
+    }
+    await fs.rm(session.dir, { recursive: true, force: true });
+  }
+
+  private startReaper(): void {
+    if (this.reaper) return;
+    this.reaper = setInterval(() => {
+      const now = Date.now();
+      for (const session of Array.from(this.sessions.values())) {
+        const idle = now - session.lastAccess > IDLE_TIMEOUT_MS;
+        const retryable = session.state === 'failed' && now - (session.failedAt ?? 0) > RETRY_DELAY_MS;
+        if (idle || retryable) {
+          this.stop(session.cameraId).catch(error =>
+            console.error(`Failed to stop stream for camera ${session.cameraId}:`, error));
+        }
+      }
+    }, REAP_INTERVAL_MS);
+    this.reaper.unref();
+  }
+
+  private stopReaper(): void {
+    if (this.reaper) {
+      clearInterval(this.reaper);
+      this.reaper = null;
+    }
+  }
+}
+
+// Export singleton instance, on globalThis like the automation engine's so
+// every route bundle stops and reuses the same ffmpeg processes
+const globalForGateway = globalThis as typeof globalThis & { __cameraStreamGateway?: CameraStreamGateway };
+
+export function getCameraStreamGateway(): CameraStreamGateway {
+  if (!globalForGateway.__cameraStreamGateway) {
+    const gateway = new CameraStreamGateway();
+    globalForGateway.__cameraStreamGateway = gateway;
+    process.once('exit', () => gateway.stopAll());
+  }
+  return globalForGateway.__cameraStreamGateway;
+}
@@ -0,0 +1,220 @@
+// File path: src/lib/camera-thumbnails.ts
+
+import { spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import { db } from '@/db';
+import { nvrStorageLocations, recordings } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { CameraApiError, FFMPEG_PATH, cameraSourceUrl, getCamera, redactCredentials } from '@/lib/camera-service';
+import { recordingPath } from '@/lib/nvr-storage';
+
+// Preview images for the camera subsystem, all made with ffmpeg:
+//
+//   snapshot  a JPEG grabbed from the camera now, shared by requests within
+//             SNAPSHOT_CACHE_MS so a wall of previews opens one connection
+//   poster    one frame of a recording, <file>.jpg beside it
+//   sprite    a sheet of SPRITE_COLUMNS-wide SPRITE_WIDTH x SPRITE_HEIGHT
+//             thumbnails, one every spriteInterval seconds, <file>_sprite.jpg,
+//             for hover previews on the timeline
+//
+// The recorder queues each new recording; images for older ones are made the
+// first time they are asked for. Jobs run one at a time so a burst of
+// recordings does not start an ffmpeg per file.
+
+export const SPRITE_COLUMNS = 10;
+export const SPRITE_WIDTH = 160;
+export const SPRITE_HEIGHT = 90;
+// At most this many tiles per sheet; longer recordings space them out
+const SPRITE_MAX_TILES = 100;
+const POSTER_WIDTH = 640;
+
+const SNAPSHOT_CACHE_MS = 5 * 1000;
+const SNAPSHOT_TIMEOUT_MS = 10 * 1000;
+const THUMBNAIL_TIMEOUT_MS = 2 * 60 * 1000;
+const STDERR_TAIL_CHARS = 2000;
+
+export type RecordingImage = 'poster' | 'sprite';
+
+interface Snapshot {
+  jpeg: Buffer;
+  takenAt: number;
+}
+
+const snapshots = new Map<number, Snapshot>();
+const pendingSnapshots = new Map<number, Promise<Snapshot>>();
+let thumbnailQueue: Promise<unknown> = Promise.resolve();
+
+// Runs ffmpeg, resolving with what it wrote to stdout
+function runFfmpeg(args: string[], timeoutMs: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let stderr = '';
+    let timedOut = false;
+    const child = spawn(FFMPEG_PATH, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill('SIGKILL');
+    }, timeoutMs);
+
+    child.stdout?.on('data', (chunk: Buffer) => chunks.push(chunk));
+    child.stderr?.on('data', (chunk: Buffer) => {
+      stderr = (stderr + chunk.toString()).slice(-STDERR_TAIL_CHARS);
+    });
+    child.once('error', error => {
+      clearTimeout(timer);
+      reject(new CameraApiError(`ffmpeg could not be started (${error.message})`, 'FFMPEG_UNAVAILABLE', 500));
+    });
+    child.once('close', code => {
+      clearTimeout(timer);
+      if (code === 0) return resolve(Buffer.concat(chunks));
+      reject(timedOut
+        ? new CameraApiError(`No frame within ${timeoutMs / 1000} s`, 'SNAPSHOT_TIMEOUT', 504)
+        : new Error(redactCredentials(stderr.trim().split('\n').pop() || `ffmpeg exited with code ${code}`)));
+    });
+  });
+}
+
+async function grabSnapshot(cameraId: number): Promise<Snapshot> {
+  const camera = await getCamera(cameraId);
+  const source = cameraSourceUrl(camera, { allowHttp: true });
+  try {
+    const jpeg = await runFfmpeg([
+      '-hide_banner', '-loglevel', 'error',
+      ...(source.startsWith('rtsp') ? ['-rtsp_transport', 'tcp'] : []),
+      '-i', source,
+      '-frames:v', '1',
+      '-q:v', '3',
+      '-f', 'image2',
+      '-c:v', 'mjpeg',
+      'pipe:1'
+    ], SNAPSHOT_TIMEOUT_MS);
+    if (jpeg.length === 0) throw new Error('ffmpeg returned no image');
+    return { jpeg, takenAt: Date.now() };
+  } catch (error) {
+    if (error instanceof CameraApiError) throw error;
+    throw new CameraApiError(`Snapshot failed: ${error instanceof Error ? error.message : error}`, 'SNAPSHOT_FAILED', 502);
+  }
+}
+
+// A JPEG of the camera no older than SNAPSHOT_CACHE_MS
+export async function getSnapshot(cameraId: number): Promise<{ jpeg: Buffer; takenAt: string }> {
+  const cached = snapshots.get(cameraId);
+  let snapshot: Snapshot;
+  if (cached && Date.now() - cached.takenAt < SNAPSHOT_CACHE_MS) {
+    snapshot = cached;
+  } else {
+    let pending = pendingSnapshots.get(cameraId);
+    if (!pending) {
+      pending = grabSnapshot(cameraId).finally(() => pendingSnapshots.delete(cameraId));
+      pendingSnapshots.set(cameraId, pending);
+    }
+    snapshot = await pending;
+    snapshots.set(cameraId, snapshot);
+  }
+  return { jpeg: snapshot.jpeg, takenAt: new Date(snapshot.takenAt).toISOString() };
+}
+
+// Seconds between sprite tiles for a recording of `duration` seconds
+export function spriteInterval(duration: number): number {
+  return Math.max(1, Math.ceil(duration / SPRITE_MAX_TILES));
+}
+
+async function writeThumbnails(recordingId: number): Promise<typeof recordings.$inferSelect> {
+  const [row] = await db.select({ recording: recordings, locationPath: nvrStorageLocations.path })
+    .from(recordings)
+    .leftJoin(nvrStorageLocations, eq(recordings.storageLocationId, nvrStorageLocations.id))
+    .where(eq(recordings.id, recordingId))
+    .limit(1);
+  if (!row) {
+    throw new CameraApiError('Recording not found', 'RECORDING_NOT_FOUND', 404);
+  }
+
+  const { recording, locationPath } = row;
+  const source = locationPath ? recordingPath({ path: locationPath }, recording.filename) : null;
+  if (!locationPath || !source || !await fs.stat(source).then(stats => stats.isFile(), () => false)) {
+    throw new CameraApiError('Recording file is missing', 'RECORDING_FILE_MISSING', 404);
+  }
+
+  const base = recording.filename.replace(/\.[^./]+$/, '');
+  const posterFilename = `${base}.jpg`;
+  const spriteFilename = `${base}_sprite.jpg`;
+  const duration = Math.max(recording.duration ?? 0, 1);
+  const interval = spriteInterval(duration);
+  const rows = Math.ceil(Math.ceil(duration / interval) / SPRITE_COLUMNS);
+
+  // Paths checked against the location like the recording's own
+  const posterPath = recordingPath({ path: locationPath }, posterFilename)!;
+  const spritePath = recordingPath({ path: locationPath }, spriteFilename)!;
+
+  await runFfmpeg([
+    '-hide_banner', '-loglevel', 'error', '-y',
+    // A second in skips the black first frame some cameras send
+    '-ss', String(Math.min(1, duration / 2)),
+    '-i', source,
+    '-frames:v', '1',
+    '-vf', `scale=${POSTER_WIDTH}:-2`,
+    '-q:v', '4',
+    posterPath
+  ], THUMBNAIL_TIMEOUT_MS);
+
+  await runFfmpeg([
+    '-hide_banner', '-loglevel', 'error', '-y',
+    '-i', source,
+    '-vf', [
+      `fps=1/${interval}`,
+      `scale=${SPRITE_WIDTH}:${SPRITE_HEIGHT}:force_original_aspect_ratio=decrease`,
+      `pad=${SPRITE_WIDTH}:${SPRITE_HEIGHT}:(ow-iw)/2:(oh-ih)/2`,
+      `tile=${SPRITE_COLUMNS}x${rows}`
+    ].join(','),
+    '-frames:v', '1',
+    '-q:v', '5',
+    spritePath
+  ], THUMBNAIL_TIMEOUT_MS);
+
+  const [updated] = await db.update(recordings)
+    .set({ posterFilename, spriteFilename, spriteInterval: interval })
+    .where(eq(recordings.id, recordingId))
+    .returning();
+  return updated;
+}
+
+// Makes the poster and sprite sheet of a recording, after any queued before it
+export function generateRecordingThumbnails(recordingId: number): Promise<typeof recordings.$inferSelect> {
+  const job = thumbnailQueue.then(() => writeThumbnails(recordingId));
+  thumbnailQueue = job.catch(() => {});
+  return job;
+}
+
+// The poster or sprite sheet of a recording, made now if it has none yet
+export async function getRecordingImage(recordingId: number, kind: RecordingImage): Promise<Buffer> {
+  const [row] = await db.select({ recording: recordings, locationPath: nvrStorageLocations.path })
+    .from(recordings)
+    .leftJoin(nvrStorageLocations, eq(recordings.storageLocationId, nvrStorageLocations.id))
+    .where(eq(recordings.id, recordingId))
+    .limit(1);
+  if (!row) {
+    throw new CameraApiError('Recording not found', 'RECORDING_NOT_FOUND', 404);
+  }
+
+  let recording = row.recording;
+  const filenameOf = (value: typeof recording) => kind === 'poster' ? value.posterFilename : value.spriteFilename;
+  const read = async (filename: string | null) => {
+    const path = filename && row.locationPath ? recordingPath({ path: row.locationPath }, filename) : null;
+    return path ? fs.readFile(path).catch(() => null) : null;
+  };
+
+  const existing = await read(filenameOf(recording));
+  if (existing) return existing;
+
+  try {
+    recording = await generateRecordingThumbnails(recordingId);
+  } catch (error) {
+    if (error instanceof CameraApiError) throw error;
+    throw new CameraApiError(`Thumbnail failed: ${error instanceof Error ? error.message : error}`, 'THUMBNAIL_FAILED', 500);
+  }
+  const image = await read(filenameOf(recording));
+  if (!image) {
+    throw new CameraApiError('Thumbnail was not written', 'THUMBNAIL_FAILED', 500);
+  }
+  return image;
+}
@@ -0,0 +1,168 @@
+// File path: src/lib/cron.ts
+
+// Five-field cron expressions (minute hour day-of-month month day-of-week),
+// evaluated in the server's local time zone. Supports "*", lists, ranges,
+// steps, month and weekday names and the @hourly/@daily/@weekly/@monthly/
+// @yearly shortcuts. As in Vixie cron, when both day fields are restricted a
+// day matches if either of them does.
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+export class CronParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CronParseError';
+  }
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+};
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: CronField[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'] },
+  // 7 is accepted as a second Sunday
+  { name: 'day of week', min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] }
+];
+
+// Give up looking for a match after this long (e.g. "0 0 30 2 *")
+const SEARCH_LIMIT_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+function parseValue(text: string, field: CronField): number {
+  if (/^\d+$/.test(text)) {
+    const value = parseInt(text, 10);
+    if (value < field.min || value > field.max) {
+      throw new CronParseError(`${field.name} ${value} is out of range ${field.min}-${field.max}`);
+    }
+    return value;
+  }
+
+  const index = field.names?.indexOf(text.toLowerCase()) ?? -1;
+  if (index === -1) {
+    throw new CronParseError(`Invalid ${field.name} "${text}"`);
+  }
+  return index + (field.name === 'month' ? 1 : 0);
+}
+
+function parseField(text: string, field: CronField): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of text.split(',')) {
+    const [range, stepText, extra] = part.split('/');
+    if (extra !== undefined || !range) {
+      throw new CronParseError(`Invalid ${field.name} "${part}"`);
+    }
+
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+    if (stepText !== undefined && (!/^\d+$/.test(stepText) || step < 1)) {
+      throw new CronParseError(`Invalid step "${stepText}" in ${field.name}`);
+    }
+
+    let start = field.min;
+    let end = field.max;
+    if (range !== '*') {
+      const [first, last, more] = range.split('-');
+      if (more !== undefined || !first) {
+        throw new CronParseError(`Invalid ${field.name} range "${range}"`);
+      }
+      start = parseValue(first, field);
+      // "5/15" means every 15 starting at 5
+      end = last !== undefined ? parseValue(last, field) : stepText !== undefined ? field.max : start;
+      if (start > end) {
+        throw new CronParseError(`Invalid ${field.name} range "${range}"`);
+      }
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(field.name === 'day of week' && value === 7 ? 0 : value);
+    }
+  }
+
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const expanded = MACROS[trimmed.toLowerCase()] ?? trimmed;
+  const parts = expanded.split(/\s+/);
+
+  if (parts.length !== 5) {
+    throw new CronParseError(`Expected 5 fields (minute hour day month weekday), got ${parts.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) => parseField(part, FIELDS[index]));
+
+  return {
+    expression: trimmed,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: !parts[2].startsWith('*'),
+    dayOfWeekRestricted: !parts[4].startsWith('*')
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) return dayOfMonth || dayOfWeek;
+  if (schedule.dayOfMonthRestricted) return dayOfMonth;
+  if (schedule.dayOfWeekRestricted) return dayOfWeek;
+  return true;
+}
+
+// First minute strictly after `after` that matches the schedule, or null if
+// the expression never matches
+export function nextCronTime(schedule: CronSchedule, after: Date): Date | null {
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  const limit = after.getTime() + SEARCH_LIMIT_MS;
+
+  while (date.getTime() <= limit) {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+    } else {
+      return date;
+    }
+  }
+
+  return null;
+}
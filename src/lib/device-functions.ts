@@ -366,16 +366,44 @@ export async function getEnergyHistory(params: {
   }>(`/home-assistant/energy/history?${searchParams.toString()}`);
 }
 
-export async function getEnergyEfficiencyTips(): Promise<{
+// Tips come from this month's attribution report: always-on load, devices
+// growing over their own average and the largest consumers, ranked by
+// estimated savings
+export async function getEnergyEfficiencyTips(month?: string): Promise<{
   success: boolean;
   data: EnergyTip[];
   message: string;
 }> {
-  return makeApiRequest<{
-    success: boolean;
-    data: EnergyTip[];
-    message: string;
-  }>('/home-assistant/energy/efficiency-tips');
+  const attribution = await makeApiRequest<{
+    month: string;
+    opportunities: Array<{
+      title: string;
+      detail: string;
+      category: EnergyTip['category'];
+      estimatedMonthlyKwh: number;
+      estimatedMonthlySavings: number | null;
+      priority: EnergyTip['priority'];
+    }>;
+  }>(month ? `/energy/attribution?month=${month}` : '/energy/attribution');
+
+  const data = attribution.opportunities.map(opportunity => ({
+    category: opportunity.category,
+    tip: `${opportunity.title}: ${opportunity.detail}`,
+    potential_savings: opportunity.estimatedMonthlySavings !== null
+      ? `$${opportunity.estimatedMonthlySavings.toFixed(2)}/month`
+      : opportunity.estimatedMonthlyKwh > 0
+        ? `${opportunity.estimatedMonthlyKwh.toFixed(0)} kWh/month`
+        : 'Unknown',
+    priority: opportunity.priority
+  }));
+
+  return {
+    success: true,
+    data,
+    message: data.length > 0
+      ? `${data.length} savings opportunities for ${attribution.month}`
+      : `No savings opportunities found for ${attribution.month}`
+  };
 }
 
 /**
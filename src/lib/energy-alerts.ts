@@ -0,0 +1,426 @@
+// File path: src/lib/energy-alerts.ts
+
+import { db } from '@/db';
+import { energyAlertRules, energyAlerts, energyReadings } from '@/db/schema';
+import { and, asc, desc, eq, inArray } from 'drizzle-orm';
+import { calendarMonthPeriod, computeBill, loadPreviousBank, loadReadings, loadUsage, readingsToUsage } from '@/lib/energy-billing';
+import { getIntervalSettings, localToday } from '@/lib/energy-intervals';
+import { createServerHomeAssistantAPI } from '@/lib/homeassistant-server';
+import { resolveBillingTariff } from '@/lib/tariff-service';
+import { TariffApiError, addDays, isValidDate, roundCurrency } from '@/lib/tariff';
+
+// Rules over the daily rollups in energy_readings (/api/energy/alert-rules)
+// and the alerts they raise (/api/energy/alerts). The energy collector
+// evaluates the last few complete days after every run; alerts are unique
+// per rule and day (or month), so a day is only ever flagged once.
+//
+//   anomaly       the day's kWh is `threshold` standard deviations from the
+//                 same weekday over the previous baselineWeeks weeks (at
+//                 least four of them), and off by 20% and 0.5 kWh besides
+//   daily_kwh     the day's kWh is over `threshold`
+//   monthly_cost  the month's bill so far, priced by the active tariff, is
+//                 over `threshold` dollars
+//
+// Rules name a device entity or, without one, the whole house as billed.
+// Alerts at twice the anomaly threshold, or 1.5 times a limit, are critical.
+// With notify set, new alerts go to Home Assistant's notify.<service>.
+
+export const ALERT_RULE_TYPES = ['anomaly', 'daily_kwh', 'monthly_cost'] as const;
+export const ALERT_DIRECTIONS = ['above', 'below', 'both'] as const;
+export const ALERT_STATUSES = ['open', 'acknowledged'] as const;
+
+export type AlertRuleType = typeof ALERT_RULE_TYPES[number];
+export type AlertDirection = typeof ALERT_DIRECTIONS[number];
+export type AlertStatus = typeof ALERT_STATUSES[number];
+
+type AlertRuleRecord = typeof energyAlertRules.$inferSelect;
+type AlertRecord = typeof energyAlerts.$inferSelect;
+
+export type EnergyAlert = AlertRecord & { ruleName: string | null };
+
+export interface AlertRuleInput {
+  name: string;
+  type: AlertRuleType;
+  entityId: string | null;
+  threshold: number;
+  direction: AlertDirection;
+  baselineWeeks: number;
+  enabled: boolean;
+  notify: boolean;
+  notifyService: string | null;
+}
+
+export interface AlertEvaluation {
+  from: string;
+  to: string;
+  rules: number;
+  created: EnergyAlert[];
+}
+
+// Complete days looked at on each run
+const EVALUATION_DAYS = 3;
+const DEFAULT_ANOMALY_THRESHOLD = 3;
+const MIN_BASELINE_WEEKS = 4;
+const MAX_BASELINE_WEEKS = 26;
+const MIN_BASELINE_SAMPLES = 4;
+const MIN_DEVIATION_PCT = 20;
+const MIN_DEVIATION_KWH = 0.5;
+// Spread assumed for a perfectly steady baseline
+const MIN_SIGMA_SHARE = 0.05;
+const MIN_SIGMA_KWH = 0.1;
+const CRITICAL_ANOMALY_FACTOR = 2;
+const CRITICAL_LIMIT_FACTOR = 1.5;
+const MAX_RANGE_DAYS = 93;
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const ENTITY_REGEX = /^[a-z_]+\.[a-z0-9_]+$/;
+const SERVICE_REGEX = /^[a-z0-9_]+$/;
+
+// ---------------------------------------------------------------------------
+// Rules
+// ---------------------------------------------------------------------------
+
+// Normalize a rule from a request body over `existing` (for updates),
+// throwing a TariffApiError describing the first problem found
+export function validateAlertRule(value: unknown, existing?: AlertRuleInput): AlertRuleInput {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new TariffApiError('Request body must be a JSON object', 'INVALID_BODY');
+  }
+  const body = { ...existing, ...(value as Record<string, unknown>) } as Record<string, unknown>;
+
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name || name.length > 100) {
+    throw new TariffApiError('name is required and must be at most 100 characters', 'INVALID_NAME');
+  }
+
+  const type = body.type as AlertRuleType;
+  if (!ALERT_RULE_TYPES.includes(type)) {
+    throw new TariffApiError(`type must be one of: ${ALERT_RULE_TYPES.join(', ')}`, 'INVALID_RULE_TYPE');
+  }
+
+  const entityId = body.entityId === undefined || body.entityId === null || body.entityId === '' ? null : body.entityId;
+  if (entityId !== null && (typeof entityId !== 'string' || !ENTITY_REGEX.test(entityId))) {
+    throw new TariffApiError('entityId must be an entity id such as sensor.well_pump_energy, or null for the whole house', 'INVALID_ENTITY_ID');
+  }
+  if (type === 'monthly_cost' && entityId !== null) {
+    throw new TariffApiError('monthly_cost rules apply to the whole house bill and take no entityId', 'INVALID_ENTITY_ID');
+  }
+
+  const threshold = body.threshold === undefined && type === 'anomaly' ? DEFAULT_ANOMALY_THRESHOLD : Number(body.threshold);
+  if (!isFinite(threshold) || threshold <= 0) {
+    throw new TariffApiError('threshold must be a positive number', 'INVALID_THRESHOLD');
+  }
+
+  const direction = (body.direction ?? 'above') as AlertDirection;
+  if (!ALERT_DIRECTIONS.includes(direction)) {
+    throw new TariffApiError(`direction must be one of: ${ALERT_DIRECTIONS.join(', ')}`, 'INVALID_DIRECTION');
+  }
+
+  const baselineWeeks = Number(body.baselineWeeks ?? 8);
+  if (!Number.isInteger(baselineWeeks) || baselineWeeks < MIN_BASELINE_WEEKS || baselineWeeks > MAX_BASELINE_WEEKS) {
+    throw new TariffApiError(`baselineWeeks must be a whole number from ${MIN_BASELINE_WEEKS} to ${MAX_BASELINE_WEEKS}`, 'INVALID_BASELINE_WEEKS');
+  }
+
+  for (const key of ['enabled', 'notify'] as const) {
+    if (body[key] !== undefined && typeof body[key] !== 'boolean') {
+      throw new TariffApiError(`${key} must be a boolean`, 'INVALID_BODY');
+    }
+  }
+
+  const notifyService = body.notifyService === undefined || body.notifyService === null || body.notifyService === ''
+    ? null
+    : String(body.notifyService).replace(/^notify\./, '');
+  if (notifyService !== null && !SERVICE_REGEX.test(notifyService)) {
+    throw new TariffApiError('notifyService must be a notify service name such as mobile_app_phone', 'INVALID_NOTIFY_SERVICE');
+  }
+
+  return {
+    name,
+    type,
+    entityId,
+    threshold,
+    direction: type === 'anomaly' ? direction : 'above',
+    baselineWeeks,
+    enabled: body.enabled !== false,
+    notify: body.notify === true,
+    notifyService
+  };
+}
+
+async function requireRule(id: number): Promise<AlertRuleRecord> {
+  const [rule] = await db.select()
+    .from(energyAlertRules)
+    .where(eq(energyAlertRules.id, id))
+    .limit(1);
+
+  if (!rule) {
+    throw new TariffApiError('Alert rule not found', 'ALERT_RULE_NOT_FOUND', 404);
+  }
+  return rule;
+}
+
+export async function listAlertRules(): Promise<AlertRuleRecord[]> {
+  return db.select().from(energyAlertRules).orderBy(asc(energyAlertRules.id));
+}
+
+export async function getAlertRule(id: number): Promise<AlertRuleRecord> {
+  return requireRule(id);
+}
+
+export async function createAlertRule(body: unknown): Promise<AlertRuleRecord> {
+  const input = validateAlertRule(body);
+  const now = new Date().toISOString();
+  const [rule] = await db.insert(energyAlertRules)
+    .values({ ...input, createdAt: now, updatedAt: now })
+    .returning();
+  return rule;
+}
+
+// Fields not given keep their values
+export async function updateAlertRule(id: number, body: unknown): Promise<AlertRuleRecord> {
+  const existing = await requireRule(id);
+  const input = validateAlertRule(body, {
+    ...existing,
+    type: existing.type as AlertRuleType,
+    direction: existing.direction as AlertDirection
+  });
+  const [rule] = await db.update(energyAlertRules)
+    .set({ ...input, updatedAt: new Date().toISOString() })
+    .where(eq(energyAlertRules.id, id))
+    .returning();
+  return rule;
+}
+
+// Its alerts go with it
+export async function deleteAlertRule(id: number): Promise<AlertRuleRecord> {
+  const rule = await requireRule(id);
+  await db.delete(energyAlerts).where(eq(energyAlerts.ruleId, id));
+  await db.delete(energyAlertRules).where(eq(energyAlertRules.id, id));
+  return rule;
+}
+
+// ---------------------------------------------------------------------------
+// Alerts
+// ---------------------------------------------------------------------------
+
+export async function listAlerts(options: { status?: AlertStatus | null; limit?: number } = {}): Promise<EnergyAlert[]> {
+  const [rows, rules] = await Promise.all([
+    db.select()
+      .from(energyAlerts)
+      .where(options.status ? eq(energyAlerts.status, options.status) : undefined)
+      .orderBy(desc(energyAlerts.createdAt), desc(energyAlerts.id))
+      .limit(options.limit ?? 50),
+    listAlertRules()
+  ]);
+  const names = new Map(rules.map(rule => [rule.id, rule.name]));
+  return rows.map(row => ({ ...row, ruleName: names.get(row.ruleId) ?? null }));
+}
+
+// Without ids, every open alert
+export async function acknowledgeAlerts(ids?: number[]): Promise<number> {
+  const acknowledged = await db.update(energyAlerts)
+    .set({ status: 'acknowledged', acknowledgedAt: new Date().toISOString() })
+    .where(and(
+      eq(energyAlerts.status, 'open'),
+      ids ? inArray(energyAlerts.id, ids) : undefined
+    ))
+    .returning({ id: energyAlerts.id });
+  return acknowledged.length;
+}
+
+export async function updateAlertStatus(id: number, status: unknown): Promise<AlertRecord> {
+  if (!ALERT_STATUSES.includes(status as AlertStatus)) {
+    throw new TariffApiError(`status must be one of: ${ALERT_STATUSES.join(', ')}`, 'INVALID_STATUS');
+  }
+  const [alert] = await db.update(energyAlerts)
+    .set({ status: status as AlertStatus, acknowledgedAt: status === 'acknowledged' ? new Date().toISOString() : null })
+    .where(eq(energyAlerts.id, id))
+    .returning();
+
+  if (!alert) {
+    throw new TariffApiError('Alert not found', 'ALERT_NOT_FOUND', 404);
+  }
+  return alert;
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+type Finding = Omit<typeof energyAlerts.$inferInsert, 'ruleId' | 'type' | 'entityId' | 'createdAt'>;
+
+function round(value: number, places = 2): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+function weekdayOf(date: string): string {
+  return WEEKDAYS[new Date(`${date}T00:00:00Z`).getUTCDay()];
+}
+
+function checkAnomaly(rule: AlertRuleRecord, label: string, date: string, kwh: number, series: Map<string, number>): Finding | null {
+  const baseline: number[] = [];
+  for (let week = 1; week <= rule.baselineWeeks; week++) {
+    const value = series.get(addDays(date, -7 * week));
+    if (value !== undefined) baseline.push(value);
+  }
+  if (baseline.length < MIN_BASELINE_SAMPLES) return null;
+
+  const mean = baseline.reduce((sum, value) => sum + value, 0) / baseline.length;
+  const variance = baseline.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (baseline.length - 1);
+  const sigma = Math.max(Math.sqrt(variance), mean * MIN_SIGMA_SHARE, MIN_SIGMA_KWH);
+  const z = (kwh - mean) / sigma;
+
+  const wrongWay = (rule.direction === 'above' && z < 0) || (rule.direction === 'below' && z > 0);
+  const small = Math.abs(kwh - mean) < MIN_DEVIATION_KWH
+    || (mean > 0 && Math.abs(kwh - mean) / mean * 100 < MIN_DEVIATION_PCT);
+  if (wrongWay || small || Math.abs(z) < rule.threshold) return null;
+
+  return {
+    period: date,
+    value: round(kwh),
+    expected: round(mean),
+    deviation: round(z),
+    severity: Math.abs(z) >= rule.threshold * CRITICAL_ANOMALY_FACTOR ? 'critical' : 'warning',
+    message: `${label} used ${kwh.toFixed(1)} kWh on ${weekdayOf(date)} ${date}, ${Math.abs(z).toFixed(1)}σ ${z > 0 ? 'above' : 'below'} `
+      + `the usual ${mean.toFixed(1)} kWh for a ${weekdayOf(date)}`
+  };
+}
+
+function checkDailyLimit(rule: AlertRuleRecord, label: string, date: string, kwh: number): Finding | null {
+  if (kwh <= rule.threshold) return null;
+  return {
+    period: date,
+    value: round(kwh),
+    expected: rule.threshold,
+    deviation: round(kwh - rule.threshold),
+    severity: kwh >= rule.threshold * CRITICAL_LIMIT_FACTOR ? 'critical' : 'warning',
+    message: `${label} used ${kwh.toFixed(1)} kWh on ${weekdayOf(date)} ${date}, over the ${rule.threshold} kWh/day limit`
+  };
+}
+
+// Month to date through `to`, or null without a tariff to price it
+async function monthCostThrough(month: string, to: string): Promise<number | null> {
+  const period = calendarMonthPeriod(month);
+  try {
+    const { usage } = await loadUsage(period);
+    const result = computeBill(
+      await resolveBillingTariff(),
+      period,
+      usage.filter(day => day.date <= to),
+      await loadPreviousBank(month)
+    );
+    return result.total;
+  } catch (error) {
+    if (error instanceof TariffApiError) return null;
+    throw error;
+  }
+}
+
+async function notifyAlert(rule: AlertRuleRecord, alert: AlertRecord): Promise<void> {
+  const ha = await createServerHomeAssistantAPI();
+  const now = new Date().toISOString();
+  try {
+    if (!ha) throw new Error('Home Assistant connection is not configured');
+    await ha.callService('notify', rule.notifyService || 'notify', {
+      title: alert.severity === 'critical' ? `Energy alert: ${rule.name}` : `Energy notice: ${rule.name}`,
+      message: alert.message
+    });
+    await db.update(energyAlerts).set({ notifiedAt: now }).where(eq(energyAlerts.id, alert.id));
+    alert.notifiedAt = now;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Energy alert notification failed for rule ${rule.id}:`, error);
+    await db.update(energyAlerts).set({ notifyError: message }).where(eq(energyAlerts.id, alert.id));
+    alert.notifyError = message;
+  }
+}
+
+// Evaluates enabled rules over complete days from `from` to `to` (by
+// default the last three through yesterday) and stores new alerts
+export async function evaluateAlerts(options: { from?: string | null; to?: string | null } = {}): Promise<AlertEvaluation> {
+  const { timezone } = await getIntervalSettings();
+  const yesterday = addDays(localToday(timezone), -1);
+  const to = options.to ?? yesterday;
+  const from = options.from ?? addDays(to, -(EVALUATION_DAYS - 1));
+
+  if (!isValidDate(from) || !isValidDate(to) || to < from) {
+    throw new TariffApiError('date_from and date_to must be valid dates in YYYY-MM-DD format, date_from first', 'INVALID_DATE_RANGE');
+  }
+  if (addDays(from, MAX_RANGE_DAYS) <= to) {
+    throw new TariffApiError(`Alerts can be evaluated over at most ${MAX_RANGE_DAYS} days at a time`, 'INVALID_DATE_RANGE');
+  }
+
+  const rules = (await listAlertRules()).filter(rule => rule.enabled);
+  const created: EnergyAlert[] = [];
+  if (rules.length === 0) return { from, to, rules: 0, created };
+
+  const weeks = Math.max(...rules.map(rule => rule.baselineWeeks));
+  const readings = await loadReadings(addDays(from, -7 * weeks), to);
+
+  const house = new Map<string, number>();
+  for (const day of readingsToUsage(readings)) house.set(day.date, (house.get(day.date) ?? 0) + day.kwh);
+  const seriesFor = (entityId: string) => {
+    const series = new Map<string, number>();
+    for (const reading of readings) {
+      if (reading.entityId !== entityId) continue;
+      const date = reading.readingDate.slice(0, 10);
+      series.set(date, (series.get(date) ?? 0) + reading.dailyKwh);
+    }
+    return series;
+  };
+
+  for (const rule of rules) {
+    const findings: Finding[] = [];
+
+    if (rule.type === 'monthly_cost') {
+      const months = new Set<string>();
+      for (let date = from; date <= to; date = addDays(date, 1)) months.add(date.slice(0, 7));
+      for (const month of months) {
+        const through = [calendarMonthPeriod(month).endDate, to].sort()[0];
+        const cost = await monthCostThrough(month, through);
+        if (cost === null || cost <= rule.threshold) continue;
+        findings.push({
+          period: month,
+          value: roundCurrency(cost),
+          expected: rule.threshold,
+          deviation: roundCurrency(cost - rule.threshold),
+          severity: cost >= rule.threshold * CRITICAL_LIMIT_FACTOR ? 'critical' : 'warning',
+          message: `Energy cost for ${month} has reached $${cost.toFixed(2)}, over the $${rule.threshold.toFixed(2)} limit`
+        });
+      }
+    } else {
+      const series = rule.entityId ? seriesFor(rule.entityId) : house;
+      const named = rule.entityId ? readings.find(reading => reading.entityId === rule.entityId)?.friendlyName : null;
+      const label = rule.entityId ? named || rule.entityId : 'The house';
+      for (let date = from; date <= to; date = addDays(date, 1)) {
+        const kwh = series.get(date);
+        if (kwh === undefined) continue;
+        const finding = rule.type === 'anomaly'
+          ? checkAnomaly(rule, label, date, kwh, series)
+          : checkDailyLimit(rule, label, date, kwh);
+        if (finding) findings.push(finding);
+      }
+    }
+
+    for (const finding of findings) {
+      const [alert] = await db.insert(energyAlerts)
+        .values({ ...finding, ruleId: rule.id, type: rule.type, entityId: rule.entityId, createdAt: new Date().toISOString() })
+        .onConflictDoNothing()
+        .returning();
+      if (!alert) continue;
+      if (rule.notify) await notifyAlert(rule, alert);
+      created.push({ ...alert, ruleName: rule.name });
+    }
+  }
+
+  return { from, to, rules: rules.length, created };
+}
+
+// Device entities with readings, for choosing what a rule watches
+export async function listAlertEntities(): Promise<Array<{ entityId: string; friendlyName: string }>> {
+  return db.selectDistinct({ entityId: energyReadings.entityId, friendlyName: energyReadings.friendlyName })
+    .from(energyReadings)
+    .where(eq(energyReadings.readingType, 'device'))
+    .orderBy(asc(energyReadings.entityId));
+}
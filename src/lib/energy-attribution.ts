@@ -0,0 +1,317 @@
+// File path: src/lib/energy-attribution.ts
+
+import { calendarMonthPeriod, computeBill, loadPreviousBank, loadReadings, loadUsage } from '@/lib/energy-billing';
+import { summarizeSolar } from '@/lib/energy-solar';
+import { getIntervalSettings, loadIntervals } from '@/lib/energy-intervals';
+import { resolveBillingTariff } from '@/lib/tariff-service';
+import { TariffApiError, roundCurrency } from '@/lib/tariff';
+
+// Where a month's energy went. Device sensors (readings of type `device`)
+// are set against the house's consumption (see lib/energy-solar); what they
+// do not cover is the unmonitored remainder. Cost is split at the bill's
+// effective rate, i.e. everything but the customer charge over the billed
+// kWh, so device costs add up to the usage part of the bill.
+//
+// Always-on (phantom) load is the median over nights of the lowest
+// interval between midnight and 5am on the interval entity: whatever the
+// house draws when nothing is in use. Savings opportunities are estimates:
+// a fifth of the always-on load, a device's growth over its own three-month
+// average, and a tenth of any device using more than 15% of the house.
+
+const OVERNIGHT_END_MINUTES = 5 * 60;
+const MIN_NIGHTS = 3;
+const COMPARISON_MONTHS = 3;
+const REDUCIBLE_ALWAYS_ON = 0.2;
+const MAJOR_DEVICE_SHARE = 0.15;
+const MAJOR_DEVICE_REDUCTION = 0.1;
+const GROWTH_THRESHOLD = 0.2;
+const UNMONITORED_SHARE = 0.3;
+const PRIORITY_SAVINGS = { high: 10, medium: 3 } as const;
+
+export type TipCategory = 'heating' | 'cooling' | 'lighting' | 'appliances' | 'general';
+
+// Device sensors named after what they measure; anything else is general
+const CATEGORY_KEYWORDS: Array<[TipCategory, RegExp]> = [
+  ['heating', /heat|furnace|manifold|air_handler|hvac/],
+  ['cooling', /cool|air_condition|\bac\b|_ac_/],
+  ['lighting', /light|lamp/],
+  ['appliances', /fridge|freezer|stove|oven|washer|dryer|dishwasher|water_tank|water_heater|receptacle|recp|pump/]
+];
+
+export interface DeviceAttribution {
+  entityId: string;
+  name: string;
+  category: TipCategory;
+  kwh: number;
+  cost: number | null;
+  share: number;
+  // Average over the previous three months that have readings
+  previousAverageKwh: number | null;
+  changePct: number | null;
+}
+
+export interface BaselineLoad {
+  entityId: string;
+  watts: number;
+  kwh: number;
+  cost: number | null;
+  share: number | null;
+  nights: number;
+}
+
+export interface SavingsOpportunity {
+  id: string;
+  title: string;
+  detail: string;
+  category: TipCategory;
+  entityId: string | null;
+  estimatedMonthlyKwh: number;
+  estimatedMonthlySavings: number | null;
+  priority: 'high' | 'medium' | 'low';
+}
+
+export interface EnergyAttribution {
+  month: string;
+  startDate: string;
+  endDate: string;
+  totalKwh: number;
+  totalCost: number | null;
+  fixedCharges: number | null;
+  effectiveRate: number | null;
+  devices: DeviceAttribution[];
+  monitoredKwh: number;
+  unmonitored: {
+    kwh: number;
+    cost: number | null;
+    share: number | null;
+    // Devices add up to more than the house: sensors overlap or the meter is behind
+    overlap: boolean;
+  };
+  baseline: BaselineLoad | null;
+  opportunities: SavingsOpportunity[];
+}
+
+function round(value: number, places = 2): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+function categoryOf(entityId: string): TipCategory {
+  const name = entityId.toLowerCase();
+  return CATEGORY_KEYWORDS.find(([, pattern]) => pattern.test(name))?.[0] ?? 'general';
+}
+
+function priorityOf(savings: number | null): SavingsOpportunity['priority'] {
+  if (savings === null) return 'low';
+  if (savings >= PRIORITY_SAVINGS.high) return 'high';
+  return savings >= PRIORITY_SAVINGS.medium ? 'medium' : 'low';
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function shiftMonth(month: string, months: number): string {
+  const [year, monthNum] = month.split('-').map(Number);
+  const date = new Date(Date.UTC(year, monthNum - 1 + months, 1));
+  return date.toISOString().slice(0, 7);
+}
+
+// kWh per device entity and month. Collected readings are daily deltas; a
+// month with only manual monthly totals uses the largest one.
+function deviceTotalsByMonth(readings: Awaited<ReturnType<typeof loadReadings>>): Map<string, Map<string, { kwh: number; name: string }>> {
+  const daily = new Map<string, Map<string, { kwh: number; monthly: number; name: string }>>();
+  for (const reading of readings) {
+    if (reading.readingType !== 'device') continue;
+    const month = reading.readingDate.slice(0, 7);
+    const months = daily.get(reading.entityId) ?? new Map();
+    const total = months.get(month) ?? { kwh: 0, monthly: 0, name: reading.friendlyName };
+    total.kwh += reading.dailyKwh || 0;
+    total.monthly = Math.max(total.monthly, reading.monthlyKwh || 0);
+    total.name = reading.friendlyName || total.name;
+    months.set(month, total);
+    daily.set(reading.entityId, months);
+  }
+
+  const result = new Map<string, Map<string, { kwh: number; name: string }>>();
+  daily.forEach((months, entityId) => {
+    const totals = new Map<string, { kwh: number; name: string }>();
+    months.forEach((total, month) => totals.set(month, { kwh: total.kwh > 0 ? total.kwh : total.monthly, name: total.name }));
+    result.set(entityId, totals);
+  });
+  return result;
+}
+
+async function baselineLoad(startDate: string, endDate: string): Promise<Omit<BaselineLoad, 'kwh' | 'cost' | 'share'> | null> {
+  const { entityId } = await getIntervalSettings();
+  const rows = await loadIntervals(entityId, startDate, endDate);
+
+  const nightly: number[] = [];
+  for (const row of rows) {
+    const values = (row.values as Array<number | null>)
+      .slice(0, OVERNIGHT_END_MINUTES / row.intervalMinutes)
+      .filter((value): value is number => value !== null);
+    // Wh per interval to average watts over it
+    if (values.length > 0) nightly.push(Math.min(...values) * 60 / row.intervalMinutes);
+  }
+
+  if (nightly.length < MIN_NIGHTS) return null;
+  return { entityId, watts: Math.round(median(nightly)), nights: nightly.length };
+}
+
+// Bill total and customer charge for the month, or null without a tariff
+// covering it
+async function monthCost(month: string): Promise<{ total: number; fixed: number; kwh: number } | null> {
+  const period = calendarMonthPeriod(month);
+  try {
+    const { usage } = await loadUsage(period);
+    const result = computeBill(await resolveBillingTariff(), period, usage, await loadPreviousBank(month));
+    return { total: result.total, fixed: result.customerCharge, kwh: result.kwh };
+  } catch (error) {
+    if (error instanceof TariffApiError) return null;
+    throw error;
+  }
+}
+
+export async function attributeMonth(month: string): Promise<EnergyAttribution> {
+  const { startDate, endDate } = calendarMonthPeriod(month);
+  const historyStart = `${shiftMonth(month, -COMPARISON_MONTHS)}-01`;
+
+  const [solar, readings, cost, baseline] = await Promise.all([
+    summarizeSolar(startDate, endDate),
+    loadReadings(historyStart, endDate),
+    monthCost(month),
+    baselineLoad(startDate, endDate)
+  ]);
+
+  const totalKwh = solar.consumptionKwh;
+  const effectiveRate = cost && cost.kwh > 0 ? (cost.total - cost.fixed) / cost.kwh : null;
+  const costOf = (kwh: number) => effectiveRate === null ? null : roundCurrency(kwh * effectiveRate);
+  const shareOf = (kwh: number) => totalKwh > 0 ? round(kwh / totalKwh, 3) : 0;
+
+  const previousMonths = Array.from({ length: COMPARISON_MONTHS }, (_, index) => shiftMonth(month, -1 - index));
+  const devices: DeviceAttribution[] = [];
+  deviceTotalsByMonth(readings).forEach((months, entityId) => {
+    const current = months.get(month);
+    if (!current) return;
+    const previous = previousMonths.map(entry => months.get(entry)?.kwh).filter((kwh): kwh is number => kwh !== undefined);
+    const previousAverageKwh = previous.length > 0 ? previous.reduce((sum, kwh) => sum + kwh, 0) / previous.length : null;
+    devices.push({
+      entityId,
+      name: current.name,
+      category: categoryOf(entityId),
+      kwh: round(current.kwh),
+      cost: costOf(current.kwh),
+      share: shareOf(current.kwh),
+      previousAverageKwh: previousAverageKwh === null ? null : round(previousAverageKwh),
+      changePct: previousAverageKwh ? round((current.kwh - previousAverageKwh) / previousAverageKwh * 100, 1) : null
+    });
+  });
+  devices.sort((a, b) => b.kwh - a.kwh);
+
+  const monitoredKwh = devices.reduce((sum, device) => sum + device.kwh, 0);
+  const unmonitoredKwh = Math.max(0, totalKwh - monitoredKwh);
+  // Over the days the rest of the report covers
+  const days = solar.days.length || baseline?.nights || 0;
+  const baselineKwh = baseline ? baseline.watts / 1000 * 24 * days : 0;
+
+  const attribution: EnergyAttribution = {
+    month,
+    startDate,
+    endDate,
+    totalKwh: round(totalKwh),
+    totalCost: cost ? roundCurrency(cost.total) : null,
+    fixedCharges: cost ? roundCurrency(cost.fixed) : null,
+    effectiveRate: effectiveRate === null ? null : round(effectiveRate, 5),
+    devices,
+    monitoredKwh: round(monitoredKwh),
+    unmonitored: {
+      kwh: round(unmonitoredKwh),
+      cost: costOf(unmonitoredKwh),
+      share: totalKwh > 0 ? shareOf(unmonitoredKwh) : null,
+      overlap: monitoredKwh > totalKwh
+    },
+    baseline: baseline ? {
+      ...baseline,
+      kwh: round(baselineKwh),
+      cost: costOf(baselineKwh),
+      share: totalKwh > 0 ? shareOf(baselineKwh) : null
+    } : null,
+    opportunities: []
+  };
+  attribution.opportunities = rankOpportunities(attribution, costOf);
+  return attribution;
+}
+
+function rankOpportunities(attribution: EnergyAttribution, costOf: (kwh: number) => number | null): SavingsOpportunity[] {
+  const opportunities: SavingsOpportunity[] = [];
+  const add = (opportunity: Omit<SavingsOpportunity, 'estimatedMonthlySavings' | 'priority'>) => {
+    const savings = costOf(opportunity.estimatedMonthlyKwh);
+    opportunities.push({
+      ...opportunity,
+      estimatedMonthlyKwh: round(opportunity.estimatedMonthlyKwh),
+      estimatedMonthlySavings: savings,
+      priority: priorityOf(savings)
+    });
+  };
+
+  const { baseline } = attribution;
+  if (baseline && baseline.kwh > 0) {
+    add({
+      id: 'always_on',
+      title: 'Cut always-on load',
+      detail: `The house never draws less than about ${baseline.watts} W, ${baseline.kwh.toFixed(0)} kWh this month`
+        + `${baseline.share !== null ? ` (${Math.round(baseline.share * 100)}% of usage)` : ''}. `
+        + 'Unplug idle chargers and electronics or put them on switched strips.',
+      category: 'general',
+      entityId: baseline.entityId,
+      estimatedMonthlyKwh: baseline.kwh * REDUCIBLE_ALWAYS_ON
+    });
+  }
+
+  for (const device of attribution.devices) {
+    if (device.previousAverageKwh !== null && device.changePct !== null && device.changePct / 100 >= GROWTH_THRESHOLD) {
+      add({
+        id: `growth:${device.entityId}`,
+        title: `${device.name} is using more than usual`,
+        detail: `${device.kwh.toFixed(0)} kWh this month against a ${device.previousAverageKwh.toFixed(0)} kWh average, up ${device.changePct.toFixed(0)}%. `
+          + 'Check its settings or for a fault.',
+        category: device.category,
+        entityId: device.entityId,
+        estimatedMonthlyKwh: device.kwh - device.previousAverageKwh
+      });
+    } else if (device.share >= MAJOR_DEVICE_SHARE) {
+      add({
+        id: `major:${device.entityId}`,
+        title: `Trim ${device.name}`,
+        detail: `${device.name} is ${Math.round(device.share * 100)}% of the house's usage; `
+          + (device.category === 'heating' || device.category === 'cooling'
+            ? 'a setback schedule or a degree of adjustment saves about a tenth.'
+            : 'shifting or shortening its use saves about a tenth.'),
+        category: device.category,
+        entityId: device.entityId,
+        estimatedMonthlyKwh: device.kwh * MAJOR_DEVICE_REDUCTION
+      });
+    }
+  }
+
+  const { unmonitored } = attribution;
+  if (unmonitored.share !== null && unmonitored.share >= UNMONITORED_SHARE) {
+    opportunities.push({
+      id: 'unmonitored',
+      title: 'Monitor more circuits',
+      detail: `${Math.round(unmonitored.share * 100)}% of usage (${unmonitored.kwh.toFixed(0)} kWh) is not on a device sensor, `
+        + 'so savings there cannot be located. Add sensors to the largest unmonitored circuits.',
+      category: 'general',
+      entityId: null,
+      estimatedMonthlyKwh: 0,
+      estimatedMonthlySavings: null,
+      priority: 'low'
+    });
+  }
+
+  return opportunities.sort((a, b) => (b.estimatedMonthlySavings ?? -1) - (a.estimatedMonthlySavings ?? -1)
+    || b.estimatedMonthlyKwh - a.estimatedMonthlyKwh);
+}
@@ -0,0 +1,391 @@
+// File path: src/lib/energy-billing.ts
+
+import { db } from '@/db';
+import { energyBills, energyReadings } from '@/db/schema';
+import { and, asc, desc, eq, gte, lt, lte } from 'drizzle-orm';
+import {
+  TariffApiError,
+  calculateBill,
+  isValidDate,
+  roundCurrency,
+  type AdjustmentCharge,
+  type BillBank,
+  type BillingPeriod,
+  type BillResult,
+  type DailyUsage,
+  type DemandChargeLine
+} from '@/lib/tariff';
+import { resolveBillingTariff, toVersionRates, type TariffWithVersions } from '@/lib/tariff-service';
+import { getIntervalSettings, loadIntervals, toIntervalUsage } from '@/lib/energy-intervals';
+import { MAIN_ENTITIES } from '@/lib/homeassistant';
+
+// Bill calculation from stored energy readings, shared by the calculate-bill
+// route and bill recalculation. Rates come from the tariff engine
+// (lib/tariff); this module turns readings and interval data (lib/energy-intervals)
+// into daily usage and results into API responses and energy_bills rows.
+
+type EnergyReadingRecord = typeof energyReadings.$inferSelect;
+type EnergyBillRecord = typeof energyBills.$inferSelect;
+
+// What a reading measures. main, device and manual readings are consumption;
+// the others are on-site generation, grid export and battery flows.
+export const READING_TYPES = ['main', 'device', 'manual', 'solar', 'export', 'battery_charge', 'battery_discharge'] as const;
+export type ReadingType = typeof READING_TYPES[number];
+
+const CONSUMPTION_TYPES: readonly string[] = ['main', 'device', 'manual'];
+
+// The whole-house meter. Once it has readings (the collector writes one per
+// day), bills use its daily usage alone, since the other entities are either
+// the same meter seen differently or devices behind it.
+const BILLING_METER_ENTITY = MAIN_ENTITIES[0];
+
+// Riders and taxes with these codes also fill the fixed columns energy_bills
+// had before tariffs, so older reports keep adding up
+export const LEGACY_BILL_COLUMNS = {
+  fuel: 'fuelCost',
+  franchise: 'franchiseFee',
+  gross_receipts_tax: 'grossReceiptsTax',
+  public_service_tax: 'publicServiceTax'
+} as const;
+
+export interface BillLine {
+  name: string;
+  kwh: number;
+  rate: number;
+  cost: number;
+  season: string | null;
+  tariffVersion: number;
+}
+
+export interface DemandLine extends DemandChargeLine {
+  season: string | null;
+  tariffVersion: number;
+}
+
+export interface AdjustmentLine {
+  name: string;
+  code: string | null;
+  type: AdjustmentCharge['type'];
+  value: number;
+  basis: AdjustmentCharge['basis'];
+  amount: number;
+  tariffVersion: number;
+}
+
+export function getDaysInMonth(year: number, month: number): number {
+  return new Date(year, month, 0).getDate();
+}
+
+function roundKwh(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function calendarMonthPeriod(month: string): BillingPeriod {
+  const [year, monthNum] = month.split('-').map(Number);
+  const days = getDaysInMonth(year, monthNum);
+  return {
+    startDate: `${month}-01`,
+    endDate: `${month}-${days.toString().padStart(2, '0')}`,
+    cycleDays: days
+  };
+}
+
+// Proration is relative to the billing month, as it was before tariffs
+export function billingPeriod(month: string, startDate: string, endDate: string): BillingPeriod {
+  if (!isValidDate(startDate) || !isValidDate(endDate) || endDate < startDate) {
+    throw new TariffApiError('startDate and endDate must be dates in YYYY-MM-DD format, in order', 'INVALID_PERIOD');
+  }
+  const [year, monthNum] = month.split('-').map(Number);
+  return { startDate, endDate, cycleDays: getDaysInMonth(year, monthNum) };
+}
+
+export async function loadReadings(startDate: string, endDate: string): Promise<EnergyReadingRecord[]> {
+  return db.select()
+    .from(energyReadings)
+    .where(and(
+      gte(energyReadings.readingDate, startDate),
+      lte(energyReadings.readingDate, endDate)
+    ))
+    .orderBy(asc(energyReadings.readingDate));
+}
+
+// A reading counts on its reading date. Without meter readings, monthly
+// totals take precedence over the daily figure, matching how bills were
+// always totalled. Export readings are the energy sent to the grid.
+export function readingsToUsage(readings: EnergyReadingRecord[]): DailyUsage[] {
+  const consumption = readings.filter(reading => CONSUMPTION_TYPES.includes(reading.readingType));
+  const meter = consumption.filter(reading => reading.entityId === BILLING_METER_ENTITY);
+  const exports = readings
+    .filter(reading => reading.readingType === 'export')
+    .map(reading => ({ date: reading.readingDate.slice(0, 10), kwh: 0, exportKwh: reading.dailyKwh }));
+
+  if (meter.length > 0) {
+    return [...meter.map(reading => ({ date: reading.readingDate.slice(0, 10), kwh: reading.dailyKwh })), ...exports];
+  }
+
+  return [
+    ...consumption.map(reading => ({
+      date: reading.readingDate.slice(0, 10),
+      kwh: reading.monthlyKwh || reading.dailyKwh || 0
+    })),
+    ...exports
+  ];
+}
+
+// The bank a bill starts from is what the previous saved bill left
+export async function loadPreviousBank(month: string): Promise<BillBank> {
+  const [previous] = await db.select()
+    .from(energyBills)
+    .where(lt(energyBills.billingMonth, month))
+    .orderBy(desc(energyBills.billingMonth))
+    .limit(1);
+  return { kwh: previous?.bankKwh ?? 0, credit: previous?.bankCredit ?? 0 };
+}
+
+// Readings give the billed kWh; intervals of the configured entity, where
+// ingested, give each day's shape for TOU and demand pricing
+export async function loadUsage(period: BillingPeriod): Promise<{ readings: EnergyReadingRecord[]; usage: DailyUsage[] }> {
+  const readings = await loadReadings(period.startDate, period.endDate);
+  const { entityId } = await getIntervalSettings();
+  const intervals = await loadIntervals(entityId, period.startDate, period.endDate);
+
+  return {
+    readings,
+    usage: [
+      ...readingsToUsage(readings),
+      ...intervals.map(row => ({ date: row.date, kwh: 0, intervals: toIntervalUsage(row) }))
+    ]
+  };
+}
+
+export function computeBill(tariff: TariffWithVersions, period: BillingPeriod, usage: DailyUsage[], bank?: BillBank): BillResult {
+  return calculateBill(tariff.versions.map(toVersionRates), period, usage, bank);
+}
+
+// Aggregate segments into display lines: one line per tier, TOU period, rider
+// or tax and rate, so a mid-period rate change shows both rates
+export function summarizeBill(result: BillResult) {
+  const energyLines = new Map<string, BillLine>();
+  const demandLines: DemandLine[] = [];
+  const riderLines = new Map<string, AdjustmentLine>();
+  const taxLines = new Map<string, AdjustmentLine>();
+
+  const addEnergy = (line: BillLine) => {
+    const key = `${line.name}|${line.season}|${line.rate}`;
+    const existing = energyLines.get(key);
+    if (existing) {
+      existing.kwh += line.kwh;
+      existing.cost += line.cost;
+    } else {
+      energyLines.set(key, line);
+    }
+  };
+  const addAdjustment = (lines: Map<string, AdjustmentLine>, charge: AdjustmentCharge, tariffVersion: number) => {
+    const key = `${charge.name}|${charge.type}|${charge.value}|${charge.basis}`;
+    const existing = lines.get(key);
+    if (existing) existing.amount += charge.amount;
+    else lines.set(key, { ...charge, tariffVersion });
+  };
+
+  for (const segment of result.segments) {
+    for (const tier of segment.tiers) {
+      if (tier.kwh > 0 || tier.limitKwh !== null) {
+        addEnergy({ name: tier.name, kwh: tier.kwh, rate: tier.rate, cost: tier.cost, season: segment.season, tariffVersion: segment.version });
+      }
+    }
+    for (const period of segment.touPeriods) {
+      addEnergy({ name: period.name, kwh: period.kwh, rate: period.adder, cost: period.cost, season: segment.season, tariffVersion: segment.version });
+    }
+    // Peaks are per segment, so demand lines are not merged
+    segment.demand.forEach(line => demandLines.push({ ...line, season: segment.season, tariffVersion: segment.version }));
+    segment.riders.forEach(rider => addAdjustment(riderLines, rider, segment.version));
+    segment.taxes.forEach(tax => addAdjustment(taxLines, tax, segment.version));
+  }
+
+  const roundLine = <T extends { kwh?: number; cost?: number; amount?: number }>(line: T): T => ({
+    ...line,
+    ...(line.kwh !== undefined ? { kwh: Math.round(line.kwh * 100) / 100 } : {}),
+    ...(line.cost !== undefined ? { cost: roundCurrency(line.cost) } : {}),
+    ...(line.amount !== undefined ? { amount: roundCurrency(line.amount) } : {})
+  });
+
+  return {
+    basicMonthlyCharge: roundCurrency(result.customerCharge),
+    energyCharges: {
+      lines: Array.from(energyLines.values()).map(roundLine),
+      totalEnergyCost: roundCurrency(result.energyCharge),
+      touEstimated: result.touEstimated
+    },
+    demandCharges: {
+      lines: demandLines.map(roundLine),
+      totalDemandCost: roundCurrency(result.demandCharge),
+      unavailable: result.demandUnavailable
+    },
+    riders: Array.from(riderLines.values()).map(roundLine),
+    riderCharges: roundCurrency(result.riderCharges),
+    subtotal: roundCurrency(result.subtotal),
+    taxes: Array.from(taxLines.values()).map(roundLine),
+    taxCharges: roundCurrency(result.taxCharges),
+    exports: {
+      importKwh: roundKwh(result.importKwh),
+      exportKwh: roundKwh(result.exportKwh),
+      netKwh: roundKwh(result.kwh),
+      bankKwhUsed: roundKwh(result.segments.reduce((sum, segment) => sum + segment.bankKwhUsed, 0)),
+      surplusKwh: roundKwh(result.segments.reduce((sum, segment) => sum + segment.surplusKwh, 0)),
+      credit: roundCurrency(result.exportCredit),
+      bankStart: { kwh: roundKwh(result.bankStart.kwh), credit: roundCurrency(result.bankStart.credit) },
+      bankEnd: { kwh: roundKwh(result.bankEnd.kwh), credit: roundCurrency(result.bankEnd.credit) },
+      trueUp: result.trueUp
+    },
+    totalBillAmount: roundCurrency(result.total)
+  };
+}
+
+export function describeTariff(tariff: TariffWithVersions, result: BillResult) {
+  const usedIds = new Set(result.segments.map(segment => segment.tariffVersionId));
+  return {
+    id: tariff.id,
+    name: tariff.name,
+    utility: tariff.utility,
+    versions: tariff.versions
+      .filter(version => usedIds.has(version.id))
+      .map(({ id, version, effectiveFrom, effectiveTo }) => ({ id, version, effectiveFrom, effectiveTo }))
+  };
+}
+
+// Column values for an energy_bills row. The tariff version recorded is the
+// one in effect on the last day; every version used is in lineItems.
+export function billColumns(month: string, result: BillResult) {
+  const sumTiers = (index: number) => result.segments.reduce((sum, segment) => {
+    const tier = segment.tiers[index];
+    return tier ? { kwh: sum.kwh + tier.kwh, cost: sum.cost + tier.cost, rate: tier.rate } : sum;
+  }, { kwh: 0, cost: 0, rate: 0 });
+  const tier1 = sumTiers(0);
+  // Anything past the first tier is reported as tier 2 in the fixed columns
+  const upperTiers = result.segments.reduce((sum, segment) => {
+    segment.tiers.slice(1).forEach(tier => {
+      sum.kwh += tier.kwh;
+      sum.cost += tier.cost;
+    });
+    return sum;
+  }, { kwh: 0, cost: 0 });
+
+  const legacy = { fuelCost: 0, franchiseFee: 0, grossReceiptsTax: 0, publicServiceTax: 0 };
+  for (const segment of result.segments) {
+    for (const charge of [...segment.riders, ...segment.taxes]) {
+      const column = charge.code ? LEGACY_BILL_COLUMNS[charge.code as keyof typeof LEGACY_BILL_COLUMNS] : undefined;
+      if (column) legacy[column] += charge.amount;
+    }
+  }
+
+  const lastSegment = result.segments[result.segments.length - 1];
+  return {
+    billingMonth: month,
+    totalKwhUsed: Math.round(result.kwh * 100) / 100,
+    basicMonthlyCharge: roundCurrency(result.customerCharge),
+    energyChargeTier1Kwh: Math.round(tier1.kwh * 100) / 100,
+    energyChargeTier1Rate: tier1.rate,
+    energyChargeTier1Cost: roundCurrency(tier1.cost),
+    energyChargeTier2Kwh: Math.round(upperTiers.kwh * 100) / 100,
+    energyChargeTier2Rate: lastSegment?.tiers[1]?.rate ?? 0,
+    energyChargeTier2Cost: roundCurrency(upperTiers.cost),
+    fuelCost: roundCurrency(legacy.fuelCost),
+    franchiseFee: roundCurrency(legacy.franchiseFee),
+    grossReceiptsTax: roundCurrency(legacy.grossReceiptsTax),
+    publicServiceTax: roundCurrency(legacy.publicServiceTax),
+    totalBillAmount: roundCurrency(result.total),
+    tariffVersionId: lastSegment?.tariffVersionId ?? null,
+    periodStart: result.startDate,
+    periodEnd: result.endDate,
+    energyCharge: roundCurrency(result.energyCharge),
+    demandCharge: roundCurrency(result.demandCharge),
+    riderCharges: roundCurrency(result.riderCharges),
+    taxCharges: roundCurrency(result.taxCharges),
+    importKwh: roundKwh(result.importKwh),
+    exportKwh: roundKwh(result.exportKwh),
+    exportCredit: roundCurrency(result.exportCredit),
+    // Kept unrounded so a chain of bills does not drift
+    bankKwh: result.bankEnd.kwh,
+    bankCredit: result.bankEnd.credit,
+    lineItems: result.segments
+  };
+}
+
+export interface RecalculatedBill {
+  id: number;
+  billingMonth: string;
+  previousTotal: number;
+  total: number;
+  difference: number;
+  previousTariffVersionId: number | null;
+  tariffVersionId: number | null;
+  error?: string;
+}
+
+// Recalculate saved bills from their readings with the current tariff
+// versions, e.g. after recording a rate change that saved bills missed.
+// Bills are matched on billing month (from/to inclusive, YYYY-MM) and run in
+// order, each starting from the bank the one before it left.
+export async function recalculateBills(options: {
+  from?: string | null;
+  to?: string | null;
+  tariffId?: number | null;
+  dryRun?: boolean;
+}): Promise<RecalculatedBill[]> {
+  const filters = [];
+  if (options.from) filters.push(gte(energyBills.billingMonth, options.from));
+  if (options.to) filters.push(lte(energyBills.billingMonth, options.to));
+
+  const bills: EnergyBillRecord[] = await db.select()
+    .from(energyBills)
+    .where(filters.length > 0 ? and(...filters) : undefined)
+    .orderBy(asc(energyBills.billingMonth));
+
+  const tariff = await resolveBillingTariff(options.tariffId);
+  const results: RecalculatedBill[] = [];
+  let bank: BillBank | null = null;
+
+  for (const bill of bills) {
+    const period = bill.periodStart && bill.periodEnd
+      ? billingPeriod(bill.billingMonth, bill.periodStart, bill.periodEnd)
+      : calendarMonthPeriod(bill.billingMonth);
+    const base = {
+      id: bill.id,
+      billingMonth: bill.billingMonth,
+      previousTotal: bill.totalBillAmount,
+      previousTariffVersionId: bill.tariffVersionId
+    };
+
+    let result: BillResult;
+    try {
+      // Never replace a bill with one calculated from nothing
+      const { readings, usage } = await loadUsage(period);
+      if (readings.length === 0) {
+        throw new TariffApiError('No energy readings found for the billing period', 'NO_READINGS_FOUND', 404);
+      }
+      result = computeBill(tariff, period, usage, bank ?? await loadPreviousBank(bill.billingMonth));
+    } catch (error) {
+      if (!(error instanceof TariffApiError)) throw error;
+      results.push({ ...base, total: bill.totalBillAmount, difference: 0, tariffVersionId: bill.tariffVersionId, error: error.message });
+      bank = { kwh: bill.bankKwh, credit: bill.bankCredit };
+      continue;
+    }
+    bank = result.bankEnd;
+
+    const columns = billColumns(bill.billingMonth, result);
+    if (!options.dryRun) {
+      await db.update(energyBills)
+        .set({ ...columns, updatedAt: new Date().toISOString() })
+        .where(eq(energyBills.id, bill.id));
+    }
+
+    results.push({
+      ...base,
+      total: columns.totalBillAmount,
+      difference: roundCurrency(columns.totalBillAmount - bill.totalBillAmount),
+      tariffVersionId: columns.tariffVersionId
+    });
+  }
+
+  return results;
+}
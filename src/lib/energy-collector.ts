@@ -0,0 +1,444 @@
+// File path: src/lib/energy-collector.ts
+
+import { db } from '@/db';
+import { energyIngestionStatus, energyReadings } from '@/db/schema';
+import { and, asc, desc, eq, gte, lte } from 'drizzle-orm';
+import { DEVICE_ENTITIES, MAIN_ENTITIES, type HAHistoryState, type HomeAssistantAPI } from '@/lib/homeassistant';
+import { createServerHomeAssistantAPI } from '@/lib/homeassistant-server';
+import { getIntervalSettings, historyToIntervals, loadEnergySettings, localMidnight, localToday } from '@/lib/energy-intervals';
+import type { ReadingType } from '@/lib/energy-billing';
+import { collectTemperatures, type TemperatureCollection } from '@/lib/energy-weather';
+import { evaluateAlerts } from '@/lib/energy-alerts';
+import { addDays } from '@/lib/tariff';
+
+// Server-side collector that keeps energy_readings filled from Home
+// Assistant's recorder, whether or not anyone has the Energy page open.
+//
+// Every cumulative kWh sensor in MAIN_ENTITIES and DEVICE_ENTITIES, and the
+// solar, export and battery sensors named in settings.energy.solar, gets one
+// reading per local day: kwhValue is the sensor value at the end of the day
+// (or now, for today) and dailyKwh the energy used that day. Usage comes from
+// the same history-to-interval conversion as interval readings, so daily and
+// monthly counters that reset, and meters that roll over, count the energy
+// after the reset instead of a negative delta.
+//
+// Each run starts from the day before the entity's newest reading (which may
+// have been partial) and runs through today, so days missed while the server
+// was down are filled in. Writing a day again overwrites it, except readings
+// entered by hand, which are never touched. A full run then evaluates the
+// energy alert rules (lib/energy-alerts) over the last complete days.
+
+export const COLLECTED_ENTITIES: string[] = [
+  ...MAIN_ENTITIES.filter(entityId => entityId.includes('_energy_')),
+  ...DEVICE_ENTITIES
+];
+
+const SOLAR_READING_TYPES: Record<string, ReadingType> = {
+  production: 'solar',
+  export: 'export',
+  batteryCharge: 'battery_charge',
+  batteryDischarge: 'battery_discharge'
+};
+
+const COLLECT_INTERVAL_MS = 60 * 60 * 1000;
+const STARTUP_DELAY_MS = 30 * 1000;
+
+// How far back a new entity is filled, and the most one run will fill
+const INITIAL_BACKFILL_DAYS = 30;
+export const MAX_BACKFILL_DAYS = 93;
+
+// Longest range fetched from HA in one request
+const HISTORY_CHUNK_DAYS = 7;
+
+type EnergyIngestionStatusRecord = typeof energyIngestionStatus.$inferSelect;
+
+export interface CollectedEntity {
+  entityId: string;
+  readingType: ReadingType;
+}
+
+export interface CollectedDay {
+  date: string;
+  kwhValue: number;
+  dailyKwh: number;
+}
+
+export interface EntityCollection {
+  entityId: string;
+  readingType: ReadingType;
+  from: string;
+  to: string;
+  days: number;
+  // Days in the range HA had no usable state for
+  missing: string[];
+  skippedManual: string[];
+  error?: string;
+}
+
+export interface CollectionResult {
+  startedAt: string;
+  finishedAt: string;
+  timezone: string;
+  entities: EntityCollection[];
+  // Outdoor temperature for degree days, when a weather entity is configured
+  temperatures?: TemperatureCollection | null;
+  // Energy alerts raised over the days just collected
+  alerts?: number;
+  error?: string;
+}
+
+export interface CollectOptions {
+  from?: string;
+  to?: string;
+  entityIds?: string[];
+}
+
+export async function getCollectedEntities(): Promise<CollectedEntity[]> {
+  const entities: CollectedEntity[] = COLLECTED_ENTITIES.map(entityId => ({
+    entityId,
+    readingType: (MAIN_ENTITIES as readonly string[]).includes(entityId) ? 'main' : 'device'
+  }));
+
+  const solar = (await loadEnergySettings()).solar ?? {};
+  for (const [key, readingType] of Object.entries(SOLAR_READING_TYPES)) {
+    const entityId = solar[key];
+    if (typeof entityId === 'string' && /^sensor\.[a-z0-9_]+$/.test(entityId)
+      && !entities.some(entity => entity.entityId === entityId)) {
+      entities.push({ entityId, readingType });
+    }
+  }
+  return entities;
+}
+
+function endOfMonth(date: string): string {
+  const [year, month] = date.split('-').map(Number);
+  return `${date.slice(0, 7)}-${String(new Date(Date.UTC(year, month, 0)).getUTCDate()).padStart(2, '0')}`;
+}
+
+export function friendlyNameFor(entityId: string): string {
+  return entityId.replace('sensor.', '').replace(/_/g, ' ').replace(/\b\w/g, letter => letter.toUpperCase());
+}
+
+// One reading per local day from startDate to endDate that the history covers
+export function dailyReadingsFromHistory(
+  history: HAHistoryState[],
+  options: { timezone: string; startDate: string; endDate: string; endMs: number }
+): CollectedDay[] {
+  const { timezone, startDate, endDate, endMs } = options;
+  const startMs = localMidnight(startDate, timezone);
+  const hours = historyToIntervals(history, { timezone, intervalMinutes: 60, startMs, endMs });
+  const samples = history
+    .map(state => ({ time: Date.parse(state.last_changed), value: parseFloat(state.state) }))
+    .filter(sample => isFinite(sample.time) && isFinite(sample.value))
+    .sort((a, b) => a.time - b.time);
+
+  const days: CollectedDay[] = [];
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    const slots = hours.get(date)?.filter((value): value is number => value !== null) ?? [];
+    if (slots.length === 0) continue;
+
+    const dayEnd = Math.min(localMidnight(addDays(date, 1), timezone), endMs);
+    const last = samples.filter(sample => sample.time < dayEnd).pop();
+    if (!last) continue;
+
+    days.push({
+      date,
+      kwhValue: last.value,
+      dailyKwh: Math.round(slots.reduce((sum, value) => sum + value, 0) * 1000) / 1000
+    });
+  }
+  return days;
+}
+
+// First day the next automatic run collects for an entity
+async function defaultStartDate(entityId: string, today: string): Promise<string> {
+  const [status] = await db.select()
+    .from(energyIngestionStatus)
+    .where(eq(energyIngestionStatus.entityId, entityId))
+    .limit(1);
+
+  let newest = status?.lastReadingDate ?? null;
+  if (!newest) {
+    const [reading] = await db.select({ readingDate: energyReadings.readingDate })
+      .from(energyReadings)
+      .where(eq(energyReadings.entityId, entityId))
+      .orderBy(desc(energyReadings.readingDate))
+      .limit(1);
+    newest = reading?.readingDate.slice(0, 10) ?? null;
+  }
+
+  const earliest = addDays(today, -((newest ? MAX_BACKFILL_DAYS : INITIAL_BACKFILL_DAYS) - 1));
+  const from = newest ? addDays(newest, -1) : earliest;
+  if (from > today) return today;
+  return from < earliest ? earliest : from;
+}
+
+async function storeDays(
+  { entityId, readingType }: CollectedEntity,
+  days: CollectedDay[]
+): Promise<{ stored: CollectedDay[]; skippedManual: string[] }> {
+  const stored: CollectedDay[] = [];
+  const skippedManual: string[] = [];
+
+  for (const day of days) {
+    const [existing] = await db.select()
+      .from(energyReadings)
+      .where(and(eq(energyReadings.entityId, entityId), eq(energyReadings.readingDate, day.date)))
+      .limit(1);
+
+    if (existing?.readingType === 'manual') {
+      skippedManual.push(day.date);
+      continue;
+    }
+
+    if (existing) {
+      await db.update(energyReadings)
+        .set({ kwhValue: day.kwhValue, dailyKwh: day.dailyKwh, readingType })
+        .where(eq(energyReadings.id, existing.id));
+    } else {
+      await db.insert(energyReadings).values({
+        entityId,
+        friendlyName: friendlyNameFor(entityId),
+        readingDate: day.date,
+        kwhValue: day.kwhValue,
+        dailyKwh: day.dailyKwh,
+        readingType,
+        createdAt: new Date().toISOString()
+      });
+    }
+    stored.push(day);
+  }
+
+  if (stored.length > 0) {
+    await updateRollingTotals(entityId, stored[0].date, stored[stored.length - 1].date);
+  }
+  return { stored, skippedManual };
+}
+
+// weeklyKwh is the last 7 days and monthlyKwh the month to date, as the
+// readings API computes them. Later days in the same week or month depend on
+// the days just written, so they are brought up to date as well.
+export async function updateRollingTotals(entityId: string, firstDate: string, lastDate: string): Promise<void> {
+  const until = [addDays(lastDate, 6), endOfMonth(lastDate)].sort()[1];
+  const since = [addDays(firstDate, -6), `${firstDate.slice(0, 7)}-01`].sort()[0];
+
+  const rows = await db.select()
+    .from(energyReadings)
+    .where(and(
+      eq(energyReadings.entityId, entityId),
+      gte(energyReadings.readingDate, since),
+      lte(energyReadings.readingDate, until)
+    ))
+    .orderBy(asc(energyReadings.readingDate));
+  const daily = new Map(rows.map(row => [row.readingDate.slice(0, 10), row.dailyKwh]));
+
+  for (const row of rows) {
+    const date = row.readingDate.slice(0, 10);
+    if (date < firstDate || row.readingType === 'manual') continue;
+
+    let weeklyKwh = 0;
+    for (let offset = 0; offset < 7; offset++) weeklyKwh += daily.get(addDays(date, -offset)) ?? 0;
+    let monthlyKwh = 0;
+    for (let day = `${date.slice(0, 7)}-01`; day <= date; day = addDays(day, 1)) monthlyKwh += daily.get(day) ?? 0;
+
+    await db.update(energyReadings)
+      .set({ weeklyKwh: Math.round(weeklyKwh * 1000) / 1000, monthlyKwh: Math.round(monthlyKwh * 1000) / 1000 })
+      .where(eq(energyReadings.id, row.id));
+  }
+}
+
+async function recordStatus(entityId: string, values: Partial<typeof energyIngestionStatus.$inferInsert>): Promise<void> {
+  const updatedAt = new Date().toISOString();
+  await db.insert(energyIngestionStatus)
+    .values({ entityId, ...values, updatedAt })
+    .onConflictDoUpdate({ target: energyIngestionStatus.entityId, set: { ...values, updatedAt } });
+}
+
+export async function collectEntity(
+  ha: HomeAssistantAPI,
+  entity: CollectedEntity,
+  range: { from: string; to: string; timezone: string }
+): Promise<EntityCollection> {
+  const { entityId, readingType } = entity;
+  const { from, to, timezone } = range;
+  const attemptedAt = new Date().toISOString();
+  const result: EntityCollection = { entityId, readingType, from, to, days: 0, missing: [], skippedManual: [] };
+
+  try {
+    const collected: CollectedDay[] = [];
+    for (let chunkStart = from; chunkStart <= to; chunkStart = addDays(chunkStart, HISTORY_CHUNK_DAYS)) {
+      const chunkEnd = [addDays(chunkStart, HISTORY_CHUNK_DAYS - 1), to].sort()[0];
+      const startMs = localMidnight(chunkStart, timezone);
+      const endMs = Math.min(localMidnight(addDays(chunkEnd, 1), timezone), Date.now());
+      if (startMs >= endMs) break;
+
+      const history = await ha.getHistory(entityId, new Date(startMs), new Date(endMs));
+      collected.push(...dailyReadingsFromHistory(history, { timezone, startDate: chunkStart, endDate: chunkEnd, endMs }));
+    }
+
+    const { stored, skippedManual } = await storeDays(entity, collected);
+    const collectedDates = new Set(collected.map(day => day.date));
+    for (let date = from; date <= to; date = addDays(date, 1)) {
+      if (!collectedDates.has(date)) result.missing.push(date);
+    }
+    result.days = stored.length;
+    result.skippedManual = skippedManual;
+
+    const newest = stored[stored.length - 1];
+    const [status] = await db.select()
+      .from(energyIngestionStatus)
+      .where(eq(energyIngestionStatus.entityId, entityId))
+      .limit(1);
+    const advance = newest && (!status?.lastReadingDate || newest.date >= status.lastReadingDate);
+
+    await recordStatus(entityId, {
+      lastAttemptAt: attemptedAt,
+      lastSuccessAt: new Date().toISOString(),
+      daysIngested: stored.length,
+      lastError: null,
+      ...(advance ? { lastReadingDate: newest.date, lastKwhValue: newest.kwhValue } : {})
+    });
+  } catch (error) {
+    console.error(`Energy collection failed for ${entityId}:`, error);
+    result.error = error instanceof Error ? error.message : String(error);
+    await recordStatus(entityId, { lastAttemptAt: attemptedAt, daysIngested: 0, lastError: result.error });
+  }
+
+  return result;
+}
+
+export async function getIngestionStatus(): Promise<Array<EnergyIngestionStatusRecord & { readingType: ReadingType | null; collected: boolean }>> {
+  const rows = await db.select().from(energyIngestionStatus);
+  const byEntity = new Map(rows.map(row => [row.entityId, row]));
+  const entities = await getCollectedEntities();
+
+  return [
+    ...entities.map(({ entityId, readingType }) => ({
+      ...(byEntity.get(entityId) ?? {
+        entityId,
+        lastAttemptAt: null,
+        lastSuccessAt: null,
+        lastReadingDate: null,
+        lastKwhValue: null,
+        daysIngested: 0,
+        lastError: null,
+        updatedAt: ''
+      }),
+      readingType,
+      collected: true
+    })),
+    // Entities backfilled once but no longer in the collected list
+    ...rows
+      .filter(row => !entities.some(entity => entity.entityId === row.entityId))
+      .map(row => ({ ...row, readingType: null, collected: false }))
+  ];
+}
+
+// Runs hourly in the server process, started from instrumentation.ts
+export class EnergyCollector {
+  private timer: NodeJS.Timeout | null = null;
+  private current: Promise<CollectionResult> | null = null;
+  private lastRunAt: string | null = null;
+  private nextRunAt: string | null = null;
+  private lastResult: CollectionResult | null = null;
+  private lastError: string | null = null;
+
+  start(): void {
+    if (this.timer) return;
+    this.schedule(STARTUP_DELAY_MS);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.nextRunAt = null;
+  }
+
+  isRunning(): boolean {
+    return this.current !== null;
+  }
+
+  // Collect now. Without a range each entity continues from its newest
+  // reading; with one, exactly that range is collected again (a backfill).
+  collect(options: CollectOptions = {}): Promise<CollectionResult> {
+    if (!this.current) {
+      this.current = this.run(options).finally(() => {
+        this.current = null;
+      });
+    }
+    return this.current;
+  }
+
+  getStatus() {
+    return {
+      running: this.isRunning(),
+      scheduled: this.timer !== null,
+      lastRunAt: this.lastRunAt,
+      nextRunAt: this.nextRunAt,
+      lastError: this.lastError,
+      lastResult: this.lastResult && {
+        startedAt: this.lastResult.startedAt,
+        finishedAt: this.lastResult.finishedAt,
+        days: this.lastResult.entities.reduce((sum, entity) => sum + entity.days, 0),
+        failed: this.lastResult.entities.filter(entity => entity.error).map(entity => entity.entityId)
+      }
+    };
+  }
+
+  private schedule(delay: number): void {
+    this.nextRunAt = new Date(Date.now() + delay).toISOString();
+    this.timer = setTimeout(() => {
+      this.collect()
+        .catch(error => console.error('Energy collection failed:', error))
+        .finally(() => {
+          if (this.timer) this.schedule(COLLECT_INTERVAL_MS);
+        });
+    }, delay);
+  }
+
+  private async run(options: CollectOptions): Promise<CollectionResult> {
+    const startedAt = new Date().toISOString();
+    const { timezone } = await getIntervalSettings();
+    const result: CollectionResult = { startedAt, finishedAt: startedAt, timezone, entities: [] };
+
+    const ha = await createServerHomeAssistantAPI();
+    if (!ha) {
+      result.error = 'Home Assistant connection is not configured';
+    } else {
+      const today = localToday(timezone);
+      const entities = (await getCollectedEntities())
+        .filter(entity => !options.entityIds || options.entityIds.includes(entity.entityId));
+      for (const entity of entities) {
+        const from = options.from ?? await defaultStartDate(entity.entityId, today);
+        const to = options.to ?? today;
+        result.entities.push(await collectEntity(ha, entity, { from, to, timezone }));
+      }
+      if (!options.entityIds) {
+        result.temperatures = await collectTemperatures(ha, { from: options.from, to: options.to ?? today, timezone });
+        try {
+          result.alerts = (await evaluateAlerts()).created.length;
+        } catch (error) {
+          console.error('Energy alert evaluation failed:', error);
+        }
+      }
+    }
+
+    result.finishedAt = new Date().toISOString();
+    this.lastRunAt = result.finishedAt;
+    this.lastResult = result;
+    this.lastError = result.error
+      ?? (result.entities.some(entity => entity.error) ? 'Some entities failed; see their status' : null);
+    return result;
+  }
+}
+
+// Export singleton instance, on globalThis like the automation engine's so
+// the ingestion route sees the collector instrumentation.ts scheduled
+const globalForCollector = globalThis as typeof globalThis & { __energyCollector?: EnergyCollector };
+
+export function getEnergyCollector(): EnergyCollector {
+  globalForCollector.__energyCollector ??= new EnergyCollector();
+  return globalForCollector.__energyCollector;
+}
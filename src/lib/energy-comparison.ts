@@ -0,0 +1,257 @@
+// File path: src/lib/energy-comparison.ts
+
+import { loadReadings, readingsToUsage } from '@/lib/energy-billing';
+import { getIntervalSettings, localToday } from '@/lib/energy-intervals';
+import { BALANCE_POINTS, convertTemperature, degreeDays, loadTemperatures, type TemperatureUnit } from '@/lib/energy-weather';
+import { addDays, type BillingPeriod } from '@/lib/tariff';
+
+// Year-over-year comparison of a billing period, weather-normalized.
+//
+// The period is lined up on the same dates in earlier years (Feb 29 becomes
+// Feb 28). A period still in progress is compared through yesterday, and the
+// earlier ones are cut to the same days. Usage is compared per day with
+// readings, so gaps in either year do not skew the change.
+//
+// Each period's daily usage is fitted against the day's heating and cooling
+// degree days from the stored outdoor temperatures (lib/energy-weather):
+//
+//   kWh = base + h × HDD + c × CDD
+//
+// dropping a term whose slope comes out negative. The normalized change
+// asks what the earlier year's home would have used in this year's weather:
+// its model applied to this period's average degree days, set against what
+// this period actually used. That separates a real change in the house (an
+// insulation upgrade, a new heat pump) from a mild or harsh season.
+
+const MIN_MODEL_DAYS = 14;
+export const MAX_COMPARISON_YEARS = 5;
+
+export interface DegreeDayModel {
+  baseKwhPerDay: number;
+  kwhPerHdd: number;
+  kwhPerCdd: number;
+  r2: number | null;
+  days: number;
+}
+
+export interface ComparisonPeriod {
+  year: number;
+  startDate: string;
+  endDate: string;
+  days: number;
+  readingDays: number;
+  totalKwh: number;
+  avgDailyKwh: number | null;
+  temperatureDays: number;
+  meanTemperature: number | null;
+  hdd: number;
+  cdd: number;
+  model: DegreeDayModel | null;
+}
+
+export interface YearComparison {
+  year: number;
+  rawChangePct: number | null;
+  // The earlier year's model in this period's weather
+  normalizedKwh: number | null;
+  normalizedChangePct: number | null;
+  // How much the weather difference alone moves the earlier year's usage
+  weatherEffectPct: number | null;
+  note: string | null;
+}
+
+export interface EnergyComparison {
+  month: string;
+  startDate: string;
+  endDate: string;
+  throughDate: string;
+  partial: boolean;
+  unit: TemperatureUnit;
+  balancePoint: number;
+  periods: ComparisonPeriod[];
+  comparisons: YearComparison[];
+}
+
+interface ModelDay {
+  kwh: number;
+  hdd: number;
+  cdd: number;
+}
+
+function round(value: number, places = 2): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+// The same date `years` earlier, Feb 29 falling back to Feb 28
+export function shiftYears(date: string, years: number): string {
+  const shifted = `${Number(date.slice(0, 4)) + years}${date.slice(4)}`;
+  if (date.slice(5) !== '02-29') return shifted;
+  const year = Number(shifted.slice(0, 4));
+  const leap = (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+  return leap ? shifted : `${year}-02-28`;
+}
+
+function daysBetween(startDate: string, endDate: string): number {
+  return Math.round((Date.parse(`${endDate}T00:00:00Z`) - Date.parse(`${startDate}T00:00:00Z`)) / 86400000) + 1;
+}
+
+// Least squares over the given regressors; null when they are collinear
+function leastSquares(days: ModelDay[], terms: Array<'hdd' | 'cdd'>): { coefficients: number[]; r2: number | null } | null {
+  const rows = days.map(day => [1, ...terms.map(term => day[term])]);
+  const size = terms.length + 1;
+  const matrix = Array.from({ length: size }, (_, i) => Array.from({ length: size + 1 }, (_, j) =>
+    rows.reduce((sum, row, index) => sum + row[i] * (j < size ? row[j] : days[index].kwh), 0)
+  ));
+
+  for (let column = 0; column < size; column++) {
+    const pivot = matrix.slice(column).reduce((best, row, offset) =>
+      Math.abs(row[column]) > Math.abs(matrix[best][column]) ? column + offset : best, column);
+    if (Math.abs(matrix[pivot][column]) < 1e-9) return null;
+    [matrix[column], matrix[pivot]] = [matrix[pivot], matrix[column]];
+    for (let row = 0; row < size; row++) {
+      if (row === column) continue;
+      const factor = matrix[row][column] / matrix[column][column];
+      for (let j = column; j <= size; j++) matrix[row][j] -= factor * matrix[column][j];
+    }
+  }
+  const coefficients = matrix.map((row, index) => row[size] / row[index]);
+
+  const mean = days.reduce((sum, day) => sum + day.kwh, 0) / days.length;
+  const total = days.reduce((sum, day) => sum + (day.kwh - mean) ** 2, 0);
+  const residual = days.reduce((sum, day, index) =>
+    sum + (day.kwh - rows[index].reduce((fit, value, term) => fit + value * coefficients[term], 0)) ** 2, 0);
+  return { coefficients, r2: total > 0 ? 1 - residual / total : null };
+}
+
+export function fitDegreeDayModel(days: ModelDay[]): DegreeDayModel | null {
+  if (days.length < MIN_MODEL_DAYS) return null;
+
+  // The full model when both slopes come out positive, else the better
+  // single term, else the plain average
+  type Fit = { terms: Array<'hdd' | 'cdd'>; coefficients: number[]; r2: number | null };
+  const fit = (terms: Array<'hdd' | 'cdd'>): Fit | null => {
+    const result = leastSquares(days, terms);
+    return result && result.coefficients.slice(1).every(slope => slope >= 0) ? { terms, ...result } : null;
+  };
+  const best = fit(['hdd', 'cdd']) ?? [fit(['hdd']), fit(['cdd'])]
+    .filter((candidate): candidate is Fit => candidate !== null)
+    .sort((a, b) => (b.r2 ?? 0) - (a.r2 ?? 0))[0] ?? null;
+
+  const slope = (term: 'hdd' | 'cdd') => best && best.terms.includes(term) ? best.coefficients[best.terms.indexOf(term) + 1] : 0;
+  const mean = days.reduce((sum, day) => sum + day.kwh, 0) / days.length;
+  return {
+    baseKwhPerDay: round(best ? best.coefficients[0] : mean, 3),
+    kwhPerHdd: round(slope('hdd'), 4),
+    kwhPerCdd: round(slope('cdd'), 4),
+    r2: best?.r2 != null ? round(best.r2, 3) : null,
+    days: days.length
+  };
+}
+
+async function summarizePeriod(startDate: string, endDate: string, unit: TemperatureUnit): Promise<ComparisonPeriod> {
+  const [readings, temperatures] = await Promise.all([loadReadings(startDate, endDate), loadTemperatures(startDate, endDate)]);
+
+  const usage = new Map<string, number>();
+  for (const day of readingsToUsage(readings)) {
+    if (day.date < startDate || day.date > endDate) continue;
+    usage.set(day.date, (usage.get(day.date) ?? 0) + day.kwh);
+  }
+
+  const weather = new Map(temperatures.map(row => {
+    const mean = convertTemperature(row.meanTemp, row.unit === 'C' ? 'C' : 'F', unit);
+    return [row.date, { mean, ...degreeDays(mean, unit) }];
+  }));
+
+  const modelDays: ModelDay[] = [];
+  usage.forEach((kwh, date) => {
+    const day = weather.get(date);
+    if (day) modelDays.push({ kwh, hdd: day.hdd, cdd: day.cdd });
+  });
+
+  const totalKwh = Array.from(usage.values()).reduce((sum, kwh) => sum + kwh, 0);
+  const means = Array.from(weather.values());
+  return {
+    year: Number(startDate.slice(0, 4)),
+    startDate,
+    endDate,
+    days: daysBetween(startDate, endDate),
+    readingDays: usage.size,
+    totalKwh: round(totalKwh),
+    avgDailyKwh: usage.size > 0 ? round(totalKwh / usage.size, 3) : null,
+    temperatureDays: means.length,
+    meanTemperature: means.length > 0 ? round(means.reduce((sum, day) => sum + day.mean, 0) / means.length, 1) : null,
+    hdd: round(means.reduce((sum, day) => sum + day.hdd, 0), 1),
+    cdd: round(means.reduce((sum, day) => sum + day.cdd, 0), 1),
+    model: fitDegreeDayModel(modelDays)
+  };
+}
+
+function compare(current: ComparisonPeriod, previous: ComparisonPeriod): YearComparison {
+  const result: YearComparison = {
+    year: previous.year,
+    rawChangePct: null,
+    normalizedKwh: null,
+    normalizedChangePct: null,
+    weatherEffectPct: null,
+    note: null
+  };
+  if (current.avgDailyKwh === null || previous.avgDailyKwh === null || previous.avgDailyKwh === 0) {
+    result.note = `No readings for this period in ${previous.avgDailyKwh === null ? previous.year : current.year}`;
+    return result;
+  }
+  result.rawChangePct = round((current.avgDailyKwh - previous.avgDailyKwh) / previous.avgDailyKwh * 100, 1);
+
+  if (current.temperatureDays === 0) {
+    result.note = `No outdoor temperatures stored for ${current.year}`;
+    return result;
+  }
+  if (!previous.model) {
+    result.note = `Fewer than ${MIN_MODEL_DAYS} days with both readings and temperatures in ${previous.year}`;
+    return result;
+  }
+
+  const { model } = previous;
+  const expectedDaily = model.baseKwhPerDay
+    + model.kwhPerHdd * current.hdd / current.temperatureDays
+    + model.kwhPerCdd * current.cdd / current.temperatureDays;
+  if (expectedDaily <= 0) {
+    result.note = `The ${previous.year} model does not fit this period's weather`;
+    return result;
+  }
+
+  result.normalizedKwh = round(expectedDaily * current.readingDays);
+  result.normalizedChangePct = round((current.avgDailyKwh - expectedDaily) / expectedDaily * 100, 1);
+  result.weatherEffectPct = round((expectedDaily - previous.avgDailyKwh) / previous.avgDailyKwh * 100, 1);
+  return result;
+}
+
+// Null when the period has not started yet
+export async function compareYears(month: string, period: BillingPeriod, years: number): Promise<EnergyComparison | null> {
+  const { timezone } = await getIntervalSettings();
+  const yesterday = addDays(localToday(timezone), -1);
+  const throughDate = period.endDate > yesterday ? yesterday : period.endDate;
+  if (throughDate < period.startDate) return null;
+
+  // Degree days in the unit most recently recorded
+  const [latest] = (await loadTemperatures(shiftYears(period.startDate, -years), throughDate)).slice(-1);
+  const unit: TemperatureUnit = latest?.unit === 'C' ? 'C' : 'F';
+
+  const periods: ComparisonPeriod[] = [];
+  for (let offset = 0; offset <= years; offset++) {
+    periods.push(await summarizePeriod(shiftYears(period.startDate, -offset), shiftYears(throughDate, -offset), unit));
+  }
+
+  const [current, ...previous] = periods;
+  return {
+    month,
+    startDate: period.startDate,
+    endDate: period.endDate,
+    throughDate,
+    partial: throughDate < period.endDate,
+    unit,
+    balancePoint: BALANCE_POINTS[unit],
+    periods,
+    comparisons: previous.map(entry => compare(current, entry))
+  };
+}
@@ -0,0 +1,89 @@
+// File path: src/lib/energy-export.ts
+
+import { db } from '@/db';
+import { energyBills, energyReadings } from '@/db/schema';
+import { and, asc, eq, getTableColumns, gte, lte, type SQL } from 'drizzle-orm';
+import { TariffApiError, isValidDate } from '@/lib/tariff';
+import { formatCsv } from '@/lib/csv';
+
+// Readings and bills out of the system (/api/energy/export). CSV and JSON
+// carry the rows as stored, CSV with the database column names as its
+// header; Green Button XML is built in lib/energy-green-button.
+//
+// Bills are selected by billing month, so a range from 2024-01-15 takes the
+// January bill whole.
+
+export const EXPORT_FORMATS = ['csv', 'json', 'xml'] as const;
+export const EXPORT_DATASETS = ['readings', 'bills', 'all'] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+export type ExportDataset = typeof EXPORT_DATASETS[number];
+
+type EnergyReadingRecord = typeof energyReadings.$inferSelect;
+type EnergyBillRecord = typeof energyBills.$inferSelect;
+
+export interface ExportRange {
+  dateFrom: string | null;
+  dateTo: string | null;
+  entityId: string | null;
+}
+
+export function validateExportRange(dateFrom: string | null, dateTo: string | null): void {
+  if ((dateFrom !== null && !isValidDate(dateFrom)) || (dateTo !== null && !isValidDate(dateTo))) {
+    throw new TariffApiError('date_from and date_to must be valid dates in YYYY-MM-DD format', 'INVALID_DATE_FORMAT');
+  }
+  if (dateFrom !== null && dateTo !== null && dateTo < dateFrom) {
+    throw new TariffApiError('date_to must not be before date_from', 'INVALID_DATE_RANGE');
+  }
+}
+
+export async function exportReadings({ dateFrom, dateTo, entityId }: ExportRange): Promise<EnergyReadingRecord[]> {
+  const conditions: SQL[] = [];
+  if (dateFrom) conditions.push(gte(energyReadings.readingDate, dateFrom));
+  if (dateTo) conditions.push(lte(energyReadings.readingDate, dateTo));
+  if (entityId) conditions.push(eq(energyReadings.entityId, entityId));
+
+  return db.select()
+    .from(energyReadings)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(asc(energyReadings.entityId), asc(energyReadings.readingDate));
+}
+
+export async function exportBills({ dateFrom, dateTo }: ExportRange): Promise<EnergyBillRecord[]> {
+  const conditions: SQL[] = [];
+  if (dateFrom) conditions.push(gte(energyBills.billingMonth, dateFrom.slice(0, 7)));
+  if (dateTo) conditions.push(lte(energyBills.billingMonth, dateTo.slice(0, 7)));
+
+  return db.select()
+    .from(energyBills)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(asc(energyBills.billingMonth));
+}
+
+function tableCsv<T extends Record<string, unknown>>(columns: Record<string, { name: string }>, rows: T[]): string {
+  const keys = Object.keys(columns);
+  return formatCsv([
+    keys.map(key => columns[key].name),
+    ...rows.map(row => keys.map(key => {
+      const value = row[key];
+      if (value === null || value === undefined) return null;
+      return typeof value === 'object' ? JSON.stringify(value) : value as string | number | boolean;
+    }))
+  ]);
+}
+
+export function readingsCsv(readings: EnergyReadingRecord[]): string {
+  return tableCsv(getTableColumns(energyReadings), readings);
+}
+
+export function billsCsv(bills: EnergyBillRecord[]): string {
+  return tableCsv(getTableColumns(energyBills), bills);
+}
+
+// Download name, e.g. energy-readings-2024-01-01-2024-03-31.csv
+export function exportFilename(dataset: ExportDataset, format: ExportFormat, range: ExportRange): string {
+  const parts = ['energy', dataset === 'all' ? 'data' : dataset];
+  if (range.dateFrom) parts.push(range.dateFrom);
+  if (range.dateTo) parts.push(range.dateTo);
+  return `${parts.join('-')}.${format}`;
+}
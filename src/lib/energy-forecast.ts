@@ -0,0 +1,368 @@
+// File path: src/lib/energy-forecast.ts
+
+import { computeBill, loadPreviousBank, loadReadings, loadUsage, readingsToUsage } from '@/lib/energy-billing';
+import { resolveBillingTariff } from '@/lib/tariff-service';
+import { addDays, roundCurrency, type BillingPeriod, type DailyUsage } from '@/lib/tariff';
+import { getIntervalSettings, loadEnergySettings, localDate, localMidnight, localToday } from '@/lib/energy-intervals';
+import { createServerHomeAssistantAPI } from '@/lib/homeassistant-server';
+import { BALANCE_POINTS, dailyTemperaturesFromHistory } from '@/lib/energy-weather';
+
+// Month-end projection of a billing period. Days before today are billed
+// from readings; today and the rest of the period are predicted from the
+// last eight weeks of daily consumption:
+//
+//   kWh = weekday factor × (baseline | a + b × degree days)
+//
+// Weekday factors are each weekday's average relative to the overall one.
+// With a weather entity configured and enough temperature history, the
+// weekday-adjusted usage is fitted against degree days (distance from a
+// 65°F / 18.3°C balance point, so heating and cooling both count); otherwise
+// the baseline is the recent average. The spread of past days around the
+// model gives the confidence bands, and every scenario is priced through
+// the tariff calculator so tiers, TOU and export terms apply.
+
+const HISTORY_DAYS = 56;
+const MIN_HISTORY_DAYS = 7;
+const MIN_TEMPERATURE_DAYS = 14;
+const BASELINE_DAYS = 28;
+const EXPORT_DAYS = 14;
+// Days after the weather forecast ends use the average of the last week
+const PERSISTENCE_DAYS = 7;
+const Z_SCORES = { p80: 1.2816, p95: 1.96 } as const;
+
+export interface ForecastDay {
+  date: string;
+  kwh: number;
+  low: number;
+  high: number;
+  actual: boolean;
+  temperature: number | null;
+}
+
+export interface ForecastBand {
+  lowKwh: number;
+  highKwh: number;
+  lowCost: number;
+  highCost: number;
+}
+
+export interface BudgetAlert {
+  amount: number;
+  status: 'ok' | 'at_risk' | 'over_budget';
+  message: string;
+}
+
+export interface TemperatureModel {
+  entityId: string;
+  unit: 'F' | 'C';
+  balancePoint: number;
+  intercept: number;
+  kwhPerDegreeDay: number;
+  days: number;
+}
+
+export interface EnergyForecast {
+  month: string;
+  startDate: string;
+  endDate: string;
+  today: string;
+  complete: boolean;
+  actualDays: number;
+  actualKwh: number;
+  projectedDays: number;
+  projectedKwh: number;
+  kwh: number;
+  exportKwh: number;
+  cost: number;
+  bands: { p80: ForecastBand; p95: ForecastBand };
+  touEstimated: boolean;
+  days: ForecastDay[];
+  model: {
+    historyDays: number;
+    baselineKwh: number;
+    weekdayFactors: number[];
+    residualKwh: number;
+    temperature: TemperatureModel | null;
+  };
+  budget: BudgetAlert | null;
+}
+
+interface HistoryDay {
+  date: string;
+  kwh: number;
+  exportKwh: number;
+  temperature: number | null;
+}
+
+interface Temperatures {
+  entityId: string;
+  unit: 'F' | 'C';
+  byDate: Map<string, number>;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function weekdayOf(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function dailyTotals(usage: DailyUsage[]): Map<string, { kwh: number; exportKwh: number }> {
+  const totals = new Map<string, { kwh: number; exportKwh: number }>();
+  for (const day of usage) {
+    const total = totals.get(day.date) ?? { kwh: 0, exportKwh: 0 };
+    total.kwh += day.kwh;
+    total.exportKwh += day.exportKwh ?? 0;
+    totals.set(day.date, total);
+  }
+  return totals;
+}
+
+// ---------------------------------------------------------------------------
+// Temperatures
+// ---------------------------------------------------------------------------
+
+// Daily mean temperatures for the history window (see lib/energy-weather)
+// and, for a weather entity, the days ahead from its daily forecast,
+// averaging the high and low. Null when there is no weather entity or Home
+// Assistant cannot be reached; the forecast then ignores temperature.
+async function loadTemperatures(entityId: string, startDate: string, endDate: string, timezone: string): Promise<Temperatures | null> {
+  const ha = await createServerHomeAssistantAPI();
+  if (!ha) return null;
+
+  try {
+    const history = await ha.getHistory(
+      entityId,
+      new Date(localMidnight(startDate, timezone)),
+      new Date(Math.min(localMidnight(addDays(endDate, 1), timezone), Date.now())),
+      { attributes: entityId.startsWith('weather.') }
+    );
+
+    const { unit, days } = dailyTemperaturesFromHistory(entityId, history, timezone);
+    const byDate = new Map(days.map(day => [day.date, day.mean]));
+
+    const forecast = entityId.startsWith('weather.') ? await ha.getWeatherForecast(entityId) : [];
+    for (const day of forecast) {
+      const high = Number(day.temperature);
+      if (!isFinite(high)) continue;
+      const low = Number(day.templow);
+      const date = localDate(Date.parse(day.datetime), timezone);
+      if (!byDate.has(date) || date >= localToday(timezone)) {
+        byDate.set(date, isFinite(low) ? (high + low) / 2 : high);
+      }
+    }
+
+    return { entityId, unit, byDate };
+  } catch (error) {
+    console.error(`Failed to load temperatures from ${entityId}:`, error);
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Model
+// ---------------------------------------------------------------------------
+
+interface UsageModel {
+  weekdayFactors: number[];
+  baselineKwh: number;
+  temperature: TemperatureModel | null;
+  residualKwh: number;
+}
+
+function fitModel(history: HistoryDay[], temperatures: Temperatures | null): UsageModel {
+  const overall = mean(history.map(day => day.kwh));
+  const weekdayFactors = Array.from({ length: 7 }, (_, weekday) => {
+    const days = history.filter(day => weekdayOf(day.date) === weekday);
+    // A single sample says more about that day than about the weekday
+    return days.length >= 2 && overall > 0 ? mean(days.map(day => day.kwh)) / overall : 1;
+  });
+
+  const adjusted = history.map(day => ({ ...day, kwh: day.kwh / (weekdayFactors[weekdayOf(day.date)] || 1) }));
+  const baselineKwh = mean(adjusted.slice(-BASELINE_DAYS).map(day => day.kwh));
+
+  let temperature: TemperatureModel | null = null;
+  const withTemperature = adjusted.filter(day => day.temperature !== null);
+  if (temperatures && withTemperature.length >= MIN_TEMPERATURE_DAYS) {
+    const balancePoint = BALANCE_POINTS[temperatures.unit];
+    const x = withTemperature.map(day => Math.abs((day.temperature as number) - balancePoint));
+    const y = withTemperature.map(day => day.kwh);
+    const meanX = mean(x);
+    const meanY = mean(y);
+    const sxx = x.reduce((sum, value) => sum + (value - meanX) ** 2, 0);
+    const sxy = x.reduce((sum, value, index) => sum + (value - meanX) * (y[index] - meanY), 0);
+    const slope = sxx > 0 ? sxy / sxx : 0;
+    // Usage that falls as the weather gets more extreme is noise, not a trend
+    if (slope > 0) {
+      temperature = {
+        entityId: temperatures.entityId,
+        unit: temperatures.unit,
+        balancePoint,
+        intercept: meanY - slope * meanX,
+        kwhPerDegreeDay: slope,
+        days: withTemperature.length
+      };
+    }
+  }
+
+  const model: UsageModel = { weekdayFactors, baselineKwh, temperature, residualKwh: 0 };
+  const errors = history.map(day => day.kwh - predictDay(model, day.date, day.temperature));
+  const freedom = Math.max(1, errors.length - (temperature ? 2 : 1));
+  model.residualKwh = Math.sqrt(errors.reduce((sum, error) => sum + error ** 2, 0) / freedom);
+  return model;
+}
+
+function predictDay(model: UsageModel, date: string, temperature: number | null): number {
+  const factor = model.weekdayFactors[weekdayOf(date)];
+  const { temperature: fit } = model;
+  const base = fit && temperature !== null
+    ? fit.intercept + fit.kwhPerDegreeDay * Math.abs(temperature - fit.balancePoint)
+    : model.baselineKwh;
+  return Math.max(0, factor * base);
+}
+
+// ---------------------------------------------------------------------------
+// Forecast
+// ---------------------------------------------------------------------------
+
+function budgetAlert(amount: number, cost: number, band: ForecastBand): BudgetAlert {
+  if (cost > amount) {
+    return {
+      amount,
+      status: 'over_budget',
+      message: `Projected bill of $${cost.toFixed(2)} is over the $${amount.toFixed(2)} budget`
+    };
+  }
+  if (band.highCost > amount) {
+    return {
+      amount,
+      status: 'at_risk',
+      message: `Projected bill of $${cost.toFixed(2)} could exceed the $${amount.toFixed(2)} budget`
+    };
+  }
+  return {
+    amount,
+    status: 'ok',
+    message: `Projected bill of $${cost.toFixed(2)} is within the $${amount.toFixed(2)} budget`
+  };
+}
+
+// Null when there is neither usage in the period nor enough history to
+// predict the rest of it
+export async function forecastBill(month: string, period: BillingPeriod): Promise<EnergyForecast | null> {
+  const { timezone } = await getIntervalSettings();
+  const energySettings = await loadEnergySettings();
+  const today = localToday(timezone);
+  const historyStart = addDays(today, -HISTORY_DAYS);
+  const historyEnd = addDays(today, -1);
+
+  const weatherEntity = typeof energySettings.weatherEntity === 'string' ? energySettings.weatherEntity.trim() : '';
+  const complete = period.endDate < today;
+  const temperatures = weatherEntity && !complete
+    ? await loadTemperatures(weatherEntity, historyStart, historyEnd, timezone)
+    : null;
+
+  const historyTotals = dailyTotals(readingsToUsage(await loadReadings(historyStart, historyEnd)));
+  const history: HistoryDay[] = Array.from(historyTotals.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, total]) => ({ date, ...total, temperature: temperatures?.byDate.get(date) ?? null }));
+
+  const { usage } = await loadUsage(period);
+  // Today's readings are partial, so today is predicted with the rest
+  const actualUsage = usage.filter(day => day.date < today);
+  const actualTotals = dailyTotals(actualUsage);
+
+  if (actualTotals.size === 0 && (complete || history.length < MIN_HISTORY_DAYS)) {
+    return null;
+  }
+
+  const model = history.length >= MIN_HISTORY_DAYS
+    ? fitModel(history, temperatures)
+    : { weekdayFactors: new Array(7).fill(1), baselineKwh: mean(Array.from(actualTotals.values()).map(day => day.kwh)), temperature: null, residualKwh: 0 };
+  const recentTemperatures = history.slice(-PERSISTENCE_DAYS)
+    .map(day => day.temperature)
+    .filter((value): value is number => value !== null);
+  const persistence = recentTemperatures.length > 0 ? mean(recentTemperatures) : null;
+  const exportKwhPerDay = mean(history.slice(-EXPORT_DAYS).map(day => day.exportKwh));
+  const partialToday = dailyTotals(usage.filter(day => day.date === today)).get(today)?.kwh ?? 0;
+
+  const days: ForecastDay[] = [];
+  const projected: DailyUsage[] = [];
+  for (let date = period.startDate; date <= period.endDate; date = addDays(date, 1)) {
+    if (date < today) {
+      const kwh = actualTotals.get(date)?.kwh ?? 0;
+      days.push({ date, kwh: round(kwh), low: round(kwh), high: round(kwh), actual: true, temperature: temperatures?.byDate.get(date) ?? null });
+      continue;
+    }
+    const temperature = temperatures?.byDate.get(date) ?? persistence;
+    let kwh = predictDay(model, date, temperature);
+    if (date === today) kwh = Math.max(kwh, partialToday);
+    projected.push({ date, kwh, exportKwh: exportKwhPerDay });
+    days.push({ date, kwh: round(kwh), low: 0, high: 0, actual: false, temperature: temperature === null ? null : round(temperature) });
+  }
+
+  const projectedKwh = projected.reduce((sum, day) => sum + day.kwh, 0);
+  const actualKwh = Array.from(actualTotals.values()).reduce((sum, day) => sum + day.kwh, 0);
+  const spread = (z: number) => z * model.residualKwh * Math.sqrt(projected.length);
+  const dailySpread = Z_SCORES.p80 * model.residualKwh;
+  days.filter(day => !day.actual).forEach(day => {
+    day.low = round(Math.max(0, day.kwh - dailySpread));
+    day.high = round(day.kwh + dailySpread);
+  });
+
+  const tariff = await resolveBillingTariff();
+  const bank = await loadPreviousBank(month);
+  // Price the actual days plus the projection scaled to a total
+  const price = (totalProjectedKwh: number) => {
+    const scale = projectedKwh > 0 ? Math.max(0, totalProjectedKwh) / projectedKwh : 0;
+    return computeBill(tariff, period, [
+      ...actualUsage,
+      ...projected.map(day => ({ ...day, kwh: day.kwh * scale }))
+    ], bank);
+  };
+  const band = (z: number): ForecastBand => {
+    const low = Math.max(0, projectedKwh - spread(z));
+    const high = projectedKwh + spread(z);
+    return {
+      lowKwh: round(actualKwh + low),
+      highKwh: round(actualKwh + high),
+      lowCost: roundCurrency(price(low).total),
+      highCost: roundCurrency(price(high).total)
+    };
+  };
+
+  const expected = price(projectedKwh);
+  const bands = { p80: band(Z_SCORES.p80), p95: band(Z_SCORES.p95) };
+  const budget = Number(energySettings.monthlyBudget);
+
+  return {
+    month,
+    startDate: period.startDate,
+    endDate: period.endDate,
+    today,
+    complete,
+    actualDays: days.filter(day => day.actual).length,
+    actualKwh: round(actualKwh),
+    projectedDays: projected.length,
+    projectedKwh: round(projectedKwh),
+    kwh: round(actualKwh + projectedKwh),
+    exportKwh: round(expected.exportKwh),
+    cost: roundCurrency(expected.total),
+    bands,
+    touEstimated: expected.touEstimated,
+    days,
+    model: {
+      historyDays: history.length,
+      baselineKwh: round(model.baselineKwh),
+      weekdayFactors: model.weekdayFactors.map(factor => Math.round(factor * 1000) / 1000),
+      residualKwh: round(model.residualKwh),
+      temperature: model.temperature
+    },
+    budget: budget > 0 ? budgetAlert(budget, roundCurrency(expected.total), bands.p80) : null
+  };
+}
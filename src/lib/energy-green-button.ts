@@ -0,0 +1,475 @@
+// File path: src/lib/energy-green-button.ts
+
+import { createHash } from 'crypto';
+import { db } from '@/db';
+import { energyBills, energyReadings } from '@/db/schema';
+import { and, eq, gte, lte } from 'drizzle-orm';
+import { MAIN_ENTITIES } from '@/lib/homeassistant';
+import { READING_TYPES, calendarMonthPeriod, type ReadingType } from '@/lib/energy-billing';
+import { friendlyNameFor, updateRollingTotals } from '@/lib/energy-collector';
+import { localDate, localMidnight } from '@/lib/energy-intervals';
+import { TariffApiError, addDays } from '@/lib/tariff';
+
+// Green Button (NAESB ESPI) Atom feeds, the format utility portals offer
+// for "Download My Data".
+//
+// Export: one UsagePoint per entity holding a MeterReading of daily
+// IntervalReadings in Wh (delta data, flow direction 19 for export readings,
+// 1 for the rest), and the bills as UsageSummary entries on the billing
+// meter's UsagePoint. UsagePoint ids are the entity ids, so a file exported
+// here imports back onto the same entities.
+//
+// Import: IntervalReadings in Wh are summed into local days. A UsagePoint
+// whose id is not an entity id becomes sensor.green_button_<id> (with
+// _export for reverse flow) unless entity_id is given. Forward flow keeps the
+// reading type the entity already has, else the requested one (main by
+// default); reverse flow is always export. Days the entity already has a
+// reading for are skipped unless replace is set, and manual readings are
+// never replaced. The file carries no meter register, so kwhValue is the
+// day's usage.
+
+const ESPI_BASE = '/espi/1_1/resource';
+const SECONDS_PER_DAY = 86400;
+// Longest interval taken as one day: 25 hours covers the DST change
+const MAX_INTERVAL_SECONDS = SECONDS_PER_DAY + 3600;
+
+const UOM_WH = 72;
+const FLOW_FORWARD = 1;
+const FLOW_REVERSE = 19;
+const ACCUMULATION_DELTA = 4;
+const COMMODITY_ELECTRICITY = 1;
+const KIND_ENERGY = 12;
+const CURRENCY_USD = 840;
+// billLastPeriod is in hundred-thousandths of the currency
+const BILL_AMOUNT_SCALE = 100000;
+
+type EnergyReadingRecord = typeof energyReadings.$inferSelect;
+type EnergyBillRecord = typeof energyBills.$inferSelect;
+
+export interface GreenButtonSeries {
+  usagePointId: string;
+  title: string | null;
+  flowDirection: number;
+  days: Array<{ date: string; kwh: number }>;
+}
+
+export interface GreenButtonImportOptions {
+  timezone: string;
+  entityId?: string | null;
+  readingType?: ReadingType | null;
+  replace?: boolean;
+}
+
+export interface GreenButtonImportedEntity {
+  entityId: string;
+  usagePointId: string;
+  readingType: ReadingType;
+  firstDate: string;
+  lastDate: string;
+  imported: number;
+  replaced: number;
+  skipped: number;
+}
+
+export interface GreenButtonImportResult {
+  entities: GreenButtonImportedEntity[];
+  errors: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Export
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Entry ids derive from the resource path so repeated exports match
+function uuidFor(href: string): string {
+  const hex = createHash('sha1').update(href).digest('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-a${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+function entry(options: {
+  self: string;
+  up: string;
+  related?: string[];
+  title: string;
+  content: string;
+  updated: string;
+}): string {
+  const links = [
+    `<link rel="self" href="${escapeXml(options.self)}"/>`,
+    `<link rel="up" href="${escapeXml(options.up)}"/>`,
+    ...(options.related ?? []).map(href => `<link rel="related" href="${escapeXml(href)}"/>`)
+  ];
+  return [
+    '  <entry>',
+    `    <id>urn:uuid:${uuidFor(options.self)}</id>`,
+    ...links.map(link => `    ${link}`),
+    `    <title>${escapeXml(options.title)}</title>`,
+    `    <content>${options.content}</content>`,
+    `    <published>${options.updated}</published>`,
+    `    <updated>${options.updated}</updated>`,
+    '  </entry>'
+  ].join('\n');
+}
+
+// Start and length in seconds of a local day
+function dayPeriod(date: string, timezone: string): { start: number; duration: number } {
+  const start = localMidnight(date, timezone);
+  return { start: start / 1000, duration: (localMidnight(addDays(date, 1), timezone) - start) / 1000 };
+}
+
+export function buildGreenButtonXml(
+  readings: EnergyReadingRecord[],
+  bills: EnergyBillRecord[],
+  timezone: string
+): string {
+  const updated = new Date().toISOString();
+  const byEntity = new Map<string, EnergyReadingRecord[]>();
+  for (const reading of readings) {
+    byEntity.set(reading.entityId, [...(byEntity.get(reading.entityId) ?? []), reading]);
+  }
+  const meterEntity = MAIN_ENTITIES[0];
+  if (bills.length > 0 && !byEntity.has(meterEntity)) byEntity.set(meterEntity, []);
+
+  const entries: string[] = [];
+  let readingTypeId = 0;
+  byEntity.forEach((rows, entityId) => {
+    const usagePoint = `${ESPI_BASE}/UsagePoint/${encodeURIComponent(entityId)}`;
+    entries.push(entry({
+      self: usagePoint,
+      up: `${ESPI_BASE}/UsagePoint`,
+      related: [`${usagePoint}/MeterReading`, ...(entityId === meterEntity && bills.length > 0 ? [`${usagePoint}/UsageSummary`] : [])],
+      title: rows[0]?.friendlyName ?? friendlyNameFor(entityId),
+      content: '<UsagePoint xmlns="http://naesb.org/espi"><ServiceCategory><kind>0</kind></ServiceCategory></UsagePoint>',
+      updated
+    }));
+    if (rows.length === 0) return;
+
+    const ordered = [...rows].sort((a, b) => a.readingDate.localeCompare(b.readingDate));
+    const readingType = `${ESPI_BASE}/ReadingType/${++readingTypeId}`;
+    const meterReading = `${usagePoint}/MeterReading/1`;
+    const flowDirection = ordered[0].readingType === 'export' ? FLOW_REVERSE : FLOW_FORWARD;
+
+    entries.push(entry({
+      self: meterReading,
+      up: `${usagePoint}/MeterReading`,
+      related: [`${meterReading}/IntervalBlock`, readingType],
+      title: `${ordered[0].friendlyName} daily usage`,
+      content: '<MeterReading xmlns="http://naesb.org/espi"/>',
+      updated
+    }));
+    entries.push(entry({
+      self: readingType,
+      up: `${ESPI_BASE}/ReadingType`,
+      title: flowDirection === FLOW_REVERSE ? 'Energy Received (Wh)' : 'Energy Delivered (Wh)',
+      content: '<ReadingType xmlns="http://naesb.org/espi">'
+        + `<accumulationBehaviour>${ACCUMULATION_DELTA}</accumulationBehaviour>`
+        + `<commodity>${COMMODITY_ELECTRICITY}</commodity>`
+        + `<flowDirection>${flowDirection}</flowDirection>`
+        + `<intervalLength>${SECONDS_PER_DAY}</intervalLength>`
+        + `<kind>${KIND_ENERGY}</kind>`
+        + '<powerOfTenMultiplier>0</powerOfTenMultiplier>'
+        + `<uom>${UOM_WH}</uom>`
+        + '</ReadingType>',
+      updated
+    }));
+
+    const intervals = ordered.map(reading => ({ ...dayPeriod(reading.readingDate.slice(0, 10), timezone), wh: Math.round(reading.dailyKwh * 1000) }));
+    const last = intervals[intervals.length - 1];
+    entries.push(entry({
+      self: `${meterReading}/IntervalBlock/1`,
+      up: `${meterReading}/IntervalBlock`,
+      title: `${ordered[0].friendlyName} ${ordered[0].readingDate.slice(0, 10)} to ${ordered[ordered.length - 1].readingDate.slice(0, 10)}`,
+      content: '<IntervalBlock xmlns="http://naesb.org/espi">'
+        + `<interval><duration>${last.start + last.duration - intervals[0].start}</duration><start>${intervals[0].start}</start></interval>`
+        + intervals.map(interval => '<IntervalReading>'
+          + `<timePeriod><duration>${interval.duration}</duration><start>${interval.start}</start></timePeriod>`
+          + `<value>${interval.wh}</value>`
+          + '</IntervalReading>').join('')
+        + '</IntervalBlock>',
+      updated
+    }));
+  });
+
+  const meterUsagePoint = `${ESPI_BASE}/UsagePoint/${encodeURIComponent(meterEntity)}`;
+  bills.forEach((bill, index) => {
+    const fallback = calendarMonthPeriod(bill.billingMonth);
+    const start = dayPeriod(bill.periodStart ?? fallback.startDate, timezone).start;
+    const end = dayPeriod(addDays(bill.periodEnd ?? fallback.endDate, 1), timezone).start;
+    entries.push(entry({
+      self: `${meterUsagePoint}/UsageSummary/${index + 1}`,
+      up: `${meterUsagePoint}/UsageSummary`,
+      title: `Bill ${bill.billingMonth}`,
+      content: '<UsageSummary xmlns="http://naesb.org/espi">'
+        + `<billingPeriod><duration>${end - start}</duration><start>${start}</start></billingPeriod>`
+        + `<billLastPeriod>${Math.round(bill.totalBillAmount * BILL_AMOUNT_SCALE)}</billLastPeriod>`
+        + `<currency>${CURRENCY_USD}</currency>`
+        + '<overallConsumptionLastPeriod>'
+        + `<powerOfTenMultiplier>0</powerOfTenMultiplier><uom>${UOM_WH}</uom><value>${Math.round(bill.totalKwhUsed * 1000)}</value>`
+        + '</overallConsumptionLastPeriod>'
+        + `<statusTimeStamp>${Math.floor(Date.parse(bill.createdAt) / 1000) || 0}</statusTimeStamp>`
+        + '</UsageSummary>',
+      updated
+    }));
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom" xmlns:espi="http://naesb.org/espi">',
+    `  <id>urn:uuid:${uuidFor(`${ESPI_BASE}/feed/${updated}`)}</id>`,
+    '  <title>Energy Usage</title>',
+    `  <updated>${updated}</updated>`,
+    ...entries,
+    '</feed>',
+    ''
+  ].join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// Import
+
+function unescapeXml(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// Inner XML of every <name> element, with or without a namespace prefix.
+// ESPI never nests an element inside one of the same name.
+function elements(xml: string, name: string): string[] {
+  const pattern = new RegExp(`<(?:[\\w-]+:)?${name}(?:\\s[^>]*)?(?:/>|>([\\s\\S]*?)</(?:[\\w-]+:)?${name}>)`, 'g');
+  return Array.from(xml.matchAll(pattern), match => match[1] ?? '');
+}
+
+function elementText(xml: string, name: string): string | null {
+  const [inner] = elements(xml, name);
+  return inner === undefined ? null : unescapeXml(inner).trim();
+}
+
+function elementNumber(xml: string, name: string): number | null {
+  const text = elementText(xml, name);
+  const value = text === null || text === '' ? NaN : Number(text);
+  return isFinite(value) ? value : null;
+}
+
+function linkHrefs(xml: string): string[] {
+  return Array.from(xml.matchAll(/<(?:[\w-]+:)?link\b([^>]*)>/g), match => /\bhref\s*=\s*"([^"]*)"/.exec(match[1])?.[1])
+    .filter((href): href is string => !!href)
+    .map(unescapeXml);
+}
+
+function meterReadingKey(href: string): string | null {
+  const match = /UsagePoint\/([^/]+)\/MeterReading\/([^/?#]+)/.exec(href);
+  return match ? `${match[1]}/${match[2]}` : null;
+}
+
+function usagePointOf(href: string): string | null {
+  return /UsagePoint\/([^/?#]+)/.exec(href)?.[1] ?? null;
+}
+
+function decodeId(id: string): string {
+  try {
+    return decodeURIComponent(id);
+  } catch {
+    return id;
+  }
+}
+
+function readingTypeKey(href: string): string | null {
+  return /ReadingType\/([^/?#]+)/.exec(href)?.[1] ?? null;
+}
+
+export function parseGreenButtonXml(xml: string, timezone: string): { series: GreenButtonSeries[]; errors: string[] } {
+  const entries = elements(xml, 'entry');
+  if (!/<(?:[\w-]+:)?(feed|entry)\b/.test(xml) || entries.length === 0) {
+    throw new TariffApiError('Not a Green Button (ESPI) Atom document', 'INVALID_GREEN_BUTTON');
+  }
+
+  const readingTypes = new Map<string, { multiplier: number; uom: number; flowDirection: number }>();
+  const meterReadings = new Map<string, string | null>();
+  const titles = new Map<string, string>();
+  const blocks: Array<{ meterKey: string | null; usagePointId: string | null; content: string }> = [];
+
+  for (const item of entries) {
+    const hrefs = linkHrefs(item);
+    const self = hrefs[0] ?? '';
+    const content = elements(item, 'content')[0] ?? '';
+
+    if (elements(content, 'UsagePoint').length > 0) {
+      const usagePointId = hrefs.map(usagePointOf).find(Boolean);
+      const title = elementText(item, 'title');
+      if (usagePointId && title) titles.set(usagePointId, title);
+    } else if (elements(content, 'ReadingType').length > 0) {
+      const key = hrefs.map(readingTypeKey).find(Boolean);
+      if (key) {
+        readingTypes.set(key, {
+          multiplier: elementNumber(content, 'powerOfTenMultiplier') ?? 0,
+          uom: elementNumber(content, 'uom') ?? UOM_WH,
+          flowDirection: elementNumber(content, 'flowDirection') ?? FLOW_FORWARD
+        });
+      }
+    } else if (elements(content, 'MeterReading').length > 0) {
+      const key = meterReadingKey(self) ?? hrefs.map(meterReadingKey).find(Boolean);
+      if (key) meterReadings.set(key, hrefs.map(readingTypeKey).find(Boolean) ?? null);
+    } else if (elements(content, 'IntervalBlock').length > 0) {
+      const meterKey = hrefs.map(meterReadingKey).find(Boolean) ?? null;
+      blocks.push({ meterKey, usagePointId: hrefs.map(usagePointOf).find(Boolean) ?? null, content });
+    }
+  }
+
+  // Files with a single reading type rarely bother linking it
+  const onlyReadingType = readingTypes.size === 1 ? Array.from(readingTypes.values())[0] : null;
+  const defaultReadingType = { multiplier: 0, uom: UOM_WH, flowDirection: FLOW_FORWARD };
+
+  const series = new Map<string, GreenButtonSeries & { totals: Map<string, number> }>();
+  const errors: string[] = [];
+  const reported = new Set<string>();
+  const report = (message: string) => {
+    if (!reported.has(message)) errors.push(message);
+    reported.add(message);
+  };
+
+  for (const block of blocks) {
+    const rawUsagePointId = block.meterKey?.split('/')[0] ?? block.usagePointId ?? '1';
+    const usagePointId = decodeId(rawUsagePointId);
+    const typeKey = block.meterKey ? meterReadings.get(block.meterKey) : null;
+    const readingType = (typeKey ? readingTypes.get(typeKey) : undefined)
+      ?? onlyReadingType
+      ?? (readingTypes.size === 0 ? defaultReadingType : null);
+
+    if (!readingType) {
+      report(`UsagePoint ${usagePointId}: interval block has no reading type; skipped`);
+      continue;
+    }
+    if (readingType.uom !== UOM_WH) {
+      report(`UsagePoint ${usagePointId}: unit of measure ${readingType.uom} is not Wh (72); skipped`);
+      continue;
+    }
+    if (readingType.flowDirection !== FLOW_FORWARD && readingType.flowDirection !== FLOW_REVERSE) {
+      report(`UsagePoint ${usagePointId}: flow direction ${readingType.flowDirection} is neither delivered (1) nor received (19); skipped`);
+      continue;
+    }
+
+    const key = `${usagePointId}:${readingType.flowDirection}`;
+    const target = series.get(key) ?? {
+      usagePointId,
+      title: titles.get(rawUsagePointId) ?? null,
+      flowDirection: readingType.flowDirection,
+      days: [],
+      totals: new Map<string, number>()
+    };
+    series.set(key, target);
+
+    for (const reading of elements(block.content, 'IntervalReading')) {
+      const start = elementNumber(reading, 'start');
+      const duration = elementNumber(reading, 'duration');
+      const value = elementNumber(reading, 'value');
+      if (start === null || value === null) continue;
+      if (duration !== null && duration > MAX_INTERVAL_SECONDS) {
+        report(`UsagePoint ${usagePointId}: intervals longer than a day are not imported`);
+        continue;
+      }
+      const date = localDate(start * 1000, timezone);
+      const kwh = value * 10 ** readingType.multiplier / 1000;
+      target.totals.set(date, (target.totals.get(date) ?? 0) + kwh);
+    }
+  }
+
+  return {
+    series: Array.from(series.values())
+      .map(({ totals, ...rest }) => ({
+        ...rest,
+        days: Array.from(totals, ([date, kwh]) => ({ date, kwh: Math.round(kwh * 1000) / 1000 }))
+          .sort((a, b) => a.date.localeCompare(b.date))
+      }))
+      .filter(entry => entry.days.length > 0),
+    errors
+  };
+}
+
+function entityForSeries(series: GreenButtonSeries, entityId: string | null | undefined): string {
+  const suffix = series.flowDirection === FLOW_REVERSE ? '_export' : '';
+  if (entityId) return `${entityId}${suffix}`;
+  if (/^[a-z_]+\.[a-z0-9_]+$/.test(series.usagePointId)) return series.usagePointId;
+  return `sensor.green_button_${series.usagePointId.toLowerCase().replace(/[^a-z0-9]+/g, '_')}${suffix}`;
+}
+
+export async function importGreenButton(xml: string, options: GreenButtonImportOptions): Promise<GreenButtonImportResult> {
+  if (options.readingType && !(READING_TYPES as readonly string[]).includes(options.readingType)) {
+    throw new TariffApiError(`reading_type must be one of: ${READING_TYPES.join(', ')}`, 'INVALID_READING_TYPE');
+  }
+
+  const { series, errors } = parseGreenButtonXml(xml, options.timezone);
+  if (options.entityId && new Set(series.map(entry => entry.usagePointId)).size > 1) {
+    throw new TariffApiError('entity_id can only be given for a file with a single usage point', 'AMBIGUOUS_ENTITY');
+  }
+
+  const entities: GreenButtonImportedEntity[] = [];
+  for (const entry of series) {
+    const entityId = entityForSeries(entry, options.entityId);
+    const firstDate = entry.days[0].date;
+    const lastDate = entry.days[entry.days.length - 1].date;
+
+    const existing = new Map((await db.select()
+      .from(energyReadings)
+      .where(and(
+        eq(energyReadings.entityId, entityId),
+        gte(energyReadings.readingDate, firstDate),
+        lte(energyReadings.readingDate, lastDate)
+      )))
+      .map(row => [row.readingDate.slice(0, 10), row]));
+
+    let readingType: ReadingType = 'export';
+    if (entry.flowDirection !== FLOW_REVERSE) {
+      const [known] = await db.select({ readingType: energyReadings.readingType })
+        .from(energyReadings)
+        .where(eq(energyReadings.entityId, entityId))
+        .limit(1);
+      readingType = (known?.readingType as ReadingType | undefined) ?? options.readingType ?? 'main';
+    }
+
+    const result: GreenButtonImportedEntity = { entityId, usagePointId: entry.usagePointId, readingType, firstDate, lastDate, imported: 0, replaced: 0, skipped: 0 };
+    const written: string[] = [];
+    for (const day of entry.days) {
+      const current = existing.get(day.date);
+      if (current && (!options.replace || current.readingType === 'manual')) {
+        result.skipped++;
+        continue;
+      }
+
+      if (current) {
+        await db.update(energyReadings)
+          .set({ kwhValue: day.kwh, dailyKwh: day.kwh, readingType })
+          .where(eq(energyReadings.id, current.id));
+        result.replaced++;
+      } else {
+        await db.insert(energyReadings).values({
+          entityId,
+          friendlyName: entry.title ?? friendlyNameFor(entityId),
+          readingDate: day.date,
+          kwhValue: day.kwh,
+          dailyKwh: day.kwh,
+          readingType,
+          createdAt: new Date().toISOString()
+        });
+        result.imported++;
+      }
+      written.push(day.date);
+    }
+
+    if (written.length > 0) await updateRollingTotals(entityId, written[0], written[written.length - 1]);
+    entities.push(result);
+  }
+
+  return { entities, errors };
+}
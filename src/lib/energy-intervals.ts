@@ -0,0 +1,337 @@
+// File path: src/lib/energy-intervals.ts
+
+import { db } from '@/db';
+import { energyIntervals, globalSettings } from '@/db/schema';
+import { and, asc, eq, gte, lte } from 'drizzle-orm';
+import { MAIN_ENTITIES, type HAHistoryState, type HomeAssistantAPI } from '@/lib/homeassistant';
+import { addDays, type IntervalUsage } from '@/lib/tariff';
+
+// Interval readings derived from the history of a cumulative energy sensor
+// (kWh, e.g. "energy today"). Consecutive recorded states give the energy used
+// between them, which is spread evenly over that time and summed into
+// 15-minute or hourly intervals of the local day. A drop of more than 10% is
+// a meter reset (daily and monthly counters start over); smaller drops are
+// noise and count as no usage.
+//
+// Rows are stored per entity and local day with Wh integers, and re-ingesting
+// a range overwrites the intervals it has data for, so it is safe to repeat.
+
+export const INTERVAL_MINUTES = [15, 60] as const;
+export type IntervalMinutes = typeof INTERVAL_MINUTES[number];
+
+export const DEFAULT_INTERVAL_ENTITY = MAIN_ENTITIES[1];
+
+// Longest range fetched from HA in one request
+const HISTORY_CHUNK_DAYS = 7;
+const RESET_THRESHOLD = 0.9;
+const QUARTER_HOUR_MS = 15 * 60 * 1000;
+
+type EnergyIntervalRecord = typeof energyIntervals.$inferSelect;
+
+export interface IntervalSettings {
+  entityId: string;
+  intervalMinutes: IntervalMinutes;
+  timezone: string;
+}
+
+export interface IngestResult {
+  entityId: string;
+  timezone: string;
+  intervalMinutes: IntervalMinutes;
+  startDate: string;
+  endDate: string;
+  samples: number;
+  days: Array<{ date: string; totalKwh: number; peakKw: number | null; intervals: number }>;
+}
+
+export interface UsageHeatmap {
+  entityId: string;
+  startDate: string;
+  endDate: string;
+  days: number;
+  // Average kWh by weekday (0 = Sunday) and hour; null where there is no data
+  cells: Array<Array<number | null>>;
+  max: number;
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The energy section of global settings, empty when it cannot be read
+export async function loadEnergySettings(): Promise<Record<string, any>> {
+  try {
+    const [record] = await db.select()
+      .from(globalSettings)
+      .where(eq(globalSettings.id, 1))
+      .limit(1);
+    return (record?.settings as Record<string, any> | undefined)?.energy ?? {};
+  } catch (error) {
+    console.error('Failed to read energy settings:', error);
+    return {};
+  }
+}
+
+// settings.energy.timezone is the zone the energy dashboard already uses
+export async function getIntervalSettings(): Promise<IntervalSettings> {
+  const energy = await loadEnergySettings();
+
+  const timezone = typeof energy.timezone === 'string' && isValidTimezone(energy.timezone)
+    ? energy.timezone
+    : Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  return {
+    entityId: typeof energy.intervalEntity === 'string' && energy.intervalEntity ? energy.intervalEntity : DEFAULT_INTERVAL_ENTITY,
+    intervalMinutes: energy.intervalMinutes === 60 ? 60 : 15,
+    timezone
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Local time
+// ---------------------------------------------------------------------------
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function localParts(ms: number, timezone: string): { date: string; minute: number } {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-CA', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    });
+    formatters.set(timezone, formatter);
+  }
+
+  const parts = Object.fromEntries(formatter.formatToParts(new Date(ms)).map(part => [part.type, part.value]));
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    minute: parseInt(parts.hour) * 60 + parseInt(parts.minute)
+  };
+}
+
+// The UTC instant of local midnight starting `date`
+export function localMidnight(date: string, timezone: string): number {
+  const wallClock = Date.parse(`${date}T00:00:00Z`);
+  let guess = wallClock;
+  // Two rounds settle the offset, including across a DST change
+  for (let round = 0; round < 2; round++) {
+    const local = localParts(guess, timezone);
+    const localAsUtc = Date.parse(`${local.date}T00:00:00Z`) + local.minute * 60000;
+    guess += wallClock - localAsUtc;
+  }
+  return guess;
+}
+
+// The local date of an instant
+export function localDate(ms: number, timezone: string): string {
+  return localParts(ms, timezone).date;
+}
+
+export function localToday(timezone: string): string {
+  return localDate(Date.now(), timezone);
+}
+
+// ---------------------------------------------------------------------------
+// History to intervals
+// ---------------------------------------------------------------------------
+
+interface Sample {
+  time: number;
+  value: number;
+}
+
+function toSamples(history: HAHistoryState[]): Sample[] {
+  return history
+    .map(state => ({ time: Date.parse(state.last_changed), value: parseFloat(state.state) }))
+    .filter(sample => isFinite(sample.time) && isFinite(sample.value))
+    .sort((a, b) => a.time - b.time);
+}
+
+function usedBetween(previous: number, next: number): number {
+  if (next >= previous) return next - previous;
+  return next < previous * RESET_THRESHOLD ? next : 0;
+}
+
+// kWh per local day and interval for the time between startMs and endMs
+export function historyToIntervals(
+  history: HAHistoryState[],
+  options: { timezone: string; intervalMinutes: IntervalMinutes; startMs: number; endMs: number }
+): Map<string, Array<number | null>> {
+  const { timezone, intervalMinutes, startMs, endMs } = options;
+  const slotsPerDay = 1440 / intervalMinutes;
+  const days = new Map<string, Array<number | null>>();
+  const samples = toSamples(history);
+
+  const add = (from: number, to: number, kwh: number) => {
+    const span = to - from;
+    let cursor = Math.max(from, startMs);
+    const stop = Math.min(to, endMs);
+
+    while (cursor < stop) {
+      // Quarter-hour UTC boundaries are also local ones in every time zone
+      const boundary = Math.min(stop, (Math.floor(cursor / QUARTER_HOUR_MS) + 1) * QUARTER_HOUR_MS);
+      const { date, minute } = localParts(cursor, timezone);
+      let slots = days.get(date);
+      if (!slots) {
+        slots = new Array(slotsPerDay).fill(null);
+        days.set(date, slots);
+      }
+      const slot = Math.floor(minute / intervalMinutes);
+      slots[slot] = (slots[slot] ?? 0) + (span > 0 ? kwh * (boundary - cursor) / span : 0);
+      cursor = boundary;
+    }
+  };
+
+  for (let index = 1; index < samples.length; index++) {
+    const previous = samples[index - 1];
+    const next = samples[index];
+    add(previous.time, next.time, usedBetween(previous.value, next.value));
+  }
+
+  // HA records changes only, so no new state after the last one means no usage
+  const last = samples[samples.length - 1];
+  if (last) add(last.time, endMs, 0);
+
+  return days;
+}
+
+function summarize(values: Array<number | null>, intervalMinutes: number): { totalKwh: number; peakKw: number | null } {
+  const known = values.filter((value): value is number => value !== null);
+  return {
+    totalKwh: Math.round(known.reduce((sum, value) => sum + value, 0)) / 1000,
+    peakKw: known.length > 0 ? Math.round(Math.max(...known) * 60 / intervalMinutes) / 1000 : null
+  };
+}
+
+// Fetch history for local days startDate..endDate (up to now) and store it
+export async function ingestIntervals(
+  ha: HomeAssistantAPI,
+  options: { entityId: string; startDate: string; endDate: string; intervalMinutes: IntervalMinutes; timezone: string }
+): Promise<IngestResult> {
+  const { entityId, startDate, endDate, intervalMinutes, timezone } = options;
+  const result: IngestResult = { entityId, timezone, intervalMinutes, startDate, endDate, samples: 0, days: [] };
+
+  for (let chunkStart = startDate; chunkStart <= endDate; chunkStart = addDays(chunkStart, HISTORY_CHUNK_DAYS)) {
+    const chunkEnd = [addDays(chunkStart, HISTORY_CHUNK_DAYS - 1), endDate].sort()[0];
+    const startMs = localMidnight(chunkStart, timezone);
+    const endMs = Math.min(localMidnight(addDays(chunkEnd, 1), timezone), Date.now());
+    if (startMs >= endMs) break;
+
+    const history = await ha.getHistory(entityId, new Date(startMs), new Date(endMs));
+    result.samples += history.length;
+
+    const days = historyToIntervals(history, { timezone, intervalMinutes, startMs, endMs });
+    for (const [date, kwh] of Array.from(days.entries()).sort(([a], [b]) => a.localeCompare(b))) {
+      if (date < chunkStart || date > chunkEnd) continue;
+      const stored = await storeDay(entityId, date, kwh, intervalMinutes, timezone);
+      result.days.push({
+        date,
+        totalKwh: stored.totalKwh,
+        peakKw: stored.peakKw,
+        intervals: (stored.values as Array<number | null>).filter(value => value !== null).length
+      });
+    }
+  }
+
+  return result;
+}
+
+async function storeDay(
+  entityId: string,
+  date: string,
+  kwh: Array<number | null>,
+  intervalMinutes: IntervalMinutes,
+  timezone: string
+): Promise<EnergyIntervalRecord> {
+  const [existing] = await db.select()
+    .from(energyIntervals)
+    .where(and(eq(energyIntervals.entityId, entityId), eq(energyIntervals.date, date)))
+    .limit(1);
+
+  // New data wins interval by interval; a change of resolution starts over
+  const previous = existing && existing.intervalMinutes === intervalMinutes
+    ? existing.values as Array<number | null>
+    : [];
+  const values = kwh.map((value, index) => value === null ? previous[index] ?? null : Math.round(value * 1000));
+  const now = new Date().toISOString();
+  const columns = {
+    intervalMinutes,
+    values,
+    ...summarize(values, intervalMinutes),
+    timezone,
+    source: 'ha_history',
+    updatedAt: now
+  };
+
+  const [row] = existing
+    ? await db.update(energyIntervals).set(columns).where(eq(energyIntervals.id, existing.id)).returning()
+    : await db.insert(energyIntervals).values({ entityId, date, ...columns, createdAt: now }).returning();
+  return row;
+}
+
+// ---------------------------------------------------------------------------
+// Reading intervals back
+// ---------------------------------------------------------------------------
+
+export async function loadIntervals(entityId: string, startDate: string, endDate: string): Promise<EnergyIntervalRecord[]> {
+  return db.select()
+    .from(energyIntervals)
+    .where(and(
+      eq(energyIntervals.entityId, entityId),
+      gte(energyIntervals.date, startDate),
+      lte(energyIntervals.date, endDate)
+    ))
+    .orderBy(asc(energyIntervals.date));
+}
+
+export function toIntervalUsage(row: EnergyIntervalRecord): IntervalUsage {
+  return {
+    minutes: row.intervalMinutes,
+    kwh: (row.values as Array<number | null>).map(value => value === null ? null : value / 1000)
+  };
+}
+
+export async function usageHeatmap(entityId: string, startDate: string, endDate: string): Promise<UsageHeatmap> {
+  const rows = await loadIntervals(entityId, startDate, endDate);
+  const sums = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+  const counts = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+
+  for (const row of rows) {
+    const weekday = new Date(`${row.date}T00:00:00Z`).getUTCDay();
+    const perHour = 60 / row.intervalMinutes;
+    const hours = new Map<number, number>();
+
+    (row.values as Array<number | null>).forEach((value, index) => {
+      if (value === null) return;
+      const hour = Math.floor(index / perHour);
+      hours.set(hour, (hours.get(hour) ?? 0) + value / 1000);
+    });
+    hours.forEach((kwh, hour) => {
+      sums[weekday][hour] += kwh;
+      counts[weekday][hour] += 1;
+    });
+  }
+
+  const cells = sums.map((hours, weekday) =>
+    hours.map((kwh, hour) => counts[weekday][hour] > 0 ? Math.round(kwh / counts[weekday][hour] * 1000) / 1000 : null));
+
+  return {
+    entityId,
+    startDate,
+    endDate,
+    days: rows.length,
+    cells,
+    max: Math.max(0, ...cells.flat().filter((value): value is number => value !== null))
+  };
+}
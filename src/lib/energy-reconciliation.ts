@@ -0,0 +1,631 @@
+// File path: src/lib/energy-reconciliation.ts
+
+import { db } from '@/db';
+import { actualBills, energyBills } from '@/db/schema';
+import { and, asc, eq, gte, lte } from 'drizzle-orm';
+import { TariffApiError, isValidDate, roundCurrency, type BillSegment } from '@/lib/tariff';
+import { LEGACY_BILL_COLUMNS } from '@/lib/energy-billing';
+import { parseCsv } from '@/lib/csv';
+
+// Actual utility bills and their reconciliation with calculated ones
+// (/api/energy/actual-bills, /api/energy/reconciliation). Both sides are
+// reduced to line items keyed by what they charge for:
+//
+//   customer_charge, tier:1, tier:2, tou:<name>, demand:<name>,
+//   <rider or tax code>, export_credit, other:<name>
+//
+// so "Fuel Cost" on the bill meets the tariff rider with code `fuel`. Riders
+// and taxes match on code alone since bills rarely say which one a line is.
+// Amounts are as printed on the bill: credits are negative.
+//
+// A line is a discrepancy when it differs by more than $0.50 and 2% (kWh: 1
+// kWh and 2%). One that is off in the same direction on three of the last
+// six reconciled bills is flagged as recurring, which usually means the
+// tariff has a wrong rate or is missing a charge.
+
+export const ACTUAL_LINE_CATEGORIES = ['customer_charge', 'tier', 'tou', 'demand', 'rider', 'tax', 'export_credit', 'other'] as const;
+export const ACTUAL_BILL_SOURCES = ['manual', 'pdf', 'csv'] as const;
+
+export type ActualLineCategory = typeof ACTUAL_LINE_CATEGORIES[number];
+export type ActualBillSource = typeof ACTUAL_BILL_SOURCES[number];
+
+type EnergyBillRecord = typeof energyBills.$inferSelect;
+type ActualBillRecord = typeof actualBills.$inferSelect;
+
+export interface ActualLineItem {
+  category: ActualLineCategory;
+  // Tier number for tier lines, the tariff code for riders and taxes
+  code: string | null;
+  name: string;
+  kwh: number | null;
+  amount: number;
+}
+
+export interface ActualBillInput {
+  billingMonth: string;
+  periodStart: string | null;
+  periodEnd: string | null;
+  totalKwh: number | null;
+  totalAmount: number;
+  lineItems: ActualLineItem[];
+  source: ActualBillSource;
+  notes: string | null;
+}
+
+export type ActualBill = Omit<ActualBillRecord, 'lineItems'> & { lineItems: ActualLineItem[] };
+
+export type VarianceStatus = 'match' | 'higher' | 'lower' | 'not_calculated' | 'not_billed';
+
+export interface VarianceLine {
+  key: string;
+  category: ActualLineCategory;
+  name: string;
+  calculatedKwh: number | null;
+  actualKwh: number | null;
+  kwhVariance: number | null;
+  calculatedAmount: number | null;
+  actualAmount: number | null;
+  // actual - calculated
+  variance: number;
+  variancePct: number | null;
+  status: VarianceStatus;
+}
+
+export interface MonthReconciliation {
+  billingMonth: string;
+  actualBillId: number;
+  calculatedBillId: number | null;
+  actual: { totalKwh: number | null; totalAmount: number };
+  calculated: { totalKwh: number; totalAmount: number } | null;
+  totalVariance: number | null;
+  totalVariancePct: number | null;
+  kwhVariance: number | null;
+  lines: VarianceLine[];
+  discrepancies: number;
+}
+
+export interface RecurringDiscrepancy {
+  key: string;
+  category: ActualLineCategory | 'total_kwh';
+  name: string;
+  status: Exclude<VarianceStatus, 'match'>;
+  months: string[];
+  averageVariance: number;
+  averageVariancePct: number | null;
+  suggestion: string;
+}
+
+const MONTH_REGEX = /^\d{4}-(0[1-9]|1[0-2])$/;
+const DISCREPANCY_AMOUNT = 0.5;
+const DISCREPANCY_KWH = 1;
+const DISCREPANCY_PCT = 2;
+const RECURRING_WINDOW = 6;
+const RECURRING_MIN_MONTHS = 3;
+
+const LEGACY_RIDER_CODES = new Set(['fuel', 'franchise']);
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+function slug(value: string): string {
+  return value.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+function optionalNumber(value: unknown, label: string): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const number = typeof value === 'string' ? Number(value.replace(/[$,\s]/g, '')) : value;
+  if (typeof number !== 'number' || !isFinite(number)) {
+    throw new TariffApiError(`${label} must be a number`, 'INVALID_ACTUAL_BILL');
+  }
+  return number;
+}
+
+function validateLineItem(value: unknown, index: number): ActualLineItem {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new TariffApiError(`Line item ${index + 1} must be an object`, 'INVALID_LINE_ITEM');
+  }
+  const item = value as Record<string, unknown>;
+  const label = `Line item ${index + 1}`;
+
+  const category = typeof item.category === 'string' ? item.category.trim().toLowerCase() : '';
+  if (!ACTUAL_LINE_CATEGORIES.includes(category as ActualLineCategory)) {
+    throw new TariffApiError(`${label} category must be one of: ${ACTUAL_LINE_CATEGORIES.join(', ')}`, 'INVALID_LINE_ITEM');
+  }
+  const name = typeof item.name === 'string' ? item.name.trim() : '';
+  const rawCode = item.code === undefined || item.code === null ? '' : String(item.code).trim();
+  const code = rawCode ? slug(rawCode) : null;
+
+  if (category === 'tier' && !(code && /^[1-9]\d*$/.test(code))) {
+    throw new TariffApiError(`${label} is a tier and needs its tier number as code`, 'INVALID_LINE_ITEM');
+  }
+  if (!name && !code) {
+    throw new TariffApiError(`${label} needs a name or code`, 'INVALID_LINE_ITEM');
+  }
+
+  const amount = optionalNumber(item.amount, `${label} amount`);
+  if (amount === null) {
+    throw new TariffApiError(`${label} amount is required`, 'INVALID_LINE_ITEM');
+  }
+
+  return {
+    category: category as ActualLineCategory,
+    code,
+    name: name || rawCode,
+    kwh: optionalNumber(item.kwh, `${label} kwh`),
+    amount
+  };
+}
+
+// Normalize an actual bill from a request body, throwing a TariffApiError
+// describing the first problem found. Without totalAmount the line items
+// are summed.
+export function validateActualBill(value: unknown): ActualBillInput {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new TariffApiError('Request body must be a JSON object', 'INVALID_BODY');
+  }
+  const body = value as Record<string, unknown>;
+
+  if (typeof body.billingMonth !== 'string' || !MONTH_REGEX.test(body.billingMonth)) {
+    throw new TariffApiError('billingMonth must be in format YYYY-MM', 'INVALID_MONTH_FORMAT');
+  }
+
+  const periodStart = body.periodStart ?? null;
+  const periodEnd = body.periodEnd ?? null;
+  if ((periodStart !== null && !isValidDate(periodStart)) || (periodEnd !== null && !isValidDate(periodEnd))) {
+    throw new TariffApiError('periodStart and periodEnd must be dates in YYYY-MM-DD format', 'INVALID_PERIOD');
+  }
+  if (periodStart && periodEnd && periodEnd < periodStart) {
+    throw new TariffApiError('periodEnd must not be before periodStart', 'INVALID_PERIOD');
+  }
+
+  if (!Array.isArray(body.lineItems)) {
+    throw new TariffApiError('lineItems must be an array', 'INVALID_LINE_ITEM');
+  }
+  const lineItems = body.lineItems.map(validateLineItem);
+
+  const source = body.source ?? 'manual';
+  if (!ACTUAL_BILL_SOURCES.includes(source as ActualBillSource)) {
+    throw new TariffApiError(`source must be one of: ${ACTUAL_BILL_SOURCES.join(', ')}`, 'INVALID_SOURCE');
+  }
+  if (body.notes !== undefined && body.notes !== null && typeof body.notes !== 'string') {
+    throw new TariffApiError('notes must be a string', 'INVALID_NOTES');
+  }
+
+  const totalAmount = optionalNumber(body.totalAmount, 'totalAmount')
+    ?? roundCurrency(lineItems.reduce((sum, item) => sum + item.amount, 0));
+
+  return {
+    billingMonth: body.billingMonth,
+    periodStart: periodStart as string | null,
+    periodEnd: periodEnd as string | null,
+    totalKwh: optionalNumber(body.totalKwh, 'totalKwh'),
+    totalAmount,
+    lineItems,
+    source: source as ActualBillSource,
+    notes: typeof body.notes === 'string' ? body.notes.trim() || null : null
+  };
+}
+
+// One bill line per row, grouped into bills by billing_month:
+//
+//   billing_month,category,code,name,kwh,amount[,period_start,period_end]
+//
+// A row with category `total` gives the bill's total kWh and amount.
+export function parseActualBillsCsv(text: string): {
+  bills: ActualBillInput[];
+  errors: Array<{ line: number; error: string }>;
+} {
+  const rows = parseCsv(text);
+  if (rows.length === 0) {
+    throw new TariffApiError('CSV is empty', 'INVALID_CSV');
+  }
+
+  const header = rows[0].map(column => slug(column));
+  for (const required of ['billing_month', 'category', 'amount']) {
+    if (!header.includes(required)) {
+      throw new TariffApiError(`CSV header must include ${required}`, 'INVALID_CSV');
+    }
+  }
+
+  const errors: Array<{ line: number; error: string }> = [];
+  const drafts = new Map<string, { body: Record<string, any>; lines: number[] }>();
+
+  rows.slice(1).forEach((row, index) => {
+    const line = index + 2;
+    const field = (name: string) => {
+      const column = header.indexOf(name);
+      return column >= 0 ? (row[column] ?? '').trim() : '';
+    };
+    const month = field('billing_month');
+    if (!MONTH_REGEX.test(month)) {
+      errors.push({ line, error: 'billing_month must be in format YYYY-MM' });
+      return;
+    }
+
+    let draft = drafts.get(month);
+    if (!draft) {
+      draft = { body: { billingMonth: month, lineItems: [], source: 'csv' }, lines: [] };
+      drafts.set(month, draft);
+    }
+    draft.lines.push(line);
+    if (field('period_start')) draft.body.periodStart = field('period_start');
+    if (field('period_end')) draft.body.periodEnd = field('period_end');
+
+    if (field('category').toLowerCase() === 'total') {
+      draft.body.totalAmount = field('amount');
+      if (field('kwh')) draft.body.totalKwh = field('kwh');
+      return;
+    }
+    draft.body.lineItems.push({
+      category: field('category'),
+      code: field('code') || null,
+      name: field('name'),
+      kwh: field('kwh') || null,
+      amount: field('amount')
+    });
+  });
+
+  const bills: ActualBillInput[] = [];
+  drafts.forEach(({ body, lines }) => {
+    try {
+      bills.push(validateActualBill(body));
+    } catch (error) {
+      if (!(error instanceof TariffApiError)) throw error;
+      errors.push({ line: lines[0], error: `${body.billingMonth}: ${error.message}` });
+    }
+  });
+
+  return { bills, errors };
+}
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+function toActualBill(row: ActualBillRecord): ActualBill {
+  return { ...row, lineItems: row.lineItems as ActualLineItem[] };
+}
+
+async function requireActualBill(id: number): Promise<ActualBillRecord> {
+  const [bill] = await db.select()
+    .from(actualBills)
+    .where(eq(actualBills.id, id))
+    .limit(1);
+
+  if (!bill) {
+    throw new TariffApiError('Actual bill not found', 'ACTUAL_BILL_NOT_FOUND', 404);
+  }
+  return bill;
+}
+
+export async function listActualBills(options: { from?: string | null; to?: string | null } = {}): Promise<ActualBill[]> {
+  const conditions = [];
+  if (options.from) conditions.push(gte(actualBills.billingMonth, options.from));
+  if (options.to) conditions.push(lte(actualBills.billingMonth, options.to));
+
+  const rows = await db.select()
+    .from(actualBills)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(asc(actualBills.billingMonth));
+  return rows.map(toActualBill);
+}
+
+export async function getActualBill(id: number): Promise<ActualBill> {
+  return toActualBill(await requireActualBill(id));
+}
+
+// Stores a bill for its month; an existing one is a conflict unless replace
+export async function saveActualBill(input: ActualBillInput, replace = false): Promise<{ bill: ActualBill; replaced: boolean }> {
+  const [existing] = await db.select({ id: actualBills.id })
+    .from(actualBills)
+    .where(eq(actualBills.billingMonth, input.billingMonth))
+    .limit(1);
+
+  if (existing && !replace) {
+    throw new TariffApiError(`An actual bill for ${input.billingMonth} already exists`, 'ACTUAL_BILL_EXISTS', 409);
+  }
+
+  const now = new Date().toISOString();
+  const [row] = existing
+    ? await db.update(actualBills).set({ ...input, updatedAt: now }).where(eq(actualBills.id, existing.id)).returning()
+    : await db.insert(actualBills).values({ ...input, createdAt: now, updatedAt: now }).returning();
+  return { bill: toActualBill(row), replaced: !!existing };
+}
+
+export async function updateActualBill(id: number, rawBody: unknown): Promise<ActualBill> {
+  const current = toActualBill(await requireActualBill(id));
+  const body = rawBody && typeof rawBody === 'object' && !Array.isArray(rawBody) ? rawBody as Record<string, unknown> : null;
+  if (!body) {
+    throw new TariffApiError('Request body must be a JSON object', 'INVALID_BODY');
+  }
+
+  const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...fields } = current;
+  // Line items changed without a total get a recomputed one
+  const merged = { ...fields, ...('lineItems' in body && !('totalAmount' in body) ? { totalAmount: null } : {}), ...body };
+  const input = validateActualBill(merged);
+
+  if (input.billingMonth !== current.billingMonth) {
+    const [clash] = await db.select({ id: actualBills.id })
+      .from(actualBills)
+      .where(eq(actualBills.billingMonth, input.billingMonth))
+      .limit(1);
+    if (clash) {
+      throw new TariffApiError(`An actual bill for ${input.billingMonth} already exists`, 'ACTUAL_BILL_EXISTS', 409);
+    }
+  }
+
+  const [row] = await db.update(actualBills)
+    .set({ ...input, updatedAt: new Date().toISOString() })
+    .where(eq(actualBills.id, id))
+    .returning();
+  return toActualBill(row);
+}
+
+export async function deleteActualBill(id: number): Promise<ActualBill> {
+  const bill = await requireActualBill(id);
+  await db.delete(actualBills).where(eq(actualBills.id, id));
+  return toActualBill(bill);
+}
+
+// ---------------------------------------------------------------------------
+// Reconciliation
+// ---------------------------------------------------------------------------
+
+interface KeyedLine {
+  category: ActualLineCategory;
+  name: string;
+  kwh: number | null;
+  amount: number;
+}
+
+function lineKey(item: Pick<ActualLineItem, 'category' | 'code' | 'name'>): string {
+  const code = item.code ?? slug(item.name);
+  switch (item.category) {
+    case 'customer_charge':
+    case 'export_credit':
+      return item.category;
+    case 'rider':
+    case 'tax':
+      return code;
+    default:
+      return `${item.category}:${code}`;
+  }
+}
+
+function addLine(lines: Map<string, KeyedLine>, key: string, line: KeyedLine): void {
+  const existing = lines.get(key);
+  if (!existing) {
+    lines.set(key, { ...line });
+    return;
+  }
+  existing.amount += line.amount;
+  existing.kwh = existing.kwh === null && line.kwh === null ? null : (existing.kwh ?? 0) + (line.kwh ?? 0);
+}
+
+function actualLines(bill: ActualBill): Map<string, KeyedLine> {
+  const lines = new Map<string, KeyedLine>();
+  for (const item of bill.lineItems) {
+    addLine(lines, lineKey(item), { category: item.category, name: item.name, kwh: item.kwh, amount: item.amount });
+  }
+  return lines;
+}
+
+// Lines of a calculated bill from its segments, or from the fixed columns
+// for bills saved before tariffs
+export function calculatedLines(bill: EnergyBillRecord): Map<string, KeyedLine> {
+  const lines = new Map<string, KeyedLine>();
+  const segments = Array.isArray(bill.lineItems) ? bill.lineItems as BillSegment[] : [];
+
+  if (segments.length === 0) {
+    addLine(lines, 'customer_charge', { category: 'customer_charge', name: 'Customer Charge', kwh: null, amount: bill.basicMonthlyCharge });
+    addLine(lines, 'tier:1', { category: 'tier', name: 'Tier 1', kwh: bill.energyChargeTier1Kwh, amount: bill.energyChargeTier1Cost });
+    if (bill.energyChargeTier2Kwh > 0 || bill.energyChargeTier2Cost > 0) {
+      addLine(lines, 'tier:2', { category: 'tier', name: 'Tier 2', kwh: bill.energyChargeTier2Kwh, amount: bill.energyChargeTier2Cost });
+    }
+    for (const [code, column] of Object.entries(LEGACY_BILL_COLUMNS)) {
+      if (bill[column] === 0) continue;
+      addLine(lines, code, {
+        category: LEGACY_RIDER_CODES.has(code) ? 'rider' : 'tax',
+        name: code.replace(/_/g, ' '),
+        kwh: null,
+        amount: bill[column]
+      });
+    }
+    return lines;
+  }
+
+  for (const segment of segments) {
+    addLine(lines, 'customer_charge', { category: 'customer_charge', name: 'Customer Charge', kwh: null, amount: segment.customerCharge });
+    segment.tiers.forEach((tier, index) => addLine(lines, `tier:${index + 1}`, {
+      category: 'tier',
+      name: tier.name || `Tier ${index + 1}`,
+      kwh: tier.kwh,
+      amount: tier.cost
+    }));
+    for (const period of segment.touPeriods) {
+      addLine(lines, `tou:${slug(period.name)}`, { category: 'tou', name: period.name, kwh: period.kwh, amount: period.cost });
+    }
+    for (const demand of segment.demand) {
+      addLine(lines, `demand:${slug(demand.name)}`, { category: 'demand', name: demand.name, kwh: null, amount: demand.cost });
+    }
+    for (const [category, charges] of [['rider', segment.riders], ['tax', segment.taxes]] as const) {
+      for (const charge of charges) {
+        addLine(lines, charge.code ?? slug(charge.name), { category, name: charge.name, kwh: null, amount: charge.amount });
+      }
+    }
+  }
+  if (bill.exportCredit !== 0) {
+    addLine(lines, 'export_credit', { category: 'export_credit', name: 'Export Credit', kwh: null, amount: -bill.exportCredit });
+  }
+  return lines;
+}
+
+function percentOf(variance: number, base: number | null): number | null {
+  if (base === null || base === 0) return null;
+  return Math.round(variance / Math.abs(base) * 1000) / 10;
+}
+
+function isDiscrepancy(variance: number, base: number, floor: number): boolean {
+  return Math.abs(variance) > floor && Math.abs(variance) > Math.abs(base) * DISCREPANCY_PCT / 100;
+}
+
+export function reconcileBill(actual: ActualBill, calculated: EnergyBillRecord | null): MonthReconciliation {
+  const actualByKey = actualLines(actual);
+  const calculatedByKey = calculated ? calculatedLines(calculated) : new Map<string, KeyedLine>();
+  const keys = Array.from(new Set([...Array.from(calculatedByKey.keys()), ...Array.from(actualByKey.keys())]));
+
+  const lines: VarianceLine[] = calculated ? keys.map(key => {
+    const ours = calculatedByKey.get(key) ?? null;
+    const theirs = actualByKey.get(key) ?? null;
+    const calculatedAmount = ours ? roundCurrency(ours.amount) : null;
+    const actualAmount = theirs ? roundCurrency(theirs.amount) : null;
+    const variance = roundCurrency((actualAmount ?? 0) - (calculatedAmount ?? 0));
+    const calculatedKwh = ours?.kwh ?? null;
+    const actualKwh = theirs?.kwh ?? null;
+    const kwhVariance = calculatedKwh !== null && actualKwh !== null ? Math.round((actualKwh - calculatedKwh) * 100) / 100 : null;
+
+    let status: VarianceStatus;
+    if (!ours) status = 'not_calculated';
+    else if (!theirs) status = 'not_billed';
+    else if (isDiscrepancy(variance, actualAmount ?? 0, DISCREPANCY_AMOUNT)
+      || (kwhVariance !== null && isDiscrepancy(kwhVariance, actualKwh ?? 0, DISCREPANCY_KWH))) {
+      status = variance > 0 || (variance === 0 && (kwhVariance ?? 0) > 0) ? 'higher' : 'lower';
+    } else status = 'match';
+
+    // A zero line on one side only is not worth reporting
+    if ((status === 'not_calculated' || status === 'not_billed') && Math.abs(variance) < 0.01) status = 'match';
+
+    return {
+      key,
+      category: (ours ?? theirs)!.category,
+      name: (theirs ?? ours)!.name,
+      calculatedKwh: calculatedKwh === null ? null : Math.round(calculatedKwh * 100) / 100,
+      actualKwh,
+      kwhVariance,
+      calculatedAmount,
+      actualAmount,
+      variance,
+      variancePct: percentOf(variance, calculatedAmount),
+      status
+    };
+  }) : [];
+
+  const totalVariance = calculated ? roundCurrency(actual.totalAmount - calculated.totalBillAmount) : null;
+  return {
+    billingMonth: actual.billingMonth,
+    actualBillId: actual.id,
+    calculatedBillId: calculated?.id ?? null,
+    actual: { totalKwh: actual.totalKwh, totalAmount: actual.totalAmount },
+    calculated: calculated ? { totalKwh: calculated.totalKwhUsed, totalAmount: calculated.totalBillAmount } : null,
+    totalVariance,
+    totalVariancePct: totalVariance === null ? null : percentOf(totalVariance, calculated!.totalBillAmount),
+    kwhVariance: calculated && actual.totalKwh !== null ? Math.round((actual.totalKwh - calculated.totalKwhUsed) * 100) / 100 : null,
+    lines,
+    discrepancies: lines.filter(line => line.status !== 'match').length
+  };
+}
+
+function suggestionFor(key: string, lines: VarianceLine[], status: RecurringDiscrepancy['status'], averagePct: number | null): string {
+  const line = lines[0];
+  const direction = status === 'higher' ? 'higher' : 'lower';
+  switch (status) {
+    case 'not_calculated':
+      return `${line.name} appears on bills but not in the tariff; add it as a ${line.category === 'other' ? 'rider or tax' : line.category}`;
+    case 'not_billed':
+      return `${line.name} is calculated but not on bills; remove it from the tariff or check its code`;
+  }
+
+  if (line.category === 'tier' || line.category === 'tou') {
+    const kwhOff = lines.filter(entry => entry.kwhVariance !== null && isDiscrepancy(entry.kwhVariance, entry.actualKwh ?? 0, DISCREPANCY_KWH));
+    if (kwhOff.length * 2 >= lines.length) {
+      return `Billed kWh in ${line.name} differ from the calculation; check the ${line.category === 'tier' ? 'tier limits' : 'period times'} and meter readings`;
+    }
+    const rates = lines
+      .filter(entry => entry.actualKwh && entry.calculatedKwh && entry.actualAmount !== null && entry.calculatedAmount !== null)
+      .map(entry => ({ actual: entry.actualAmount! / entry.actualKwh!, calculated: entry.calculatedAmount! / entry.calculatedKwh! }));
+    if (rates.length > 0) {
+      const actualRate = rates.reduce((sum, rate) => sum + rate.actual, 0) / rates.length;
+      const calculatedRate = rates.reduce((sum, rate) => sum + rate.calculated, 0) / rates.length;
+      return `Bills charge about $${actualRate.toFixed(5)}/kWh for ${line.name} against $${calculatedRate.toFixed(5)}/kWh in the tariff`;
+    }
+  }
+
+  const pct = averagePct === null ? '' : ` by ${Math.abs(averagePct).toFixed(1)}% on average`;
+  if (key === 'customer_charge') {
+    return `The customer charge on bills is ${direction}${pct}; check the tariff's customer charge`;
+  }
+  return `${line.name} on bills is ${direction} than calculated${pct}; check its rate in the tariff`;
+}
+
+// Lines off in the same direction on RECURRING_MIN_MONTHS of the last
+// RECURRING_WINDOW reconciled months, plus billed kWh that keep differing
+// from the readings
+export function findRecurringDiscrepancies(months: MonthReconciliation[]): RecurringDiscrepancy[] {
+  const recent = months
+    .filter(month => month.calculated)
+    .sort((a, b) => a.billingMonth.localeCompare(b.billingMonth))
+    .slice(-RECURRING_WINDOW);
+
+  const groups = new Map<string, { status: RecurringDiscrepancy['status']; lines: VarianceLine[]; months: string[] }>();
+  for (const month of recent) {
+    for (const line of month.lines) {
+      if (line.status === 'match') continue;
+      const group = groups.get(`${line.key}|${line.status}`) ?? { status: line.status, lines: [], months: [] };
+      group.lines.push(line);
+      group.months.push(month.billingMonth);
+      groups.set(`${line.key}|${line.status}`, group);
+    }
+  }
+
+  const flags: RecurringDiscrepancy[] = [];
+  groups.forEach(({ status, lines, months: flaggedMonths }) => {
+    if (flaggedMonths.length < RECURRING_MIN_MONTHS) return;
+    const pcts = lines.map(line => line.variancePct).filter((pct): pct is number => pct !== null);
+    const averageVariancePct = pcts.length > 0 ? Math.round(pcts.reduce((sum, pct) => sum + pct, 0) / pcts.length * 10) / 10 : null;
+    flags.push({
+      key: lines[0].key,
+      category: lines[0].category,
+      name: lines[0].name,
+      status,
+      months: flaggedMonths,
+      averageVariance: roundCurrency(lines.reduce((sum, line) => sum + line.variance, 0) / lines.length),
+      averageVariancePct,
+      suggestion: suggestionFor(lines[0].key, lines, status, averageVariancePct)
+    });
+  });
+
+  for (const status of ['higher', 'lower'] as const) {
+    const kwhOff = recent.filter(month => month.kwhVariance !== null
+      && isDiscrepancy(month.kwhVariance, month.actual.totalKwh ?? 0, DISCREPANCY_KWH)
+      && (month.kwhVariance > 0) === (status === 'higher'));
+    if (kwhOff.length < RECURRING_MIN_MONTHS) continue;
+    const averageKwh = kwhOff.reduce((sum, month) => sum + month.kwhVariance!, 0) / kwhOff.length;
+    flags.push({
+      key: 'total_kwh',
+      category: 'total_kwh',
+      name: 'Billed kWh',
+      status,
+      months: kwhOff.map(month => month.billingMonth),
+      averageVariance: Math.round(averageKwh * 100) / 100,
+      averageVariancePct: null,
+      suggestion: `The utility bills ${Math.abs(averageKwh).toFixed(1)} kWh ${status === 'higher' ? 'more' : 'less'} than the readings on average; check the meter entity and billing period dates`
+    });
+  }
+
+  return flags.sort((a, b) => b.months.length - a.months.length || Math.abs(b.averageVariance) - Math.abs(a.averageVariance));
+}
+
+// Reconcile every actual bill between from and to (YYYY-MM, inclusive)
+// against the calculated bill saved for its month
+export async function reconcileBills(options: { from?: string | null; to?: string | null } = {}): Promise<{
+  months: MonthReconciliation[];
+  recurring: RecurringDiscrepancy[];
+}> {
+  const actual = await listActualBills(options);
+  const calculated = await db.select().from(energyBills);
+  const calculatedByMonth = new Map(calculated.map(bill => [bill.billingMonth, bill]));
+
+  const months = actual.map(bill => reconcileBill(bill, calculatedByMonth.get(bill.billingMonth) ?? null));
+  return { months, recurring: findRecurringDiscrepancies(months) };
+}
@@ -0,0 +1,104 @@
+// File path: src/lib/energy-solar.ts
+
+import { loadReadings, readingsToUsage } from '@/lib/energy-billing';
+import { addDays } from '@/lib/tariff';
+
+// Solar and battery figures from daily readings. Grid import is the billed
+// usage (see readingsToUsage), so the house consumed
+//
+//   import + solar - export + battery discharge - battery charge
+//
+// Self-consumption is the share of solar production not exported (energy
+// stored in the battery counts as used on site); grid independence is the
+// share of consumption not imported.
+
+export interface SolarDay {
+  date: string;
+  solarKwh: number;
+  exportKwh: number;
+  importKwh: number;
+  batteryChargeKwh: number;
+  batteryDischargeKwh: number;
+}
+
+export interface SolarSummary extends Omit<SolarDay, 'date'> {
+  startDate: string;
+  endDate: string;
+  consumptionKwh: number;
+  selfConsumedKwh: number;
+  selfConsumptionPct: number | null;
+  gridIndependencePct: number | null;
+  hasSolar: boolean;
+  hasBattery: boolean;
+  days: SolarDay[];
+}
+
+const FLOW_FIELDS: Record<string, keyof Omit<SolarDay, 'date'>> = {
+  solar: 'solarKwh',
+  export: 'exportKwh',
+  battery_charge: 'batteryChargeKwh',
+  battery_discharge: 'batteryDischargeKwh'
+};
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function percent(part: number, whole: number): number | null {
+  if (whole <= 0) return null;
+  return Math.round(Math.min(100, Math.max(0, part / whole * 100)) * 10) / 10;
+}
+
+export async function summarizeSolar(startDate: string, endDate: string): Promise<SolarSummary> {
+  const readings = await loadReadings(startDate, endDate);
+  const days = new Map<string, SolarDay>();
+  const dayOf = (date: string) => {
+    let day = days.get(date);
+    if (!day) {
+      day = { date, solarKwh: 0, exportKwh: 0, importKwh: 0, batteryChargeKwh: 0, batteryDischargeKwh: 0 };
+      days.set(date, day);
+    }
+    return day;
+  };
+
+  for (const usage of readingsToUsage(readings)) {
+    dayOf(usage.date).importKwh += usage.kwh;
+  }
+  for (const reading of readings) {
+    const field = FLOW_FIELDS[reading.readingType];
+    if (field) dayOf(reading.readingDate.slice(0, 10))[field] += reading.dailyKwh;
+  }
+
+  const totals = { solarKwh: 0, exportKwh: 0, importKwh: 0, batteryChargeKwh: 0, batteryDischargeKwh: 0 };
+  const ordered: SolarDay[] = [];
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    const day = days.get(date);
+    if (!day) continue;
+    for (const key of Object.keys(totals) as Array<keyof typeof totals>) {
+      totals[key] += day[key];
+      day[key] = round(day[key]);
+    }
+    ordered.push(day);
+  }
+
+  const selfConsumedKwh = Math.max(0, totals.solarKwh - totals.exportKwh);
+  const consumptionKwh = Math.max(0,
+    totals.importKwh + totals.solarKwh - totals.exportKwh + totals.batteryDischargeKwh - totals.batteryChargeKwh);
+
+  return {
+    startDate,
+    endDate,
+    solarKwh: round(totals.solarKwh),
+    exportKwh: round(totals.exportKwh),
+    importKwh: round(totals.importKwh),
+    batteryChargeKwh: round(totals.batteryChargeKwh),
+    batteryDischargeKwh: round(totals.batteryDischargeKwh),
+    consumptionKwh: round(consumptionKwh),
+    selfConsumedKwh: round(selfConsumedKwh),
+    selfConsumptionPct: percent(selfConsumedKwh, totals.solarKwh),
+    gridIndependencePct: percent(consumptionKwh - totals.importKwh, consumptionKwh),
+    hasSolar: readings.some(reading => reading.readingType === 'solar' || reading.readingType === 'export'),
+    hasBattery: readings.some(reading => reading.readingType.startsWith('battery_')),
+    days: ordered
+  };
+}
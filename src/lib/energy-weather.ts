@@ -0,0 +1,244 @@
+// File path: src/lib/energy-weather.ts
+
+import { db } from '@/db';
+import { outdoorTemperatures } from '@/db/schema';
+import { and, asc, desc, eq, gte, lte } from 'drizzle-orm';
+import type { HAHistoryState, HomeAssistantAPI } from '@/lib/homeassistant';
+import { loadEnergySettings, localDate, localMidnight } from '@/lib/energy-intervals';
+import { TariffApiError, addDays, isValidDate } from '@/lib/tariff';
+import { parseCsv } from '@/lib/csv';
+
+// Outdoor temperature and degree days. The weather entity in
+// settings.energy.weatherEntity is either a weather.* entity (temperature in
+// its attributes) or a temperature sensor (temperature as its state). The
+// energy collector stores one row per local day in outdoor_temperatures,
+// since Home Assistant purges its history after days and year-over-year
+// comparisons need last year's weather. Days HA no longer has can be entered
+// through /api/energy/temperatures.
+//
+// Degree days use a 65°F / 18.3°C balance point: heating degree days are how
+// far the day's mean is below it, cooling degree days how far above.
+
+export type TemperatureUnit = 'F' | 'C';
+
+export const BALANCE_POINTS: Record<TemperatureUnit, number> = { F: 65, C: 18.3 };
+
+export const TEMPERATURE_SOURCES = ['ha_history', 'manual'] as const;
+export type TemperatureSource = typeof TEMPERATURE_SOURCES[number];
+
+// How far back a first collection reaches
+const INITIAL_BACKFILL_DAYS = 30;
+const HISTORY_CHUNK_DAYS = 7;
+
+type OutdoorTemperatureRecord = typeof outdoorTemperatures.$inferSelect;
+
+export interface DailyTemperature {
+  date: string;
+  mean: number;
+  min: number | null;
+  max: number | null;
+  samples: number;
+}
+
+export interface TemperatureCollection {
+  entityId: string;
+  from: string;
+  to: string;
+  days: number;
+  skippedManual: string[];
+  error?: string;
+}
+
+export function temperatureUnit(value: unknown): TemperatureUnit {
+  return typeof value === 'string' && value.includes('F') ? 'F' : 'C';
+}
+
+export function convertTemperature(value: number, from: TemperatureUnit, to: TemperatureUnit): number {
+  if (from === to) return value;
+  return to === 'F' ? value * 9 / 5 + 32 : (value - 32) * 5 / 9;
+}
+
+export function degreeDays(mean: number, unit: TemperatureUnit): { hdd: number; cdd: number } {
+  const balancePoint = BALANCE_POINTS[unit];
+  return { hdd: Math.max(0, balancePoint - mean), cdd: Math.max(0, mean - balancePoint) };
+}
+
+export async function getWeatherEntity(): Promise<string | null> {
+  const settings = await loadEnergySettings();
+  const entityId = typeof settings.weatherEntity === 'string' ? settings.weatherEntity.trim() : '';
+  return entityId || null;
+}
+
+// Mean, low and high of the recorded samples per local day
+export function dailyTemperaturesFromHistory(
+  entityId: string,
+  history: HAHistoryState[],
+  timezone: string
+): { unit: TemperatureUnit; days: DailyTemperature[] } {
+  const isWeather = entityId.startsWith('weather.');
+  const samples = new Map<string, number[]>();
+  let unit: TemperatureUnit = 'C';
+
+  for (const state of history) {
+    const temperature = parseFloat(isWeather ? state.attributes?.temperature : state.state);
+    if (!isFinite(temperature)) continue;
+    unit = temperatureUnit(isWeather ? state.attributes?.temperature_unit : state.attributes?.unit_of_measurement);
+    const date = localDate(Date.parse(state.last_changed), timezone);
+    samples.set(date, [...(samples.get(date) ?? []), temperature]);
+  }
+
+  const days = Array.from(samples, ([date, values]) => ({
+    date,
+    mean: Math.round(values.reduce((sum, value) => sum + value, 0) / values.length * 10) / 10,
+    min: Math.min(...values),
+    max: Math.max(...values),
+    samples: values.length
+  })).sort((a, b) => a.date.localeCompare(b.date));
+
+  return { unit, days };
+}
+
+export async function loadTemperatures(startDate: string, endDate: string): Promise<OutdoorTemperatureRecord[]> {
+  return db.select()
+    .from(outdoorTemperatures)
+    .where(and(gte(outdoorTemperatures.date, startDate), lte(outdoorTemperatures.date, endDate)))
+    .orderBy(asc(outdoorTemperatures.date));
+}
+
+// Upserts by date. Collected days leave manual ones alone; manual days
+// replace whatever is there.
+export async function saveTemperatures(
+  days: DailyTemperature[],
+  options: { entityId: string | null; unit: TemperatureUnit; source: TemperatureSource }
+): Promise<{ saved: string[]; skippedManual: string[] }> {
+  const saved: string[] = [];
+  const skippedManual: string[] = [];
+  const now = new Date().toISOString();
+
+  for (const day of days) {
+    const [existing] = await db.select()
+      .from(outdoorTemperatures)
+      .where(eq(outdoorTemperatures.date, day.date))
+      .limit(1);
+
+    if (existing?.source === 'manual' && options.source !== 'manual') {
+      skippedManual.push(day.date);
+      continue;
+    }
+
+    const values = {
+      entityId: options.entityId,
+      meanTemp: day.mean,
+      minTemp: day.min,
+      maxTemp: day.max,
+      unit: options.unit,
+      samples: day.samples,
+      source: options.source,
+      updatedAt: now
+    };
+    if (existing) {
+      await db.update(outdoorTemperatures).set(values).where(eq(outdoorTemperatures.id, existing.id));
+    } else {
+      await db.insert(outdoorTemperatures).values({ date: day.date, ...values, createdAt: now });
+    }
+    saved.push(day.date);
+  }
+
+  return { saved, skippedManual };
+}
+
+// Continues from the day before the newest collected day (which may have
+// been partial), or reaches back INITIAL_BACKFILL_DAYS the first time
+async function defaultStartDate(today: string): Promise<string> {
+  const [newest] = await db.select({ date: outdoorTemperatures.date })
+    .from(outdoorTemperatures)
+    .where(eq(outdoorTemperatures.source, 'ha_history'))
+    .orderBy(desc(outdoorTemperatures.date))
+    .limit(1);
+  const earliest = addDays(today, -(INITIAL_BACKFILL_DAYS - 1));
+  if (!newest) return earliest;
+  const from = addDays(newest.date, -1);
+  return from < earliest ? earliest : from > today ? today : from;
+}
+
+// Null when no weather entity is configured
+export async function collectTemperatures(
+  ha: HomeAssistantAPI,
+  range: { from?: string; to: string; timezone: string }
+): Promise<TemperatureCollection | null> {
+  const entityId = await getWeatherEntity();
+  if (!entityId) return null;
+
+  const { to, timezone } = range;
+  const from = range.from ?? await defaultStartDate(to);
+  const result: TemperatureCollection = { entityId, from, to, days: 0, skippedManual: [] };
+
+  try {
+    for (let chunkStart = from; chunkStart <= to; chunkStart = addDays(chunkStart, HISTORY_CHUNK_DAYS)) {
+      const chunkEnd = [addDays(chunkStart, HISTORY_CHUNK_DAYS - 1), to].sort()[0];
+      const startMs = localMidnight(chunkStart, timezone);
+      const endMs = Math.min(localMidnight(addDays(chunkEnd, 1), timezone), Date.now());
+      if (startMs >= endMs) break;
+
+      const history = await ha.getHistory(entityId, new Date(startMs), new Date(endMs), { attributes: entityId.startsWith('weather.') });
+      const { unit, days } = dailyTemperaturesFromHistory(entityId, history, timezone);
+      const { saved, skippedManual } = await saveTemperatures(
+        days.filter(day => day.date >= chunkStart && day.date <= chunkEnd),
+        { entityId, unit, source: 'ha_history' }
+      );
+      result.days += saved.length;
+      result.skippedManual.push(...skippedManual);
+    }
+  } catch (error) {
+    console.error(`Temperature collection failed for ${entityId}:`, error);
+    result.error = error instanceof Error ? error.message : String(error);
+  }
+
+  return result;
+}
+
+// Manual days as JSON ({ unit, days: [{ date, mean, min?, max? }] }) or CSV
+// with a date,mean[,min,max] header. Invalid days are reported, the rest saved.
+export async function importTemperatures(input: { unit: unknown; days?: unknown; csv?: string }): Promise<{
+  saved: string[];
+  errors: Array<{ line: number; error: string }>;
+}> {
+  if (input.unit !== 'F' && input.unit !== 'C') {
+    throw new TariffApiError('unit must be F or C', 'INVALID_UNIT');
+  }
+
+  let rows: Array<Record<string, unknown>>;
+  if (input.csv !== undefined) {
+    const [header, ...lines] = parseCsv(input.csv);
+    const columns = (header ?? []).map(column => column.trim().toLowerCase());
+    if (!columns.includes('date') || !columns.includes('mean')) {
+      throw new TariffApiError('CSV header must include date and mean', 'INVALID_CSV_HEADER');
+    }
+    rows = lines.map(line => Object.fromEntries(columns.map((column, index) => [column, line[index]?.trim() ?? ''])));
+  } else if (Array.isArray(input.days)) {
+    rows = input.days as Array<Record<string, unknown>>;
+  } else {
+    throw new TariffApiError('days must be an array', 'INVALID_DAYS');
+  }
+
+  const optional = (value: unknown) => value === undefined || value === null || value === '' ? null : Number(value);
+  const days: DailyTemperature[] = [];
+  const errors: Array<{ line: number; error: string }> = [];
+  rows.forEach((row, index) => {
+    // CSV lines count from the header
+    const line = input.csv !== undefined ? index + 2 : index + 1;
+    const mean = optional(row?.mean);
+    const min = optional(row?.min);
+    const max = optional(row?.max);
+    if (!isValidDate(row?.date)) {
+      errors.push({ line, error: 'date must be a valid date in YYYY-MM-DD format' });
+    } else if (mean === null || !isFinite(mean) || (min !== null && !isFinite(min)) || (max !== null && !isFinite(max))) {
+      errors.push({ line, error: 'mean, min and max must be numbers' });
+    } else {
+      days.push({ date: row.date as string, mean, min, max, samples: 0 });
+    }
+  });
+
+  const { saved } = await saveTemperatures(days, { entityId: null, unit: input.unit, source: 'manual' });
+  return { saved, errors };
+}
@@ -0,0 +1,57 @@
+// File path: src/lib/homeassistant-server.ts
+
+import { db } from '@/db';
+import { globalSettings } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import WebSocket from 'ws';
+import { HomeAssistantAPI, type HAConfig } from '@/lib/homeassistant';
+
+// Server-side Home Assistant access for background services and API routes.
+// The browser keeps its connection details in global settings (settings.ha),
+// so prefer those and fall back to the HOME_ASSISTANT_* environment variables.
+
+export async function getServerHomeAssistantConfig(): Promise<Pick<HAConfig, 'url' | 'token'> | null> {
+  try {
+    const record = await db.select()
+      .from(globalSettings)
+      .where(eq(globalSettings.id, 1))
+      .limit(1);
+
+    const settings = (record[0]?.settings || {}) as Record<string, any>;
+    if (settings.ha?.url && settings.ha?.token) {
+      return {
+        url: String(settings.ha.url).trim().replace(/\/$/, ''),
+        token: String(settings.ha.token).trim()
+      };
+    }
+  } catch (error) {
+    console.error('Failed to read Home Assistant settings:', error);
+  }
+
+  if (process.env.HOME_ASSISTANT_URL && process.env.HOME_ASSISTANT_TOKEN) {
+    return {
+      url: process.env.HOME_ASSISTANT_URL,
+      token: process.env.HOME_ASSISTANT_TOKEN
+    };
+  }
+
+  return null;
+}
+
+// Creates a standalone instance so server services never disconnect the
+// shared singleton returned by getHomeAssistantAPI(). Leaving `entities`
+// undefined makes the instance track state changes for every entity. Node 20
+// has no global WebSocket, so the instance connects through `ws`.
+export async function createServerHomeAssistantAPI(config?: Partial<HAConfig>): Promise<HomeAssistantAPI | null> {
+  const connection = await getServerHomeAssistantConfig();
+  if (!connection) {
+    return null;
+  }
+
+  return new HomeAssistantAPI({
+    ...connection,
+    entities: undefined,
+    webSocket: WebSocket as unknown as typeof globalThis.WebSocket,
+    ...config
+  });
+}
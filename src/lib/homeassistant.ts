@@ -46,6 +46,21 @@ export interface HAStateChangedMessage extends HAWebSocketMessage {
   };
 }
 
+// One recorded state from /api/history (minimal_response entries carry only these)
+export interface HAHistoryState {
+  entity_id?: string;
+  state: string;
+  last_changed: string;
+  attributes?: Record<string, any>;
+}
+
+export interface HAWeatherForecast {
+  datetime: string;
+  temperature?: number;
+  templow?: number;
+  condition?: string;
+}
+
 export interface HAStatesResponse {
   [entity_id: string]: HAEntity;
 }
@@ -59,6 +74,9 @@ export interface HAConfig {
   autoReconnect?: boolean;
   reconnectInterval?: number;
   maxReconnectAttempts?: number;
+  // WebSocket implementation to connect with, defaulting to the global one.
+  // Node.js before 22 has none, so server code passes the `ws` package.
+  webSocket?: typeof WebSocket;
 }
 
 export interface HAError extends Error {
@@ -270,7 +288,7 @@ class HomeAssistantAPI {
       try {
         this.setConnectionStatus('connecting');
         const wsUrl = (process.env.HOME_ASSISTANT_WS_URL || this.config.url.replace(/^http/, 'ws')) + '/api/websocket';
-        this.ws = new WebSocket(wsUrl);
+        this.ws = this.createWebSocket(wsUrl);
 
         this.ws.onopen = () => {
           console.log('WebSocket connection opened');
@@ -303,6 +321,14 @@ class HomeAssistantAPI {
     });
   }
 
+  private createWebSocket(url: string): WebSocket {
+    const WebSocketImpl = this.config.webSocket ?? globalThis.WebSocket;
+    if (!WebSocketImpl) {
+      throw new Error('WebSocket is not available in this runtime; pass a webSocket implementation such as the ws package');
+    }
+    return new WebSocketImpl(url);
+  }
+
   // Get states with optional entity filtering
   async getStates(entityIds?: string[]): Promise<HAEntity[]> {
     try {
@@ -328,7 +354,7 @@ class HomeAssistantAPI {
       try {
         this.setConnectionStatus('connecting');
         const wsUrl = (process.env.HOME_ASSISTANT_WS_URL || this.config.url.replace(/^http/, 'ws')) + '/api/websocket';
-        this.ws = new WebSocket(wsUrl);
+        this.ws = this.createWebSocket(wsUrl);
 
         this.ws.onopen = () => {
           console.log('WebSocket connection opened');
@@ -548,6 +574,57 @@ class HomeAssistantAPI {
     return this.makeRestRequest(`/api/services/${domain}/${service}`, 'POST', data);
   }
 
+  // Recorded states of one entity between start and end, oldest first. The
+  // first entry is the state the entity was in at `start`. Attributes are
+  // left out unless asked for, which keeps the response small.
+  async getHistory(entityId: string, start: Date, end: Date, options: { attributes?: boolean } = {}): Promise<HAHistoryState[]> {
+    const query = new URLSearchParams({
+      filter_entity_id: entityId,
+      end_time: end.toISOString()
+    });
+    const flags = options.attributes ? '' : '&minimal_response&no_attributes';
+    const response = await this.makeRestRequest(
+      `/api/history/period/${encodeURIComponent(start.toISOString())}?${query}${flags}`
+    );
+    return Array.isArray(response) && Array.isArray(response[0]) ? response[0] : [];
+  }
+
+  // Daily forecast of a weather entity. Newer HA versions only provide it
+  // through the weather.get_forecasts service; older ones keep it in the
+  // entity's `forecast` attribute.
+  async getWeatherForecast(entityId: string): Promise<HAWeatherForecast[]> {
+    try {
+      const response = await this.makeRestRequest(
+        '/api/services/weather/get_forecasts?return_response',
+        'POST',
+        { entity_id: entityId, type: 'daily' }
+      );
+      const forecast = response?.service_response?.[entityId]?.forecast;
+      if (Array.isArray(forecast)) return forecast;
+    } catch (error) {
+      console.warn(`weather.get_forecasts failed for ${entityId}, falling back to attributes:`, error);
+    }
+
+    const state = await this.getState(entityId);
+    return Array.isArray(state?.attributes?.forecast) ? state.attributes.forecast : [];
+  }
+
+  // Automation config API (automations.yaml entries managed by the HA editor)
+  async getAutomationConfig(automationId: string): Promise<any | null> {
+    try {
+      return await this.makeRestRequest(`/api/config/automation/config/${encodeURIComponent(automationId)}`);
+    } catch (error) {
+      if ((error as HAError).status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async saveAutomationConfig(automationId: string, config: any): Promise<any> {
+    return this.makeRestRequest(`/api/config/automation/config/${encodeURIComponent(automationId)}`, 'POST', config);
+  }
+
   private async makeRestRequest(endpoint: string, method: string = 'GET', data?: any): Promise<any> {
     const url = `${this.config.url}${endpoint}`;
     const headers: Record<string, string> = {
@@ -591,7 +668,7 @@ class HomeAssistantAPI {
   }
 
   private sendMessage(message: HAWebSocketMessage): void {
-    if (this.ws?.readyState === WebSocket.OPEN) {
+    if (this.ws && this.ws.readyState === this.ws.OPEN) {
       this.ws.send(JSON.stringify(message));
     }
   }
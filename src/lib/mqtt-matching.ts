@@ -0,0 +1,187 @@
+// File path: src/lib/mqtt-matching.ts
+
+// Topic and payload matching for MQTT triggers.
+//
+// Topic filters follow the MQTT spec: "+" matches exactly one level, "#"
+// (last level only) matches any number of levels including none, and
+// filters starting with a wildcard never match "$"-prefixed topics such as
+// $SYS/broker/uptime.
+//
+// A trigger payload is either matched literally, or, when it starts with
+// "$", read as a JSON path expression evaluated against the JSON payload:
+//   $.action == "single"        compare a value (==, !=, >, <, >=, <=)
+//   $.sensors[0].temp >= 25.5   numbers compare numerically
+//   $.contact == false          right-hand side is JSON, or a bare word
+//   $.battery                   present and not null/false
+//   $.buttons[*].pressed        "*" matches every array item or object value
+// With a wildcard the expression matches if any selected value does.
+
+export type PathSegment = string | number | '*';
+
+export type PayloadOperator = '==' | '!=' | '>' | '<' | '>=' | '<=';
+
+export type PayloadMatcher =
+  | { kind: 'exact'; value: string }
+  | { kind: 'json_path'; path: PathSegment[]; operator: PayloadOperator | null; expected: unknown };
+
+export class PayloadMatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PayloadMatchError';
+  }
+}
+
+const OPERATORS: PayloadOperator[] = ['==', '!=', '>=', '<=', '>', '<'];
+
+export function isValidTopicFilter(filter: string): boolean {
+  if (!filter) return false;
+  const levels = filter.split('/');
+  return levels.every((level, index) =>
+    level === '#' ? index === levels.length - 1 : level === '+' || !/[#+]/.test(level));
+}
+
+// Topics that messages are published to cannot contain wildcards
+export function isValidTopicName(topic: string): boolean {
+  return Boolean(topic) && !/[#+]/.test(topic);
+}
+
+export function topicMatches(filter: string, topic: string): boolean {
+  const filterLevels = filter.split('/');
+  const topicLevels = topic.split('/');
+
+  if (topic.startsWith('$') && (filterLevels[0] === '+' || filterLevels[0] === '#')) return false;
+
+  for (let index = 0; index < filterLevels.length; index++) {
+    const level = filterLevels[index];
+    // "sensors/#" also matches "sensors" itself
+    if (level === '#') return true;
+    if (index >= topicLevels.length) return false;
+    if (level !== '+' && level !== topicLevels[index]) return false;
+  }
+
+  return filterLevels.length === topicLevels.length;
+}
+
+function parsePath(expression: string): { path: PathSegment[]; rest: string } {
+  const path: PathSegment[] = [];
+  let position = 1;
+
+  while (position < expression.length) {
+    const char = expression[position];
+
+    if (char === '.') {
+      const match = expression.slice(position + 1).match(/^(\*|[A-Za-z0-9_-]+)/);
+      if (!match) throw new PayloadMatchError(`Expected a key after "." at position ${position}`);
+      path.push(match[1] === '*' ? '*' : match[1]);
+      position += 1 + match[1].length;
+    } else if (char === '[') {
+      const match = expression.slice(position).match(/^\[(?:(\*)|(\d+)|'((?:[^'\\]|\\.)*)'|"((?:[^"\\]|\\.)*)")\]/);
+      if (!match) throw new PayloadMatchError(`Invalid bracket at position ${position}`);
+      path.push(match[1] ? '*' : match[2] !== undefined ? parseInt(match[2], 10) : (match[3] ?? match[4]).replace(/\\(.)/g, '$1'));
+      position += match[0].length;
+    } else {
+      break;
+    }
+  }
+
+  return { path, rest: expression.slice(position) };
+}
+
+function parseExpected(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+export function parsePayloadMatcher(expression: string): PayloadMatcher {
+  if (!expression.startsWith('$')) {
+    return { kind: 'exact', value: expression };
+  }
+
+  const { path, rest } = parsePath(expression.trim());
+  const comparison = rest.trim();
+  if (!comparison) {
+    return { kind: 'json_path', path, operator: null, expected: undefined };
+  }
+
+  if (!/^\s/.test(rest)) {
+    throw new PayloadMatchError(`Unexpected "${rest[0]}" in JSON path`);
+  }
+
+  const operator = OPERATORS.find(candidate => comparison.startsWith(candidate));
+  if (!operator) {
+    throw new PayloadMatchError(`Expected one of ${OPERATORS.join(' ')} after the JSON path`);
+  }
+
+  const value = comparison.slice(operator.length).trim();
+  if (!value) {
+    throw new PayloadMatchError(`Missing value after ${operator}`);
+  }
+
+  return { kind: 'json_path', path, operator, expected: parseExpected(value) };
+}
+
+function select(value: unknown, path: PathSegment[]): unknown[] {
+  let current: unknown[] = [value];
+
+  for (const segment of path) {
+    current = current.flatMap(item => {
+      if (item === null || typeof item !== 'object') return [];
+      if (segment === '*') return Object.values(item as Record<string, unknown>);
+      const child = (item as Record<string | number, unknown>)[segment];
+      return child === undefined ? [] : [child];
+    });
+  }
+
+  return current;
+}
+
+function asComparable(value: unknown): string {
+  return value !== null && typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function compare(actual: unknown, operator: PayloadOperator | null, expected: unknown): boolean {
+  if (operator === null) return actual !== null && actual !== false;
+
+  if (operator === '==' || operator === '!=') {
+    // Loose on purpose: `$.state == on` and `$.count == "3"` behave as expected
+    const equal = asComparable(actual) === asComparable(expected);
+    return operator === '==' ? equal : !equal;
+  }
+
+  const actualNumber = typeof actual === 'number' ? actual : typeof actual === 'string' && actual.trim() ? Number(actual) : NaN;
+  const expectedNumber = Number(expected);
+  if (!isFinite(actualNumber) || !isFinite(expectedNumber)) return false;
+
+  switch (operator) {
+    case '>': return actualNumber > expectedNumber;
+    case '<': return actualNumber < expectedNumber;
+    case '>=': return actualNumber >= expectedNumber;
+    case '<=': return actualNumber <= expectedNumber;
+  }
+}
+
+// An empty expression matches any payload; a malformed one matches nothing
+export function matchesPayload(expression: string | null | undefined, payload: string): boolean {
+  if (!expression) return true;
+
+  let matcher: PayloadMatcher;
+  try {
+    matcher = parsePayloadMatcher(expression);
+  } catch {
+    return false;
+  }
+
+  if (matcher.kind === 'exact') return payload === matcher.value;
+
+  let json: unknown;
+  try {
+    json = JSON.parse(payload);
+  } catch {
+    return false;
+  }
+
+  return select(json, matcher.path).some(value => compare(value, matcher.operator, matcher.expected));
+}
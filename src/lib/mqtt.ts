@@ -0,0 +1,374 @@
+// File path: src/lib/mqtt.ts
+
+import mqtt, { type MqttClient } from 'mqtt';
+import { db } from '@/db';
+import { globalSettings } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { topicMatches } from '@/lib/mqtt-matching';
+
+// MQTT access for the automation engine. The broker is configured in global
+// settings (settings.mqtt) with MQTT_* environment variables as a fallback.
+// Besides mqtt://, mqtts://, ws:// and wss:// URLs, "memory://<name>" selects
+// an in-process broker, which is handy for development and for exercising
+// triggers without running Mosquitto.
+
+export type MqttQos = 0 | 1 | 2;
+
+export interface MqttConfig {
+  url: string;
+  username?: string;
+  password?: string;
+  clientId?: string;
+}
+
+export interface MqttMessage {
+  topic: string;
+  payload: string;
+  qos: MqttQos;
+  retain: boolean;
+  receivedAt: string;
+}
+
+export interface PublishOptions {
+  qos?: MqttQos;
+  retain?: boolean;
+}
+
+export type MqttMessageListener = (message: MqttMessage) => void;
+
+export interface MqttConnection {
+  connect(): Promise<void>;
+  disconnect(): Promise<void>;
+  isConnected(): boolean;
+  subscribe(filters: string[]): Promise<void>;
+  unsubscribe(filters: string[]): Promise<void>;
+  publish(topic: string, payload: string, options?: PublishOptions): Promise<void>;
+  onMessage(listener: MqttMessageListener): () => void;
+}
+
+const CONNECT_TIMEOUT_MS = 10000;
+const RECONNECT_PERIOD_MS = 5000;
+
+class NetworkMqttConnection implements MqttConnection {
+  private client: MqttClient | null = null;
+  private listeners = new Set<MqttMessageListener>();
+
+  constructor(private config: MqttConfig, private connectTimeout = CONNECT_TIMEOUT_MS) {}
+
+  connect(): Promise<void> {
+    if (this.client) return Promise.resolve();
+
+    const client = mqtt.connect(this.config.url, {
+      username: this.config.username || undefined,
+      password: this.config.password || undefined,
+      clientId: this.config.clientId || `home-dashboard-${Math.random().toString(16).slice(2, 10)}`,
+      connectTimeout: this.connectTimeout,
+      reconnectPeriod: RECONNECT_PERIOD_MS
+    });
+
+    client.on('message', (topic, payload, packet) => {
+      const message: MqttMessage = {
+        topic,
+        payload: payload.toString('utf8'),
+        qos: packet.qos,
+        retain: packet.retain,
+        receivedAt: new Date().toISOString()
+      };
+      this.listeners.forEach(listener => listener(message));
+    });
+
+    // Once connected, mqtt.js keeps reconnecting and resubscribing on its
+    // own; only the first attempt is reported to the caller
+    return new Promise((resolve, reject) => {
+      const fail = (error: Error) => {
+        cleanup();
+        client.end(true);
+        reject(error);
+      };
+      const onConnect = () => {
+        cleanup();
+        this.client = client;
+        client.on('error', error => console.error('MQTT client error:', error.message));
+        resolve();
+      };
+      const onClose = () => fail(new Error(`Could not connect to ${this.config.url}`));
+      const timer = setTimeout(() => fail(new Error(`Timed out connecting to ${this.config.url}`)), this.connectTimeout);
+      const cleanup = () => {
+        clearTimeout(timer);
+        client.off('connect', onConnect);
+        client.off('error', fail);
+        client.off('close', onClose);
+      };
+
+      client.on('connect', onConnect);
+      client.on('error', fail);
+      client.on('close', onClose);
+    });
+  }
+
+  async disconnect(): Promise<void> {
+    const client = this.client;
+    this.client = null;
+    if (client) await client.endAsync();
+  }
+
+  isConnected(): boolean {
+    return Boolean(this.client?.connected);
+  }
+
+  async subscribe(filters: string[]): Promise<void> {
+    if (!this.client || filters.length === 0) return;
+    await this.client.subscribeAsync(filters, { qos: 1 });
+  }
+
+  async unsubscribe(filters: string[]): Promise<void> {
+    if (!this.client || filters.length === 0) return;
+    await this.client.unsubscribeAsync(filters);
+  }
+
+  async publish(topic: string, payload: string, options: PublishOptions = {}): Promise<void> {
+    if (!this.client) throw new Error('MQTT client is not connected');
+    await this.client.publishAsync(topic, payload, { qos: options.qos ?? 0, retain: options.retain ?? false });
+  }
+
+  onMessage(listener: MqttMessageListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+}
+
+// Minimal broker living in this process. It routes messages between its own
+// connections and keeps retained messages, which are replayed (flagged as
+// retained) to new subscribers like a real broker would.
+export class InProcessBroker {
+  private connections = new Set<InProcessMqttConnection>();
+  private retained = new Map<string, MqttMessage>();
+
+  attach(connection: InProcessMqttConnection): void {
+    this.connections.add(connection);
+  }
+
+  detach(connection: InProcessMqttConnection): void {
+    this.connections.delete(connection);
+  }
+
+  retainedMatching(filter: string): MqttMessage[] {
+    return Array.from(this.retained.values()).filter(message => topicMatches(filter, message.topic));
+  }
+
+  publish(topic: string, payload: string, options: PublishOptions = {}): void {
+    const message: MqttMessage = {
+      topic,
+      payload,
+      qos: options.qos ?? 0,
+      retain: false,
+      receivedAt: new Date().toISOString()
+    };
+
+    if (options.retain) {
+      // An empty retained payload clears the retained message
+      if (payload === '') this.retained.delete(topic);
+      else this.retained.set(topic, { ...message, retain: true });
+    }
+
+    this.connections.forEach(connection => connection.deliver(message));
+  }
+}
+
+class InProcessMqttConnection implements MqttConnection {
+  private connected = false;
+  private filters = new Set<string>();
+  private listeners = new Set<MqttMessageListener>();
+
+  constructor(private broker: InProcessBroker) {}
+
+  async connect(): Promise<void> {
+    this.broker.attach(this);
+    this.connected = true;
+  }
+
+  async disconnect(): Promise<void> {
+    this.broker.detach(this);
+    this.connected = false;
+    this.filters.clear();
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  async subscribe(filters: string[]): Promise<void> {
+    for (const filter of filters) {
+      this.filters.add(filter);
+      this.broker.retainedMatching(filter).forEach(message => this.emit(message));
+    }
+  }
+
+  async unsubscribe(filters: string[]): Promise<void> {
+    filters.forEach(filter => this.filters.delete(filter));
+  }
+
+  async publish(topic: string, payload: string, options?: PublishOptions): Promise<void> {
+    if (!this.connected) throw new Error('MQTT client is not connected');
+    this.broker.publish(topic, payload, options);
+  }
+
+  onMessage(listener: MqttMessageListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  deliver(message: MqttMessage): void {
+    if (Array.from(this.filters).some(filter => topicMatches(filter, message.topic))) {
+      this.emit(message);
+    }
+  }
+
+  private emit(message: MqttMessage): void {
+    this.listeners.forEach(listener => listener(message));
+  }
+}
+
+const inProcessBrokers = new Map<string, InProcessBroker>();
+
+export function getInProcessBroker(name = 'default'): InProcessBroker {
+  let broker = inProcessBrokers.get(name);
+  if (!broker) {
+    broker = new InProcessBroker();
+    inProcessBrokers.set(name, broker);
+  }
+  return broker;
+}
+
+export function createMqttConnection(config: MqttConfig, options: { connectTimeout?: number } = {}): MqttConnection {
+  if (config.url.startsWith('memory://')) {
+    return new InProcessMqttConnection(getInProcessBroker(config.url.slice('memory://'.length) || 'default'));
+  }
+  return new NetworkMqttConnection(config, options.connectTimeout);
+}
+
+// Null when MQTT is disabled or no broker URL is configured
+export async function getMqttConfig(): Promise<MqttConfig | null> {
+  try {
+    const [record] = await db.select()
+      .from(globalSettings)
+      .where(eq(globalSettings.id, 1))
+      .limit(1);
+
+    const mqttSettings = (record?.settings as Record<string, any> | undefined)?.mqtt;
+    if (mqttSettings) {
+      if (!mqttSettings.enabled || !mqttSettings.url) return null;
+      return {
+        url: String(mqttSettings.url).trim(),
+        username: mqttSettings.username || undefined,
+        password: mqttSettings.password || undefined,
+        clientId: mqttSettings.clientId || undefined
+      };
+    }
+  } catch (error) {
+    console.error('Failed to read MQTT settings:', error);
+  }
+
+  if (process.env.MQTT_URL) {
+    return {
+      url: process.env.MQTT_URL,
+      username: process.env.MQTT_USERNAME,
+      password: process.env.MQTT_PASSWORD
+    };
+  }
+
+  return null;
+}
+
+// Shared broker connection. The automation engine configures it on every
+// reload and declares which topic filters it needs; the service reconnects
+// when the settings change and keeps subscriptions in sync.
+export class MqttService {
+  private connection: MqttConnection | null = null;
+  private configKey: string | null = null;
+  private subscriptions = new Set<string>();
+  private listeners = new Set<MqttMessageListener>();
+  private lastError: string | null = null;
+  private lastMessageAt: string | null = null;
+
+  async configure(config: MqttConfig | null): Promise<void> {
+    const key = config ? JSON.stringify(config) : null;
+    // Retry after a failed connection even when nothing changed
+    if (key === this.configKey && !this.lastError) return;
+
+    await this.disconnect();
+    this.configKey = key;
+    this.lastError = null;
+    if (!config) return;
+
+    const connection = createMqttConnection(config);
+    connection.onMessage(message => {
+      this.lastMessageAt = message.receivedAt;
+      this.listeners.forEach(listener => listener(message));
+    });
+
+    try {
+      await connection.connect();
+      this.connection = connection;
+      this.lastError = null;
+      await connection.subscribe(Array.from(this.subscriptions));
+    } catch (error) {
+      console.error('Failed to connect to MQTT broker:', error);
+      this.lastError = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  async setSubscriptions(filters: string[]): Promise<void> {
+    const wanted = new Set(filters);
+    const added = Array.from(wanted).filter(filter => !this.subscriptions.has(filter));
+    const removed = Array.from(this.subscriptions).filter(filter => !wanted.has(filter));
+    this.subscriptions = wanted;
+
+    if (this.connection) {
+      await this.connection.unsubscribe(removed);
+      await this.connection.subscribe(added);
+    }
+  }
+
+  onMessage(listener: MqttMessageListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  async publish(topic: string, payload: string, options?: PublishOptions): Promise<void> {
+    if (!this.connection) throw new Error('MQTT broker is not configured');
+    await this.connection.publish(topic, payload, options);
+  }
+
+  isConnected(): boolean {
+    return Boolean(this.connection?.isConnected());
+  }
+
+  async disconnect(): Promise<void> {
+    const connection = this.connection;
+    this.connection = null;
+    this.configKey = null;
+    if (connection) {
+      await connection.disconnect().catch(error => console.error('Failed to close MQTT connection:', error));
+    }
+  }
+
+  getStatus() {
+    return {
+      configured: this.configKey !== null,
+      connected: this.isConnected(),
+      subscriptions: Array.from(this.subscriptions),
+      lastMessageAt: this.lastMessageAt,
+      lastError: this.lastError
+    };
+  }
+}
+
+// Export singleton instance, on globalThis like the automation engine's so
+// routes share the broker connection the engine opened
+const globalForMqtt = globalThis as typeof globalThis & { __mqttService?: MqttService };
+
+export function getMqttService(): MqttService {
+  globalForMqtt.__mqttService ??= new MqttService();
+  return globalForMqtt.__mqttService;
+}
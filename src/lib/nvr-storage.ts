@@ -0,0 +1,443 @@
+// File path: src/lib/nvr-storage.ts
+
+import { promises as fs } from 'fs';
+import { resolve, sep } from 'path';
+import { db } from '@/db';
+import { cameraRecordingSettings, cameras, nvrStorageLocations, recordings } from '@/db/schema';
+import { asc, eq, inArray, sql } from 'drizzle-orm';
+import { CameraApiError } from '@/lib/camera-service';
+
+// Storage manager for the NVR storage locations.
+//
+// Usage is measured, not typed in: usedGb is the size of everything under a
+// location's path and freeGb the space left on the filesystem holding it.
+// A location's headroom is the smaller of its free space and, when
+// capacityGb is set, capacityGb - usedGb. New recordings go to the enabled
+// location with the most headroom unless the camera is pinned to one.
+//
+// Retention prunes the oldest recordings, file and row, that are past a
+// camera's retentionDays, beyond its retentionGb, or on a location over its
+// capacityGb. Recordings flagged keepForever are never pruned, though they
+// still count toward the limits. The same plan is available as a dry run.
+
+export type StorageLocationRecord = typeof nvrStorageLocations.$inferSelect;
+type RecordingFiles = Pick<typeof recordings.$inferSelect, 'filename' | 'posterFilename' | 'spriteFilename'>;
+
+export interface StorageLocationUsage {
+  id: number;
+  name: string;
+  path: string;
+  enabled: boolean;
+  capacityGb: number;
+  usedGb: number;
+  freeGb: number | null;
+  // Null when the path cannot be reached
+  headroomGb: number | null;
+  checkedAt: string | null;
+  error: string | null;
+}
+
+export type PruneReason = 'age' | 'size' | 'capacity';
+
+export interface PruneCandidate {
+  recordingId: number;
+  cameraId: number;
+  cameraName: string | null;
+  storageLocationId: number | null;
+  filename: string;
+  timestamp: string;
+  sizeMb: number;
+  reason: PruneReason;
+}
+
+export interface RetentionReport {
+  dryRun: boolean;
+  generatedAt: string;
+  cameras: Array<{
+    cameraId: number;
+    cameraName: string;
+    retentionDays: number | null;
+    retentionGb: number | null;
+    totalGb: number;
+    keptForeverGb: number;
+    pruneCount: number;
+    pruneGb: number;
+  }>;
+  locations: StorageLocationUsage[];
+  candidates: PruneCandidate[];
+  pruneGb: number;
+  deleted: number;
+  errors: string[];
+}
+
+const MANAGE_INTERVAL_MS = 15 * 60 * 1000;
+const STARTUP_DELAY_MS = 60 * 1000;
+const MB_PER_GB = 1024;
+const BYTES_PER_GB = 1024 * 1024 * 1024;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+async function directoryBytes(dir: string): Promise<number> {
+  let total = 0;
+  for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+    const path = resolve(dir, entry.name);
+    if (entry.isDirectory()) {
+      total += await directoryBytes(path);
+    } else if (entry.isFile()) {
+      // Files can go away while we walk (buffer rotation, pruning)
+      total += (await fs.stat(path).catch(() => null))?.size ?? 0;
+    }
+  }
+  return total;
+}
+
+async function filesystemFreeGb(path: string): Promise<number> {
+  const stats = await fs.statfs(path);
+  return stats.bavail * stats.bsize / BYTES_PER_GB;
+}
+
+function headroom(location: Pick<StorageLocationRecord, 'capacityGb' | 'usedGb'>, freeGb: number): number {
+  const capacityLeft = location.capacityGb > 0 ? location.capacityGb - location.usedGb : Infinity;
+  return round(Math.min(freeGb, capacityLeft));
+}
+
+function toUsage(location: StorageLocationRecord, freeGb: number | null, error: string | null): StorageLocationUsage {
+  return {
+    id: location.id,
+    name: location.name,
+    path: location.path,
+    enabled: location.enabled ?? true,
+    capacityGb: location.capacityGb,
+    usedGb: location.usedGb,
+    freeGb,
+    headroomGb: freeGb === null ? null : headroom(location, freeGb),
+    checkedAt: location.usageCheckedAt,
+    error
+  };
+}
+
+// Absolute path of a recording, or null when its filename would point
+// outside the location (rows can be created through the API)
+export function recordingPath(location: Pick<StorageLocationRecord, 'path'>, filename: string): string | null {
+  const root = resolve(location.path);
+  const path = resolve(root, filename);
+  return path.startsWith(root + sep) ? path : null;
+}
+
+// Deletes a recording's file together with its poster and sprite sheet.
+// Returns false, deleting nothing, when the file does not resolve inside the
+// location.
+export async function deleteRecordingFiles(
+  location: Pick<StorageLocationRecord, 'path'> | null | undefined,
+  recording: RecordingFiles
+): Promise<boolean> {
+  const path = location ? recordingPath(location, recording.filename) : null;
+  if (!location || !path) return false;
+
+  await fs.rm(path, { force: true });
+  for (const image of [recording.posterFilename, recording.spriteFilename]) {
+    const imagePath = image ? recordingPath(location, image) : null;
+    if (imagePath) await fs.rm(imagePath, { force: true });
+  }
+  return true;
+}
+
+// Removes every recording of a camera, files and rows, before the camera
+// itself is deleted
+export async function deleteCameraRecordings(cameraId: number): Promise<Array<typeof recordings.$inferSelect>> {
+  const rows = await db.select({ recording: recordings, locationPath: nvrStorageLocations.path })
+    .from(recordings)
+    .leftJoin(nvrStorageLocations, eq(recordings.storageLocationId, nvrStorageLocations.id))
+    .where(eq(recordings.cameraId, cameraId));
+
+  for (const { recording, locationPath } of rows) {
+    try {
+      await deleteRecordingFiles(locationPath ? { path: locationPath } : null, recording);
+    } catch (error) {
+      console.error(`Failed to delete recording ${recording.filename}:`, error);
+    }
+  }
+
+  const deleted = await db.delete(recordings)
+    .where(eq(recordings.cameraId, cameraId))
+    .returning();
+  if (rows.some(row => row.locationPath)) await refreshStorageUsage();
+  return deleted;
+}
+
+// Walks every location and stores what it measured
+export async function refreshStorageUsage(): Promise<StorageLocationUsage[]> {
+  const locations = await db.select().from(nvrStorageLocations).orderBy(asc(nvrStorageLocations.id));
+
+  const usage: StorageLocationUsage[] = [];
+  for (const location of locations) {
+    try {
+      await fs.mkdir(location.path, { recursive: true });
+      const usedGb = round(await directoryBytes(location.path) / BYTES_PER_GB, 3);
+      const freeGb = round(await filesystemFreeGb(location.path));
+      const checkedAt = new Date().toISOString();
+      const [updated] = await db.update(nvrStorageLocations)
+        .set({ usedGb, freeGb, usageCheckedAt: checkedAt })
+        .where(eq(nvrStorageLocations.id, location.id))
+        .returning();
+      usage.push(toUsage(updated, freeGb, null));
+    } catch (error) {
+      usage.push(toUsage(location, null, error instanceof Error ? error.message : String(error)));
+    }
+  }
+  return usage;
+}
+
+// Headroom from the stored usage and the filesystem's free space right now
+export async function locationHeadroomGb(location: StorageLocationRecord): Promise<number | null> {
+  try {
+    return headroom(location, await filesystemFreeGb(location.path));
+  } catch {
+    return null;
+  }
+}
+
+// The camera's pinned location when set and enabled, else the enabled
+// location with the most headroom
+export async function pickStorageLocation(preferredId: number | null): Promise<StorageLocationRecord> {
+  const locations = await db.select()
+    .from(nvrStorageLocations)
+    .where(eq(nvrStorageLocations.enabled, true))
+    .orderBy(asc(nvrStorageLocations.id));
+
+  const pinned = locations.find(location => location.id === preferredId);
+  if (pinned) return pinned;
+
+  let best: { location: StorageLocationRecord; headroomGb: number } | null = null;
+  for (const location of locations) {
+    await fs.mkdir(location.path, { recursive: true }).catch(() => {});
+    const headroomGb = await locationHeadroomGb(location);
+    if (headroomGb !== null && (!best || headroomGb > best.headroomGb)) {
+      best = { location, headroomGb };
+    }
+  }
+
+  if (!best) {
+    throw new CameraApiError(
+      locations.length === 0 ? 'No enabled storage location to record to' : 'No enabled storage location is reachable',
+      'NO_STORAGE_LOCATION',
+      409
+    );
+  }
+  if (best.headroomGb <= 0) {
+    throw new CameraApiError('All enabled storage locations are full', 'STORAGE_FULL', 409);
+  }
+  return best.location;
+}
+
+// Keeps usedGb current between measurements as the recorder writes files
+export async function addStorageUsage(locationId: number, bytes: number): Promise<void> {
+  await db.update(nvrStorageLocations)
+    .set({ usedGb: sql`${nvrStorageLocations.usedGb} + ${bytes / BYTES_PER_GB}` })
+    .where(eq(nvrStorageLocations.id, locationId));
+}
+
+async function planRetention(locations: StorageLocationUsage[], now: number): Promise<Omit<RetentionReport, 'dryRun' | 'deleted' | 'errors'>> {
+  const [cameraRows, settingsRows, recordingRows] = await Promise.all([
+    db.select({ id: cameras.id, name: cameras.name }).from(cameras),
+    db.select().from(cameraRecordingSettings),
+    db.select().from(recordings).orderBy(asc(recordings.timestamp), asc(recordings.id))
+  ]);
+  const cameraNames = new Map(cameraRows.map(camera => [camera.id, camera.name]));
+  const candidates = new Map<number, PruneCandidate>();
+
+  const prune = (recording: typeof recordingRows[number], reason: PruneReason) => {
+    candidates.set(recording.id, {
+      recordingId: recording.id,
+      cameraId: recording.cameraId,
+      cameraName: cameraNames.get(recording.cameraId) ?? null,
+      storageLocationId: recording.storageLocationId,
+      filename: recording.filename,
+      timestamp: recording.timestamp,
+      sizeMb: recording.size ?? 0,
+      reason
+    });
+  };
+
+  const cameraReports: RetentionReport['cameras'] = [];
+  for (const settings of settingsRows) {
+    const rows = recordingRows.filter(recording => recording.cameraId === settings.cameraId);
+    const prunable = rows.filter(recording => !recording.keepForever);
+    let totalGb = rows.reduce((sum, recording) => sum + (recording.size ?? 0), 0) / MB_PER_GB;
+
+    if (settings.retentionDays) {
+      const cutoff = now - settings.retentionDays * DAY_MS;
+      for (const recording of prunable) {
+        if (new Date(recording.timestamp).getTime() < cutoff) {
+          prune(recording, 'age');
+          totalGb -= (recording.size ?? 0) / MB_PER_GB;
+        }
+      }
+    }
+    if (settings.retentionGb) {
+      for (const recording of prunable) {
+        if (totalGb <= settings.retentionGb) break;
+        if (candidates.has(recording.id)) continue;
+        prune(recording, 'size');
+        totalGb -= (recording.size ?? 0) / MB_PER_GB;
+      }
+    }
+
+    const pruned = rows.filter(recording => candidates.has(recording.id));
+    cameraReports.push({
+      cameraId: settings.cameraId,
+      cameraName: cameraNames.get(settings.cameraId) ?? `Camera ${settings.cameraId}`,
+      retentionDays: settings.retentionDays,
+      retentionGb: settings.retentionGb,
+      totalGb: round(rows.reduce((sum, recording) => sum + (recording.size ?? 0), 0) / MB_PER_GB, 3),
+      keptForeverGb: round(rows.filter(recording => recording.keepForever)
+        .reduce((sum, recording) => sum + (recording.size ?? 0), 0) / MB_PER_GB, 3),
+      pruneCount: pruned.length,
+      pruneGb: round(pruned.reduce((sum, recording) => sum + (recording.size ?? 0), 0) / MB_PER_GB, 3)
+    });
+  }
+
+  // Locations over their capacity lose their oldest recordings, any camera
+  for (const location of locations) {
+    if (location.capacityGb <= 0) continue;
+    let usedGb = location.usedGb - Array.from(candidates.values())
+      .filter(candidate => candidate.storageLocationId === location.id)
+      .reduce((sum, candidate) => sum + candidate.sizeMb, 0) / MB_PER_GB;
+
+    for (const recording of recordingRows) {
+      if (usedGb <= location.capacityGb) break;
+      if (recording.storageLocationId !== location.id || recording.keepForever || candidates.has(recording.id)) continue;
+      prune(recording, 'capacity');
+      usedGb -= (recording.size ?? 0) / MB_PER_GB;
+    }
+  }
+
+  const list = Array.from(candidates.values()).sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  return {
+    generatedAt: new Date(now).toISOString(),
+    cameras: cameraReports,
+    locations,
+    candidates: list,
+    pruneGb: round(list.reduce((sum, candidate) => sum + candidate.sizeMb, 0) / MB_PER_GB, 3)
+  };
+}
+
+// Measures usage, then prunes what retention allows; with dryRun it only
+// reports what would go
+export async function applyRetention(options: { dryRun?: boolean } = {}): Promise<RetentionReport> {
+  const dryRun = options.dryRun ?? false;
+  const locations = await refreshStorageUsage();
+  const plan = await planRetention(locations, Date.now());
+  const report: RetentionReport = { dryRun, ...plan, deleted: 0, errors: [] };
+  if (dryRun || plan.candidates.length === 0) return report;
+
+  const locationsById = new Map(locations.map(location => [location.id, location]));
+  // Posters and sprite sheets go with their recordings
+  const images = new Map((await db.select({
+    id: recordings.id,
+    posterFilename: recordings.posterFilename,
+    spriteFilename: recordings.spriteFilename
+  }).from(recordings)).map(row => [row.id, row]));
+
+  const removed: number[] = [];
+  for (const candidate of plan.candidates) {
+    const location = candidate.storageLocationId === null ? undefined : locationsById.get(candidate.storageLocationId);
+    const image = images.get(candidate.recordingId);
+    try {
+      // The row stays while its file cannot be found, so the file is never
+      // orphaned
+      const deleted = await deleteRecordingFiles(location, {
+        filename: candidate.filename,
+        posterFilename: image?.posterFilename ?? null,
+        spriteFilename: image?.spriteFilename ?? null
+      });
+      if (!deleted) {
+        report.errors.push(`${candidate.filename}: ${location ? 'path is outside its storage location' : 'storage location is unknown'}`);
+        continue;
+      }
+      removed.push(candidate.recordingId);
+    } catch (error) {
+      report.errors.push(`${candidate.filename}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  for (let i = 0; i < removed.length; i += 500) {
+    await db.delete(recordings).where(inArray(recordings.id, removed.slice(i, i + 500)));
+  }
+  report.deleted = removed.length;
+  report.locations = await refreshStorageUsage();
+  return report;
+}
+
+// Measures and prunes every 15 minutes in the server process, started from
+// instrumentation.ts
+export class StorageManager {
+  private timer: NodeJS.Timeout | null = null;
+  private current: Promise<RetentionReport> | null = null;
+  private lastRunAt: string | null = null;
+  private nextRunAt: string | null = null;
+  private lastError: string | null = null;
+
+  start(): void {
+    if (this.timer) return;
+    this.schedule(STARTUP_DELAY_MS);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.nextRunAt = null;
+  }
+
+  // Shares a pass already in progress
+  run(): Promise<RetentionReport> {
+    if (!this.current) {
+      this.current = applyRetention()
+        .then(report => {
+          this.lastError = report.errors.length > 0 ? `${report.errors.length} files could not be deleted` : null;
+          return report;
+        })
+        .catch(error => {
+          this.lastError = error instanceof Error ? error.message : String(error);
+          throw error;
+        })
+        .finally(() => {
+          this.lastRunAt = new Date().toISOString();
+          this.current = null;
+        });
+    }
+    return this.current;
+  }
+
+  getStatus() {
+    return {
+      running: this.current !== null,
+      lastRunAt: this.lastRunAt,
+      nextRunAt: this.nextRunAt,
+      lastError: this.lastError
+    };
+  }
+
+  private schedule(delay: number): void {
+    this.nextRunAt = new Date(Date.now() + delay).toISOString();
+    this.timer = setTimeout(() => {
+      this.run()
+        .catch(error => console.error('Storage retention failed:', error))
+        .finally(() => {
+          if (this.timer) this.schedule(MANAGE_INTERVAL_MS);
+        });
+    }, delay);
+  }
+}
+
+// Export singleton instance, on globalThis like the automation engine's so
+// the retention route sees the manager instrumentation.ts scheduled
+const globalForManager = globalThis as typeof globalThis & { __storageManager?: StorageManager };
+
+export function getStorageManager(): StorageManager {
+  globalForManager.__storageManager ??= new StorageManager();
+  return globalForManager.__storageManager;
+}
@@ -0,0 +1,242 @@
+// File path: src/lib/recording-playback.ts
+
+import { spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { db } from '@/db';
+import { nvrStorageLocations, recordings } from '@/db/schema';
+import { and, asc, eq, gte, lt } from 'drizzle-orm';
+import { CameraApiError, FFMPEG_PATH, getCamera, redactCredentials } from '@/lib/camera-service';
+import { SPRITE_COLUMNS, SPRITE_HEIGHT, SPRITE_WIDTH, spriteInterval } from '@/lib/camera-thumbnails';
+import { recordingPath } from '@/lib/nvr-storage';
+
+// Playback of recorded footage by time rather than by file: the timeline of
+// a camera's recordings over a range, the file behind a recording, and
+// export of a time range as one MP4.
+//
+// A recording covers timestamp .. timestamp + duration. Recordings that
+// follow each other within SPAN_GAP_SECONDS draw as one span. Export joins
+// the overlapping files with ffmpeg's concat demuxer, trimming the first and
+// last with inpoint/outpoint, and copies the streams; cuts land on keyframes,
+// so an export can start up to a GOP early.
+
+export interface TimelineSegment {
+  id: number;
+  start: string;
+  end: string;
+  duration: number;
+  trigger: string;
+  keepForever: boolean;
+  posterUrl: string;
+  // Hover previews: tile n of the sheet shows second n * interval
+  sprite: { url: string; interval: number; columns: number; width: number; height: number };
+}
+
+export interface Timeline {
+  cameraId: number;
+  from: string;
+  to: string;
+  segments: TimelineSegment[];
+  spans: Array<{ start: string; end: string }>;
+  // Where event recordings (motion, manual) begin
+  markers: Array<{ time: string; trigger: string; recordingId: number }>;
+}
+
+export interface ExportedClip {
+  path: string;
+  filename: string;
+  size: number;
+  cleanup: () => Promise<void>;
+}
+
+const SPAN_GAP_SECONDS = 5;
+const MAX_TIMELINE_HOURS = 7 * 24;
+const MAX_EXPORT_HOURS = 6;
+// The longest recording the recorder writes (an hour-long segment or a
+// capped event); recordings starting earlier than this cannot overlap a range
+const MAX_RECORDING_SECONDS = 60 * 60;
+const EXPORT_ROOT = join(tmpdir(), 'recording-exports');
+const STDERR_TAIL_CHARS = 2000;
+
+function parseTime(value: unknown, label: string): number {
+  const time = typeof value === 'string' ? new Date(value).getTime() : NaN;
+  if (isNaN(time)) {
+    throw new CameraApiError(`${label} must be an ISO datetime`, 'INVALID_TIME_RANGE');
+  }
+  return time;
+}
+
+export function parseTimeRange(fromValue: unknown, toValue: unknown, maxHours: number): { from: number; to: number } {
+  const from = parseTime(fromValue, 'from');
+  const to = parseTime(toValue, 'to');
+  if (to <= from) {
+    throw new CameraApiError('to must be after from', 'INVALID_TIME_RANGE');
+  }
+  if (to - from > maxHours * 60 * 60 * 1000) {
+    throw new CameraApiError(`The range can be at most ${maxHours} hours`, 'TIME_RANGE_TOO_LONG');
+  }
+  return { from, to };
+}
+
+// Recordings overlapping [from, to), oldest first, with their files
+async function recordingsInRange(cameraId: number, from: number, to: number) {
+  const rows = await db.select({
+    recording: recordings,
+    locationPath: nvrStorageLocations.path
+  })
+    .from(recordings)
+    .leftJoin(nvrStorageLocations, eq(recordings.storageLocationId, nvrStorageLocations.id))
+    .where(and(
+      eq(recordings.cameraId, cameraId),
+      gte(recordings.timestamp, new Date(from - MAX_RECORDING_SECONDS * 1000).toISOString()),
+      lt(recordings.timestamp, new Date(to).toISOString())
+    ))
+    .orderBy(asc(recordings.timestamp), asc(recordings.id));
+
+  return rows
+    .map(({ recording, locationPath }) => {
+      const start = new Date(recording.timestamp).getTime();
+      return {
+        recording,
+        start,
+        end: start + (recording.duration ?? 0) * 1000,
+        path: locationPath ? recordingPath({ path: locationPath }, recording.filename) : null
+      };
+    })
+    .filter(entry => entry.end > from && entry.start < to);
+}
+
+export async function getTimeline(cameraId: number, fromValue: unknown, toValue: unknown): Promise<Timeline> {
+  await getCamera(cameraId);
+  const { from, to } = parseTimeRange(fromValue, toValue, MAX_TIMELINE_HOURS);
+  const entries = await recordingsInRange(cameraId, from, to);
+
+  const spans: Array<{ start: number; end: number }> = [];
+  for (const entry of entries) {
+    const last = spans[spans.length - 1];
+    if (last && entry.start <= last.end + SPAN_GAP_SECONDS * 1000) {
+      last.end = Math.max(last.end, entry.end);
+    } else {
+      spans.push({ start: entry.start, end: entry.end });
+    }
+  }
+
+  return {
+    cameraId,
+    from: new Date(from).toISOString(),
+    to: new Date(to).toISOString(),
+    segments: entries.map(({ recording, start, end }) => ({
+      id: recording.id,
+      start: new Date(start).toISOString(),
+      end: new Date(end).toISOString(),
+      duration: recording.duration ?? 0,
+      trigger: recording.trigger,
+      keepForever: recording.keepForever,
+      posterUrl: `/api/recordings/${recording.id}/poster`,
+      sprite: {
+        url: `/api/recordings/${recording.id}/sprite`,
+        interval: recording.spriteInterval ?? spriteInterval(Math.max(recording.duration ?? 0, 1)),
+        columns: SPRITE_COLUMNS,
+        width: SPRITE_WIDTH,
+        height: SPRITE_HEIGHT
+      }
+    })),
+    spans: spans.map(span => ({ start: new Date(span.start).toISOString(), end: new Date(span.end).toISOString() })),
+    markers: entries
+      .filter(({ recording }) => recording.trigger === 'motion' || recording.trigger === 'manual')
+      .map(({ recording, start }) => ({ time: new Date(start).toISOString(), trigger: recording.trigger, recordingId: recording.id }))
+  };
+}
+
+// The file on disk behind a recording
+export async function getRecordingFile(recordingId: number): Promise<{ path: string; size: number; filename: string }> {
+  const [row] = await db.select({ recording: recordings, locationPath: nvrStorageLocations.path })
+    .from(recordings)
+    .leftJoin(nvrStorageLocations, eq(recordings.storageLocationId, nvrStorageLocations.id))
+    .where(eq(recordings.id, recordingId))
+    .limit(1);
+  if (!row) {
+    throw new CameraApiError('Recording not found', 'RECORDING_NOT_FOUND', 404);
+  }
+
+  const path = row.locationPath ? recordingPath({ path: row.locationPath }, row.recording.filename) : null;
+  const stats = path ? await fs.stat(path).catch(() => null) : null;
+  if (!path || !stats?.isFile()) {
+    throw new CameraApiError('Recording file is missing', 'RECORDING_FILE_MISSING', 404);
+  }
+  return { path, size: stats.size, filename: row.recording.filename.split('/').pop() ?? row.recording.filename };
+}
+
+function concatLine(path: string): string {
+  return `file '${path.replace(/'/g, `'\\''`)}'`;
+}
+
+// Writes [from, to) of the camera's recordings to one MP4 in a temp
+// directory. The caller sends it and then calls cleanup().
+export async function exportClip(body: unknown): Promise<ExportedClip> {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new CameraApiError('Request body must be a JSON object', 'INVALID_BODY');
+  }
+  const { cameraId: cameraValue, from: fromValue, to: toValue } = body as Record<string, unknown>;
+  const cameraId = Number(cameraValue);
+  if (!Number.isInteger(cameraId) || cameraId <= 0) {
+    throw new CameraApiError('Valid camera ID is required', 'INVALID_ID');
+  }
+  const camera = await getCamera(cameraId);
+  const { from, to } = parseTimeRange(fromValue, toValue, MAX_EXPORT_HOURS);
+
+  // Overlapping recordings play once: a file is skipped if an earlier one
+  // already covers its span
+  const lines: string[] = [];
+  let cursor = from;
+  for (const entry of await recordingsInRange(cameraId, from, to)) {
+    if (!entry.path || entry.end <= cursor) continue;
+    if (!await fs.stat(entry.path).then(stats => stats.isFile(), () => false)) continue;
+
+    lines.push(concatLine(entry.path));
+    if (cursor > entry.start) lines.push(`inpoint ${((cursor - entry.start) / 1000).toFixed(3)}`);
+    if (to < entry.end) lines.push(`outpoint ${((to - entry.start) / 1000).toFixed(3)}`);
+    cursor = entry.end;
+  }
+  if (lines.length === 0) {
+    throw new CameraApiError('No recordings in that time range', 'NO_RECORDINGS', 404);
+  }
+
+  await fs.mkdir(EXPORT_ROOT, { recursive: true });
+  const dir = await fs.mkdtemp(join(EXPORT_ROOT, `camera_${cameraId}_`));
+  const cleanup = () => fs.rm(dir, { recursive: true, force: true });
+  const stamp = new Date(from).toISOString().slice(0, 19).replace(/[-:]/g, '').replace('T', '-');
+  const filename = `${camera.name.replace(/[^\w-]+/g, '_')}_${stamp}.mp4`;
+  const listFile = join(dir, 'segments.txt');
+  const output = join(dir, filename);
+
+  try {
+    await fs.writeFile(listFile, lines.join('\n') + '\n');
+    await new Promise<void>((resolve, reject) => {
+      let stderr = '';
+      const child = spawn(FFMPEG_PATH, [
+        '-hide_banner', '-loglevel', 'error', '-y',
+        '-f', 'concat', '-safe', '0', '-i', listFile,
+        '-c', 'copy', '-movflags', '+faststart',
+        output
+      ], { stdio: ['ignore', 'ignore', 'pipe'] });
+      child.stderr?.on('data', (chunk: Buffer) => {
+        stderr = (stderr + chunk.toString()).slice(-STDERR_TAIL_CHARS);
+      });
+      child.once('error', error => reject(new CameraApiError(`ffmpeg could not be started (${error.message})`, 'FFMPEG_UNAVAILABLE', 500)));
+      child.once('close', code => code === 0
+        ? resolve()
+        : reject(new CameraApiError(
+          `Export failed: ${redactCredentials(stderr.trim().split('\n').pop() || `ffmpeg exited with code ${code}`)}`,
+          'EXPORT_FAILED',
+          500
+        )));
+    });
+    const { size } = await fs.stat(output);
+    return { path: output, filename, size, cleanup };
+  } catch (error) {
+    await cleanup();
+    throw error;
+  }
+}
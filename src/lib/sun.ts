@@ -0,0 +1,61 @@
+// File path: src/lib/sun.ts
+
+// Sunrise and sunset from latitude/longitude, using the NOAA-style solar
+// position formulas (the same ones SunCalc uses). Accurate to within a
+// minute or so, which is plenty for automations.
+
+export interface SunTimes {
+  // Null when the sun does not rise or set that day (polar day or night)
+  sunrise: Date | null;
+  sunset: Date | null;
+}
+
+const RAD = Math.PI / 180;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const J1970 = 2440588;
+const J2000 = 2451545;
+const J0 = 0.0009;
+const OBLIQUITY = RAD * 23.4397;
+
+// Sun's upper limb touching the horizon, allowing for refraction
+const SUNRISE_ALTITUDE = RAD * -0.833;
+
+const toDays = (date: Date) => date.getTime() / DAY_MS - 0.5 + J1970 - J2000;
+const fromJulian = (julian: number) => new Date((julian + 0.5 - J1970) * DAY_MS);
+
+const solarMeanAnomaly = (days: number) => RAD * (357.5291 + 0.98560028 * days);
+
+function eclipticLongitude(meanAnomaly: number): number {
+  const center = RAD * (1.9148 * Math.sin(meanAnomaly) + 0.02 * Math.sin(2 * meanAnomaly) + 0.0003 * Math.sin(3 * meanAnomaly));
+  const perihelion = RAD * 102.9372;
+  return meanAnomaly + center + perihelion + Math.PI;
+}
+
+const declination = (longitude: number) => Math.asin(Math.sin(OBLIQUITY) * Math.sin(longitude));
+const approxTransit = (hourAngle: number, lw: number, cycle: number) => J0 + (hourAngle + lw) / (2 * Math.PI) + cycle;
+const solarTransit = (days: number, meanAnomaly: number, longitude: number) =>
+  J2000 + days + 0.0053 * Math.sin(meanAnomaly) - 0.0069 * Math.sin(2 * longitude);
+
+// Sun times for the solar day closest to `date`. Pass local noon to get the
+// times for a calendar day.
+export function getSunTimes(date: Date, latitude: number, longitude: number): SunTimes {
+  const lw = RAD * -longitude;
+  const phi = RAD * latitude;
+
+  const cycle = Math.round(toDays(date) - J0 - lw / (2 * Math.PI));
+  const days = approxTransit(0, lw, cycle);
+  const meanAnomaly = solarMeanAnomaly(days);
+  const longitudeOfSun = eclipticLongitude(meanAnomaly);
+  const dec = declination(longitudeOfSun);
+  const noon = solarTransit(days, meanAnomaly, longitudeOfSun);
+
+  const cosHourAngle = (Math.sin(SUNRISE_ALTITUDE) - Math.sin(phi) * Math.sin(dec)) / (Math.cos(phi) * Math.cos(dec));
+  if (cosHourAngle < -1 || cosHourAngle > 1) {
+    return { sunrise: null, sunset: null };
+  }
+
+  const set = solarTransit(approxTransit(Math.acos(cosHourAngle), lw, cycle), meanAnomaly, longitudeOfSun);
+  const rise = noon - (set - noon);
+
+  return { sunrise: fromJulian(rise), sunset: fromJulian(set) };
+}
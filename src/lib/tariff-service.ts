@@ -0,0 +1,448 @@
+// File path: src/lib/tariff-service.ts
+
+import { NextResponse } from 'next/server';
+import { db, type Transaction } from '@/db';
+import { energyBills, tariffs, tariffVersions } from '@/db/schema';
+import { and, asc, desc, eq, inArray, ne } from 'drizzle-orm';
+import {
+  TariffApiError,
+  addDays,
+  rangesOverlap,
+  validateEffectiveRange,
+  validateTariffRates,
+  type TariffRates,
+  type TariffVersionRates
+} from '@/lib/tariff';
+
+// Data access for the tariff API (/api/energy/tariffs). Versions of a tariff
+// never overlap; adding a version that starts while the current one is still
+// open-ended closes the current one the day before, which is how a mid-year
+// rate change is recorded. Versions that saved bills were calculated with
+// keep their rates: change them by adding a version instead.
+
+type TariffRecord = typeof tariffs.$inferSelect;
+type TariffVersionRecord = typeof tariffVersions.$inferSelect;
+
+export type TariffVersion = Omit<TariffVersionRecord, 'rates'> & { rates: TariffRates };
+export type TariffWithVersions = TariffRecord & { versions: TariffVersion[] };
+
+export interface StaleBill {
+  id: number;
+  billingMonth: string;
+  tariffVersionId: number | null;
+}
+
+// Map a service error to the JSON error shape used across the API
+export function tariffErrorResponse(error: unknown, context: string): NextResponse {
+  if (error instanceof TariffApiError) {
+    return NextResponse.json({
+      error: error.message,
+      code: error.code
+    }, { status: error.status });
+  }
+
+  if (error instanceof SyntaxError) {
+    return NextResponse.json({
+      error: 'Request body must be valid JSON',
+      code: 'INVALID_JSON'
+    }, { status: 400 });
+  }
+
+  console.error(`${context} error:`, error);
+  return NextResponse.json({
+    error: 'Internal server error: ' + error
+  }, { status: 500 });
+}
+
+export function parseId(value: string | null | undefined, code = 'INVALID_ID', label = 'tariff'): number {
+  const id = value ? parseInt(value) : NaN;
+  if (isNaN(id) || id <= 0) {
+    throw new TariffApiError(`Valid ${label} ID is required`, code);
+  }
+  return id;
+}
+
+function toVersion(row: TariffVersionRecord): TariffVersion {
+  return { ...row, rates: row.rates as TariffRates };
+}
+
+export function toVersionRates(version: TariffVersion): TariffVersionRates {
+  return {
+    id: version.id,
+    tariffId: version.tariffId,
+    version: version.version,
+    effectiveFrom: version.effectiveFrom,
+    effectiveTo: version.effectiveTo,
+    rates: version.rates
+  };
+}
+
+function optionalText(body: Record<string, any>, key: string, maxLength = 500): string | null | undefined {
+  if (!(key in body)) return undefined;
+  const value = body[key];
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value !== 'string') {
+    throw new TariffApiError(`${key} must be a string`, `INVALID_${key.toUpperCase()}`);
+  }
+  if (value.trim().length > maxLength) {
+    throw new TariffApiError(`${key} must be ${maxLength} characters or less`, `INVALID_${key.toUpperCase()}`);
+  }
+  return value.trim() || null;
+}
+
+function requireBody(body: unknown): Record<string, any> {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new TariffApiError('Request body must be a JSON object', 'INVALID_BODY');
+  }
+  return body as Record<string, any>;
+}
+
+async function requireTariff(tariffId: number): Promise<TariffRecord> {
+  const [tariff] = await db.select()
+    .from(tariffs)
+    .where(eq(tariffs.id, tariffId))
+    .limit(1);
+
+  if (!tariff) {
+    throw new TariffApiError('Tariff not found', 'TARIFF_NOT_FOUND', 404);
+  }
+  return tariff;
+}
+
+async function requireUniqueName(name: string, excludeId?: number): Promise<void> {
+  const [existing] = await db.select({ id: tariffs.id })
+    .from(tariffs)
+    .where(eq(tariffs.name, name))
+    .limit(1);
+
+  if (existing && existing.id !== excludeId) {
+    throw new TariffApiError('Tariff name already exists', 'DUPLICATE_NAME', 409);
+  }
+}
+
+async function loadVersions(tariffId: number): Promise<TariffVersion[]> {
+  const rows = await db.select()
+    .from(tariffVersions)
+    .where(eq(tariffVersions.tariffId, tariffId))
+    .orderBy(asc(tariffVersions.effectiveFrom));
+  return rows.map(toVersion);
+}
+
+async function billsUsingVersions(versionIds: number[]): Promise<number> {
+  if (versionIds.length === 0) return 0;
+  const rows = await db.select({ id: energyBills.id })
+    .from(energyBills)
+    .where(inArray(energyBills.tariffVersionId, versionIds));
+  return rows.length;
+}
+
+// Saved bills whose period overlaps a date range. Bills saved before periods
+// were recorded are matched on their calendar month.
+export async function findBillsOverlapping(range: { effectiveFrom: string; effectiveTo: string | null }): Promise<StaleBill[]> {
+  const bills = await db.select({
+    id: energyBills.id,
+    billingMonth: energyBills.billingMonth,
+    tariffVersionId: energyBills.tariffVersionId,
+    periodStart: energyBills.periodStart,
+    periodEnd: energyBills.periodEnd
+  }).from(energyBills).orderBy(asc(energyBills.billingMonth));
+
+  return bills
+    .filter(bill => rangesOverlap(range, {
+      effectiveFrom: bill.periodStart ?? `${bill.billingMonth}-01`,
+      effectiveTo: bill.periodEnd ?? `${bill.billingMonth}-31`
+    }))
+    .map(({ id, billingMonth, tariffVersionId }) => ({ id, billingMonth, tariffVersionId }));
+}
+
+async function deactivateOthers(tx: Transaction, tariffId: number, now: string): Promise<void> {
+  await tx.update(tariffs)
+    .set({ active: false, updatedAt: now })
+    .where(and(ne(tariffs.id, tariffId), eq(tariffs.active, true)));
+}
+
+// ---------------------------------------------------------------------------
+// Tariffs
+// ---------------------------------------------------------------------------
+
+export async function listTariffs(): Promise<TariffWithVersions[]> {
+  const rows = await db.select().from(tariffs).orderBy(desc(tariffs.active), asc(tariffs.name));
+  const versions = rows.length > 0
+    ? await db.select()
+      .from(tariffVersions)
+      .where(inArray(tariffVersions.tariffId, rows.map(row => row.id)))
+      .orderBy(asc(tariffVersions.effectiveFrom))
+    : [];
+
+  return rows.map(row => ({
+    ...row,
+    versions: versions.filter(version => version.tariffId === row.id).map(toVersion)
+  }));
+}
+
+export async function getTariff(tariffId: number): Promise<TariffWithVersions> {
+  const tariff = await requireTariff(tariffId);
+  return { ...tariff, versions: await loadVersions(tariffId) };
+}
+
+// The body carries the tariff fields and its first version, either nested
+// under "version" or as effectiveFrom/effectiveTo/rates/notes at the top level
+export async function createTariff(rawBody: unknown): Promise<TariffWithVersions> {
+  const body = requireBody(rawBody);
+  const name = optionalText(body, 'name', 100);
+  if (!name) {
+    throw new TariffApiError('Tariff name is required', 'MISSING_NAME');
+  }
+  await requireUniqueName(name);
+
+  const versionBody = body.version && typeof body.version === 'object' ? body.version : body;
+  const range = validateEffectiveRange(versionBody.effectiveFrom, versionBody.effectiveTo);
+  const rates = validateTariffRates(versionBody.rates);
+  const notes = optionalText(versionBody, 'notes') ?? null;
+
+  if ('active' in body && typeof body.active !== 'boolean') {
+    throw new TariffApiError('active must be a boolean', 'INVALID_ACTIVE');
+  }
+  // The first tariff is active unless the caller says otherwise
+  const [anyTariff] = await db.select({ id: tariffs.id }).from(tariffs).limit(1);
+  const active = body.active ?? !anyTariff;
+
+  const now = new Date().toISOString();
+  const tariffId = await db.transaction(async (tx) => {
+    const [tariff] = await tx.insert(tariffs).values({
+      name,
+      utility: optionalText(body, 'utility', 100) ?? null,
+      description: optionalText(body, 'description') ?? null,
+      active,
+      createdAt: now,
+      updatedAt: now
+    }).returning();
+
+    await tx.insert(tariffVersions).values({
+      tariffId: tariff.id,
+      version: 1,
+      ...range,
+      rates,
+      notes,
+      createdAt: now,
+      updatedAt: now
+    });
+
+    if (active) await deactivateOthers(tx, tariff.id, now);
+    return tariff.id;
+  });
+
+  return getTariff(tariffId);
+}
+
+export async function updateTariff(tariffId: number, rawBody: unknown): Promise<TariffWithVersions> {
+  const body = requireBody(rawBody);
+  await requireTariff(tariffId);
+
+  const updates: Partial<typeof tariffs.$inferInsert> = {};
+
+  if ('name' in body) {
+    const name = optionalText(body, 'name', 100);
+    if (!name) {
+      throw new TariffApiError('Tariff name cannot be empty', 'INVALID_NAME');
+    }
+    await requireUniqueName(name, tariffId);
+    updates.name = name;
+  }
+  if ('utility' in body) updates.utility = optionalText(body, 'utility', 100);
+  if ('description' in body) updates.description = optionalText(body, 'description');
+  if ('active' in body) {
+    if (typeof body.active !== 'boolean') {
+      throw new TariffApiError('active must be a boolean', 'INVALID_ACTIVE');
+    }
+    updates.active = body.active;
+  }
+
+  const now = new Date().toISOString();
+  await db.transaction(async (tx) => {
+    await tx.update(tariffs)
+      .set({ ...updates, updatedAt: now })
+      .where(eq(tariffs.id, tariffId));
+    if (updates.active) await deactivateOthers(tx, tariffId, now);
+  });
+
+  return getTariff(tariffId);
+}
+
+export async function deleteTariff(tariffId: number): Promise<TariffRecord> {
+  const tariff = await requireTariff(tariffId);
+  const versions = await loadVersions(tariffId);
+
+  if (await billsUsingVersions(versions.map(version => version.id)) > 0) {
+    throw new TariffApiError('Saved bills were calculated with this tariff', 'TARIFF_IN_USE', 409);
+  }
+
+  // Versions go with it (ON DELETE CASCADE)
+  await db.delete(tariffs).where(eq(tariffs.id, tariffId));
+  return tariff;
+}
+
+// ---------------------------------------------------------------------------
+// Versions
+// ---------------------------------------------------------------------------
+
+async function requireVersion(tariffId: number, versionId: number): Promise<TariffVersion> {
+  const [version] = await db.select()
+    .from(tariffVersions)
+    .where(and(eq(tariffVersions.id, versionId), eq(tariffVersions.tariffId, tariffId)))
+    .limit(1);
+
+  if (!version) {
+    throw new TariffApiError('Tariff version not found', 'VERSION_NOT_FOUND', 404);
+  }
+  return toVersion(version);
+}
+
+function requireNoOverlap(
+  range: { effectiveFrom: string; effectiveTo: string | null },
+  others: TariffVersion[]
+): void {
+  const clash = others.find(other => rangesOverlap(range, other));
+  if (clash) {
+    throw new TariffApiError(
+      `Dates overlap version ${clash.version} (${clash.effectiveFrom} to ${clash.effectiveTo ?? 'open'})`,
+      'OVERLAPPING_VERSION',
+      409
+    );
+  }
+}
+
+export async function listTariffVersions(tariffId: number): Promise<TariffVersion[]> {
+  await requireTariff(tariffId);
+  return loadVersions(tariffId);
+}
+
+export async function getTariffVersion(tariffId: number, versionId: number): Promise<TariffVersion> {
+  await requireTariff(tariffId);
+  return requireVersion(tariffId, versionId);
+}
+
+// Returns the new version, the version it closed (if any) and the saved
+// bills in its date range, which were calculated with other rates and can be
+// recalculated through POST /api/energy/bills/recalculate
+export async function createTariffVersion(tariffId: number, rawBody: unknown): Promise<{
+  version: TariffVersion;
+  closedVersion: TariffVersion | null;
+  staleBills: StaleBill[];
+}> {
+  const body = requireBody(rawBody);
+  await requireTariff(tariffId);
+
+  const range = validateEffectiveRange(body.effectiveFrom, body.effectiveTo);
+  const rates = validateTariffRates(body.rates);
+  const notes = optionalText(body, 'notes') ?? null;
+  const versions = await loadVersions(tariffId);
+
+  // An open-ended version that started earlier ends where this one begins
+  const current = versions.find(version =>
+    version.effectiveTo === null && version.effectiveFrom < range.effectiveFrom);
+  const closedTo = current ? addDays(range.effectiveFrom, -1) : null;
+  requireNoOverlap(range, versions.map(version =>
+    version === current ? { ...version, effectiveTo: closedTo } : version));
+
+  const now = new Date().toISOString();
+  const nextNumber = versions.reduce((max, version) => Math.max(max, version.version), 0) + 1;
+
+  const versionId = await db.transaction(async (tx) => {
+    if (current) {
+      await tx.update(tariffVersions)
+        .set({ effectiveTo: closedTo, updatedAt: now })
+        .where(eq(tariffVersions.id, current.id));
+    }
+
+    const [created] = await tx.insert(tariffVersions).values({
+      tariffId,
+      version: nextNumber,
+      ...range,
+      rates,
+      notes,
+      createdAt: now,
+      updatedAt: now
+    }).returning();
+    return created.id;
+  });
+
+  return {
+    version: await requireVersion(tariffId, versionId),
+    closedVersion: current ? await requireVersion(tariffId, current.id) : null,
+    staleBills: await findBillsOverlapping(range)
+  };
+}
+
+export async function updateTariffVersion(tariffId: number, versionId: number, rawBody: unknown): Promise<TariffVersion> {
+  const body = requireBody(rawBody);
+  await requireTariff(tariffId);
+  const existing = await requireVersion(tariffId, versionId);
+
+  const updates: Partial<typeof tariffVersions.$inferInsert> = {};
+
+  if ('rates' in body) {
+    if (await billsUsingVersions([versionId]) > 0) {
+      throw new TariffApiError(
+        'Saved bills were calculated with this version; add a new version instead of changing its rates',
+        'VERSION_IN_USE',
+        409
+      );
+    }
+    updates.rates = validateTariffRates(body.rates);
+  }
+
+  if ('effectiveFrom' in body || 'effectiveTo' in body) {
+    const range = validateEffectiveRange(
+      'effectiveFrom' in body ? body.effectiveFrom : existing.effectiveFrom,
+      'effectiveTo' in body ? body.effectiveTo : existing.effectiveTo
+    );
+    const others = (await loadVersions(tariffId)).filter(version => version.id !== versionId);
+    requireNoOverlap(range, others);
+    Object.assign(updates, range);
+  }
+
+  if ('notes' in body) updates.notes = optionalText(body, 'notes');
+
+  await db.update(tariffVersions)
+    .set({ ...updates, updatedAt: new Date().toISOString() })
+    .where(eq(tariffVersions.id, versionId));
+
+  return requireVersion(tariffId, versionId);
+}
+
+export async function deleteTariffVersion(tariffId: number, versionId: number): Promise<TariffVersion> {
+  await requireTariff(tariffId);
+  const version = await requireVersion(tariffId, versionId);
+
+  if (await billsUsingVersions([versionId]) > 0) {
+    throw new TariffApiError('Saved bills were calculated with this version', 'VERSION_IN_USE', 409);
+  }
+
+  await db.delete(tariffVersions).where(eq(tariffVersions.id, versionId));
+  return version;
+}
+
+// ---------------------------------------------------------------------------
+// Billing
+// ---------------------------------------------------------------------------
+
+// The tariff to bill with (the active one unless an ID is given) and its
+// versions. Which version applies to which day is up to calculateBill.
+export async function resolveBillingTariff(tariffId?: number | null): Promise<TariffWithVersions> {
+  if (tariffId) return getTariff(tariffId);
+
+  const [active] = await db.select()
+    .from(tariffs)
+    .where(eq(tariffs.active, true))
+    .limit(1);
+
+  if (!active) {
+    throw new TariffApiError(
+      'No active tariff. Create one with POST /api/energy/tariffs or activate an existing one',
+      'NO_ACTIVE_TARIFF',
+      422
+    );
+  }
+  return { ...active, versions: await loadVersions(active.id) };
+}
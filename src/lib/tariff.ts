@@ -0,0 +1,919 @@
+// File path: src/lib/tariff.ts
+
+// Utility tariffs: rate structures and the bill calculation built on them.
+//
+// A tariff (rate plan) has numbered versions, each effective over a date
+// range. A version's rates hold a monthly customer charge, tiered energy
+// rates, optional time-of-use periods, seasonal overrides, demand charges,
+// and the riders and taxes applied on top, in the order they are listed:
+//
+//   customer charge + energy charges        tiers (+ TOU adders)
+//   + demand charges                        peak kW x $/kW
+//   + riders, in order                      fuel, franchise fee, ...
+//   = subtotal
+//   + taxes, in order                       gross receipts, public service, ...
+//   = total
+//
+// A billing period that crosses a version boundary or a season boundary is
+// split into segments. Each segment is billed with its own rates, with the
+// customer charge, fixed riders, demand charges and tier limits prorated by
+// the share of the billing month it covers.
+//
+// Time-of-use kWh and peak demand come from interval readings when a day has
+// them. Without intervals, TOU kWh are estimated from the length of each
+// period and demand cannot be priced (the result says so).
+//
+// Energy exported to the grid is compensated according to the version's
+// export terms, if it has any:
+//   net_metering   exports offset imports in the same segment, then kWh
+//                  banked on earlier bills; only the net import is priced.
+//                  A surplus is banked for the next bill with rollover, or
+//                  paid out at the credit rate without.
+//   export_credit  imports are priced in full and every exported kWh earns
+//                  the credit rate. Credit comes off the total; with rollover
+//                  what the bill cannot absorb is banked, without it is paid
+//                  out (the total goes negative).
+// On the bill ending in the true-up month the whole bank is paid out, banked
+// kWh at the credit rate. Under net metering with TOU periods the net import
+// keeps the shape of the day's import.
+
+export const ADJUSTMENT_TYPES = ['fixed', 'per_kwh', 'percent'] as const;
+// What a percentage rider or tax is a percentage of:
+//   energy             energy and demand charges only
+//   energy_and_riders  energy charges plus the riders listed before it
+//   subtotal           customer charge, energy charges and riders (before it)
+//   running_total      everything so far, including taxes listed before it
+export const PERCENT_BASES = ['energy', 'energy_and_riders', 'subtotal', 'running_total'] as const;
+export const TOU_DAYS = ['all', 'weekdays', 'weekends'] as const;
+export const EXPORT_METHODS = ['net_metering', 'export_credit'] as const;
+
+export type AdjustmentType = typeof ADJUSTMENT_TYPES[number];
+export type PercentBasis = typeof PERCENT_BASES[number];
+export type TouDays = typeof TOU_DAYS[number];
+export type ExportMethod = typeof EXPORT_METHODS[number];
+
+export interface TariffTier {
+  name?: string | null;
+  // Upper bound of the tier in kWh per month; null for the last tier
+  upToKwh: number | null;
+  rate: number;
+}
+
+// A time-of-use period adds `adder` $/kWh (may be negative) to the tier rate
+// for the energy used between start and end. Use a single 0-rate tier and
+// absolute rates as adders for plans that are purely time-of-use.
+export interface TouPeriod {
+  name: string;
+  days: TouDays;
+  start: string; // HH:MM, inclusive
+  end: string;   // HH:MM, exclusive; before start means overnight
+  adder: number;
+}
+
+// Demand is the highest average kW over one interval in the segment,
+// optionally only within the named TOU period (e.g. on-peak demand)
+export interface DemandCharge {
+  name: string;
+  rate: number; // $/kW
+  period: string | null;
+}
+
+export interface TariffSeason {
+  name: string;
+  months: number[]; // 1-12
+  tiers: TariffTier[];
+  touPeriods: TouPeriod[];
+}
+
+export interface TariffAdjustment {
+  name: string;
+  // Stable identifier for reporting (e.g. "fuel"), independent of the label
+  code?: string | null;
+  type: AdjustmentType;
+  // $/month for fixed, $/kWh for per_kwh, percent (4.5 = 4.5%) for percent
+  value: number;
+  basis?: PercentBasis;
+}
+
+export interface ExportTerms {
+  method: ExportMethod;
+  // $/kWh earned by exports (export_credit) or paid for surplus (net_metering)
+  creditRate: number;
+  // Bank what a bill cannot use: kWh under net metering, $ under export credit
+  rollover: boolean;
+  // Month (1-12) whose bill pays out the bank; null never settles it
+  trueUpMonth: number | null;
+}
+
+export interface TariffRates {
+  customerCharge: number;
+  // Used on days not covered by a season
+  tiers: TariffTier[];
+  touPeriods: TouPeriod[];
+  seasons: TariffSeason[];
+  demandCharges: DemandCharge[];
+  riders: TariffAdjustment[];
+  taxes: TariffAdjustment[];
+  exportTerms: ExportTerms | null;
+}
+
+export interface TariffVersionRates {
+  id: number;
+  tariffId: number;
+  version: number;
+  effectiveFrom: string;      // YYYY-MM-DD
+  effectiveTo: string | null; // YYYY-MM-DD, inclusive; null while current
+  rates: TariffRates;
+}
+
+// kWh per interval from local midnight; null where there is no reading
+export interface IntervalUsage {
+  minutes: number;
+  kwh: Array<number | null>;
+}
+
+// Usage for one day. `kwh` is imported from the grid and `exportKwh` sent
+// to it; intervals, when present, give the import's shape over the day for TOU
+// pricing and the peak for demand charges.
+export interface DailyUsage {
+  date: string;
+  kwh: number;
+  exportKwh?: number;
+  intervals?: IntervalUsage;
+}
+
+// Surplus carried from one bill to the next
+export interface BillBank {
+  kwh: number;
+  credit: number;
+}
+
+export interface BillingPeriod {
+  startDate: string;
+  endDate: string;
+  // Days in the billing month, the denominator for proration
+  cycleDays: number;
+}
+
+export interface TierCharge {
+  name: string;
+  limitKwh: number | null;
+  kwh: number;
+  rate: number;
+  cost: number;
+}
+
+export interface TouCharge {
+  name: string;
+  kwh: number;
+  adder: number;
+  cost: number;
+  estimated: boolean;
+}
+
+export interface DemandChargeLine {
+  name: string;
+  period: string | null;
+  peakKw: number | null;
+  rate: number;
+  cost: number;
+}
+
+export interface AdjustmentCharge {
+  name: string;
+  code: string | null;
+  type: AdjustmentType;
+  value: number;
+  basis: PercentBasis | null;
+  amount: number;
+}
+
+export interface BillSegment {
+  tariffVersionId: number;
+  tariffId: number;
+  version: number;
+  season: string | null;
+  startDate: string;
+  endDate: string;
+  days: number;
+  // Priced kWh: the import, less exports and banked kWh under net metering
+  kwh: number;
+  importKwh: number;
+  exportKwh: number;
+  bankKwhUsed: number;
+  surplusKwh: number;
+  // $ earned by exports in this segment, before banking
+  exportCredit: number;
+  customerCharge: number;
+  tiers: TierCharge[];
+  touPeriods: TouCharge[];
+  energyCharge: number;
+  demand: DemandChargeLine[];
+  demandCharge: number;
+  riders: AdjustmentCharge[];
+  subtotal: number;
+  taxes: AdjustmentCharge[];
+  total: number;
+}
+
+export interface BillResult {
+  startDate: string;
+  endDate: string;
+  days: number;
+  kwh: number;
+  importKwh: number;
+  exportKwh: number;
+  customerCharge: number;
+  energyCharge: number;
+  demandCharge: number;
+  riderCharges: number;
+  subtotal: number;
+  taxCharges: number;
+  // Credit taken off this bill: exports, banked credit and true-up payouts
+  exportCredit: number;
+  total: number;
+  bankStart: BillBank;
+  bankEnd: BillBank;
+  trueUp: boolean;
+  touEstimated: boolean;
+  // Demand charges apply but some segment had no interval readings
+  demandUnavailable: boolean;
+  segments: BillSegment[];
+}
+
+export class TariffApiError extends Error {
+  constructor(message: string, public readonly code: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'TariffApiError';
+  }
+}
+
+const DATE_REGEX = /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+const TIME_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+const CODE_REGEX = /^[a-z0-9_]+$/;
+const MINUTES_PER_DAY = 1440;
+
+export function isValidDate(value: unknown): value is string {
+  if (typeof value !== 'string' || !DATE_REGEX.test(value)) return false;
+  // Rejects 2025-02-30 and friends
+  return new Date(`${value}T00:00:00Z`).toISOString().startsWith(value);
+}
+
+export function addDays(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+}
+
+export function daysBetween(startDate: string, endDate: string): number {
+  return Math.round((Date.parse(`${endDate}T00:00:00Z`) - Date.parse(`${startDate}T00:00:00Z`)) / 86400000) + 1;
+}
+
+export function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function roundKwh(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+function requireNumber(value: unknown, label: string, code: string, options: { allowNegative?: boolean } = {}): number {
+  if (typeof value !== 'number' || !isFinite(value)) {
+    throw new TariffApiError(`${label} must be a number`, code);
+  }
+  if (!options.allowNegative && value < 0) {
+    throw new TariffApiError(`${label} must be zero or positive`, code);
+  }
+  return value;
+}
+
+function requireName(value: unknown, label: string, code: string): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new TariffApiError(`${label} name is required`, code);
+  }
+  return value.trim();
+}
+
+function listOf(value: unknown, label: string, code: string): unknown[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) throw new TariffApiError(`${label} must be an array`, code);
+  return value;
+}
+
+function validateTiers(value: unknown, label: string): TariffTier[] {
+  const tiers = listOf(value, label, 'INVALID_TIERS');
+  if (tiers.length === 0) {
+    throw new TariffApiError(`${label} must have at least one tier`, 'INVALID_TIERS');
+  }
+
+  let previousLimit = 0;
+  return tiers.map((raw, index) => {
+    const tier = (raw ?? {}) as Record<string, unknown>;
+    const isLast = index === tiers.length - 1;
+    const tierLabel = `${label} tier ${index + 1}`;
+
+    let upToKwh: number | null = null;
+    if (isLast) {
+      if (tier.upToKwh !== null && tier.upToKwh !== undefined) {
+        throw new TariffApiError(`${tierLabel} is the last tier and must not have an upper limit`, 'INVALID_TIERS');
+      }
+    } else {
+      upToKwh = requireNumber(tier.upToKwh, `${tierLabel} upToKwh`, 'INVALID_TIERS');
+      if (upToKwh <= previousLimit) {
+        throw new TariffApiError(`${label} tier limits must increase (tier ${index + 1})`, 'INVALID_TIERS');
+      }
+      previousLimit = upToKwh;
+    }
+
+    return {
+      name: typeof tier.name === 'string' && tier.name.trim() ? tier.name.trim() : null,
+      upToKwh,
+      rate: requireNumber(tier.rate, `${tierLabel} rate`, 'INVALID_TIERS', { allowNegative: true })
+    };
+  });
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// The minutes of the day a period covers, as [start, end) ranges
+function periodRanges(period: Pick<TouPeriod, 'start' | 'end'>): Array<[number, number]> {
+  const start = toMinutes(period.start);
+  const end = toMinutes(period.end);
+  if (start === end) return [[0, MINUTES_PER_DAY]];
+  return end > start ? [[start, end]] : [[start, MINUTES_PER_DAY], [0, end]];
+}
+
+function periodAppliesOn(period: TouPeriod, weekend: boolean): boolean {
+  return period.days === 'all' || (period.days === 'weekends') === weekend;
+}
+
+function validateTouPeriods(value: unknown, label: string): TouPeriod[] {
+  const periods = listOf(value, `${label} touPeriods`, 'INVALID_TOU_PERIOD').map((raw, index) => {
+    const period = (raw ?? {}) as Record<string, unknown>;
+    const periodLabel = `${label} TOU period ${index + 1}`;
+    const days = period.days ?? 'all';
+
+    if (typeof days !== 'string' || !(TOU_DAYS as readonly string[]).includes(days)) {
+      throw new TariffApiError(`${periodLabel} days must be one of: ${TOU_DAYS.join(', ')}`, 'INVALID_TOU_PERIOD');
+    }
+    for (const key of ['start', 'end'] as const) {
+      if (typeof period[key] !== 'string' || !TIME_REGEX.test(period[key] as string)) {
+        throw new TariffApiError(`${periodLabel} ${key} must be in HH:MM format`, 'INVALID_TOU_PERIOD');
+      }
+    }
+
+    return {
+      name: requireName(period.name, periodLabel, 'INVALID_TOU_PERIOD'),
+      days: days as TouDays,
+      start: period.start as string,
+      end: period.end as string,
+      adder: requireNumber(period.adder, `${periodLabel} adder`, 'INVALID_TOU_PERIOD', { allowNegative: true })
+    };
+  });
+
+  const names = new Set<string>();
+  for (const period of periods) {
+    if (names.has(period.name)) {
+      throw new TariffApiError(`${label} has more than one TOU period named "${period.name}"`, 'INVALID_TOU_PERIOD');
+    }
+    names.add(period.name);
+  }
+
+  // A minute of a weekday or weekend day may belong to one period at most
+  for (const weekend of [false, true]) {
+    const owner: Array<string | undefined> = new Array(MINUTES_PER_DAY);
+    for (const period of periods.filter(p => periodAppliesOn(p, weekend))) {
+      for (const [start, end] of periodRanges(period)) {
+        for (let minute = start; minute < end; minute++) {
+          if (owner[minute]) {
+            throw new TariffApiError(
+              `${label} TOU periods "${owner[minute]}" and "${period.name}" overlap`,
+              'INVALID_TOU_PERIOD'
+            );
+          }
+          owner[minute] = period.name;
+        }
+      }
+    }
+  }
+
+  return periods;
+}
+
+function validateSeasons(value: unknown): TariffSeason[] {
+  const claimed = new Map<number, string>();
+
+  return listOf(value, 'seasons', 'INVALID_SEASON').map((raw, index) => {
+    const season = (raw ?? {}) as Record<string, unknown>;
+    const name = requireName(season.name, `Season ${index + 1}`, 'INVALID_SEASON');
+    const months = listOf(season.months, `Season "${name}" months`, 'INVALID_SEASON');
+
+    if (months.length === 0) {
+      throw new TariffApiError(`Season "${name}" must cover at least one month`, 'INVALID_SEASON');
+    }
+    for (const month of months) {
+      if (typeof month !== 'number' || !Number.isInteger(month) || month < 1 || month > 12) {
+        throw new TariffApiError(`Season "${name}" months must be numbers from 1 to 12`, 'INVALID_SEASON');
+      }
+      if (claimed.has(month)) {
+        throw new TariffApiError(`Month ${month} is in both "${claimed.get(month)}" and "${name}"`, 'INVALID_SEASON');
+      }
+      claimed.set(month, name);
+    }
+
+    return {
+      name,
+      months: [...months as number[]].sort((a, b) => a - b),
+      tiers: validateTiers(season.tiers, `Season "${name}"`),
+      touPeriods: validateTouPeriods(season.touPeriods, `Season "${name}"`)
+    };
+  });
+}
+
+function validateDemandCharges(value: unknown, touNames: Set<string>): DemandCharge[] {
+  return listOf(value, 'demandCharges', 'INVALID_DEMAND_CHARGE').map((raw, index) => {
+    const charge = (raw ?? {}) as Record<string, unknown>;
+    const name = requireName(charge.name, `Demand charge ${index + 1}`, 'INVALID_DEMAND_CHARGE');
+    const period = charge.period === undefined || charge.period === null || charge.period === '' ? null : charge.period;
+
+    if (period !== null && (typeof period !== 'string' || !touNames.has(period))) {
+      throw new TariffApiError(`Demand charge "${name}" period must name a TOU period`, 'INVALID_DEMAND_CHARGE');
+    }
+
+    return {
+      name,
+      rate: requireNumber(charge.rate, `Demand charge "${name}" rate`, 'INVALID_DEMAND_CHARGE'),
+      period: period as string | null
+    };
+  });
+}
+
+function validateAdjustments(value: unknown, kind: 'rider' | 'tax'): TariffAdjustment[] {
+  const code = kind === 'rider' ? 'INVALID_RIDER' : 'INVALID_TAX';
+  const label = kind === 'rider' ? 'Rider' : 'Tax';
+
+  return listOf(value, kind === 'rider' ? 'riders' : 'taxes', code).map((raw, index) => {
+    const adjustment = (raw ?? {}) as Record<string, unknown>;
+    const name = requireName(adjustment.name, `${label} ${index + 1}`, code);
+    const type = adjustment.type;
+
+    if (typeof type !== 'string' || !(ADJUSTMENT_TYPES as readonly string[]).includes(type)) {
+      throw new TariffApiError(`${label} "${name}" type must be one of: ${ADJUSTMENT_TYPES.join(', ')}`, code);
+    }
+
+    let basis: PercentBasis | undefined;
+    if (type === 'percent') {
+      basis = (adjustment.basis ?? (kind === 'rider' ? 'energy' : 'subtotal')) as PercentBasis;
+      if (!PERCENT_BASES.includes(basis)) {
+        throw new TariffApiError(`${label} "${name}" basis must be one of: ${PERCENT_BASES.join(', ')}`, code);
+      }
+      // Riders are applied before any tax, so a running total is just the subtotal
+      if (kind === 'rider' && basis === 'running_total') basis = 'subtotal';
+    }
+
+    const adjustmentCode = adjustment.code === undefined || adjustment.code === null || adjustment.code === ''
+      ? null
+      : adjustment.code;
+    if (adjustmentCode !== null && (typeof adjustmentCode !== 'string' || !CODE_REGEX.test(adjustmentCode))) {
+      throw new TariffApiError(`${label} "${name}" code may only contain lowercase letters, digits and underscores`, code);
+    }
+
+    return {
+      name,
+      code: adjustmentCode,
+      type: type as AdjustmentType,
+      // Credits are allowed as negative amounts
+      value: requireNumber(adjustment.value, `${label} "${name}" value`, code, { allowNegative: true }),
+      ...(basis ? { basis } : {})
+    };
+  });
+}
+
+function validateExportTerms(value: unknown): ExportTerms | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new TariffApiError('exportTerms must be an object', 'INVALID_EXPORT_TERMS');
+  }
+  const terms = value as Record<string, unknown>;
+
+  if (typeof terms.method !== 'string' || !(EXPORT_METHODS as readonly string[]).includes(terms.method)) {
+    throw new TariffApiError(`exportTerms method must be one of: ${EXPORT_METHODS.join(', ')}`, 'INVALID_EXPORT_TERMS');
+  }
+  const trueUpMonth = terms.trueUpMonth ?? null;
+  if (trueUpMonth !== null && (typeof trueUpMonth !== 'number' || !Number.isInteger(trueUpMonth) || trueUpMonth < 1 || trueUpMonth > 12)) {
+    throw new TariffApiError('exportTerms trueUpMonth must be a month from 1 to 12', 'INVALID_EXPORT_TERMS');
+  }
+  if (terms.rollover !== undefined && typeof terms.rollover !== 'boolean') {
+    throw new TariffApiError('exportTerms rollover must be true or false', 'INVALID_EXPORT_TERMS');
+  }
+
+  return {
+    method: terms.method as ExportMethod,
+    creditRate: requireNumber(terms.creditRate ?? 0, 'exportTerms creditRate', 'INVALID_EXPORT_TERMS'),
+    rollover: terms.rollover === true,
+    trueUpMonth: trueUpMonth as number | null
+  };
+}
+
+// Normalize a rates document from a request body, throwing a TariffApiError
+// describing the first problem found
+export function validateTariffRates(value: unknown): TariffRates {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new TariffApiError('rates must be an object', 'INVALID_RATES');
+  }
+  const rates = value as Record<string, unknown>;
+
+  const touPeriods = validateTouPeriods(rates.touPeriods, 'Rates');
+  const seasons = validateSeasons(rates.seasons);
+  const touNames = new Set([...touPeriods, ...seasons.flatMap(season => season.touPeriods)].map(period => period.name));
+
+  return {
+    customerCharge: requireNumber(rates.customerCharge ?? 0, 'customerCharge', 'INVALID_RATES'),
+    tiers: validateTiers(rates.tiers, 'Rates'),
+    touPeriods,
+    seasons,
+    demandCharges: validateDemandCharges(rates.demandCharges, touNames),
+    riders: validateAdjustments(rates.riders, 'rider'),
+    taxes: validateAdjustments(rates.taxes, 'tax'),
+    exportTerms: validateExportTerms(rates.exportTerms)
+  };
+}
+
+export function validateEffectiveRange(effectiveFrom: unknown, effectiveTo: unknown): { effectiveFrom: string; effectiveTo: string | null } {
+  if (!isValidDate(effectiveFrom)) {
+    throw new TariffApiError('effectiveFrom must be a date in YYYY-MM-DD format', 'INVALID_EFFECTIVE_DATE');
+  }
+  if (effectiveTo === undefined || effectiveTo === null || effectiveTo === '') {
+    return { effectiveFrom, effectiveTo: null };
+  }
+  if (!isValidDate(effectiveTo)) {
+    throw new TariffApiError('effectiveTo must be a date in YYYY-MM-DD format', 'INVALID_EFFECTIVE_DATE');
+  }
+  if (effectiveTo < effectiveFrom) {
+    throw new TariffApiError('effectiveTo must not be before effectiveFrom', 'INVALID_EFFECTIVE_DATE');
+  }
+  return { effectiveFrom, effectiveTo };
+}
+
+export function rangesOverlap(
+  a: { effectiveFrom: string; effectiveTo: string | null },
+  b: { effectiveFrom: string; effectiveTo: string | null }
+): boolean {
+  return (a.effectiveTo === null || b.effectiveFrom <= a.effectiveTo)
+    && (b.effectiveTo === null || a.effectiveFrom <= b.effectiveTo);
+}
+
+// ---------------------------------------------------------------------------
+// Calculation
+// ---------------------------------------------------------------------------
+
+function versionOn(versions: TariffVersionRates[], date: string): TariffVersionRates | undefined {
+  return versions.find(version =>
+    version.effectiveFrom <= date && (version.effectiveTo === null || date <= version.effectiveTo));
+}
+
+function seasonOn(rates: TariffRates, date: string): TariffSeason | null {
+  const month = parseInt(date.slice(5, 7));
+  return rates.seasons.find(season => season.months.includes(month)) ?? null;
+}
+
+function isWeekend(date: string): boolean {
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return day === 0 || day === 6;
+}
+
+function periodShare(period: TouPeriod): number {
+  return periodRanges(period).reduce((sum, [start, end]) => sum + end - start, 0) / MINUTES_PER_DAY;
+}
+
+function coversMinute(period: TouPeriod, minute: number): boolean {
+  return periodRanges(period).some(([start, end]) => minute >= start && minute < end);
+}
+
+// Intervals are matched to TOU periods by their start time
+function intervalsIn(intervals: IntervalUsage, period: TouPeriod | null): number[] {
+  const indexes: number[] = [];
+  intervals.kwh.forEach((value, index) => {
+    if (value !== null && (!period || coversMinute(period, index * intervals.minutes))) indexes.push(index);
+  });
+  return indexes;
+}
+
+function tierName(tier: TariffTier, index: number, previousLimit: number, count: number): string {
+  if (tier.name) return tier.name;
+  if (count === 1) return 'Energy charge';
+  return tier.upToKwh === null
+    ? `Tier ${index + 1} (over ${previousLimit} kWh)`
+    : `Tier ${index + 1} (${previousLimit}-${tier.upToKwh} kWh)`;
+}
+
+function applyAdjustment(
+  adjustment: TariffAdjustment,
+  fraction: number,
+  kwh: number,
+  bases: Record<PercentBasis, number>
+): AdjustmentCharge {
+  let amount: number;
+  switch (adjustment.type) {
+    case 'fixed':
+      amount = adjustment.value * fraction;
+      break;
+    case 'per_kwh':
+      amount = adjustment.value * kwh;
+      break;
+    case 'percent':
+      amount = bases[adjustment.basis ?? 'energy'] * adjustment.value / 100;
+      break;
+  }
+
+  return {
+    name: adjustment.name,
+    code: adjustment.code ?? null,
+    type: adjustment.type,
+    value: adjustment.value,
+    basis: adjustment.type === 'percent' ? adjustment.basis ?? 'energy' : null,
+    amount
+  };
+}
+
+interface SegmentDraft {
+  version: TariffVersionRates;
+  season: TariffSeason | null;
+  dates: string[];
+}
+
+// Banked kWh are taken from and added to `bank` as the segment is billed
+function billSegment(draft: SegmentDraft, usageByDate: Map<string, DailyUsage>, cycleDays: number, bank: BillBank): {
+  segment: BillSegment;
+  touEstimated: boolean;
+  demandUnavailable: boolean;
+} {
+  const { version, season, dates } = draft;
+  const rates = version.rates;
+  const tiers = season ? season.tiers : rates.tiers;
+  const touPeriods = season ? season.touPeriods : rates.touPeriods;
+  const fraction = dates.length / cycleDays;
+
+  const demandCharges = rates.demandCharges ?? [];
+  const terms = rates.exportTerms ?? null;
+
+  let importKwh = 0;
+  let exportKwh = 0;
+  for (const date of dates) {
+    importKwh += usageByDate.get(date)?.kwh ?? 0;
+    exportKwh += usageByDate.get(date)?.exportKwh ?? 0;
+  }
+
+  let kwh = importKwh;
+  let bankKwhUsed = 0;
+  let surplusKwh = 0;
+  let exportCredit = 0;
+  if (terms?.method === 'net_metering') {
+    const net = importKwh - exportKwh;
+    bankKwhUsed = Math.min(bank.kwh, Math.max(0, net));
+    surplusKwh = Math.max(0, -net);
+    kwh = Math.max(0, net) - bankKwhUsed;
+    bank.kwh -= bankKwhUsed;
+    if (terms.rollover) bank.kwh += surplusKwh;
+    else exportCredit = surplusKwh * terms.creditRate;
+  } else if (terms?.method === 'export_credit') {
+    exportCredit = exportKwh * terms.creditRate;
+  }
+  // Each day's share of the priced kWh follows its import
+  const scale = importKwh > 0 ? kwh / importKwh : 0;
+
+  let touEstimated = false;
+  let hasIntervals = false;
+  const touKwh = new Map<string, { kwh: number; estimated: boolean }>(
+    touPeriods.map(period => [period.name, { kwh: 0, estimated: false }])
+  );
+  const peaks = demandCharges.map(() => 0);
+
+  for (const date of dates) {
+    const usage = usageByDate.get(date);
+    if (!usage) continue;
+    const dayKwh = usage.kwh * scale;
+
+    const weekend = isWeekend(date);
+    const intervals = usage.intervals;
+    const measured = intervals
+      ? intervalsIn(intervals, null).reduce((sum, index) => sum + intervals.kwh[index]!, 0)
+      : 0;
+    if (intervals) hasIntervals = true;
+
+    for (const period of touPeriods) {
+      if (!periodAppliesOn(period, weekend)) continue;
+      const entry = touKwh.get(period.name)!;
+      if (intervals && measured > 0) {
+        // The day's billed kWh, split in the proportions the intervals show
+        const inPeriod = intervalsIn(intervals, period).reduce((sum, index) => sum + intervals.kwh[index]!, 0);
+        entry.kwh += dayKwh * inPeriod / measured;
+      } else {
+        entry.kwh += dayKwh * periodShare(period);
+        entry.estimated = true;
+        touEstimated = true;
+      }
+    }
+
+    if (intervals) {
+      demandCharges.forEach((charge, chargeIndex) => {
+        const period = charge.period ? touPeriods.find(p => p.name === charge.period) : null;
+        // A demand charge tied to a period this season or day lacks never applies
+        if (charge.period && (!period || !periodAppliesOn(period, weekend))) return;
+        for (const index of intervalsIn(intervals, period ?? null)) {
+          peaks[chargeIndex] = Math.max(peaks[chargeIndex], intervals.kwh[index]! * 60 / intervals.minutes);
+        }
+      });
+    }
+  }
+
+  // Tier limits are monthly, so a partial month gets a proportional share
+  let remaining = kwh;
+  let previousLimit = 0;
+  const tierCharges = tiers.map((tier, index) => {
+    const name = tierName(tier, index, previousLimit, tiers.length);
+    const width = tier.upToKwh === null ? Infinity : (tier.upToKwh - previousLimit) * fraction;
+    const tierKwh = Math.max(0, Math.min(remaining, width));
+    remaining -= tierKwh;
+    previousLimit = tier.upToKwh ?? previousLimit;
+    return {
+      name,
+      limitKwh: tier.upToKwh === null ? null : roundKwh(tier.upToKwh * fraction),
+      kwh: tierKwh,
+      rate: tier.rate,
+      cost: tierKwh * tier.rate
+    };
+  });
+
+  const touCharges = touPeriods.map(period => {
+    const entry = touKwh.get(period.name)!;
+    return {
+      name: period.name,
+      kwh: entry.kwh,
+      adder: period.adder,
+      cost: entry.kwh * period.adder,
+      estimated: entry.estimated
+    };
+  });
+
+  const demand = demandCharges.map((charge, index) => {
+    const peakKw = hasIntervals ? Math.round(peaks[index] * 1000) / 1000 : null;
+    return {
+      name: charge.name,
+      period: charge.period,
+      peakKw,
+      rate: charge.rate,
+      cost: (peakKw ?? 0) * charge.rate * fraction
+    };
+  });
+
+  const customerCharge = rates.customerCharge * fraction;
+  const energyCharge = tierCharges.reduce((sum, tier) => sum + tier.cost, 0)
+    + touCharges.reduce((sum, period) => sum + period.cost, 0);
+  const demandCharge = demand.reduce((sum, line) => sum + line.cost, 0);
+  const usageCharges = energyCharge + demandCharge;
+
+  let riderTotal = 0;
+  const riders = rates.riders.map(rider => {
+    const charge = applyAdjustment(rider, fraction, kwh, {
+      energy: usageCharges,
+      energy_and_riders: usageCharges + riderTotal,
+      subtotal: customerCharge + usageCharges + riderTotal,
+      running_total: customerCharge + usageCharges + riderTotal
+    });
+    riderTotal += charge.amount;
+    return charge;
+  });
+
+  const subtotal = customerCharge + usageCharges + riderTotal;
+  let taxTotal = 0;
+  const taxes = rates.taxes.map(tax => {
+    const charge = applyAdjustment(tax, fraction, kwh, {
+      energy: usageCharges,
+      energy_and_riders: usageCharges + riderTotal,
+      subtotal,
+      running_total: subtotal + taxTotal
+    });
+    taxTotal += charge.amount;
+    return charge;
+  });
+
+  return {
+    touEstimated,
+    demandUnavailable: demandCharges.length > 0 && !hasIntervals,
+    segment: {
+      tariffVersionId: version.id,
+      tariffId: version.tariffId,
+      version: version.version,
+      season: season?.name ?? null,
+      startDate: dates[0],
+      endDate: dates[dates.length - 1],
+      days: dates.length,
+      kwh,
+      importKwh,
+      exportKwh,
+      bankKwhUsed,
+      surplusKwh,
+      exportCredit,
+      customerCharge,
+      tiers: tierCharges,
+      touPeriods: touCharges,
+      energyCharge,
+      demand,
+      demandCharge,
+      riders,
+      subtotal,
+      taxes,
+      total: subtotal + taxTotal
+    }
+  };
+}
+
+// Bill `usage` over `period` with whichever of `versions` is effective on
+// each day, starting from the bank left by the previous bill. Throws a
+// TariffApiError when a day is not covered by any version. Amounts in the
+// result are unrounded; round for display with roundCurrency.
+export function calculateBill(
+  versions: TariffVersionRates[],
+  period: BillingPeriod,
+  usage: DailyUsage[],
+  bankStart: BillBank = { kwh: 0, credit: 0 }
+): BillResult {
+  const usageByDate = new Map<string, DailyUsage>();
+  for (const day of usage) {
+    const existing = usageByDate.get(day.date);
+    if (!existing) {
+      usageByDate.set(day.date, { ...day });
+      continue;
+    }
+    existing.kwh += day.kwh;
+    existing.exportKwh = (existing.exportKwh ?? 0) + (day.exportKwh ?? 0);
+    existing.intervals = existing.intervals ?? day.intervals;
+  }
+
+  const drafts: SegmentDraft[] = [];
+  for (let date = period.startDate; date <= period.endDate; date = addDays(date, 1)) {
+    const version = versionOn(versions, date);
+    if (!version) {
+      throw new TariffApiError(`No tariff version is in effect on ${date}`, 'NO_TARIFF_FOR_DATE', 422);
+    }
+    const season = seasonOn(version.rates, date);
+    const last = drafts[drafts.length - 1];
+    if (last && last.version.id === version.id && last.season?.name === season?.name) {
+      last.dates.push(date);
+    } else {
+      drafts.push({ version, season, dates: [date] });
+    }
+  }
+
+  const bank = { ...bankStart };
+  const billed = drafts.map(draft => billSegment(draft, usageByDate, period.cycleDays, bank));
+  const segments = billed.map(entry => entry.segment);
+  const sum = (pick: (segment: BillSegment) => number) => segments.reduce((total, segment) => total + pick(segment), 0);
+
+  // Credit is settled on the whole bill under the terms in effect at its end
+  const terms = drafts[drafts.length - 1].version.rates.exportTerms ?? null;
+  const charges = sum(segment => segment.total);
+  let credit = sum(segment => segment.exportCredit);
+  const trueUp = terms?.trueUpMonth === parseInt(period.endDate.slice(5, 7));
+
+  if (trueUp && terms) {
+    credit += bank.credit + bank.kwh * terms.creditRate;
+    bank.kwh = 0;
+    bank.credit = 0;
+  } else if (terms?.method === 'export_credit' && terms.rollover) {
+    const available = credit + bank.credit;
+    credit = Math.min(available, Math.max(0, charges));
+    bank.credit = available - credit;
+  }
+
+  return {
+    startDate: period.startDate,
+    endDate: period.endDate,
+    days: daysBetween(period.startDate, period.endDate),
+    kwh: sum(segment => segment.kwh),
+    importKwh: sum(segment => segment.importKwh),
+    exportKwh: sum(segment => segment.exportKwh),
+    customerCharge: sum(segment => segment.customerCharge),
+    energyCharge: sum(segment => segment.energyCharge),
+    demandCharge: sum(segment => segment.demandCharge),
+    riderCharges: sum(segment => segment.riders.reduce((total, rider) => total + rider.amount, 0)),
+    subtotal: sum(segment => segment.subtotal),
+    taxCharges: sum(segment => segment.taxes.reduce((total, tax) => total + tax.amount, 0)),
+    exportCredit: credit,
+    total: charges - credit,
+    bankStart: { ...bankStart },
+    bankEnd: bank,
+    trueUp,
+    touEstimated: billed.some(entry => entry.touEstimated),
+    demandUnavailable: billed.some(entry => entry.demandUnavailable),
+    segments
+  };
+}
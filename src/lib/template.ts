@@ -0,0 +1,768 @@
+// File path: src/lib/template.ts
+
+import type { HAEntity } from '@/lib/homeassistant';
+
+// Templates for automation values: a sandboxed subset of the Jinja
+// expressions Home Assistant uses, so most HA templates carry over as-is.
+//
+//   "{{ trigger.entity_id }}"                      the entity that fired
+//   "{{ state_attr('light.desk', 'brightness') + 20 }}"
+//   "Door {{ trigger.to_state.state | upper }} at {{ now().hour }}h"
+//
+// Only {{ expression }} blocks are supported, no {% statements %}. An
+// expression can use literals, variables, member access (a.b, a['b'], a[0]),
+// arithmetic (+ - * / // %), "~" string concatenation, comparisons, "in",
+// and/or/not, "x if cond else y", the functions in FUNCTIONS and the filters
+// in FILTERS. Nothing else is reachable: there is no eval, no method calls
+// and no access to prototypes, so a template can only read the values it is
+// given. A value that is a single {{ }} block keeps the expression's type
+// (number, boolean, list, ...); anything else renders to a string.
+
+export class TemplateSyntaxError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(`${message} at position ${position}`);
+    this.name = 'TemplateSyntaxError';
+  }
+}
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+export interface TemplateContext {
+  variables: Record<string, unknown>;
+  getState: (entityId: string) => HAEntity | null;
+  now?: Date;
+}
+
+type Node =
+  | { type: 'literal'; value: unknown }
+  | { type: 'list'; items: Node[] }
+  | { type: 'name'; name: string }
+  | { type: 'member'; object: Node; property: Node }
+  | { type: 'call'; name: string; args: Node[] }
+  | { type: 'filter'; name: string; input: Node; args: Node[] }
+  | { type: 'unary'; operator: '-' | 'not'; operand: Node }
+  | { type: 'binary'; operator: string; left: Node; right: Node }
+  | { type: 'logical'; operator: 'and' | 'or'; left: Node; right: Node }
+  | { type: 'conditional'; test: Node; consequent: Node; alternate: Node };
+
+type Segment = string | Node;
+
+interface Token {
+  type: 'number' | 'string' | 'name' | 'op' | 'end';
+  value: string | number;
+  position: number;
+}
+
+const OPERATORS = ['//', '==', '!=', '<=', '>=', '+', '-', '*', '/', '%', '~', '<', '>', '(', ')', '[', ']', '.', ',', '|'];
+const KEYWORD_LITERALS: Record<string, unknown> = {
+  true: true, True: true, false: false, False: false, none: null, None: null, null: null
+};
+const FORBIDDEN_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor']);
+const MAX_DEPTH = 50;
+// Longest string and list an expression may build. Repeated replace or
+// concatenation grows them geometrically (variables can build on earlier
+// variables), so each step is checked, not just the result.
+const MAX_STRING_LENGTH = 100_000;
+const MAX_LIST_LENGTH = 10_000;
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+// Tokens from `start` up to and including the closing "}}"
+function tokenize(text: string, start: number): { tokens: Token[]; end: number } {
+  const tokens: Token[] = [];
+  let position = start;
+
+  while (position < text.length) {
+    const char = text[position];
+
+    if (/\s/.test(char)) {
+      position++;
+    } else if (text.startsWith('}}', position)) {
+      tokens.push({ type: 'end', value: '}}', position });
+      return { tokens, end: position + 2 };
+    } else if (/[0-9]/.test(char)) {
+      const match = text.slice(position).match(/^\d+(\.\d+)?([eE][+-]?\d+)?/)!;
+      tokens.push({ type: 'number', value: Number(match[0]), position });
+      position += match[0].length;
+    } else if (char === '"' || char === "'") {
+      let value = '';
+      let index = position + 1;
+      while (index < text.length && text[index] !== char) {
+        if (text[index] === '\\' && index + 1 < text.length) {
+          const escaped = text[index + 1];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+          index += 2;
+        } else {
+          value += text[index++];
+        }
+      }
+      if (index >= text.length) throw new TemplateSyntaxError('Unterminated string', position);
+      tokens.push({ type: 'string', value, position });
+      position = index + 1;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = text.slice(position).match(/^[A-Za-z_][A-Za-z0-9_]*/)!;
+      tokens.push({ type: 'name', value: match[0], position });
+      position += match[0].length;
+    } else {
+      const operator = OPERATORS.find(candidate => text.startsWith(candidate, position));
+      if (!operator) throw new TemplateSyntaxError(`Unexpected character "${char}"`, position);
+      tokens.push({ type: 'op', value: operator, position });
+      position += operator.length;
+    }
+  }
+
+  throw new TemplateSyntaxError('Missing closing "}}"', start);
+}
+
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): Node {
+    const node = this.expression();
+    const token = this.peek();
+    if (token.type !== 'end') this.fail(token, `Unexpected "${token.value}"`);
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private isOp(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'op' && token.value === value;
+  }
+
+  private isKeyword(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'name' && token.value === value;
+  }
+
+  private expect(value: string): void {
+    const token = this.next();
+    if (token.type !== 'op' || token.value !== value) this.fail(token, `Expected "${value}"`);
+  }
+
+  private fail(token: Token, message: string): never {
+    throw new TemplateSyntaxError(token.type === 'end' ? `${message} before "}}"` : message, token.position);
+  }
+
+  private nested(parse: () => Node): Node {
+    if (++this.depth > MAX_DEPTH) this.fail(this.peek(), 'Expression is nested too deeply');
+    try {
+      return parse();
+    } finally {
+      this.depth--;
+    }
+  }
+
+  private expression(): Node {
+    return this.nested(() => this.conditional());
+  }
+
+  private conditional(): Node {
+    const consequent = this.or();
+    if (!this.isKeyword('if')) return consequent;
+    this.next();
+    const test = this.or();
+    // Like Jinja, a missing else yields none
+    if (!this.isKeyword('else')) return { type: 'conditional', test, consequent, alternate: { type: 'literal', value: null } };
+    this.next();
+    return { type: 'conditional', test, consequent, alternate: this.conditional() };
+  }
+
+  private or(): Node {
+    let left = this.and();
+    while (this.isKeyword('or')) {
+      this.next();
+      left = { type: 'logical', operator: 'or', left, right: this.and() };
+    }
+    return left;
+  }
+
+  private and(): Node {
+    let left = this.not();
+    while (this.isKeyword('and')) {
+      this.next();
+      left = { type: 'logical', operator: 'and', left, right: this.not() };
+    }
+    return left;
+  }
+
+  private not(): Node {
+    if (this.isKeyword('not')) {
+      this.next();
+      return { type: 'unary', operator: 'not', operand: this.nested(() => this.not()) };
+    }
+    return this.comparison();
+  }
+
+  private comparison(): Node {
+    let left = this.additive();
+    for (;;) {
+      const token = this.peek();
+      if (token.type === 'op' && ['==', '!=', '<', '>', '<=', '>='].includes(token.value as string)) {
+        this.next();
+        left = { type: 'binary', operator: token.value as string, left, right: this.additive() };
+      } else if (this.isKeyword('in')) {
+        this.next();
+        left = { type: 'binary', operator: 'in', left, right: this.additive() };
+      } else if (this.isKeyword('not') && this.tokens[this.index + 1]?.type === 'name' && this.tokens[this.index + 1].value === 'in') {
+        this.index += 2;
+        left = { type: 'unary', operator: 'not', operand: { type: 'binary', operator: 'in', left, right: this.additive() } };
+      } else {
+        return left;
+      }
+    }
+  }
+
+  private additive(): Node {
+    let left = this.multiplicative();
+    while (this.isOp('+') || this.isOp('-') || this.isOp('~')) {
+      const operator = this.next().value as string;
+      left = { type: 'binary', operator, left, right: this.multiplicative() };
+    }
+    return left;
+  }
+
+  private multiplicative(): Node {
+    let left = this.unary();
+    while (this.isOp('*') || this.isOp('/') || this.isOp('//') || this.isOp('%')) {
+      const operator = this.next().value as string;
+      left = { type: 'binary', operator, left, right: this.unary() };
+    }
+    return left;
+  }
+
+  private unary(): Node {
+    if (this.isOp('-')) {
+      this.next();
+      return { type: 'unary', operator: '-', operand: this.nested(() => this.unary()) };
+    }
+    if (this.isOp('+')) {
+      this.next();
+      return this.nested(() => this.unary());
+    }
+    return this.postfix();
+  }
+
+  // Member access binds tighter than filters, which bind tighter than
+  // arithmetic: "a.b | int + 1" is "((a.b) | int) + 1"
+  private postfix(): Node {
+    let node = this.primary();
+
+    for (;;) {
+      if (this.isOp('.')) {
+        this.next();
+        const token = this.next();
+        if (token.type === 'name') node = { type: 'member', object: node, property: { type: 'literal', value: token.value } };
+        else if (token.type === 'number' && Number.isInteger(token.value)) node = { type: 'member', object: node, property: { type: 'literal', value: token.value } };
+        else this.fail(token, 'Expected an attribute name after "."');
+      } else if (this.isOp('[')) {
+        this.next();
+        const property = this.expression();
+        this.expect(']');
+        node = { type: 'member', object: node, property };
+      } else if (this.isOp('(')) {
+        this.fail(this.peek(), 'Only the built-in functions can be called');
+      } else if (this.isOp('|')) {
+        this.next();
+        const token = this.next();
+        if (token.type !== 'name') this.fail(token, 'Expected a filter name after "|"');
+        const name = token.value as string;
+        if (!(name in FILTERS)) this.fail(token, `Unknown filter "${name}"`);
+        node = { type: 'filter', name, input: node, args: this.isOp('(') ? this.arguments() : [] };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private arguments(): Node[] {
+    this.expect('(');
+    const args: Node[] = [];
+    while (!this.isOp(')')) {
+      args.push(this.expression());
+      if (!this.isOp(')')) this.expect(',');
+    }
+    this.next();
+    return args;
+  }
+
+  private primary(): Node {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+      case 'string':
+        return { type: 'literal', value: token.value };
+
+      case 'name': {
+        const name = token.value as string;
+        if (name in KEYWORD_LITERALS) return { type: 'literal', value: KEYWORD_LITERALS[name] };
+        if (this.isOp('(')) {
+          if (!(name in FUNCTIONS)) this.fail(token, `Unknown function "${name}"`);
+          return { type: 'call', name, args: this.arguments() };
+        }
+        return { type: 'name', name };
+      }
+
+      case 'op':
+        if (token.value === '(') {
+          const node = this.expression();
+          this.expect(')');
+          return node;
+        }
+        if (token.value === '[') {
+          const items: Node[] = [];
+          while (!this.isOp(']')) {
+            items.push(this.expression());
+            if (!this.isOp(']')) this.expect(',');
+          }
+          this.next();
+          return { type: 'list', items };
+        }
+        return this.fail(token, `Unexpected "${token.value}"`);
+
+      default:
+        return this.fail(token, 'Expected an expression');
+    }
+  }
+}
+
+const templateCache = new Map<string, Segment[]>();
+const MAX_CACHED_TEMPLATES = 500;
+
+function parseTemplate(text: string): Segment[] {
+  const cached = templateCache.get(text);
+  if (cached) return cached;
+
+  const statement = text.search(/\{%|\{#/);
+  if (statement !== -1) {
+    throw new TemplateSyntaxError('Only {{ expression }} blocks are supported, not {% statements %} or {# comments #}', statement);
+  }
+
+  const segments: Segment[] = [];
+  let position = 0;
+  while (position < text.length) {
+    const open = text.indexOf('{{', position);
+    if (open === -1) {
+      segments.push(text.slice(position));
+      break;
+    }
+    if (open > position) segments.push(text.slice(position, open));
+
+    const { tokens, end } = tokenize(text, open + 2);
+    if (tokens.length === 1) throw new TemplateSyntaxError('Empty expression', open);
+    segments.push(new Parser(tokens).parse());
+    position = end;
+  }
+
+  if (templateCache.size >= MAX_CACHED_TEMPLATES) templateCache.clear();
+  templateCache.set(text, segments);
+  return segments;
+}
+
+// Strings with {% or {# are treated as (unsupported) templates too, so they
+// are reported instead of being passed through literally
+export function isTemplate(value: unknown): value is string {
+  return typeof value === 'string' && /\{[{%#]/.test(value);
+}
+
+// Throws a TemplateSyntaxError describing the first problem
+export function validateTemplate(text: string): void {
+  parseTemplate(text);
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+// What now() returns: readable fields like Python's datetime, rendered as ISO
+class TemplateDateTime {
+  readonly year: number;
+  readonly month: number;
+  readonly day: number;
+  readonly hour: number;
+  readonly minute: number;
+  readonly second: number;
+  // Monday is 0, as in Python
+  readonly weekday: number;
+  readonly timestamp: number;
+
+  constructor(date: Date) {
+    this.year = date.getFullYear();
+    this.month = date.getMonth() + 1;
+    this.day = date.getDate();
+    this.hour = date.getHours();
+    this.minute = date.getMinutes();
+    this.second = date.getSeconds();
+    this.weekday = (date.getDay() + 6) % 7;
+    this.timestamp = date.getTime() / 1000;
+  }
+
+  toString(): string {
+    return new Date(this.timestamp * 1000).toISOString();
+  }
+}
+
+function typeName(value: unknown): string {
+  if (value === null || value === undefined) return 'none';
+  if (Array.isArray(value)) return 'list';
+  if (value instanceof TemplateDateTime) return 'datetime';
+  return typeof value === 'object' ? 'object' : typeof value;
+}
+
+function truthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (value && typeof value === 'object' && !(value instanceof TemplateDateTime)) return Object.keys(value).length > 0;
+  return Boolean(value);
+}
+
+export function stringifyTemplateValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'string') return value;
+  if (value instanceof TemplateDateTime) return value.toString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function equals(left: unknown, right: unknown): boolean {
+  if (left === right) return true;
+  if (left === undefined || right === undefined) return (left ?? null) === (right ?? null);
+  if (typeof left === 'object' && typeof right === 'object' && left !== null && right !== null) {
+    return stringifyTemplateValue(left) === stringifyTemplateValue(right);
+  }
+  return false;
+}
+
+function toNumber(value: unknown, fallback?: unknown): number {
+  const number = typeof value === 'number' ? value
+    : typeof value === 'boolean' ? Number(value)
+    : typeof value === 'string' && value.trim() !== '' ? Number(value)
+    : NaN;
+  if (!isNaN(number)) return number;
+  if (fallback !== undefined) return fallback as number;
+  throw new TemplateError(`Cannot convert ${JSON.stringify(stringifyTemplateValue(value))} to a number; add a default, e.g. | float(0)`);
+}
+
+function requireNumbers(operator: string, left: unknown, right: unknown): [number, number] {
+  if (typeof left !== 'number' || typeof right !== 'number') {
+    throw new TemplateError(`Cannot apply "${operator}" to ${typeName(left)} and ${typeName(right)}; convert with | float or | int`);
+  }
+  return [left, right];
+}
+
+function readMember(object: unknown, property: unknown): unknown {
+  if (object === null || object === undefined || typeof object !== 'object') return null;
+
+  if (Array.isArray(object)) {
+    if (typeof property !== 'number' || !Number.isInteger(property)) return null;
+    return object[property < 0 ? object.length + property : property] ?? null;
+  }
+
+  const key = String(property);
+  if (FORBIDDEN_PROPERTIES.has(key) || !Object.prototype.hasOwnProperty.call(object, key)) return null;
+  return (object as Record<string, unknown>)[key] ?? null;
+}
+
+function entityState(context: TemplateContext, entityId: unknown): HAEntity | null {
+  if (typeof entityId !== 'string') throw new TemplateError('Entity ID must be a string');
+  return context.getState(entityId);
+}
+
+function arity(name: string, args: unknown[], min: number, max = min): void {
+  if (args.length < min || args.length > max) {
+    const expected = min === max ? `${min}` : `${min} to ${max}`;
+    throw new TemplateError(`${name}() takes ${expected} argument${max === 1 ? '' : 's'}, got ${args.length}`);
+  }
+}
+
+function roundTo(value: unknown, digits: unknown = 0): number {
+  const factor = Math.pow(10, toNumber(digits));
+  return Math.round(toNumber(value) * factor) / factor;
+}
+
+const FUNCTIONS: Record<string, (args: unknown[], context: TemplateContext) => unknown> = {
+  now: (args, context) => {
+    arity('now', args, 0);
+    return new TemplateDateTime(context.now || new Date());
+  },
+  states: (args, context) => {
+    arity('states', args, 1);
+    return entityState(context, args[0])?.state ?? 'unknown';
+  },
+  state_attr: (args, context) => {
+    arity('state_attr', args, 2);
+    return readMember(entityState(context, args[0])?.attributes ?? null, args[1]);
+  },
+  is_state: (args, context) => {
+    arity('is_state', args, 2);
+    const state = entityState(context, args[0])?.state;
+    return Array.isArray(args[1]) ? args[1].includes(state) : state === args[1];
+  },
+  as_timestamp: args => {
+    arity('as_timestamp', args, 1, 2);
+    if (args[0] instanceof TemplateDateTime) return args[0].timestamp;
+    const time = typeof args[0] === 'number' ? args[0] * 1000 : Date.parse(String(args[0]));
+    if (isNaN(time)) {
+      if (args.length > 1) return args[1];
+      throw new TemplateError(`Cannot read ${JSON.stringify(stringifyTemplateValue(args[0]))} as a time`);
+    }
+    return time / 1000;
+  },
+  float: args => {
+    arity('float', args, 1, 2);
+    return toNumber(args[0], args[1]);
+  },
+  int: args => {
+    arity('int', args, 1, 2);
+    return Math.trunc(toNumber(args[0], args[1]));
+  },
+  round: args => {
+    arity('round', args, 1, 2);
+    return roundTo(args[0], args[1]);
+  },
+  min: args => Math.min(...(args.length === 1 && Array.isArray(args[0]) ? args[0] : args).map(value => toNumber(value))),
+  max: args => Math.max(...(args.length === 1 && Array.isArray(args[0]) ? args[0] : args).map(value => toNumber(value)))
+};
+
+const FILTERS: Record<string, (input: unknown, args: unknown[]) => unknown> = {
+  float: (input, args) => toNumber(input, args[0]),
+  int: (input, args) => Math.trunc(toNumber(input, args[0])),
+  round: (input, args) => roundTo(input, args[0]),
+  abs: input => Math.abs(toNumber(input)),
+  default: (input, args) => input === null || input === undefined || (args[1] === true && !truthy(input)) ? args[0] ?? '' : input,
+  string: input => stringifyTemplateValue(input),
+  lower: input => stringifyTemplateValue(input).toLowerCase(),
+  upper: input => stringifyTemplateValue(input).toUpperCase(),
+  title: input => stringifyTemplateValue(input).toLowerCase().replace(/\b\w/g, char => char.toUpperCase()),
+  trim: input => stringifyTemplateValue(input).trim(),
+  replace: (input, args) => {
+    const parts = stringifyTemplateValue(input).split(stringifyTemplateValue(args[0]));
+    const replacement = stringifyTemplateValue(args[1]);
+    const length = parts.reduce((sum, part) => sum + part.length, 0) + (parts.length - 1) * replacement.length;
+    return parts.join(limitLength(replacement, length));
+  },
+  length: input => Array.isArray(input) || typeof input === 'string' ? input.length
+    : input && typeof input === 'object' ? Object.keys(input).length : 0,
+  join: (input, args) => {
+    if (!Array.isArray(input)) return stringifyTemplateValue(input);
+    const items = input.map(stringifyTemplateValue);
+    const separator = args[0] === undefined ? '' : stringifyTemplateValue(args[0]);
+    const length = items.reduce((sum, item) => sum + item.length, 0) + Math.max(items.length - 1, 0) * separator.length;
+    return items.join(limitLength(separator, length));
+  },
+  first: input => Array.isArray(input) ? input[0] ?? null : null,
+  last: input => Array.isArray(input) ? input[input.length - 1] ?? null : null,
+  tojson: input => JSON.stringify(input instanceof TemplateDateTime ? input.toString() : input ?? null),
+  from_json: input => {
+    try {
+      return JSON.parse(stringifyTemplateValue(input));
+    } catch {
+      throw new TemplateError('from_json: value is not valid JSON');
+    }
+  }
+};
+
+function evaluate(node: Node, context: TemplateContext): unknown {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+
+    case 'list':
+      return node.items.map(item => evaluate(item, context));
+
+    case 'name':
+      if (!Object.prototype.hasOwnProperty.call(context.variables, node.name)) {
+        throw new TemplateError(`Unknown variable "${node.name}"`);
+      }
+      return context.variables[node.name] ?? null;
+
+    case 'member':
+      return readMember(evaluate(node.object, context), evaluate(node.property, context));
+
+    case 'call':
+      return FUNCTIONS[node.name](node.args.map(arg => evaluate(arg, context)), context);
+
+    case 'filter':
+      return FILTERS[node.name](evaluate(node.input, context), node.args.map(arg => evaluate(arg, context)));
+
+    case 'unary': {
+      const operand = evaluate(node.operand, context);
+      if (node.operator === 'not') return !truthy(operand);
+      return -requireNumbers('-', 0, operand)[1];
+    }
+
+    case 'logical': {
+      const left = evaluate(node.left, context);
+      if (node.operator === 'and') return truthy(left) ? evaluate(node.right, context) : left;
+      return truthy(left) ? left : evaluate(node.right, context);
+    }
+
+    case 'conditional':
+      return truthy(evaluate(node.test, context)) ? evaluate(node.consequent, context) : evaluate(node.alternate, context);
+
+    case 'binary':
+      return evaluateBinary(node.operator, evaluate(node.left, context), evaluate(node.right, context));
+  }
+}
+
+// Returns `value` when a string of `length` (default: its own) is allowed
+function limitLength<T extends string>(value: T, length: number = value.length): T {
+  if (length > MAX_STRING_LENGTH) {
+    throw new TemplateError(`Result is longer than ${MAX_STRING_LENGTH} characters`);
+  }
+  return value;
+}
+
+function evaluateBinary(operator: string, left: unknown, right: unknown): unknown {
+  switch (operator) {
+    case '+':
+      if (typeof left === 'string' && typeof right === 'string') return limitLength(left + right);
+      if (Array.isArray(left) && Array.isArray(right)) {
+        if (left.length + right.length > MAX_LIST_LENGTH) {
+          throw new TemplateError(`Result has more than ${MAX_LIST_LENGTH} items`);
+        }
+        return [...left, ...right];
+      }
+      return requireNumbers(operator, left, right).reduce((a, b) => a + b);
+    case '-':
+      return requireNumbers(operator, left, right).reduce((a, b) => a - b);
+    case '*':
+      return requireNumbers(operator, left, right).reduce((a, b) => a * b);
+    case '/':
+    case '//':
+    case '%': {
+      const [a, b] = requireNumbers(operator, left, right);
+      if (b === 0) throw new TemplateError('Division by zero');
+      if (operator === '/') return a / b;
+      if (operator === '//') return Math.floor(a / b);
+      // Python modulo takes the sign of the divisor
+      return ((a % b) + b) % b;
+    }
+    case '~':
+      return limitLength(stringifyTemplateValue(left) + stringifyTemplateValue(right));
+    case '==':
+      return equals(left, right);
+    case '!=':
+      return !equals(left, right);
+    case '<':
+    case '>':
+    case '<=':
+    case '>=': {
+      const comparable = (typeof left === 'number' && typeof right === 'number') || (typeof left === 'string' && typeof right === 'string');
+      if (!comparable) {
+        throw new TemplateError(`Cannot compare ${typeName(left)} and ${typeName(right)} with "${operator}"; convert with | float or | int`);
+      }
+      const order = typeof left === 'number' ? left - (right as number) : (left as string).localeCompare(right as string);
+      return operator === '<' ? order < 0 : operator === '>' ? order > 0 : operator === '<=' ? order <= 0 : order >= 0;
+    }
+    case 'in':
+      if (typeof right === 'string') return right.includes(stringifyTemplateValue(left));
+      if (Array.isArray(right)) return right.some(item => equals(item, left));
+      if (right && typeof right === 'object') return Object.prototype.hasOwnProperty.call(right, String(left));
+      throw new TemplateError(`Cannot use "in" with ${typeName(right)}`);
+    default:
+      throw new TemplateError(`Unknown operator "${operator}"`);
+  }
+}
+
+// Render one string. Plain strings are returned unchanged.
+export function renderTemplate(text: string, context: TemplateContext): unknown {
+  if (!isTemplate(text)) return text;
+
+  const segments = parseTemplate(text);
+  if (segments.length === 1 && typeof segments[0] !== 'string') {
+    const value = evaluate(segments[0], context);
+    if (typeof value === 'string') return limitLength(value);
+    return value instanceof TemplateDateTime ? value.toString() : value ?? null;
+  }
+
+  return limitLength(segments.map(segment => typeof segment === 'string' ? segment : limitLength(stringifyTemplateValue(evaluate(segment, context)))).join(''));
+}
+
+// Render every template string inside a JSON value (objects, arrays, strings)
+export function renderTemplates<T>(value: T, context: TemplateContext): T {
+  if (typeof value === 'string') return renderTemplate(value, context) as T;
+  if (Array.isArray(value)) return value.map(item => renderTemplates(item, context)) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, renderTemplates(item, context)])) as T;
+  }
+  return value;
+}
+
+// Every template string inside a JSON value, with the path it was found at
+export function findTemplates(value: unknown, path = ''): Array<{ path: string; template: string }> {
+  if (isTemplate(value)) return [{ path, template: value }];
+  if (Array.isArray(value)) return value.flatMap((item, index) => findTemplates(item, `${path}[${index}]`));
+  if (value && typeof value === 'object') {
+    return Object.entries(value).flatMap(([key, item]) => findTemplates(item, path ? `${path}.${key}` : key));
+  }
+  return [];
+}
+
+function collectFromNode(node: Node, entityIds: Set<string>): void {
+  switch (node.type) {
+    case 'call': {
+      const [first] = node.args;
+      if (['states', 'state_attr', 'is_state'].includes(node.name) && first?.type === 'literal' && typeof first.value === 'string') {
+        entityIds.add(first.value);
+      }
+      node.args.forEach(arg => collectFromNode(arg, entityIds));
+      break;
+    }
+    case 'list':
+      node.items.forEach(item => collectFromNode(item, entityIds));
+      break;
+    case 'member':
+      collectFromNode(node.object, entityIds);
+      collectFromNode(node.property, entityIds);
+      break;
+    case 'filter':
+      collectFromNode(node.input, entityIds);
+      node.args.forEach(arg => collectFromNode(arg, entityIds));
+      break;
+    case 'unary':
+      collectFromNode(node.operand, entityIds);
+      break;
+    case 'binary':
+    case 'logical':
+      collectFromNode(node.left, entityIds);
+      collectFromNode(node.right, entityIds);
+      break;
+    case 'conditional':
+      collectFromNode(node.test, entityIds);
+      collectFromNode(node.consequent, entityIds);
+      collectFromNode(node.alternate, entityIds);
+      break;
+  }
+}
+
+// Entity IDs the templates in `value` read with a literal ID, so callers can
+// fetch their states before rendering. Unparseable templates are skipped.
+export function referencedEntityIds(value: unknown): string[] {
+  const entityIds = new Set<string>();
+  for (const { template } of findTemplates(value)) {
+    try {
+      parseTemplate(template).forEach(segment => typeof segment !== 'string' && collectFromNode(segment, entityIds));
+    } catch {
+      // Reported when the template is rendered
+    }
+  }
+  return Array.from(entityIds);
+}